@@ -0,0 +1,107 @@
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { formatSchemaErrors } from "./helpers/schema";
+import {
+  ConfigSchemaName,
+  GENERATED_TYPES_PATH,
+  listSchemas,
+  renderConfigTypes,
+  resolveConfigFile,
+  schemaNameForFile,
+} from "./helpers/config";
+
+/*//////////////////////////////////////////////////////////////
+                            HELPERS
+//////////////////////////////////////////////////////////////*/
+
+const resolvePath = (maybePath: string): string =>
+  path.isAbsolute(maybePath) ? maybePath : path.join(process.cwd(), maybePath);
+
+/** Generated types, formatted with the repo's prettier config */
+const formatConfigTypes = async (): Promise<string> => {
+  const prettier = await import("prettier");
+  const options = await prettier.resolveConfig(GENERATED_TYPES_PATH);
+  return prettier.format(renderConfigTypes(), {
+    ...options,
+    filepath: GENERATED_TYPES_PATH,
+  });
+};
+
+/*//////////////////////////////////////////////////////////////
+                    TASK: GENERATE CONFIG TYPES
+//////////////////////////////////////////////////////////////*/
+
+task("config:types", "Generate types/config.generated.ts from config/schemas")
+  .addFlag("check", "Fail if the generated file is out of date instead")
+  .setAction(async (taskArgs: { check?: boolean }) => {
+    const source = await formatConfigTypes();
+    const relative = path.relative(process.cwd(), GENERATED_TYPES_PATH);
+    const current = fs.existsSync(GENERATED_TYPES_PATH)
+      ? fs.readFileSync(GENERATED_TYPES_PATH, "utf8")
+      : undefined;
+
+    if (taskArgs.check) {
+      if (current !== source) {
+        throw new Error(
+          `${relative} is out of date: run npx hardhat config:types`
+        );
+      }
+      console.log(`✅ ${relative} matches config/schemas`);
+      return;
+    }
+    if (current === source) {
+      console.log(`✅ ${relative} is up to date`);
+      return;
+    }
+    fs.writeFileSync(GENERATED_TYPES_PATH, source);
+    console.log(`📝 Wrote ${relative} (${listSchemas().join(", ")})`);
+  });
+
+/*//////////////////////////////////////////////////////////////
+                    TASK: VALIDATE A CONFIG FILE
+//////////////////////////////////////////////////////////////*/
+
+task(
+  "config:validate",
+  "Resolve references in config files and validate them against their schemas"
+)
+  .addVariadicPositionalParam("files", "Config JSON files to validate")
+  .addOptionalParam(
+    "schema",
+    `Schema to validate against (default: from the file name; one of ${listSchemas().join(", ")})`
+  )
+  .setAction(
+    async (
+      taskArgs: { files: string[]; schema?: string },
+      hre: HardhatRuntimeEnvironment
+    ) => {
+      let failed = 0;
+      for (const file of taskArgs.files.map(resolvePath)) {
+        const relative = path.relative(process.cwd(), file);
+        const name = (taskArgs.schema ?? schemaNameForFile(file)) as
+          | ConfigSchemaName
+          | undefined;
+        if (!name) {
+          console.log(
+            `❌ ${relative}: no schema matches the file name; pass --schema`
+          );
+          failed++;
+          continue;
+        }
+        const { errors } = resolveConfigFile(hre, name, file);
+        if (errors.length > 0) {
+          console.log(
+            `❌ ${relative} (${name}):\n${formatSchemaErrors(errors)}`
+          );
+          failed++;
+        } else {
+          console.log(`✅ ${relative} (${name})`);
+        }
+      }
+      if (failed > 0) {
+        throw new Error(`${failed} config file(s) failed validation`);
+      }
+    }
+  );
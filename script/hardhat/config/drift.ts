@@ -0,0 +1,52 @@
+import { TrackedRead } from "../types/manifest";
+
+const OWNER: TrackedRead = {
+  label: "owner",
+  signature: "function owner() view returns (address)",
+};
+
+/**
+ * Getters compared against the manifest by deployments:diff, by contract name
+ * (proxy implementation/admin slots and beacon implementations are always checked)
+ */
+export const TRACKED_READS: Record<string, TrackedRead[]> = {
+  ProxyAdmin: [OWNER],
+  Dust: [OWNER],
+  DustLock: [
+    { label: "team", signature: "function team() view returns (address)" },
+    {
+      label: "minLockAmount",
+      signature: "function minLockAmount() view returns (uint256)",
+    },
+    {
+      label: "revenueReward",
+      signature: "function revenueReward() view returns (address)",
+    },
+  ],
+  DustRewardsController: [
+    {
+      label: "getTransferStrategy(Dust)",
+      signature:
+        "function getTransferStrategy(address reward) view returns (address)",
+      args: ["Dust"],
+    },
+  ],
+  UserVaultRegistry: [
+    OWNER,
+    {
+      label: "executor",
+      signature: "function executor() view returns (address)",
+    },
+    {
+      label: "maxSwapSlippageBps",
+      signature: "function maxSwapSlippageBps() view returns (uint256)",
+    },
+  ],
+  UserVaultBeacon: [OWNER],
+  NeverlandDustHelper: [OWNER],
+  EpochManager: [OWNER],
+  LeaderboardConfig: [OWNER],
+  NFTPartnershipRegistry: [OWNER],
+  VotingPowerMultiplier: [OWNER],
+  LeaderboardKeeper: [OWNER],
+};
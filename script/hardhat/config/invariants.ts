@@ -0,0 +1,416 @@
+import { MaxUint256, ZeroAddress, formatEther } from "ethers";
+import { ExpectedSource } from "../types/verify";
+import {
+  bounds,
+  bytecodeMatch,
+  custom,
+  ownership,
+  readView,
+  registerInvariants,
+  role,
+  view,
+  wiring,
+} from "../helpers/checks";
+
+const cfg = (path: string, config?: string): ExpectedSource => ({
+  from: "config",
+  path,
+  config,
+});
+const contract = (name: string): ExpectedSource => ({ from: "contract", name });
+const leaderboard = (path: string) => cfg(path, "leaderboard");
+const keeper = (path: string) => cfg(path, "keeper");
+
+const MAX_BPS = BigInt(10000);
+const ADDRESS = "address";
+const UINT = "uint256";
+
+/*//////////////////////////////////////////////////////////////
+                      NEVERLAND CORE PROTOCOL
+//////////////////////////////////////////////////////////////*/
+
+registerInvariants(
+  ownership("Dust", cfg("dust.initialOwner"), { pending: "pendingOwner" }),
+  bounds("Dust", "Total Supply", view("totalSupply", UINT), {
+    equals: cfg("dust.totalSupply"),
+    expectedInEther: true,
+    format: "ether",
+  }),
+  custom("Dust", "Minted to Owner", async (ctx) => {
+    const owner: string = await readView(ctx, "Dust", view("owner", ADDRESS));
+    const [balance, supply]: bigint[] = await Promise.all([
+      readView(ctx, "Dust", view("balanceOf", UINT, ADDRESS), [owner]),
+      readView(ctx, "Dust", view("totalSupply", UINT)),
+    ]);
+    return {
+      status: balance === supply ? "pass" : "warn",
+      details: `Owner has ${formatEther(balance)} DUST`,
+    };
+  }),
+  bytecodeMatch("Dust")
+);
+
+registerInvariants(
+  role("DustLock", "Team", view("team", ADDRESS), cfg("dustLock.team"), {
+    pending: "pendingTeam",
+  }),
+  role(
+    "DustLock",
+    "Early Withdraw Treasury",
+    view("earlyWithdrawTreasury", ADDRESS),
+    cfg("dustLock.earlyWithdrawTreasury")
+  ),
+  bounds("DustLock", "Min Lock Amount", view("minLockAmount", UINT), {
+    equals: cfg("dustLock.minLockAmount"),
+    format: "ether",
+  }),
+  wiring("DustLock", "Token", view("token", ADDRESS), contract("Dust")),
+  wiring(
+    "DustLock",
+    "Revenue Reward",
+    view("revenueReward", ADDRESS),
+    contract("RevenueReward")
+  ),
+  bytecodeMatch("DustLock")
+);
+
+registerInvariants(
+  role(
+    "DustRewardsController",
+    "Emission Manager",
+    view("getEmissionManager", ADDRESS),
+    cfg("dustRewardsController.emissionManager")
+  ),
+  // Zero until configureAssets sets up emissions
+  wiring(
+    "DustRewardsController",
+    "Transfer Strategy",
+    view("getTransferStrategy", ADDRESS, ADDRESS),
+    contract("DustLockTransferStrategy"),
+    { args: [contract("Dust")], unsetIsPending: true }
+  ),
+  bytecodeMatch("DustRewardsController")
+);
+
+registerInvariants(
+  role(
+    "RevenueReward",
+    "Distributor",
+    view("rewardDistributor", ADDRESS),
+    cfg("revenueReward.distributor")
+  ),
+  wiring(
+    "RevenueReward",
+    "DustLock",
+    view("dustLock", ADDRESS),
+    contract("DustLock")
+  ),
+  bytecodeMatch("RevenueReward")
+);
+
+registerInvariants(
+  wiring(
+    "DustLockTransferStrategy",
+    "Incentives Controller",
+    view("getIncentivesController", ADDRESS),
+    contract("DustRewardsController")
+  ),
+  role(
+    "DustLockTransferStrategy",
+    "Rewards Admin",
+    view("getRewardsAdmin", ADDRESS),
+    cfg("transferStrategy.rewardsAdmin")
+  ),
+  role(
+    "DustLockTransferStrategy",
+    "DUST Vault",
+    view("DUST_VAULT", ADDRESS),
+    cfg("transferStrategy.dustVault")
+  ),
+  wiring(
+    "DustLockTransferStrategy",
+    "DustLock",
+    view("DUST_LOCK", ADDRESS),
+    contract("DustLock")
+  ),
+  custom("DustLockTransferStrategy", "DUST Vault Approval", async (ctx) => {
+    const strategy = ctx.manifest.contracts.DustLockTransferStrategy.address;
+    const vault: string = await readView(
+      ctx,
+      "DustLockTransferStrategy",
+      view("DUST_VAULT", ADDRESS)
+    );
+    const allowance: bigint = await readView(
+      ctx,
+      "Dust",
+      view("allowance", UINT, ADDRESS, ADDRESS),
+      [vault, strategy]
+    );
+    return allowance === MaxUint256
+      ? { status: "pass", details: "MaxUint256 approved" }
+      : {
+          status: "warn",
+          expected: "MaxUint256",
+          actual: formatEther(allowance),
+          details: `Call Dust.approve(${strategy}, MaxUint256) from ${vault}`,
+        };
+  })
+);
+
+/*//////////////////////////////////////////////////////////////
+                         DUST PRICE HELPER
+//////////////////////////////////////////////////////////////*/
+
+registerInvariants(
+  ownership("NeverlandDustHelper", cfg("dustHelper.owner")),
+  wiring(
+    "NeverlandDustHelper",
+    "DUST Token",
+    view("dustToken", ADDRESS),
+    contract("Dust")
+  ),
+  wiring(
+    "NeverlandDustHelper",
+    "Pair",
+    view("pair", ADDRESS),
+    cfg("dustHelper.uniswapPair")
+  ),
+  custom("NeverlandDustHelper", "Oracle Sources", async (ctx) => {
+    const sources: Record<string, string> = {
+      dustPair: await readView(
+        ctx,
+        "NeverlandDustHelper",
+        view("dustPair", ADDRESS)
+      ),
+      pairOracle: await readView(
+        ctx,
+        "NeverlandDustHelper",
+        view("pairOracle", ADDRESS)
+      ),
+      v4PoolManager: await readView(
+        ctx,
+        "NeverlandDustHelper",
+        view("v4PoolManager", ADDRESS)
+      ),
+    };
+    const configured = Object.entries(sources).filter(
+      ([, address]) => address !== ZeroAddress
+    );
+    if (configured.length === 0) {
+      return {
+        status: "warn",
+        details: "No oracle configured; using the hardcoded price",
+      };
+    }
+    const missingCode: string[] = [];
+    for (const [label, address] of configured) {
+      const code = await ctx.hre.ethers.provider.getCode(address);
+      if (code === "0x") missingCode.push(`${label} (${address})`);
+    }
+    const summary = configured
+      .map(([label, address]) => `${label}=${address}`)
+      .join(", ");
+    return missingCode.length > 0
+      ? {
+          status: "fail",
+          actual: summary,
+          details: `No code at ${missingCode.join(", ")}`,
+        }
+      : { status: "pass", actual: summary };
+  }),
+  custom("NeverlandDustHelper", "Price", async (ctx) => {
+    const [price, fromOracle]: [bigint, boolean] = await readView(
+      ctx,
+      "NeverlandDustHelper",
+      "function getPrice() view returns (uint256 price, bool fromOracle)"
+    );
+    const [min, max]: bigint[] = await Promise.all([
+      readView(ctx, "NeverlandDustHelper", view("minReasonablePrice", UINT)),
+      readView(ctx, "NeverlandDustHelper", view("maxReasonablePrice", UINT)),
+    ]);
+    return {
+      status: price >= min && price <= max ? "pass" : "fail",
+      expected: `${min}..${max}`,
+      actual: price.toString(),
+      details: fromOracle ? "From oracle" : "Hardcoded",
+    };
+  })
+);
+
+/*//////////////////////////////////////////////////////////////
+                       SELF-REPAYING LOANS
+//////////////////////////////////////////////////////////////*/
+
+// UserVaultFactory keeps the beacon in a private variable after the
+// Initializable and ReentrancyGuardUpgradeable slots (see .openzeppelin layout)
+const USER_VAULT_FACTORY_BEACON_SLOT = 51;
+
+registerInvariants(
+  ownership("UserVaultRegistry", cfg("selfRepaying.registry.owner"), {
+    pending: "pendingOwner",
+  }),
+  role(
+    "UserVaultRegistry",
+    "Executor",
+    view("executor", ADDRESS),
+    cfg("selfRepaying.registry.executor")
+  ),
+  bounds(
+    "UserVaultRegistry",
+    "Max Swap Slippage",
+    view("maxSwapSlippageBps", UINT),
+    {
+      equals: cfg("selfRepaying.registry.maxSwapSlippageBps"),
+      max: MAX_BPS,
+      format: "bps",
+    }
+  ),
+  bytecodeMatch("UserVaultRegistry")
+);
+
+registerInvariants(
+  ownership("UserVaultBeacon", cfg("selfRepaying.beaconOwner")),
+  wiring(
+    "UserVaultBeacon",
+    "Implementation",
+    view("implementation", ADDRESS),
+    contract("UserVaultImplementation")
+  ),
+  bytecodeMatch("UserVaultImplementation")
+);
+
+registerInvariants(
+  wiring(
+    "UserVaultFactory",
+    "Registry",
+    view("userVaultRegistry", ADDRESS),
+    contract("UserVaultRegistry")
+  ),
+  wiring(
+    "UserVaultFactory",
+    "Revenue Reward",
+    view("revenueReward", ADDRESS),
+    contract("RevenueReward")
+  ),
+  role(
+    "UserVaultFactory",
+    "Pool Addresses Provider Registry",
+    view("poolAddressesProviderRegistry", ADDRESS),
+    cfg("selfRepaying.poolAddressesProviderRegistry")
+  ),
+  custom("UserVaultFactory", "Beacon", async (ctx) => {
+    const expected = ctx.manifest.contracts.UserVaultBeacon?.address;
+    if (!expected) {
+      return { status: "skip", details: "UserVaultBeacon is not deployed" };
+    }
+    const word = await ctx.hre.ethers.provider.getStorage(
+      ctx.manifest.contracts.UserVaultFactory.address,
+      USER_VAULT_FACTORY_BEACON_SLOT
+    );
+    const actual = ctx.hre.ethers.getAddress(`0x${word.slice(-40)}`);
+    return {
+      status: actual.toLowerCase() === expected.toLowerCase() ? "pass" : "fail",
+      expected,
+      actual,
+    };
+  }),
+  bytecodeMatch("UserVaultFactory")
+);
+
+registerInvariants(ownership("ProxyAdmin", cfg("proxyAdmin.owner")));
+
+/*//////////////////////////////////////////////////////////////
+                            LEADERBOARD
+//////////////////////////////////////////////////////////////*/
+
+registerInvariants(
+  ownership("LeaderboardConfig", leaderboard("leaderboard.initialOwner")),
+  ...(
+    [
+      ["Deposit Rate", "depositRateBps"],
+      ["Borrow Rate", "borrowRateBps"],
+      ["VP Rate", "vpRateBps"],
+    ] as const
+  ).map(([name, key]) =>
+    bounds("LeaderboardConfig", name, view(key, UINT), {
+      equals: leaderboard(`leaderboard.${key}`),
+      max: MAX_BPS,
+      format: "bps",
+    })
+  ),
+  ...(
+    [
+      ["Supply Daily Bonus", "supplyDailyBonus"],
+      ["Borrow Daily Bonus", "borrowDailyBonus"],
+      ["Repay Daily Bonus", "repayDailyBonus"],
+      ["Withdraw Daily Bonus", "withdrawDailyBonus"],
+      ["Cooldown", "cooldownSeconds"],
+      ["Min Daily Bonus USD", "minDailyBonusUsd"],
+    ] as const
+  ).map(([name, key]) =>
+    bounds("LeaderboardConfig", name, view(key, UINT), {
+      equals: leaderboard(`leaderboard.${key}`),
+    })
+  )
+);
+
+registerInvariants(
+  ownership("EpochManager", leaderboard("epochManager.initialOwner"))
+);
+
+registerInvariants(
+  ownership("NFTPartnershipRegistry", leaderboard("nftRegistry.initialOwner")),
+  bounds("NFTPartnershipRegistry", "First Bonus", view("firstBonus", UINT), {
+    equals: leaderboard("nftRegistry.firstBonus"),
+    format: "bps",
+  }),
+  bounds("NFTPartnershipRegistry", "Decay Ratio", view("decayRatio", UINT), {
+    equals: leaderboard("nftRegistry.decayRatio"),
+    max: MAX_BPS,
+    format: "bps",
+  })
+);
+
+registerInvariants(
+  ownership(
+    "VotingPowerMultiplier",
+    leaderboard("votingPowerMultiplier.initialOwner")
+  ),
+  wiring(
+    "VotingPowerMultiplier",
+    "DustLock",
+    view("dustLock", ADDRESS),
+    contract("DustLock")
+  ),
+  bounds("VotingPowerMultiplier", "Tier Count", view("getTierCount", UINT), {
+    min: BigInt(1),
+  })
+);
+
+registerInvariants(
+  ownership("LeaderboardKeeper", keeper("keeper.initialOwner")),
+  role(
+    "LeaderboardKeeper",
+    "Keeper",
+    view("keeper", ADDRESS),
+    keeper("keeper.keeperAddress")
+  ),
+  bounds(
+    "LeaderboardKeeper",
+    "Min Settlement Interval",
+    view("minSettlementInterval", UINT),
+    { equals: keeper("keeper.minSettlementInterval") }
+  ),
+  wiring(
+    "LeaderboardKeeper",
+    "DustLock",
+    view("dustLock", ADDRESS),
+    contract("DustLock")
+  ),
+  wiring(
+    "LeaderboardKeeper",
+    "NFT Registry",
+    view("nftRegistry", ADDRESS),
+    contract("NFTPartnershipRegistry")
+  )
+);
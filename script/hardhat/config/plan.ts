@@ -0,0 +1,743 @@
+import { MaxUint256, ZeroAddress } from "ethers";
+import { ArgSource, DeploymentPlan, PlanEntry } from "../types/plan";
+
+const cfg = (path: string, extra: Partial<ArgSource> = {}): ArgSource =>
+  ({ from: "config", path, ...extra }) as ArgSource;
+const contract = (name: string, extra: Partial<ArgSource> = {}): ArgSource =>
+  ({ from: "contract", name, ...extra }) as ArgSource;
+const value = (v: string | boolean): ArgSource => ({ from: "value", value: v });
+const DEPLOYER: ArgSource = { from: "deployer" };
+// Network profile values, present when the caller passes `profile` in the config tree
+const profileDefault = (key: string, extra: Partial<ArgSource> = {}) =>
+  cfg(`profile.defaults.${key}`, extra);
+const profileAddress = (key: string) => cfg(`profile.addresses.${key}`);
+
+/*//////////////////////////////////////////////////////////////
+                      NEVERLAND CORE PROTOCOL
+//////////////////////////////////////////////////////////////*/
+
+export const NEVERLAND_ENTRIES: PlanEntry[] = [
+  {
+    name: "Dust",
+    artifact: "Dust",
+    displayName: "Dust",
+    description: "DUST governance token (Upgradeable - uses initialize)",
+    constructorParams: [],
+    proxy: {
+      kind: "transparent",
+      initializer: "initialize",
+      initializerParams: [
+        {
+          name: "initialOwner",
+          type: "address",
+          description: "Initial owner address",
+          configKey: "owner",
+          source: cfg("dust.initialOwner"),
+        },
+        {
+          name: "totalSupply",
+          type: "uint256",
+          description: "Initial DUST supply",
+          configKey: "totalSupply",
+          source: cfg("dust.totalSupply"),
+        },
+      ],
+      initializedState: [{ read: "owner", param: "initialOwner" }],
+    },
+    verify: "src/tokens/Dust.sol:Dust",
+  },
+  {
+    name: "DustLock",
+    artifact: "DustLock",
+    displayName: "DustLock",
+    description:
+      "Lock DUST tokens and get veDUST voting power (Upgradeable - uses initialize)",
+    libraries: ["BalanceLogicLibrary"],
+    constructorParams: [
+      {
+        name: "forwarder",
+        type: "address",
+        description: "Trusted forwarder address for ERC2771",
+        configKey: "forwarder",
+        source: cfg("dustLock.forwarder"),
+      },
+    ],
+    proxy: {
+      kind: "transparent",
+      initializer: "initialize",
+      initializerParams: [
+        {
+          name: "forwarder",
+          type: "address",
+          description: "Trusted forwarder address for ERC2771",
+          configKey: "forwarder",
+          source: cfg("dustLock.forwarder"),
+        },
+        {
+          name: "dust",
+          type: "address",
+          description: "DUST token address",
+          configKey: "Dust",
+          source: contract("Dust"),
+        },
+        {
+          name: "baseURI",
+          type: "string",
+          description: "Base URI for veDUST metadata",
+          configKey: "baseURI",
+          source: cfg("dustLock.baseURI"),
+        },
+      ],
+      unsafeAllow: ["constructor"],
+      senderRoles: ["team", "earlyWithdrawTreasury"],
+    },
+    setup: [
+      {
+        label: "DustLock.setEarlyWithdrawTreasury",
+        method: "setEarlyWithdrawTreasury",
+        args: [cfg("dustLock.earlyWithdrawTreasury", { optional: true })],
+        guard: { read: "earlyWithdrawTreasury" },
+      },
+      {
+        label: "DustLock.setMinLockAmount",
+        method: "setMinLockAmount",
+        args: [cfg("dustLock.minLockAmount", { optional: true })],
+        guard: { read: "minLockAmount" },
+      },
+    ],
+    ownership: [
+      {
+        method: "proposeTeam",
+        read: "team",
+        to: cfg("dustLock.team", { optional: true }),
+        accept: "acceptTeam",
+      },
+    ],
+    verify: "src/tokens/DustLock.sol:DustLock",
+  },
+  {
+    name: "DustRewardsController",
+    artifact: "DustRewardsController",
+    displayName: "DustRewardsController",
+    description:
+      "Control DUST emissions to lending markets (Upgradeable - uses initialize)",
+    constructorParams: [
+      {
+        name: "emissionManager",
+        type: "address",
+        description: "Emission manager address",
+        configKey: "emissionManager",
+        source: cfg("dustRewardsController.emissionManager"),
+      },
+    ],
+    proxy: {
+      kind: "transparent",
+      initializer: false,
+      initializerParams: [],
+      unsafeAllow: [
+        "constructor",
+        "state-variable-immutable",
+        "state-variable-assignment",
+        "missing-initializer",
+      ],
+    },
+    verify: "src/emissions/DustRewardsController.sol:DustRewardsController",
+  },
+  {
+    name: "UserVaultRegistry",
+    artifact: "UserVaultRegistry",
+    displayName: "UserVaultRegistry",
+    description:
+      "Registry for user self-repaying vaults (No constructor - use transferOwnership after)",
+    constructorParams: [],
+    ownedBySender: true,
+    setup: [
+      {
+        label: "UserVaultRegistry.setExecutor",
+        method: "setExecutor",
+        args: [cfg("selfRepaying.registry.executor")],
+        guard: { read: "executor" },
+      },
+      {
+        label: "UserVaultRegistry.setMaxSwapSlippageBps",
+        method: "setMaxSwapSlippageBps",
+        args: [cfg("selfRepaying.registry.maxSwapSlippageBps")],
+        guard: { read: "maxSwapSlippageBps" },
+      },
+      {
+        label: "UserVaultRegistry.setSupportedAggregators",
+        method: "setSupportedAggregators",
+        forEach: "selfRepaying.registry.supportedAggregators",
+        args: [{ from: "item" }, value(true)],
+        guard: {
+          read: "isSupportedAggregator",
+          args: [{ from: "item" }],
+          equals: value(true),
+        },
+        safe: cfg("selfRepaying.registry.owner"),
+      },
+    ],
+    ownership: [
+      {
+        method: "transferOwnership",
+        read: "owner",
+        to: cfg("selfRepaying.registry.owner"),
+        accept: "acceptOwnership",
+      },
+    ],
+  },
+  {
+    name: "UserVaultImplementation",
+    artifact: "UserVault",
+    displayName: "UserVault (implementation)",
+    description: "UserVault logic contract served by the UserVault beacon",
+    constructorParams: [],
+  },
+  {
+    name: "UserVaultBeacon",
+    artifact: "UpgradeableBeacon",
+    displayName: "UserVaultBeacon",
+    description: "UpgradeableBeacon pointing at the UserVault implementation",
+    ownedBySender: true,
+    constructorParams: [
+      {
+        name: "implementation",
+        type: "address",
+        description: "UserVault implementation address",
+        configKey: "UserVaultImplementation",
+        source: contract("UserVaultImplementation"),
+      },
+    ],
+    ownership: [
+      {
+        method: "transferOwnership",
+        read: "owner",
+        to: cfg("selfRepaying.beaconOwner"),
+      },
+    ],
+  },
+  {
+    name: "UserVaultFactory",
+    artifact: "UserVaultFactory",
+    displayName: "UserVaultFactory",
+    description:
+      "Factory for creating user self-repaying vaults (Upgradeable - uses initialize)",
+    constructorParams: [],
+    proxy: {
+      kind: "transparent",
+      initializer: false,
+      initializerParams: [],
+      unsafeAllow: ["missing-initializer"],
+    },
+  },
+  {
+    name: "RevenueReward",
+    artifact: "RevenueReward",
+    displayName: "RevenueReward",
+    description:
+      "Distribute revenue rewards to veDUST holders (Upgradeable - uses initialize)",
+    constructorParams: [
+      {
+        name: "forwarder",
+        type: "address",
+        description: "Trusted forwarder address for ERC2771",
+        configKey: "forwarder",
+        source: cfg("revenueReward.forwarder"),
+      },
+    ],
+    proxy: {
+      kind: "transparent",
+      initializer: "initialize",
+      initializerParams: [
+        {
+          name: "forwarder",
+          type: "address",
+          description: "Trusted forwarder address for ERC2771",
+          configKey: "forwarder",
+          source: cfg("revenueReward.forwarder"),
+        },
+        {
+          name: "dustLock",
+          type: "address",
+          description: "DustLock contract address",
+          configKey: "DustLock",
+          source: contract("DustLock"),
+        },
+        {
+          name: "distributor",
+          type: "address",
+          description: "Revenue distributor address",
+          configKey: "distributor",
+          source: cfg("revenueReward.distributor"),
+        },
+        {
+          name: "userVaultFactory",
+          type: "address",
+          description: "UserVaultFactory contract address",
+          configKey: "UserVaultFactory",
+          source: contract("UserVaultFactory"),
+        },
+      ],
+      unsafeAllow: ["constructor"],
+      initializedState: [
+        { read: "dustLock", param: "dustLock" },
+        { read: "rewardDistributor", param: "distributor" },
+        { read: "userVaultFactory", param: "userVaultFactory" },
+      ],
+    },
+    setup: [
+      {
+        label: "DustLock.setRevenueReward",
+        wiring: true,
+        target: "DustLock",
+        method: "setRevenueReward",
+        args: [contract("RevenueReward")],
+        guard: { read: "revenueReward" },
+      },
+      {
+        label: "UserVaultFactory.initialize",
+        wiring: true,
+        target: "UserVaultFactory",
+        method: "initialize",
+        args: [
+          contract("UserVaultBeacon"),
+          contract("UserVaultRegistry"),
+          cfg("selfRepaying.poolAddressesProviderRegistry", {
+            fallback: profileAddress("poolAddressesProviderRegistry"),
+          }),
+          contract("RevenueReward"),
+        ],
+        guard: { read: "userVaultRegistry", notEquals: value(ZeroAddress) },
+        skipIfTargetExcluded: true,
+      },
+    ],
+    verify: "src/rewards/RevenueReward.sol:RevenueReward",
+  },
+  {
+    name: "DustLockTransferStrategy",
+    artifact: "DustLockTransferStrategy",
+    displayName: "DustLockTransferStrategy",
+    description: "Transfer strategy locking claimed DUST rewards into veDUST",
+    constructorParams: [
+      {
+        name: "incentivesController",
+        type: "address",
+        description: "Incentives controller (DustRewardsController)",
+        configKey: "DustRewardsController",
+        source: cfg("transferStrategy.incentivesControllerOverride", {
+          fallback: contract("DustRewardsController"),
+        }),
+      },
+      {
+        name: "rewardsAdmin",
+        type: "address",
+        description: "Rewards admin address",
+        configKey: "rewardsAdmin",
+        source: cfg("transferStrategy.rewardsAdmin"),
+      },
+      {
+        name: "dustVault",
+        type: "address",
+        description: "Vault holding the DUST paid out as rewards",
+        configKey: "dustVault",
+        source: {
+          from: "wallet",
+          env: "DUST_VAULT_PRIVATE_KEY",
+          fallback: cfg("transferStrategy.dustVault"),
+        },
+      },
+      {
+        name: "dustLock",
+        type: "address",
+        description: "DustLock contract address",
+        configKey: "DustLock",
+        source: contract("DustLock"),
+      },
+    ],
+    setup: [
+      {
+        label: "DustRewardsController.setTransferStrategy",
+        wiring: true,
+        target: "DustRewardsController",
+        method: "setTransferStrategy",
+        args: [contract("Dust"), contract("DustLockTransferStrategy")],
+        signer: {
+          from: "read",
+          target: "DustRewardsController",
+          method: "getEmissionManager",
+        },
+        guard: {
+          read: "getTransferStrategy",
+          args: [contract("Dust")],
+          equals: contract("DustLockTransferStrategy"),
+        },
+        deferrable: true,
+      },
+      {
+        label: "DUST.approve(MaxUint256)",
+        wiring: true,
+        target: "Dust",
+        method: "approve",
+        args: [
+          contract("DustLockTransferStrategy"),
+          value(MaxUint256.toString()),
+        ],
+        signer: {
+          from: "wallet",
+          env: "DUST_VAULT_PRIVATE_KEY",
+          fallback: cfg("transferStrategy.dustVault"),
+        },
+        guard: {
+          read: "allowance",
+          args: [
+            {
+              from: "wallet",
+              env: "DUST_VAULT_PRIVATE_KEY",
+              fallback: cfg("transferStrategy.dustVault"),
+            },
+            contract("DustLockTransferStrategy"),
+          ],
+          equals: value(MaxUint256.toString()),
+        },
+        deferrable: true,
+      },
+    ],
+  },
+  {
+    name: "NeverlandDustHelper",
+    artifact: "NeverlandDustHelper",
+    displayName: "NeverlandDustHelper",
+    description: "Helper contract for DUST price oracle and team operations",
+    constructorParams: [
+      {
+        name: "dustToken",
+        type: "address",
+        description: "DUST token address (ERC20)",
+        configKey: "Dust",
+        source: contract("Dust"),
+      },
+      {
+        // Deployer owns the helper until setup is done, then hands it off
+        name: "initialOwner",
+        type: "address",
+        description: "Initial owner address",
+        configKey: "owner",
+        source: DEPLOYER,
+      },
+    ],
+    setup: [
+      {
+        label: "NeverlandDustHelper.setPair",
+        wiring: true,
+        method: "setPair",
+        args: [cfg("dustHelper.uniswapPair", { optional: true })],
+        guard: { read: "pair" },
+        deferrable: true,
+      },
+    ],
+    ownership: [
+      {
+        method: "transferOwnership",
+        read: "owner",
+        to: cfg("dustHelper.owner"),
+      },
+    ],
+    verify: "src/utils/NeverlandDustHelper.sol:NeverlandDustHelper",
+  },
+  {
+    name: "NeverlandUiProvider",
+    artifact: "NeverlandUiProvider",
+    displayName: "NeverlandUiProvider",
+    description: "UI data aggregator for frontend",
+    constructorParams: [
+      {
+        name: "dustLock",
+        type: "address",
+        description: "DustLock contract address",
+        configKey: "DustLock",
+        source: contract("DustLock"),
+      },
+      {
+        name: "revenueReward",
+        type: "address",
+        description: "RevenueReward contract address",
+        configKey: "RevenueReward",
+        source: contract("RevenueReward"),
+      },
+      {
+        name: "dustRewardsController",
+        type: "address",
+        description: "DustRewardsController contract address",
+        configKey: "DustRewardsController",
+        source: contract("DustRewardsController"),
+      },
+      {
+        name: "dustOracle",
+        type: "address",
+        description: "DUST price oracle (NeverlandDustHelper)",
+        configKey: "NeverlandDustHelper",
+        source: contract("NeverlandDustHelper"),
+      },
+      {
+        name: "aaveLendingPoolAddressProvider",
+        type: "address",
+        description: "Aave Lending Pool Address Provider",
+        configKey: "aavePoolAddressesProvider",
+        source: cfg("uiProvider.aaveLendingPoolAddressProvider", {
+          fallback: profileAddress("aavePoolAddressesProvider"),
+        }),
+      },
+    ],
+    verify: "src/utils/NeverlandUiProvider.sol:NeverlandUiProvider",
+  },
+];
+
+export const NEVERLAND_PLAN: DeploymentPlan = {
+  name: "neverland",
+  entries: NEVERLAND_ENTRIES,
+  proxyAdminOwner: cfg("proxyAdmin.owner", { optional: true }),
+};
+
+/*//////////////////////////////////////////////////////////////
+                            LEADERBOARD
+//////////////////////////////////////////////////////////////*/
+
+export const LEADERBOARD_ENTRIES: PlanEntry[] = [
+  {
+    name: "EpochManager",
+    artifact: "EpochManager",
+    displayName: "EpochManager",
+    description: "Manage leaderboard epochs (manual start/end)",
+    constructorParams: [
+      {
+        name: "initialOwner",
+        type: "address",
+        description: "Initial owner address",
+        configKey: "owner",
+        source: cfg("epochManager.initialOwner"),
+      },
+    ],
+    verify: "src/leaderboard/EpochManager.sol:EpochManager",
+  },
+  {
+    name: "LeaderboardConfig",
+    artifact: "LeaderboardConfig",
+    displayName: "LeaderboardConfig",
+    description: "Leaderboard scoring rates and bonuses",
+    constructorParams: [
+      {
+        name: "initialOwner",
+        type: "address",
+        description: "Initial owner address",
+        configKey: "owner",
+        source: cfg("leaderboard.initialOwner"),
+      },
+      {
+        name: "depositRateBps",
+        type: "uint256",
+        description: "Deposit rate in basis points (100 = 0.01)",
+        configKey: "depositRateBps",
+        source: cfg("leaderboard.depositRateBps", {
+          fallback: profileDefault("depositRateBps"),
+        }),
+      },
+      {
+        name: "borrowRateBps",
+        type: "uint256",
+        description: "Borrow rate in basis points (500 = 0.05)",
+        configKey: "borrowRateBps",
+        source: cfg("leaderboard.borrowRateBps", {
+          fallback: profileDefault("borrowRateBps"),
+        }),
+      },
+      {
+        name: "vpRateBps",
+        type: "uint256",
+        description: "Voting power rate per 1e18 VP",
+        configKey: "vpRateBps",
+        source: cfg("leaderboard.vpRateBps", {
+          fallback: profileDefault("vpRateBps", { fallback: value("0") }),
+        }),
+      },
+      {
+        name: "supplyDailyBonus",
+        type: "uint256",
+        description: "Daily supply bonus points (10e18 = 10 points)",
+        configKey: "supplyDailyBonus",
+        source: cfg("leaderboard.supplyDailyBonus", {
+          fallback: profileDefault("supplyDailyBonus"),
+        }),
+      },
+      {
+        name: "borrowDailyBonus",
+        type: "uint256",
+        description: "Daily borrow bonus points (20e18 = 20 points)",
+        configKey: "borrowDailyBonus",
+        source: cfg("leaderboard.borrowDailyBonus", {
+          fallback: profileDefault("borrowDailyBonus"),
+        }),
+      },
+      {
+        name: "repayDailyBonus",
+        type: "uint256",
+        description: "Daily repay bonus points (0 = disabled)",
+        configKey: "repayDailyBonus",
+        source: cfg("leaderboard.repayDailyBonus", {
+          fallback: profileDefault("repayDailyBonus", { fallback: value("0") }),
+        }),
+      },
+      {
+        name: "withdrawDailyBonus",
+        type: "uint256",
+        description: "Daily withdraw bonus points (0 = disabled)",
+        configKey: "withdrawDailyBonus",
+        source: cfg("leaderboard.withdrawDailyBonus", {
+          fallback: profileDefault("withdrawDailyBonus", {
+            fallback: value("0"),
+          }),
+        }),
+      },
+      {
+        name: "cooldownSeconds",
+        type: "uint256",
+        description: "Cooldown period in seconds (3600 = 1 hour)",
+        configKey: "cooldownSeconds",
+        source: cfg("leaderboard.cooldownSeconds", {
+          fallback: profileDefault("cooldownSeconds"),
+        }),
+      },
+      {
+        name: "minDailyBonusUsd",
+        type: "uint256",
+        description: "Minimum USD value for daily bonus (0 = disabled)",
+        configKey: "minDailyBonusUsd",
+        source: cfg("leaderboard.minDailyBonusUsd", {
+          fallback: profileDefault("minDailyBonusUsd", {
+            fallback: value("0"),
+          }),
+        }),
+      },
+    ],
+    verify: "src/leaderboard/LeaderboardConfig.sol:LeaderboardConfig",
+  },
+  {
+    name: "NFTPartnershipRegistry",
+    artifact: "NFTPartnershipRegistry",
+    displayName: "NFTPartnershipRegistry",
+    description: "Registry for NFT partnership multipliers",
+    constructorParams: [
+      {
+        name: "initialOwner",
+        type: "address",
+        description: "Initial owner address",
+        configKey: "owner",
+        source: cfg("nftRegistry.initialOwner"),
+      },
+      {
+        name: "firstBonus",
+        type: "uint256",
+        description: "First NFT bonus in basis points (1000 = 0.1 = 10%)",
+        configKey: "firstBonus",
+        source: cfg("nftRegistry.firstBonus", {
+          fallback: profileDefault("firstBonus"),
+        }),
+      },
+      {
+        name: "decayRatio",
+        type: "uint256",
+        description: "Decay ratio per additional NFT (9000 = 0.9 = 90%)",
+        configKey: "decayRatio",
+        source: cfg("nftRegistry.decayRatio", {
+          fallback: profileDefault("decayRatio"),
+        }),
+      },
+    ],
+    verify: "src/leaderboard/NFTPartnershipRegistry.sol:NFTPartnershipRegistry",
+  },
+  {
+    name: "VotingPowerMultiplier",
+    artifact: "VotingPowerMultiplier",
+    displayName: "VotingPowerMultiplier",
+    description: "Calculate voting power with tier-based multipliers",
+    constructorParams: [
+      {
+        name: "initialOwner",
+        type: "address",
+        description: "Initial owner address",
+        configKey: "owner",
+        source: cfg("votingPowerMultiplier.initialOwner"),
+      },
+      {
+        name: "dustLock",
+        type: "address",
+        description: "DustLock contract address",
+        configKey: "DustLock",
+        source: contract("DustLock", {
+          fallback: cfg("addresses.dustLock"),
+        }),
+      },
+    ],
+    verify: "src/leaderboard/VotingPowerMultiplier.sol:VotingPowerMultiplier",
+  },
+  {
+    name: "LeaderboardKeeper",
+    artifact: "LeaderboardKeeper",
+    displayName: "LeaderboardKeeper",
+    description: "Leaderboard user data tracking and settlement",
+    constructorParams: [
+      {
+        name: "initialOwner",
+        type: "address",
+        description: "Initial owner address",
+        configKey: "owner",
+        source: cfg("keeper.initialOwner"),
+      },
+      {
+        name: "initialKeeper",
+        type: "address",
+        description: "Initial keeper address (can settle)",
+        configKey: "keeper",
+        source: cfg("keeper.keeperAddress"),
+      },
+      {
+        name: "initialInterval",
+        type: "uint256",
+        description: "Minimum settlement interval in seconds (3600 = 1 hour)",
+        configKey: "minSettlementInterval",
+        source: cfg("keeper.minSettlementInterval", {
+          fallback: profileDefault("minSettlementInterval"),
+        }),
+      },
+      {
+        name: "dustLock",
+        type: "address",
+        description: "DustLock contract address",
+        configKey: "DustLock",
+        source: contract("DustLock", { fallback: cfg("keeper.dustLock") }),
+      },
+      {
+        name: "nftRegistry",
+        type: "address",
+        description: "NFT Partnership Registry address",
+        configKey: "NFTPartnershipRegistry",
+        source: contract("NFTPartnershipRegistry", {
+          fallback: cfg("keeper.nftRegistry"),
+        }),
+      },
+    ],
+    verify: "src/leaderboard/LeaderboardKeeper.sol:LeaderboardKeeper",
+  },
+];
+
+export const LEADERBOARD_PLAN: DeploymentPlan = {
+  name: "leaderboard",
+  entries: LEADERBOARD_ENTRIES,
+};
+
+/** Every known plan entry, keyed by name (used by the interactive wizard) */
+export const PLAN_ENTRIES: Record<string, PlanEntry> = Object.fromEntries(
+  [...NEVERLAND_ENTRIES, ...LEADERBOARD_ENTRIES].map((entry) => [
+    entry.name,
+    entry,
+  ])
+);
@@ -1,23 +1,125 @@
 import { task } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
-import Enquirer from "enquirer";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
 import chalk from "chalk";
-import { DeploymentResult } from "./types/deploy";
+import { WizardArgs } from "./types/answers";
+import {
+  ContractParam,
+  DeploymentResult,
+  GasEntry,
+  NetworkConfig,
+  WiringEdge,
+} from "./types/deploy";
+import { WiringResult } from "./types/plan";
 import {
   loadDeploymentConfig,
   getDefaultValue,
   resolveDependencies,
   sortContractsByDependencies,
   generateDeploymentExport,
+  getInitializerSignature,
 } from "./helpers/deployment";
+import { WizardSession } from "./helpers/answers";
 import { exportDeployments } from "./helpers/export";
+import { writeGasReport } from "./helpers/gas";
+import { executePlan } from "./helpers/plan";
 import { CONTRACTS } from "./config/contracts";
+import { PLAN_ENTRIES } from "./config/plan";
 
 const CONTRACTS_MAP = CONTRACTS as Record<string, any>;
 
 // For backwards compatibility - can be removed later
 const getContractConfig = (key: string) => CONTRACTS_MAP[key] || {};
 
+const WIRING_ICONS: Record<WiringResult["status"], string> = {
+  applied: "✓",
+  wired: "✓",
+  missing: "✗",
+  deferred: "⏸",
+  unavailable: "·",
+  unconfigured: "?",
+};
+
+const printWiring = (results: WiringResult[]) => {
+  for (const { label, status, detail } of results) {
+    const line = `  ${WIRING_ICONS[status]} ${label}: ${status}${detail ? ` (${detail})` : ""}`;
+    if (status === "applied" || status === "wired") {
+      console.log(chalk.green(line));
+    } else if (status === "unavailable") {
+      console.log(chalk.gray(line));
+    } else {
+      console.log(chalk.yellow(line));
+    }
+  }
+};
+
+/**
+ * Send the wiring calls with these labels, skipping those already on-chain
+ */
+const applyWiring = async (
+  hre: HardhatRuntimeEnvironment,
+  networkConfig: NetworkConfig,
+  addresses: Record<string, string>,
+  labels: string[],
+  gasLog: GasEntry[]
+): Promise<void> => {
+  console.log(chalk.cyan("\n🔌 Wiring"));
+  const { wiring, pendingActions } = await executePlan(
+    hre,
+    { name: "wiring", entries: Object.values(PLAN_ENTRIES) },
+    {
+      config: networkConfig,
+      addresses,
+      gasLog,
+      wiringOnly: "apply",
+      wiringLabels: labels,
+    }
+  );
+  printWiring(wiring);
+  for (const action of pendingActions) {
+    console.log(chalk.yellow(`  ⏸  ${action}`));
+  }
+};
+
+/**
+ * Check every wiring edge against the known addresses (manifest and this
+ * session) and report the ones still missing
+ * @returns The edges between known contracts that are not on-chain
+ */
+const auditWiring = async (
+  hre: HardhatRuntimeEnvironment,
+  networkConfig: NetworkConfig,
+  addresses: Record<string, string>
+): Promise<WiringResult[]> => {
+  console.log(chalk.cyan("\n🔌 Wiring audit"));
+  const { wiring } = await executePlan(
+    hre,
+    { name: "wiring-audit", entries: Object.values(PLAN_ENTRIES) },
+    {
+      config: networkConfig,
+      addresses,
+      gasLog: [],
+      wiringOnly: "check",
+    }
+  );
+  const open = wiring.filter(
+    (result) => result.status !== "applied" && result.status !== "unavailable"
+  );
+  if (open.length === 0) {
+    console.log(
+      chalk.green(
+        "  ✓ Every wiring edge between deployed contracts is in place"
+      )
+    );
+    return open;
+  }
+  printWiring(open);
+  console.log(
+    chalk.yellow(`\n⚠️  ${open.length} wiring edge(s) still missing`)
+  );
+  return open;
+};
+
 task("deploy", "Interactive deployment of Neverland contracts")
   .setDescription(
     `Deploy Neverland contracts with an interactive wizard.
@@ -26,16 +128,41 @@ Features:
   - Multi-select contracts to deploy
   - Automatic dependency resolution
   - Configure parameters from defaults or custom input
+  - Upgradeable contracts deployed behind a transparent proxy and initialized,
+    as deploy:neverland does
+  - Post-deploy wiring between contracts (plan, idempotent apply, audit of
+    the edges still missing)
   - Batch verification
   - Deployment summary with addresses
+  - Answers files and --set for non-interactive runs, --record-answers to
+    save a session for replay (e.g. against a fork before mainnet)
 
-Example:
-  npx hardhat deploy --network monad-testnet`
-  )
-  .setAction(async (taskArgs, hre) => {
-    const enquirer = new Enquirer();
+Answer keys: contracts, existing, useDefaults, params.<Contract>.<param>,
+init.<Contract>.<param> (initializer), verify, wire, confirm
 
+Examples:
+  npx hardhat deploy --network monad-testnet
+  npx hardhat deploy --network monad-mainnet --record-answers answers/deploy.json
+  npx hardhat deploy --network hardhat --answers answers/deploy.json --non-interactive
+  npx hardhat deploy --network monad-testnet --set "contracts=DustLock;existing=use;useDefaults=true;verify=false;confirm=true"`
+  )
+  .addOptionalParam("answers", "Answers file pre-filling the prompts")
+  .addOptionalParam(
+    "set",
+    'Pre-filled answers overriding the answers file ("key=value;key=value")'
+  )
+  .addOptionalParam(
+    "recordAnswers",
+    "Save the answers of this session to a file for replay"
+  )
+  .addFlag(
+    "nonInteractive",
+    "Fail on any prompt without a pre-filled answer (implied without a TTY)"
+  )
+  .setAction(async (taskArgs: WizardArgs, hre) => {
     try {
+      const session = WizardSession.open(hre, "deploy", taskArgs);
+
       console.log(
         chalk.cyan("\n═══════════════════════════════════════════════════════")
       );
@@ -61,15 +188,12 @@ Example:
         })
       );
 
-      const selectedResponse: any = await enquirer.prompt({
+      const selectedContracts = await session.ask<string[]>("contracts", {
         type: "multiselect",
-        name: "contracts",
         message: "Select contracts to deploy:",
         choices: contractChoices,
       });
 
-      let selectedContracts = selectedResponse.contracts;
-
       if (!selectedContracts || selectedContracts.length === 0) {
         console.log(chalk.yellow("\n✗ No contracts selected. Exiting."));
         return;
@@ -79,8 +203,12 @@ Example:
         chalk.green(`\n✓ Selected ${selectedContracts.length} contract(s)\n`)
       );
 
-      // Load network config first to check for existing deployments
-      const networkConfig = loadDeploymentConfig(hre.network.name);
+      // Load network config first to check for existing deployments. A replay
+      // on a fork keeps the manifest and profile the answers were recorded on
+      const networkConfig = loadDeploymentConfig(
+        session.sourceNetwork.name,
+        session.sourceNetwork.chainId
+      );
       const existingDeployments = networkConfig.addresses || {};
 
       // Step 2: Resolve dependencies
@@ -112,9 +240,8 @@ Example:
 
       if (alreadyDeployed.length > 0) {
         console.log("");
-        const redeployChoice: any = await enquirer.prompt({
+        const action = await session.ask<string>("existing", {
           type: "select",
-          name: "action",
           message: `${alreadyDeployed.length} contract(s) already deployed. What would you like to do?`,
           choices: [
             {
@@ -136,7 +263,7 @@ Example:
           initial: 0,
         });
 
-        if (redeployChoice.action === "redeploy-selected") {
+        if (action === "redeploy-selected") {
           // Only redeploy the originally selected contracts if they exist
           for (const contract of selectedContracts) {
             if (alreadyDeployed.includes(contract)) {
@@ -144,7 +271,7 @@ Example:
               console.log(chalk.yellow(`  ⚠️  Will redeploy: ${contract}`));
             }
           }
-        } else if (redeployChoice.action === "redeploy-all") {
+        } else if (action === "redeploy-all") {
           // Redeploy everything
           contractsToDeploy = new Set<string>(Array.from(allContractsNeeded));
           console.log(
@@ -183,6 +310,34 @@ Example:
             "\n💡 To redeploy, run the command again and choose a different option."
           )
         );
+        // Offer to apply what is missing between the existing deployments
+        const missing = (
+          await auditWiring(hre, networkConfig, existingDeployments)
+        ).filter((result) => result.status === "missing");
+        const wire =
+          missing.length > 0 &&
+          (await session.ask<boolean>("wire", {
+            type: "confirm",
+            message: `Apply the ${missing.length} missing wiring call(s) now?`,
+            initial: true,
+          }));
+        session.save();
+        if (wire) {
+          const gasLog: GasEntry[] = [];
+          await applyWiring(
+            hre,
+            networkConfig,
+            existingDeployments,
+            missing.map((result) => result.label),
+            gasLog
+          );
+          if (gasLog.length > 0) {
+            await writeGasReport(hre, gasLog, {
+              session: Date.now(),
+              task: "deploy",
+            });
+          }
+        }
         return;
       }
 
@@ -192,16 +347,23 @@ Example:
 
       // Step 3: Configure parameters
       console.log(chalk.cyan("⚙️  Step 3: Configure Parameters"));
-      console.log(chalk.gray(`  Loaded config for: ${hre.network.name}\n`));
+      console.log(
+        chalk.gray(`  Loaded config for: ${session.sourceNetwork.name}`)
+      );
+      console.log(
+        chalk.gray(
+          `  Network profile: ${networkConfig.profile?.inherits.join(" → ")}\n`
+        )
+      );
 
-      const useDefaultsResponse: any = await enquirer.prompt({
+      const useDefaults = await session.ask<boolean>("useDefaults", {
         type: "confirm",
-        name: "useDefaults",
         message: "Use default/previous deployment addresses where available?",
         initial: true,
       });
 
       const deploymentParams: Record<string, string[]> = {};
+      const initializerParams: Record<string, string[]> = {};
       // Initialize with existing deployments so they can be used as dependencies
       const deployedAddresses: Record<string, string> = {
         ...existingDeployments,
@@ -210,14 +372,24 @@ Example:
       // Track which contracts will be deployed (to avoid using old addresses)
       const contractsBeingDeployed = new Set(sortedContracts);
 
-      for (const contractKey of sortedContracts) {
-        const config = CONTRACTS[contractKey];
-        console.log(chalk.white(`\n  ${config.displayName}:`));
-
+      // Value of each parameter, from defaults, answers or input; answers are
+      // keyed `<prefix>.<param>`
+      const configureParams = async (
+        paramDefs: ContractParam[],
+        answerPrefix: string
+      ): Promise<string[]> => {
         const params: string[] = [];
 
-        for (const param of config.constructorParams) {
+        for (const param of paramDefs) {
           let value: string;
+          const answerKey = `${answerPrefix}.${param.name}`;
+          const validate = (input: string) => {
+            if (!input) return "Value is required";
+            if (param.type === "address" && !hre.ethers.isAddress(input)) {
+              return "Invalid address format";
+            }
+            return true;
+          };
 
           // Check if this dependency will be deployed in this session
           const isDependencyBeingDeployed =
@@ -251,8 +423,15 @@ Example:
               )
             );
           }
+          // Pre-filled answers win over defaults, so replays are verbatim
+          else if (session.has(answerKey)) {
+            value = session.take(answerKey, validate)!;
+            console.log(
+              chalk.gray(`    ${param.name}: ${value} (from answers)`)
+            );
+          }
           // If user wants to use defaults, auto-fill
-          else if (useDefaultsResponse.useDefaults) {
+          else if (useDefaults) {
             if (deployedByConfigKey) {
               value = deployedAddresses[param.configKey!];
               const source = existingDeployments[param.configKey!]
@@ -273,23 +452,12 @@ Example:
               );
             } else {
               // No default available, must prompt
-              const paramResponse: any = await enquirer.prompt({
+              value = await session.ask<string>(answerKey, {
                 type: "input",
-                name: "value",
                 message: `  ${param.name} (${param.type}):`,
                 initial: "",
-                validate: (input: string) => {
-                  if (!input) return "Value is required";
-                  if (
-                    param.type === "address" &&
-                    !hre.ethers.isAddress(input)
-                  ) {
-                    return "Invalid address format";
-                  }
-                  return true;
-                },
+                validate,
               });
-              value = paramResponse.value;
             }
           } else {
             // User wants to customize - ALWAYS prompt but show default as placeholder
@@ -303,40 +471,65 @@ Example:
                   ? "config"
                   : null;
 
-            const paramResponse: any = await enquirer.prompt({
+            value = await session.ask<string>(answerKey, {
               type: "input",
-              name: "value",
               message: `  ${param.name} (${param.type})${
                 source ? ` [default: from ${source}]` : ""
               }:`,
               initial: defaultValue || "",
-              validate: (input: string) => {
-                if (!input) return "Value is required";
-                if (param.type === "address" && !hre.ethers.isAddress(input)) {
-                  return "Invalid address format";
-                }
-                return true;
-              },
+              validate,
             });
-            value = paramResponse.value;
           }
 
+          if (!isDependencyBeingDeployed) session.record(answerKey, value);
           params.push(value);
         }
 
-        deploymentParams[contractKey] = params;
+        return params;
+      };
+
+      for (const contractKey of sortedContracts) {
+        const config = CONTRACTS[contractKey];
+        console.log(chalk.white(`\n  ${config.displayName}:`));
+
+        deploymentParams[contractKey] = await configureParams(
+          config.constructorParams,
+          `params.${contractKey}`
+        );
+        if (config.proxy?.initializer) {
+          console.log(
+            chalk.white(`    ${getInitializerSignature(config.proxy)}:`)
+          );
+          initializerParams[contractKey] = await configureParams(
+            config.proxy.initializerParams,
+            `init.${contractKey}`
+          );
+        }
       }
 
-      // Step 4: Verification option
-      console.log(chalk.cyan("\n📝 Step 4: Verification"));
+      // Step 4: Verification and wiring options
+      console.log(chalk.cyan("\n📝 Step 4: Verification and Wiring"));
 
-      const verifyResponse: any = await enquirer.prompt({
+      const verify = await session.ask<boolean>("verify", {
         type: "confirm",
-        name: "verify",
         message: "Verify contracts on block explorer after deployment?",
         initial: true,
       });
 
+      // Wiring edges that involve a contract deployed in this session
+      const plannedWiring: WiringEdge[] = Object.values(CONTRACTS)
+        .flatMap((config) => config.wiring ?? [])
+        .filter((edge) =>
+          edge.contracts.some((name) => contractsBeingDeployed.has(name))
+        );
+      const wire =
+        plannedWiring.length > 0 &&
+        (await session.ask<boolean>("wire", {
+          type: "confirm",
+          message: `Apply ${plannedWiring.length} post-deploy wiring call(s) after deployment?`,
+          initial: true,
+        }));
+
       // Step 5: Summary and confirmation
       console.log(
         chalk.cyan("\n═══════════════════════════════════════════════════════")
@@ -349,44 +542,87 @@ Example:
       console.log(chalk.white(`Network: ${hre.network.name}`));
       console.log(chalk.white(`Deployer: ${deployer.address}`));
       console.log(chalk.white(`Contracts: ${sortedContracts.length}`));
-      console.log(
-        chalk.white(`Verification: ${verifyResponse.verify ? "Yes" : "No"}\n`)
-      );
+      console.log(chalk.white(`Verification: ${verify ? "Yes" : "No"}\n`));
+
+      const printParams = (values: string[], paramDefs: ContractParam[]) =>
+        values.forEach((param, idx) => {
+          const paramDef = paramDefs[idx];
+          if (
+            typeof param === "string" &&
+            param.startsWith("__PLACEHOLDER__:")
+          ) {
+            const dependencyKey = param.replace("__PLACEHOLDER__:", "");
+            console.log(
+              chalk.yellow(
+                `      ${paramDef.name}: <will use newly deployed ${dependencyKey}>`
+              )
+            );
+          } else {
+            console.log(chalk.gray(`      ${paramDef.name}: ${param}`));
+          }
+        });
 
       for (const contractKey of sortedContracts) {
         const config = CONTRACTS[contractKey];
         console.log(chalk.white(`\n  • ${config.displayName}`));
         if (deploymentParams[contractKey].length > 0) {
-          console.log(chalk.gray(`    Constructor parameters:`));
-          deploymentParams[contractKey].forEach((param, idx) => {
-            const paramDef = config.constructorParams[idx];
-            if (
-              typeof param === "string" &&
-              param.startsWith("__PLACEHOLDER__:")
-            ) {
-              const dependencyKey = param.replace("__PLACEHOLDER__:", "");
-              console.log(
-                chalk.yellow(
-                  `      ${paramDef.name}: <will use newly deployed ${dependencyKey}>`
-                )
-              );
-            } else {
-              console.log(chalk.gray(`      ${paramDef.name}: ${param}`));
-            }
-          });
+          console.log(
+            chalk.gray(
+              config.proxy
+                ? `    Implementation constructor parameters:`
+                : `    Constructor parameters:`
+            )
+          );
+          printParams(deploymentParams[contractKey], config.constructorParams);
         } else {
           console.log(chalk.gray(`    No constructor parameters`));
         }
+        if (config.proxy) {
+          console.log(
+            chalk.gray(
+              `    Proxy: ${config.proxy.kind}, ${
+                config.proxy.initializer
+                  ? getInitializerSignature(config.proxy)
+                  : "not initialized"
+              }`
+            )
+          );
+          if (config.proxy.initializer) {
+            printParams(
+              initializerParams[contractKey],
+              config.proxy.initializerParams
+            );
+          }
+        }
+      }
+
+      if (plannedWiring.length > 0) {
+        console.log(
+          chalk.white(`\n🔌 Wiring plan${wire ? "" : " (skipped)"}:`)
+        );
+        for (const edge of plannedWiring) {
+          const waiting = edge.contracts.filter(
+            (name) =>
+              !contractsBeingDeployed.has(name) && !existingDeployments[name]
+          );
+          console.log(
+            chalk.gray(
+              `  • ${edge.label} (${edge.contracts.join(" ↔ ")})${
+                waiting.length > 0 ? ` - waits for ${waiting.join(", ")}` : ""
+              }`
+            )
+          );
+        }
       }
 
-      const confirmResponse: any = await enquirer.prompt({
+      const confirmed = await session.ask<boolean>("confirm", {
         type: "confirm",
-        name: "confirm",
         message: chalk.yellow("\n⚠️  Proceed with deployment?"),
         initial: true,
       });
+      session.save();
 
-      if (!confirmResponse.confirm) {
+      if (!confirmed) {
         console.log(chalk.yellow("\n✗ Deployment cancelled."));
         return;
       }
@@ -415,13 +651,11 @@ Example:
       console.log("");
 
       const deploymentResults: DeploymentResult[] = [];
+      const gasLog: GasEntry[] = [];
 
-      for (const contractKey of sortedContracts) {
-        const config = CONTRACTS[contractKey];
-        let params = deploymentParams[contractKey];
-
-        // Replace placeholders with actual deployed addresses
-        params = params.map((param) => {
+      // Replace placeholders with actual deployed addresses
+      const fillPlaceholders = (values: string[]): string[] =>
+        values.map((param) => {
           if (
             typeof param === "string" &&
             param.startsWith("__PLACEHOLDER__:")
@@ -443,32 +677,62 @@ Example:
           return param;
         });
 
+      for (const contractKey of sortedContracts) {
+        const config = CONTRACTS[contractKey];
+        const params = fillPlaceholders(deploymentParams[contractKey]);
+        const initArgs = initializerParams[contractKey]
+          ? fillPlaceholders(initializerParams[contractKey])
+          : undefined;
+
         console.log(chalk.yellow(`\n⏳ Deploying ${config.displayName}...`));
 
         try {
-          // Predict contract address before deployment
+          // Predict contract address before deployment (proxies deploy the
+          // implementation, and possibly a ProxyAdmin, first)
           const currentNonce = await deployer.getNonce();
-          const predictedAddress = hre.ethers.getCreateAddress({
-            from: deployer.address,
-            nonce: currentNonce,
-          });
+          const predictedAddress = config.proxy
+            ? undefined
+            : hre.ethers.getCreateAddress({
+                from: deployer.address,
+                nonce: currentNonce,
+              });
 
-          console.log(chalk.gray(`  Predicted address: ${predictedAddress}`));
+          if (predictedAddress) {
+            console.log(chalk.gray(`  Predicted address: ${predictedAddress}`));
+          }
           console.log(chalk.gray(`  Nonce: ${currentNonce}`));
 
-          const ContractFactory = await hre.ethers.getContractFactory(
-            config.name
+          const { deployed, proxyAdmin } = await executePlan(
+            hre,
+            { name: "interactive", entries: [PLAN_ENTRIES[contractKey]] },
+            {
+              config: networkConfig,
+              addresses: deployedAddresses,
+              constructorArgs: { [contractKey]: params },
+              ...(initArgs
+                ? { initializerArgs: { [contractKey]: initArgs } }
+                : {}),
+              gasLog,
+              setup: false,
+            }
           );
-          const contract = await ContractFactory.deploy(...params);
-          await contract.waitForDeployment();
-
-          const address = await contract.getAddress();
+          const { address, implementation } = deployed[0];
           // Store with both PascalCase (contract name) and lowercase for lookups
           deployedAddresses[contractKey] = address;
           deployedAddresses[contractKey.toLowerCase()] = address;
 
           // Verify prediction
-          if (address.toLowerCase() === predictedAddress.toLowerCase()) {
+          if (implementation) {
+            console.log(
+              chalk.green(
+                `✓ ${config.displayName} proxy deployed at ${address}`
+              )
+            );
+            console.log(chalk.gray(`  Implementation: ${implementation}`));
+            console.log(chalk.gray(`  ProxyAdmin: ${proxyAdmin}`));
+          } else if (
+            address.toLowerCase() === predictedAddress?.toLowerCase()
+          ) {
             console.log(
               chalk.green(
                 `✓ ${config.displayName} deployed at ${address} ✓ (predicted correctly)`
@@ -487,6 +751,10 @@ Example:
             name: config.name,
             address,
             params,
+            contract: PLAN_ENTRIES[contractKey].verify,
+            implementation,
+            admin: implementation ? proxyAdmin : undefined,
+            initializerArgs: initArgs,
           });
         } catch (error: any) {
           console.log(chalk.red(`✗ Failed to deploy ${config.displayName}`));
@@ -495,8 +763,19 @@ Example:
         }
       }
 
-      // Step 7: Verification
-      if (verifyResponse.verify) {
+      // Step 7: Wiring (guarded calls, so re-runs skip what is on-chain)
+      if (wire) {
+        await applyWiring(
+          hre,
+          networkConfig,
+          deployedAddresses,
+          plannedWiring.map((edge) => edge.label),
+          gasLog
+        );
+      }
+
+      // Step 8: Verification
+      if (verify) {
         console.log(
           chalk.cyan(
             "\n═══════════════════════════════════════════════════════"
@@ -517,8 +796,10 @@ Example:
 
           try {
             await hre.run("verify:verify", {
-              address: result.address,
+              // Proxies verify their implementation
+              address: result.implementation ?? result.address,
               constructorArguments: result.params,
+              ...(result.contract ? { contract: result.contract } : {}),
             });
             console.log(chalk.green(`✓ ${result.name} verified`));
           } catch (error: any) {
@@ -553,6 +834,11 @@ Example:
       for (const result of deploymentResults) {
         console.log(chalk.white(`  ${result.name}:`));
         console.log(chalk.gray(`    ${result.address}`));
+        if (result.implementation) {
+          console.log(
+            chalk.gray(`    implementation: ${result.implementation}`)
+          );
+        }
       }
 
       console.log(
@@ -560,26 +846,62 @@ Example:
       );
 
       // Save deployments to standard location (addresses.json + individual files)
+      const sessionTimestamp = Date.now();
       const deploymentsToExport: Record<string, any> = {};
       for (const result of deploymentResults) {
         deploymentsToExport[result.name] = {
           address: result.address,
+          ...(result.implementation
+            ? {
+                kind: "transparentProxy",
+                implementation: result.implementation,
+                admin: result.admin,
+              }
+            : {}),
           constructorArgs: [], // Could be enhanced to include actual args
           metadata: {
             deployer: deployer.address,
-            timestamp: Date.now(),
+            timestamp: sessionTimestamp,
             chainId: hre.network.config.chainId,
+            ...(result.initializerArgs
+              ? { initializerArgs: result.initializerArgs }
+              : {}),
           },
         };
+        // hardhat-upgrades reuses one ProxyAdmin per network for all proxies
+        if (result.admin) {
+          const exported = deploymentsToExport.ProxyAdmin;
+          if (
+            exported &&
+            exported.address.toLowerCase() !== result.admin.toLowerCase()
+          ) {
+            throw new Error(
+              `${result.name} uses ProxyAdmin ${result.admin}, but earlier proxies use ${exported.address}: only one ProxyAdmin can be recorded`
+            );
+          }
+          deploymentsToExport.ProxyAdmin = {
+            address: result.admin,
+            kind: "proxyAdmin",
+            artifact: "ProxyAdmin",
+          };
+        }
       }
 
-      await exportDeployments(hre, deploymentsToExport);
+      await exportDeployments(hre, deploymentsToExport, sessionTimestamp);
+      if (gasLog.length > 0) {
+        await writeGasReport(hre, gasLog, {
+          session: sessionTimestamp,
+          task: "deploy",
+        });
+      }
 
       console.log(
         chalk.green(
           `\n✅ All deployments saved to deployments/${hre.network.name}/`
         )
       );
+
+      await auditWiring(hre, networkConfig, deployedAddresses);
     } catch (error: any) {
       console.error(
         chalk.red("\n✗ Deployment failed:"),
@@ -1,7 +1,9 @@
-import fs from "fs";
 import path from "path";
 import { task } from "hardhat/config";
 import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { exportDeployment } from "./helpers/export";
+import { getNetworkProfile } from "./helpers/profile";
+import { loadConfigFile } from "./helpers/config";
 
 /*//////////////////////////////////////////////////////////////
                         CONFIGURATION
@@ -13,21 +15,6 @@ const DEFAULT_CONFIG_PATH = path.resolve(
   "deploy-leaderboard.json"
 );
 
-interface LeaderboardConfigOnly {
-  leaderboard: {
-    initialOwner: string;
-    depositRateBps: string;
-    borrowRateBps: string;
-    supplyDailyBonus: string;
-    borrowDailyBonus: string;
-    repayDailyBonus?: string;
-    withdrawDailyBonus?: string;
-    cooldownSeconds: string;
-    minDailyBonusUsd?: string;
-  };
-  verify?: boolean;
-}
-
 interface TaskArgs {
   configFile?: string;
   verify?: boolean;
@@ -40,18 +27,6 @@ interface TaskArgs {
 const resolvePath = (maybePath: string): string =>
   path.isAbsolute(maybePath) ? maybePath : path.join(process.cwd(), maybePath);
 
-const loadConfig = (configPath: string): LeaderboardConfigOnly => {
-  if (!fs.existsSync(configPath)) {
-    throw new Error(`Config file not found at ${configPath}`);
-  }
-  const raw = fs.readFileSync(configPath, "utf8");
-  try {
-    return JSON.parse(raw) as LeaderboardConfigOnly;
-  } catch (error) {
-    throw new Error(`Unable to parse config JSON: ${(error as Error).message}`);
-  }
-};
-
 const requireConfigValue = (
   value: string | undefined,
   label: string
@@ -95,7 +70,8 @@ const deployLeaderboardConfigOnly = async (
   console.log(`📄 Using config: ${configPath}`);
 
   // Load configuration
-  const config = loadConfig(configPath);
+  const config = loadConfigFile(hre, "deploy-leaderboard", configPath);
+  const { defaults } = getNetworkProfile(hre);
 
   if (!config.leaderboard) {
     throw new Error("Missing leaderboard configuration in config file");
@@ -107,28 +83,31 @@ const deployLeaderboardConfigOnly = async (
     "leaderboard.initialOwner"
   );
   const depositRateBps = requireConfigValue(
-    config.leaderboard.depositRateBps,
+    config.leaderboard.depositRateBps || defaults.depositRateBps,
     "leaderboard.depositRateBps"
   );
   const borrowRateBps = requireConfigValue(
-    config.leaderboard.borrowRateBps,
+    config.leaderboard.borrowRateBps || defaults.borrowRateBps,
     "leaderboard.borrowRateBps"
   );
   const supplyDailyBonus = requireConfigValue(
-    config.leaderboard.supplyDailyBonus,
+    config.leaderboard.supplyDailyBonus || defaults.supplyDailyBonus,
     "leaderboard.supplyDailyBonus"
   );
   const borrowDailyBonus = requireConfigValue(
-    config.leaderboard.borrowDailyBonus,
+    config.leaderboard.borrowDailyBonus || defaults.borrowDailyBonus,
     "leaderboard.borrowDailyBonus"
   );
-  const repayDailyBonus = config.leaderboard.repayDailyBonus || "0";
-  const withdrawDailyBonus = config.leaderboard.withdrawDailyBonus || "0";
+  const repayDailyBonus =
+    config.leaderboard.repayDailyBonus || defaults.repayDailyBonus || "0";
+  const withdrawDailyBonus =
+    config.leaderboard.withdrawDailyBonus || defaults.withdrawDailyBonus || "0";
   const cooldownSeconds = requireConfigValue(
-    config.leaderboard.cooldownSeconds,
+    config.leaderboard.cooldownSeconds || defaults.cooldownSeconds,
     "leaderboard.cooldownSeconds"
   );
-  const minDailyBonusUsd = config.leaderboard.minDailyBonusUsd || "0";
+  const minDailyBonusUsd =
+    config.leaderboard.minDailyBonusUsd || defaults.minDailyBonusUsd || "0";
 
   // Get deployer
   const [deployer] = await hre.ethers.getSigners();
@@ -205,34 +184,28 @@ const deployLeaderboardConfigOnly = async (
     ]);
   }
 
-  // Save deployment info
-  const deploymentInfo = {
-    leaderboardConfig: leaderboardAddress,
-    deployer: deployerAddress,
-    network: hre.network.name,
-    timestamp: new Date().toISOString(),
-    parameters: {
-      leaderboard: {
-        initialOwner: leaderboardOwner,
-        depositRateBps,
-        borrowRateBps,
-        supplyDailyBonus,
-        borrowDailyBonus,
-        repayDailyBonus,
-        withdrawDailyBonus,
-        cooldownSeconds,
-        minDailyBonusUsd,
-      },
+  // Record in the deployments manifest
+  await exportDeployment(hre, "LeaderboardConfig", {
+    address: leaderboardAddress,
+    artifact: "LeaderboardConfig",
+    constructorArgs: [
+      leaderboardOwner,
+      depositRateBps,
+      borrowRateBps,
+      supplyDailyBonus,
+      borrowDailyBonus,
+      repayDailyBonus,
+      withdrawDailyBonus,
+      cooldownSeconds,
+      minDailyBonusUsd,
+    ],
+    metadata: {
+      txHash: leaderboard.deploymentTransaction()?.hash,
+      deployer: deployerAddress,
+      timestamp: Date.now(),
+      chainId: hre.network.config.chainId,
     },
-  };
-
-  const outputPath = path.resolve(
-    __dirname,
-    `../../deployments/leaderboard-config-${hre.network.name}-${Date.now()}.json`
-  );
-  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
-  fs.writeFileSync(outputPath, JSON.stringify(deploymentInfo, null, 2));
-  console.log(`\n💾 Deployment info saved to ${outputPath}`);
+  });
 
   console.log("\n================ Post-Deployment Notes ==================");
   console.log("\n📌 LeaderboardConfig - Available Functions:");
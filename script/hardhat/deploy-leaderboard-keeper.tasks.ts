@@ -1,8 +1,13 @@
-import fs from "fs";
 import path from "path";
 import { task } from "hardhat/config";
 import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { GasEntry } from "./types";
 import { exportDeployment } from "./helpers/export";
+import { writeGasReport } from "./helpers/gas";
+import { executePlan, verifyContract } from "./helpers/plan";
+import { getNetworkProfile } from "./helpers/profile";
+import { loadConfigFile } from "./helpers/config";
+import { PLAN_ENTRIES } from "./config/plan";
 
 /*//////////////////////////////////////////////////////////////
                         CONFIGURATION
@@ -14,17 +19,6 @@ const DEFAULT_CONFIG_PATH = path.resolve(
   "deploy-leaderboard-keeper.json"
 );
 
-interface LeaderboardKeeperConfig {
-  keeper: {
-    initialOwner: string;
-    keeperAddress: string;
-    minSettlementInterval: string;
-    dustLock: string;
-    nftRegistry: string;
-  };
-  verify?: boolean;
-}
-
 interface TaskArgs {
   configFile?: string;
   verify?: boolean;
@@ -37,49 +31,6 @@ interface TaskArgs {
 const resolvePath = (maybePath: string): string =>
   path.isAbsolute(maybePath) ? maybePath : path.join(process.cwd(), maybePath);
 
-const loadConfig = (configPath: string): LeaderboardKeeperConfig => {
-  if (!fs.existsSync(configPath)) {
-    throw new Error(`Config file not found at ${configPath}`);
-  }
-  const raw = fs.readFileSync(configPath, "utf8");
-  try {
-    return JSON.parse(raw) as LeaderboardKeeperConfig;
-  } catch (error) {
-    throw new Error(`Unable to parse config JSON: ${(error as Error).message}`);
-  }
-};
-
-const requireConfigValue = (
-  value: string | undefined,
-  label: string
-): string => {
-  if (!value || value.trim() === "") {
-    throw new Error(`Missing required config value for ${label}`);
-  }
-  return value;
-};
-
-const verifyContract = async (
-  hre: HardhatRuntimeEnvironment,
-  address: string,
-  constructorArgs: any[] = []
-): Promise<void> => {
-  try {
-    console.log(`   🔍 Verifying contract at ${address}...`);
-    await hre.run("verify:verify", {
-      address,
-      constructorArguments: constructorArgs,
-    });
-    console.log(`   ✅ Contract verified successfully!`);
-  } catch (error: any) {
-    if (error.message?.includes("already verified")) {
-      console.log(`   ✅ Contract already verified`);
-    } else {
-      console.log(`   ⚠️  Verification failed: ${error.message}`);
-    }
-  }
-};
-
 /*//////////////////////////////////////////////////////////////
                     MAIN DEPLOYMENT LOGIC
 //////////////////////////////////////////////////////////////*/
@@ -92,53 +43,32 @@ const deployLeaderboardKeeper = async (
   console.log(`📄 Using config: ${configPath}`);
 
   // Load configuration
-  const config = loadConfig(configPath);
-
-  if (!config.keeper) {
-    throw new Error("Missing keeper configuration in config file");
-  }
-
-  // Extract LeaderboardKeeper parameters
-  const initialOwner = requireConfigValue(
-    config.keeper.initialOwner,
-    "keeper.initialOwner"
-  );
-  const keeperAddress = requireConfigValue(
-    config.keeper.keeperAddress,
-    "keeper.keeperAddress"
-  );
-  const minSettlementInterval = requireConfigValue(
-    config.keeper.minSettlementInterval,
-    "keeper.minSettlementInterval"
-  );
-  const dustLock = requireConfigValue(
-    config.keeper.dustLock,
-    "keeper.dustLock"
-  );
-  const nftRegistry = requireConfigValue(
-    config.keeper.nftRegistry,
-    "keeper.nftRegistry"
-  );
+  const config = loadConfigFile(hre, "deploy-leaderboard-keeper", configPath);
 
   // Get deployer
   const [deployer] = await hre.ethers.getSigners();
   const deployerAddress = await deployer.getAddress();
   console.log(`👤 Deployer: ${deployerAddress}`);
 
-  // Deploy LeaderboardKeeper
-  console.log("\n⛏️  Deploying LeaderboardKeeper...");
-  const LeaderboardKeeperFactory =
-    await hre.ethers.getContractFactory("LeaderboardKeeper");
-  const keeper = await LeaderboardKeeperFactory.deploy(
+  // Deploy LeaderboardKeeper from its plan entry
+  const gasLog: GasEntry[] = [];
+  const { deployed } = await executePlan(
+    hre,
+    { name: "leaderboard-keeper", entries: [PLAN_ENTRIES.LeaderboardKeeper] },
+    { config: { ...config, profile: getNetworkProfile(hre) }, gasLog }
+  );
+  const { address: keeperContractAddress, constructorArgs } = deployed[0];
+  const [
     initialOwner,
     keeperAddress,
     minSettlementInterval,
     dustLock,
-    nftRegistry
+    nftRegistry,
+  ] = constructorArgs;
+  const keeper = await hre.ethers.getContractAt(
+    "LeaderboardKeeper",
+    keeperContractAddress
   );
-  await keeper.waitForDeployment();
-  const keeperContractAddress = await keeper.getAddress();
-  console.log(`✅ LeaderboardKeeper deployed at ${keeperContractAddress}`);
 
   // Display deployment parameters
   console.log("\n📋 Deployment Summary:");
@@ -156,22 +86,17 @@ const deployLeaderboardKeeper = async (
     `   Max Settlement Batch: ${await keeper.MAX_SETTLEMENT_BATCH()}`
   );
 
-  // Get deployment transaction details
-  const depTx = keeper.deploymentTransaction();
-  if (depTx) {
-    const receipt = await depTx.wait();
-    const gasUsed = receipt?.gasUsed ?? BigInt(0);
-    const gasPrice =
-      (receipt as any)?.effectiveGasPrice ??
-      (receipt as any)?.gasPrice ??
-      BigInt(0);
-    const costWei = gasUsed * gasPrice;
+  // Gas details
+  const gasEntry = gasLog[0];
+  if (gasEntry) {
     console.log(`\n⛽ Gas Details:`);
-    console.log(`   Gas Used: ${gasUsed.toString()}`);
+    console.log(`   Gas Used: ${gasEntry.gasUsed.toString()}`);
+    console.log(
+      `   Gas Price: ${hre.ethers.formatUnits(gasEntry.gasPrice, "gwei")} gwei`
+    );
     console.log(
-      `   Gas Price: ${hre.ethers.formatUnits(gasPrice, "gwei")} gwei`
+      `   Total Cost: ${hre.ethers.formatEther(gasEntry.costWei)} MON`
     );
-    console.log(`   Total Cost: ${hre.ethers.formatEther(costWei)} MON`);
   }
 
   // Verify contract if requested
@@ -180,48 +105,37 @@ const deployLeaderboardKeeper = async (
     await new Promise((resolve) => setTimeout(resolve, 10000)); // Wait 10s
 
     console.log("\n🔍 Verifying LeaderboardKeeper...");
-    await verifyContract(hre, keeperContractAddress, [
-      initialOwner,
-      keeperAddress,
-      minSettlementInterval,
-      dustLock,
-      nftRegistry,
-    ]);
+    await verifyContract(
+      hre,
+      keeperContractAddress,
+      constructorArgs,
+      PLAN_ENTRIES.LeaderboardKeeper.verify
+    );
   }
 
-  // Save deployment info
-  const deploymentInfo = {
-    leaderboardKeeper: keeperContractAddress,
-    deployer: deployerAddress,
-    network: hre.network.name,
-    timestamp: new Date().toISOString(),
-    parameters: {
-      keeper: {
-        initialOwner,
-        keeperAddress,
-        minSettlementInterval,
-        dustLock,
-        nftRegistry,
+  // Record in the deployments manifest (and session folder)
+  const sessionTimestamp = Date.now();
+  await exportDeployment(
+    hre,
+    "LeaderboardKeeper",
+    {
+      address: keeperContractAddress,
+      artifact: PLAN_ENTRIES.LeaderboardKeeper.artifact,
+      constructorArgs,
+      metadata: {
+        txHash: deployed[0].txHash,
+        blockNumber: deployed[0].blockNumber,
+        deployer: deployerAddress,
+        timestamp: sessionTimestamp,
+        chainId: hre.network.config.chainId,
+        gasUsed: gasEntry?.gasUsed.toString(),
       },
     },
-  };
-
-  // Export to standard deployments folder
-  await exportDeployment(hre, "LeaderboardKeeper", {
-    address: keeperContractAddress,
-    constructorArgs: [
-      initialOwner,
-      keeperAddress,
-      minSettlementInterval,
-      dustLock,
-      nftRegistry,
-    ],
-    metadata: {
-      deployer: deployerAddress,
-      timestamp: Date.now(),
-      chainId: hre.network.config.chainId,
-      gasUsed: depTx ? (await depTx.wait())?.gasUsed.toString() : undefined,
-    },
+    sessionTimestamp
+  );
+  await writeGasReport(hre, gasLog, {
+    session: sessionTimestamp,
+    task: "deploy:leaderboard-keeper",
   });
 
   console.log("\n================ Post-Deployment Notes ==================");
@@ -1,8 +1,11 @@
-import fs from "fs";
 import path from "path";
 import { task } from "hardhat/config";
 import type { HardhatRuntimeEnvironment } from "hardhat/types";
 import { exportDeployments } from "./helpers/export";
+import { getNetworkProfile } from "./helpers/profile";
+import { loadConfigFile, resolveConfigFile } from "./helpers/config";
+import { formatSchemaErrors } from "./helpers/schema";
+import { LeaderboardConfig } from "./types";
 
 /*//////////////////////////////////////////////////////////////
                         CONFIGURATION
@@ -14,42 +17,6 @@ const DEFAULT_CONFIG_PATH = path.resolve(
   "deploy-leaderboard.json"
 );
 
-interface VotingPowerTier {
-  minVotingPower: string;
-  multiplierBps: string;
-}
-
-interface LeaderboardConfig {
-  addresses?: {
-    dustLock?: string;
-  };
-  leaderboard?: {
-    initialOwner?: string;
-    depositRateBps?: string;
-    borrowRateBps?: string;
-    vpRateBps?: string;
-    supplyDailyBonus?: string;
-    borrowDailyBonus?: string;
-    repayDailyBonus?: string;
-    withdrawDailyBonus?: string;
-    cooldownSeconds?: string;
-    minDailyBonusUsd?: string;
-  };
-  epochManager?: {
-    initialOwner?: string;
-  };
-  nftRegistry?: {
-    initialOwner?: string;
-    firstBonus?: string;
-    decayRatio?: string;
-  };
-  votingPowerMultiplier?: {
-    initialOwner?: string;
-    tiers?: VotingPowerTier[];
-  };
-  verify?: boolean;
-}
-
 interface TaskArgs {
   configFile?: string;
   verify?: boolean;
@@ -62,18 +29,6 @@ interface TaskArgs {
 const resolvePath = (maybePath: string): string =>
   path.isAbsolute(maybePath) ? maybePath : path.join(process.cwd(), maybePath);
 
-const loadConfig = (configPath: string): LeaderboardConfig => {
-  if (!fs.existsSync(configPath)) {
-    throw new Error(`Config file not found at ${configPath}`);
-  }
-  const raw = fs.readFileSync(configPath, "utf8");
-  try {
-    return JSON.parse(raw) as LeaderboardConfig;
-  } catch (error) {
-    throw new Error(`Unable to parse config JSON: ${(error as Error).message}`);
-  }
-};
-
 const requireConfigValue = (
   value: string | undefined,
   label: string
@@ -117,7 +72,8 @@ const deployLeaderboardConfig = async (
   console.log(`📄 Using config: ${configPath}`);
 
   // Load configuration
-  const config = loadConfig(configPath);
+  const config = loadConfigFile(hre, "deploy-leaderboard", configPath);
+  const { defaults } = getNetworkProfile(hre);
 
   if (!config.addresses?.dustLock) {
     throw new Error("Missing addresses.dustLock in config file");
@@ -145,29 +101,32 @@ const deployLeaderboardConfig = async (
     "leaderboard.initialOwner"
   );
   const depositRateBps = requireConfigValue(
-    config.leaderboard.depositRateBps,
+    config.leaderboard.depositRateBps || defaults.depositRateBps,
     "leaderboard.depositRateBps"
   );
   const borrowRateBps = requireConfigValue(
-    config.leaderboard.borrowRateBps,
+    config.leaderboard.borrowRateBps || defaults.borrowRateBps,
     "leaderboard.borrowRateBps"
   );
-  const vpRateBps = config.leaderboard.vpRateBps || "0";
+  const vpRateBps = config.leaderboard.vpRateBps || defaults.vpRateBps || "0";
   const supplyDailyBonus = requireConfigValue(
-    config.leaderboard.supplyDailyBonus,
+    config.leaderboard.supplyDailyBonus || defaults.supplyDailyBonus,
     "leaderboard.supplyDailyBonus"
   );
   const borrowDailyBonus = requireConfigValue(
-    config.leaderboard.borrowDailyBonus,
+    config.leaderboard.borrowDailyBonus || defaults.borrowDailyBonus,
     "leaderboard.borrowDailyBonus"
   );
-  const repayDailyBonus = config.leaderboard.repayDailyBonus || "0";
-  const withdrawDailyBonus = config.leaderboard.withdrawDailyBonus || "0";
+  const repayDailyBonus =
+    config.leaderboard.repayDailyBonus || defaults.repayDailyBonus || "0";
+  const withdrawDailyBonus =
+    config.leaderboard.withdrawDailyBonus || defaults.withdrawDailyBonus || "0";
   const cooldownSeconds = requireConfigValue(
-    config.leaderboard.cooldownSeconds,
+    config.leaderboard.cooldownSeconds || defaults.cooldownSeconds,
     "leaderboard.cooldownSeconds"
   );
-  const minDailyBonusUsd = config.leaderboard.minDailyBonusUsd || "0";
+  const minDailyBonusUsd =
+    config.leaderboard.minDailyBonusUsd || defaults.minDailyBonusUsd || "0";
 
   // Extract EpochManager parameters
   const epochOwner = requireConfigValue(
@@ -181,11 +140,11 @@ const deployLeaderboardConfig = async (
     "nftRegistry.initialOwner"
   );
   const firstBonus = requireConfigValue(
-    config.nftRegistry.firstBonus,
+    config.nftRegistry.firstBonus || defaults.firstBonus,
     "nftRegistry.firstBonus"
   );
   const decayRatio = requireConfigValue(
-    config.nftRegistry.decayRatio,
+    config.nftRegistry.decayRatio || defaults.decayRatio,
     "nftRegistry.decayRatio"
   );
 
@@ -377,47 +336,7 @@ const deployLeaderboardConfig = async (
     ]);
   }
 
-  // Save deployment info
-  const deploymentInfo = {
-    epochManager: epochManagerAddress,
-    nftPartnershipRegistry: nftRegistryAddress,
-    leaderboardConfig: leaderboardAddress,
-    votingPowerMultiplier: votingPowerMultiplierAddress,
-    deployer: deployerAddress,
-    network: hre.network.name,
-    timestamp: new Date().toISOString(),
-    parameters: {
-      addresses: {
-        dustLock: dustLockAddress,
-      },
-      epochManager: {
-        initialOwner: epochOwner,
-      },
-      nftRegistry: {
-        initialOwner: nftOwner,
-        firstBonus,
-        decayRatio,
-      },
-      leaderboard: {
-        initialOwner: leaderboardOwner,
-        depositRateBps,
-        borrowRateBps,
-        vpRateBps,
-        supplyDailyBonus,
-        borrowDailyBonus,
-        repayDailyBonus,
-        withdrawDailyBonus,
-        cooldownSeconds,
-        minDailyBonusUsd,
-      },
-      votingPowerMultiplier: {
-        initialOwner: vpOwner,
-        tiers,
-      },
-    },
-  };
-
-  // Export to standard deployments folder
+  // Record in the deployments manifest (and session folder)
   const deploymentsToExport: Record<string, any> = {
     EpochManager: {
       address: epochManagerAddress,
@@ -569,12 +488,20 @@ task(
     "Path to deployment config JSON file",
     DEFAULT_CONFIG_PATH
   )
-  .setAction(async (taskArgs: TaskArgs) => {
+  .setAction(async (taskArgs: TaskArgs, hre: HardhatRuntimeEnvironment) => {
     const configPath = resolvePath(taskArgs.configFile || DEFAULT_CONFIG_PATH);
 
     try {
       console.log(`📄 Validating config: ${configPath}`);
-      const config = loadConfig(configPath);
+      const resolved = resolveConfigFile(hre, "deploy-leaderboard", configPath);
+      const config = resolved.config as LeaderboardConfig;
+      const schemaErrors = resolved.errors;
+      const { defaults } = getNetworkProfile(hre);
+
+      if (schemaErrors.length > 0) {
+        console.log("❌ Config errors:");
+        console.log(formatSchemaErrors(schemaErrors));
+      }
 
       const missing: string[] = [];
 
@@ -585,7 +512,7 @@ task(
 
       // Validate LeaderboardConfig
       if (!config.leaderboard) {
-        missing.push("leaderboard (entire section)");
+        missing.push("leaderboard");
       } else {
         const leaderboardRequired = [
           "initialOwner",
@@ -596,7 +523,7 @@ task(
           "cooldownSeconds",
         ];
         for (const field of leaderboardRequired) {
-          const value = (config.leaderboard as any)[field];
+          const value = (config.leaderboard as any)[field] || defaults[field];
           if (value === undefined || value === null || value === "") {
             missing.push(`leaderboard.${field}`);
           }
@@ -605,7 +532,7 @@ task(
 
       // Validate EpochManager
       if (!config.epochManager) {
-        missing.push("epochManager (entire section)");
+        missing.push("epochManager");
       } else {
         const epochRequired = ["initialOwner"];
         for (const field of epochRequired) {
@@ -618,11 +545,11 @@ task(
 
       // Validate NFTPartnershipRegistry
       if (!config.nftRegistry) {
-        missing.push("nftRegistry (entire section)");
+        missing.push("nftRegistry");
       } else {
         const nftRequired = ["initialOwner", "firstBonus", "decayRatio"];
         for (const field of nftRequired) {
-          const value = (config.nftRegistry as any)[field];
+          const value = (config.nftRegistry as any)[field] || defaults[field];
           if (value === undefined || value === null || value === "") {
             missing.push(`nftRegistry.${field}`);
           }
@@ -631,7 +558,7 @@ task(
 
       // Validate VotingPowerMultiplier
       if (!config.votingPowerMultiplier) {
-        missing.push("votingPowerMultiplier (entire section)");
+        missing.push("votingPowerMultiplier");
       } else {
         const vpRequired = ["initialOwner"];
         for (const field of vpRequired) {
@@ -644,11 +571,15 @@ task(
 
       if (missing.length > 0) {
         console.log("❌ Missing required fields:");
-        missing.forEach((field) => console.log(`  • ${field}`));
+        missing.forEach((field) => console.log(`  • $.${field} is required`));
+      }
+      if (schemaErrors.length > 0 || missing.length > 0) {
         throw new Error("Configuration validation failed");
       }
 
-      console.log("✅ All required fields present");
+      console.log(
+        "✅ Config matches its schema and all required fields are present"
+      );
       console.log("\n📋 Configuration Summary:");
 
       console.log("\n🔹 EpochManager:");
@@ -2,31 +2,40 @@ import fs from "fs";
 import path from "path";
 import { task } from "hardhat/config";
 import type { HardhatRuntimeEnvironment } from "hardhat/types";
-import type { Signer } from "ethers";
 import {
   DeployableContract,
   AddressBook,
   TaskArgs,
   DeployConfig,
+  SchemaError,
+  DeployPredictArgs,
+  GasEntry,
 } from "./types";
+import { DeploymentJournal } from "./helpers/journal";
+import { executePlan } from "./helpers/plan";
+import { formatEther, formatGwei, writeGasReport } from "./helpers/gas";
+import { SafeBatchCollector, getSafeBatchDir } from "./helpers/safe";
+import { ManifestUpdate, updateManifest } from "./helpers/manifest";
+import { recordLiveState } from "./helpers/drift";
+import {
+  CREATEX_ADDRESS,
+  assertDeterministicConfig,
+  assertDeterministicPlan,
+  isDeterministicMode,
+  predictPlanAddresses,
+} from "./helpers/deterministic";
+import { getNetworkProfile } from "./helpers/profile";
+import { loadConfigFile, resolveConfigFile } from "./helpers/config";
+import { formatSchemaErrors } from "./helpers/schema";
+import { NEVERLAND_PLAN } from "./config/plan";
 
 /*//////////////////////////////////////////////////////////////
                               CONSTANTS
 //////////////////////////////////////////////////////////////*/
 
-const ALL_CONTRACTS: DeployableContract[] = [
-  "Dust",
-  "DustLock",
-  "DustRewardsController",
-  "UserVaultRegistry",
-  "UserVaultImplementation",
-  "UserVaultBeacon",
-  "UserVaultFactory",
-  "RevenueReward",
-  "DustLockTransferStrategy",
-  "NeverlandDustHelper",
-  "NeverlandUiProvider",
-];
+const ALL_CONTRACTS = NEVERLAND_PLAN.entries.map(
+  (entry) => entry.name
+) as DeployableContract[];
 
 /*//////////////////////////////////////////////////////////////
                         CONFIGURATION / PATHS
@@ -39,161 +48,9 @@ const DEFAULT_CONFIG_PATH = path.resolve(__dirname, "config", "deploy.json");
 const resolvePath = (maybePath: string): string =>
   path.isAbsolute(maybePath) ? maybePath : path.join(process.cwd(), maybePath);
 
-const loadConfig = (configPath: string): DeployConfig => {
-  if (!fs.existsSync(configPath)) {
-    throw new Error(`Config file not found at ${configPath}`);
-  }
-  const raw = fs.readFileSync(configPath, "utf8");
-  try {
-    return JSON.parse(raw) as DeployConfig;
-  } catch (error) {
-    throw new Error(`Unable to parse config JSON: ${(error as Error).message}`);
-  }
-};
-
-const requireConfigValue = (
-  value: string | undefined,
-  label: string
-): string => {
-  if (!value || value.trim() === "") {
-    throw new Error(`Missing required config value for ${label}`);
-  }
-  return value;
-};
-
 const isValidAddress = (value?: string): value is string =>
   !!value && value.length === 42 && value.startsWith("0x");
 
-const tryGetSigner = async (
-  hre: HardhatRuntimeEnvironment,
-  address: string,
-  opts?: { dryRun?: boolean }
-): Promise<Signer | null> => {
-  try {
-    return await hre.ethers.getSigner(address);
-  } catch {}
-  if (opts?.dryRun) {
-    try {
-      await hre.network.provider.request({
-        method: "hardhat_impersonateAccount",
-        params: [address],
-      });
-      return await hre.ethers.getSigner(address);
-    } catch (impErr) {
-      console.warn(
-        `⚠️  Unable to impersonate signer for ${address}: ${(impErr as Error).message}`
-      );
-    }
-  }
-  console.warn(`⚠️  Unable to get signer for ${address}`);
-  return null;
-};
-
-const getEnvWallet = (
-  hre: HardhatRuntimeEnvironment,
-  envVar: string
-): Signer | null => {
-  const pk = process.env[envVar];
-  if (!pk || pk.trim() === "") return null;
-  try {
-    return new hre.ethers.Wallet(pk, hre.ethers.provider);
-  } catch (e) {
-    console.warn(`⚠️  Invalid private key in ${envVar}`);
-    return null;
-  }
-};
-
-/*//////////////////////////////////////////////////////////////
-                       GAS REPORTING HELPERS
-//////////////////////////////////////////////////////////////*/
-type GasEntry = {
-  label: string;
-  from: string;
-  gasUsed: bigint;
-  gasPrice: bigint;
-  costWei: bigint;
-};
-
-const formatEther = (hre: HardhatRuntimeEnvironment, wei: bigint): string =>
-  hre.ethers.formatEther(wei);
-const formatGwei = (hre: HardhatRuntimeEnvironment, wei: bigint): string =>
-  hre.ethers.formatUnits(wei, "gwei");
-
-const reportTx = async (
-  hre: HardhatRuntimeEnvironment,
-  tx: any,
-  label: string,
-  gasLog: GasEntry[]
-): Promise<void> => {
-  if (!tx) return;
-  const receipt = await tx.wait();
-  const gasUsed: bigint = receipt.gasUsed ?? BigInt(0);
-  const gasPrice: bigint =
-    receipt.effectiveGasPrice ?? receipt.gasPrice ?? BigInt(0);
-  const costWei = gasUsed * gasPrice;
-  const from: string = (receipt.from ?? tx.from ?? "").toString();
-  gasLog.push({ label, from, gasUsed, gasPrice, costWei });
-  console.log(
-    `   ⛽ ${label}: gas=${gasUsed.toString()} price=${formatGwei(
-      hre,
-      gasPrice
-    )} gwei cost=${formatEther(hre, costWei)} MON`
-  );
-};
-
-const reportDeployment = async (
-  hre: HardhatRuntimeEnvironment,
-  contract: any,
-  label: string,
-  gasLog: GasEntry[]
-): Promise<void> => {
-  try {
-    const depTx =
-      typeof contract.deploymentTransaction === "function"
-        ? contract.deploymentTransaction()
-        : null;
-    if (depTx) {
-      await reportTx(hre, depTx, label, gasLog);
-    }
-  } catch (_) {
-    // best-effort only
-  }
-};
-
-const verifyContract = async (
-  hre: HardhatRuntimeEnvironment,
-  address: string,
-  constructorArgs: any[] = [],
-  contractName?: string,
-  dryRun: boolean = false
-): Promise<void> => {
-  if (dryRun) {
-    console.log(`   🔍 Skipping verification in dry-run mode for ${address}`);
-    return;
-  }
-
-  try {
-    console.log(`   🔍 Verifying contract at ${address}...`);
-    const verifyArgs: any = {
-      address,
-      constructorArguments: constructorArgs,
-    };
-
-    if (contractName) {
-      verifyArgs.contract = contractName;
-    }
-
-    await hre.run("verify:verify", verifyArgs);
-    console.log(`   ✅ Contract verified successfully!`);
-  } catch (error: any) {
-    if (error.message?.includes("already verified")) {
-      console.log(`   ✅ Contract already verified`);
-    } else {
-      console.log(`   ⚠️  Verification failed: ${error.message}`);
-    }
-  }
-};
-
 /*//////////////////////////////////////////////////////////////
                        MAIN DEPLOYMENT LOGIC
 //////////////////////////////////////////////////////////////*/
@@ -201,8 +58,11 @@ const deployNeverland = async (
   hre: HardhatRuntimeEnvironment,
   configPath: string,
   exclude: Set<DeployableContract>,
-  dryRun: boolean
+  dryRun: boolean,
+  resume: boolean,
+  useSafe: boolean
 ): Promise<void> => {
+  const sessionTimestamp = Date.now();
   console.log(`📄 Using config: ${configPath}`);
 
   // Ensure clean compilation for consistent bytecode
@@ -241,907 +101,61 @@ const deployNeverland = async (
     }
   }
 
-  const config = loadConfig(configPath);
+  const config = loadConfigFile(hre, "deploy", configPath);
   const configAddresses = config.addresses ?? {};
-
-  const addresses: AddressBook = {};
-  const implementations: Partial<Record<DeployableContract, string>> = {};
-  let proxyAdminAddress: string | undefined;
-  const pendingActions: string[] = [];
+  const profile = getNetworkProfile(hre);
   const gasLog: GasEntry[] = [];
-
-  const requireExistingAddress = (
-    name: DeployableContract,
-    reason: string
-  ): string => {
-    const value = configAddresses[name];
-    if (!isValidAddress(value)) {
-      throw new Error(
-        `Missing or invalid address for ${name} ${reason}. Please provide it in config.addresses.${name}`
-      );
-    }
-    return value;
-  };
-
-  const recordAddress = (name: DeployableContract, address: string): void => {
-    addresses[name] = address;
-  };
-
-  const recordProxyInfo = async (
-    name: DeployableContract,
-    proxyAddr: string
-  ): Promise<void> => {
-    try {
-      const impl =
-        await hre.upgrades.erc1967.getImplementationAddress(proxyAddr);
-      implementations[name] = impl;
-    } catch (e) {
-      console.warn(
-        `⚠️  Could not fetch implementation for ${name} at ${proxyAddr}`
-      );
-    }
-    try {
-      const admin = await hre.upgrades.erc1967.getAdminAddress(proxyAddr);
-      if (!proxyAdminAddress) proxyAdminAddress = admin;
-      else if (proxyAdminAddress.toLowerCase() !== admin.toLowerCase()) {
-        console.warn(
-          `⚠️  Multiple ProxyAdmin addresses detected: ${proxyAdminAddress} vs ${admin}`
-        );
-      }
-    } catch (e) {
-      console.warn(`⚠️  Could not fetch admin for ${name} at ${proxyAddr}`);
-    }
-  };
-
-  const getRecordedAddress = (name: DeployableContract): string => {
-    const addr = addresses[name] ?? configAddresses[name];
-    if (!addr) {
-      throw new Error(
-        `Address for ${name} unavailable. Provide it under config.addresses.${name} or deploy it in this run.`
-      );
-    }
-    return addr;
-  };
-
-  // Ensure excluded contracts have addresses supplied and record them up-front.
-  for (const name of exclude) {
-    const addr = requireExistingAddress(
-      name,
-      "because it is excluded via --exclude."
-    );
-    recordAddress(name, addr);
-  }
-
-  const [deployer] = await hre.ethers.getSigners();
-  const deployerAddress = await deployer.getAddress();
-  console.log(`👤 Deployer: ${deployerAddress}`);
-
-  // 1. Deploy Dust (proxy)
-  if (!exclude.has("Dust")) {
-    const dustOwner = requireConfigValue(
-      config.dust?.initialOwner,
-      "dust.initialOwner"
-    );
-    const totalSupplyRaw = requireConfigValue(
-      config.dust?.totalSupply,
-      "dust.totalSupply"
-    );
-    const totalSupply = BigInt(totalSupplyRaw);
-
-    console.log("\n⛏️  Deploying Dust (proxy)...");
-    const dustFactory = await hre.ethers.getContractFactory("Dust");
-    const dust = await hre.upgrades.deployProxy(
-      dustFactory,
-      [dustOwner, totalSupply],
-      {
-        initializer: "initialize",
-        kind: "transparent",
-      }
-    );
-    await dust.waitForDeployment();
-    const dustAddress = await dust.getAddress();
-    recordAddress("Dust", dustAddress);
-    console.log(`✅ Dust deployed at ${dustAddress}`);
-    await reportDeployment(hre, dust, "Deploy Dust (proxy)", gasLog);
-    await recordProxyInfo("Dust", dustAddress);
-
-    // Verify Dust implementation
-    const dustImpl =
-      await hre.upgrades.erc1967.getImplementationAddress(dustAddress);
-    await verifyContract(hre, dustImpl, [], "src/tokens/Dust.sol:Dust", dryRun);
-  } else {
-    const existingDust = getRecordedAddress("Dust");
-    console.log(
-      `\n⏭️  Skipping Dust deployment (excluded). Using provided Dust at ${existingDust}.`
-    );
-  }
-
-  // 2. Deploy DustLock (proxy + library)
-  if (!exclude.has("DustLock")) {
-    const forwarder = requireConfigValue(
-      config.dustLock?.forwarder,
-      "dustLock.forwarder"
-    );
-    const baseURI = requireConfigValue(
-      config.dustLock?.baseURI,
-      "dustLock.baseURI"
-    );
-    const dustAddress = getRecordedAddress("Dust");
-
-    console.log("\n⛏️  Deploying BalanceLogicLibrary...");
-    const balanceLibFactory = await hre.ethers.getContractFactory(
-      "BalanceLogicLibrary"
-    );
-    const balanceLib = await balanceLibFactory.deploy();
-    await balanceLib.waitForDeployment();
-    const balanceLibAddress = await balanceLib.getAddress();
-    console.log(`✅ BalanceLogicLibrary deployed at ${balanceLibAddress}`);
-    await reportDeployment(
-      hre,
-      balanceLib,
-      "Deploy BalanceLogicLibrary",
-      gasLog
-    );
-
-    console.log("⛏️  Deploying DustLock (proxy)...");
-    const dustLockFactory = await hre.ethers.getContractFactory("DustLock", {
-      libraries: { BalanceLogicLibrary: balanceLibAddress },
-    });
-    const dustLock = await hre.upgrades.deployProxy(
-      dustLockFactory,
-      [forwarder, dustAddress, baseURI],
-      {
-        initializer: "initialize",
-        kind: "transparent",
-        unsafeAllowLinkedLibraries: true,
-        constructorArgs: [forwarder],
-        unsafeAllow: ["constructor"],
-      }
-    );
-    await dustLock.waitForDeployment();
-    const dustLockAddress = await dustLock.getAddress();
-    recordAddress("DustLock", dustLockAddress);
-    console.log(`✅ DustLock deployed at ${dustLockAddress}`);
-    await reportDeployment(hre, dustLock, "Deploy DustLock (proxy)", gasLog);
-    await recordProxyInfo("DustLock", dustLockAddress);
-
-    // Verify DustLock implementation
-    const dustLockImpl =
-      await hre.upgrades.erc1967.getImplementationAddress(dustLockAddress);
-    await verifyContract(
-      hre,
-      dustLockImpl,
-      [forwarder],
-      "src/tokens/DustLock.sol:DustLock",
-      dryRun
-    );
-
-    // Configuration steps
-    if (config.dustLock?.earlyWithdrawTreasury) {
-      const treasuryAddress = config.dustLock.earlyWithdrawTreasury;
-      const currentTreasury = await dustLock.earlyWithdrawTreasury();
-      if (treasuryAddress.toLowerCase() !== currentTreasury.toLowerCase()) {
-        console.log(
-          `⚙️  Setting early withdraw treasury to ${treasuryAddress}...`
-        );
-        const tx = await dustLock.setEarlyWithdrawTreasury(treasuryAddress);
-        await reportTx(hre, tx, "DustLock.setEarlyWithdrawTreasury", gasLog);
-        console.log("✅ Early withdraw treasury updated.");
-      }
-    }
-
-    if (config.dustLock?.minLockAmount) {
-      const desiredMinLock = BigInt(config.dustLock.minLockAmount);
-      const currentMinLock = await dustLock.minLockAmount();
-      if (currentMinLock !== desiredMinLock) {
-        console.log(
-          `⚙️  Updating min lock amount to ${desiredMinLock.toString()}...`
-        );
-        const tx = await dustLock.setMinLockAmount(desiredMinLock);
-        await reportTx(hre, tx, "DustLock.setMinLockAmount", gasLog);
-        console.log("✅ Min lock amount updated.");
-      }
-    }
-
-    // Propose team transfer if different from deployer (two-step process)
-    if (config.dustLock?.team) {
-      const teamAddress = config.dustLock.team;
-      const currentTeam = await dustLock.team();
-      if (
-        teamAddress.toLowerCase() !== currentTeam.toLowerCase() &&
-        teamAddress.toLowerCase() !== deployerAddress.toLowerCase()
-      ) {
-        console.log(
-          `⚙️  Proposing DustLock team transfer to ${teamAddress}...`
-        );
-        const tx = await dustLock.proposeTeam(teamAddress);
-        await reportTx(hre, tx, "DustLock.proposeTeam", gasLog);
-        console.log("✅ Team transfer proposed (requires acceptance).");
-        pendingActions.push(
-          `New team must call DustLock(${await dustLock.getAddress()}).acceptTeam() from ${teamAddress}`
-        );
-      }
-    }
-  } else {
-    const existingDustLock = getRecordedAddress("DustLock");
-    console.log(
-      `\n⏭️  Skipping DustLock deployment (excluded). Using provided DustLock at ${existingDustLock}.`
-    );
-  }
-
-  // 3. Deploy DustRewardsController (proxy)
-  if (!exclude.has("DustRewardsController")) {
-    const emissionManager = requireConfigValue(
-      config.dustRewardsController?.emissionManager,
-      "dustRewardsController.emissionManager"
-    );
-
-    console.log("\n⛏️  Deploying DustRewardsController (proxy)...");
-    const controllerFactory = await hre.ethers.getContractFactory(
-      "DustRewardsController"
-    );
-    const controller = await hre.upgrades.deployProxy(controllerFactory, [], {
-      initializer: false,
-      kind: "transparent",
-      constructorArgs: [emissionManager],
-      unsafeAllow: [
-        "constructor",
-        "state-variable-immutable",
-        "state-variable-assignment",
-        "missing-initializer",
-      ],
-    });
-    await controller.waitForDeployment();
-    const controllerAddress = await controller.getAddress();
-    recordAddress("DustRewardsController", controllerAddress);
-    console.log(`✅ DustRewardsController deployed at ${controllerAddress}`);
-    await reportDeployment(
-      hre,
-      controller,
-      "Deploy DustRewardsController (proxy)",
-      gasLog
-    );
-    await recordProxyInfo("DustRewardsController", controllerAddress);
-
-    // Verify DustRewardsController implementation
-    const controllerImpl =
-      await hre.upgrades.erc1967.getImplementationAddress(controllerAddress);
-    await verifyContract(
-      hre,
-      controllerImpl,
-      [emissionManager],
-      "src/emissions/DustRewardsController.sol:DustRewardsController",
-      dryRun
-    );
-  } else {
-    const existingController = getRecordedAddress("DustRewardsController");
-    console.log(
-      `\n⏭️  Skipping DustRewardsController deployment (excluded). Using provided controller at ${existingController}.`
-    );
-  }
-
-  // 4. Deploy UserVaultRegistry
-  if (!exclude.has("UserVaultRegistry")) {
-    const registryConfig = config.selfRepaying?.registry;
-    if (!registryConfig) {
-      throw new Error("Missing selfRepaying.registry configuration block.");
-    }
-
-    const executorAddress = requireConfigValue(
-      registryConfig.executor,
-      "selfRepaying.registry.executor"
-    );
-    if (!isValidAddress(executorAddress)) {
-      throw new Error(`Invalid executor address provided: ${executorAddress}`);
-    }
-
-    const maxSlippageRaw = requireConfigValue(
-      registryConfig.maxSwapSlippageBps,
-      "selfRepaying.registry.maxSwapSlippageBps"
-    );
-    const maxSlippage = BigInt(maxSlippageRaw);
-
-    const supportedAggregators = registryConfig.supportedAggregators ?? [];
-    for (const aggregator of supportedAggregators) {
-      if (!isValidAddress(aggregator)) {
-        throw new Error(`Invalid aggregator address provided: ${aggregator}`);
-      }
-    }
-
-    {
-      console.log("\n⛏️  Deploying UserVaultRegistry...");
-      const registryFactory =
-        await hre.ethers.getContractFactory("UserVaultRegistry");
-      const registry = await registryFactory.deploy();
-      await registry.waitForDeployment();
-      const registryAddress = await registry.getAddress();
-      recordAddress("UserVaultRegistry", registryAddress);
-      console.log(`✅ UserVaultRegistry deployed at ${registryAddress}`);
-      await reportDeployment(hre, registry, "Deploy UserVaultRegistry", gasLog);
-
-      const currentExecutor = await registry.executor();
-      if (currentExecutor.toLowerCase() !== executorAddress.toLowerCase()) {
-        console.log(
-          `⚙️  Setting UserVaultRegistry executor to ${executorAddress}...`
-        );
-        const tx = await registry.setExecutor(executorAddress);
-        await reportTx(hre, tx, "UserVaultRegistry.setExecutor", gasLog);
-        console.log("✅ Executor updated.");
-      }
-
-      const currentMaxSlippage = await registry.maxSwapSlippageBps();
-      if (currentMaxSlippage !== maxSlippage) {
-        console.log(
-          `⚙️  Updating max swap slippage to ${maxSlippageRaw} bps...`
-        );
-        const tx = await registry.setMaxSwapSlippageBps(maxSlippage);
-        await reportTx(
-          hre,
-          tx,
-          "UserVaultRegistry.setMaxSwapSlippageBps",
-          gasLog
-        );
-        console.log("✅ Max swap slippage updated.");
-      }
-
-      for (const aggregator of supportedAggregators) {
-        const active = await registry.isSupportedAggregator(aggregator);
-        if (!active) {
-          console.log(`⚙️  Enabling aggregator ${aggregator}...`);
-          const tx = await registry.setSupportedAggregators(aggregator, true);
-          await reportTx(
-            hre,
-            tx,
-            `UserVaultRegistry.setSupportedAggregators(${aggregator})`,
-            gasLog
-          );
-          console.log("✅ Aggregator enabled.");
-        }
-      }
-
-      // Transfer ownership if different from deployer
-      const ownerAddress = requireConfigValue(
-        registryConfig.owner,
-        "selfRepaying.registry.owner"
-      );
-      const currentOwner = await registry.owner();
-      if (
-        ownerAddress.toLowerCase() !== currentOwner.toLowerCase() &&
-        ownerAddress.toLowerCase() !== deployerAddress.toLowerCase()
-      ) {
-        console.log(
-          `⚙️  Proposing UserVaultRegistry ownership transfer to ${ownerAddress}...`
-        );
-        const tx = await registry.transferOwnership(ownerAddress);
-        await reportTx(hre, tx, "UserVaultRegistry.transferOwnership", gasLog);
-        console.log("✅ Ownership transfer proposed (requires acceptance).");
-        const registryAddress = await registry.getAddress();
-        pendingActions.push(
-          `New owner must call UserVaultRegistry(${registryAddress}).acceptOwnership() from ${ownerAddress}`
-        );
-      }
-    }
-  } else {
-    const existingRegistry = getRecordedAddress("UserVaultRegistry");
-    console.log(
-      `\n⏭️  Skipping UserVaultRegistry deployment (excluded). Using provided registry at ${existingRegistry}.`
-    );
-  }
-
-  // 5. Deploy UserVault implementation
-  if (!exclude.has("UserVaultImplementation")) {
-    console.log("\n⛏️  Deploying UserVault implementation...");
-    const userVaultImplFactory =
-      await hre.ethers.getContractFactory("UserVault");
-    const userVaultImpl = await userVaultImplFactory.deploy();
-    await userVaultImpl.waitForDeployment();
-    const userVaultImplAddress = await userVaultImpl.getAddress();
-    recordAddress("UserVaultImplementation", userVaultImplAddress);
-    console.log(
-      `✅ UserVault implementation deployed at ${userVaultImplAddress}`
-    );
-    await reportDeployment(
-      hre,
-      userVaultImpl,
-      "Deploy UserVault Implementation",
-      gasLog
-    );
-  } else {
-    const existingImplementation = getRecordedAddress(
-      "UserVaultImplementation"
-    );
-    console.log(
-      `\n⏭️  Skipping UserVault implementation deployment (excluded). Using provided implementation at ${existingImplementation}.`
-    );
-  }
-
-  // 6. Deploy UserVault UpgradeableBeacon
-  if (!exclude.has("UserVaultBeacon")) {
-    const beaconOwner = requireConfigValue(
-      config.selfRepaying?.beaconOwner,
-      "selfRepaying.beaconOwner"
-    );
-    const userVaultImplementationAddress = getRecordedAddress(
-      "UserVaultImplementation"
-    );
-
-    console.log("\n⛏️  Deploying UserVault UpgradeableBeacon...");
-    const beaconFactory =
-      await hre.ethers.getContractFactory("UpgradeableBeacon");
-    const beacon = await beaconFactory.deploy(userVaultImplementationAddress);
-    await beacon.waitForDeployment();
-    const beaconAddress = await beacon.getAddress();
-    recordAddress("UserVaultBeacon", beaconAddress);
-    console.log(`✅ UserVault beacon deployed at ${beaconAddress}`);
-    await reportDeployment(
-      hre,
-      beacon,
-      "Deploy UserVault UpgradeableBeacon",
-      gasLog
-    );
-
-    // Transfer ownership if different from deployer
-    if (beaconOwner.toLowerCase() !== deployerAddress.toLowerCase()) {
-      console.log(`⚙️  Transferring beacon ownership to ${beaconOwner}...`);
-      const beaconContract = await hre.ethers.getContractAt(
-        "UpgradeableBeacon",
-        beaconAddress,
-        deployer
-      );
-      const tx = await beaconContract.transferOwnership(beaconOwner);
-      await reportTx(hre, tx, "UserVaultBeacon.transferOwnership", gasLog);
-      console.log("✅ Beacon ownership transferred.");
-    }
-  } else {
-    const existingBeacon = getRecordedAddress("UserVaultBeacon");
-    console.log(
-      `\n⏭️  Skipping UserVault beacon deployment (excluded). Using provided beacon at ${existingBeacon}.`
-    );
-  }
-
-  // 7. Deploy UserVaultFactory (proxy, uninitialized)
-  if (!exclude.has("UserVaultFactory")) {
-    const poolAddressesProviderRegistry = requireConfigValue(
-      config.selfRepaying?.poolAddressesProviderRegistry,
-      "selfRepaying.poolAddressesProviderRegistry"
-    );
-    if (!isValidAddress(poolAddressesProviderRegistry)) {
-      throw new Error(
-        `Invalid poolAddressesProviderRegistry address provided: ${poolAddressesProviderRegistry}`
-      );
-    }
-
-    console.log("\n⛏️  Deploying UserVaultFactory (proxy, uninitialized)...");
-    const factoryFactory =
-      await hre.ethers.getContractFactory("UserVaultFactory");
-    const userVaultFactory = await hre.upgrades.deployProxy(
-      factoryFactory,
-      [],
-      {
-        initializer: false,
-        kind: "transparent",
-        unsafeAllow: ["missing-initializer"],
-      }
-    );
-    await userVaultFactory.waitForDeployment();
-    const userVaultFactoryAddress = await userVaultFactory.getAddress();
-    recordAddress("UserVaultFactory", userVaultFactoryAddress);
-    console.log(
-      `✅ UserVaultFactory (proxy) deployed at ${userVaultFactoryAddress}`
-    );
-    await reportDeployment(
-      hre,
-      userVaultFactory,
-      "Deploy UserVaultFactory (proxy)",
-      gasLog
-    );
-    await recordProxyInfo("UserVaultFactory", userVaultFactoryAddress);
-  } else {
-    const existingFactory = getRecordedAddress("UserVaultFactory");
+  if (config.deterministic) {
+    assertDeterministicConfig(config.deterministic);
     console.log(
-      `\n⏭️  Skipping UserVaultFactory deployment (excluded). Using provided factory at ${existingFactory}.`
+      `🧂 Deterministic ${config.deterministic.mode} deployment through CreateX (salt version "${config.deterministic.version}")`
     );
   }
 
-  // 8. Deploy RevenueReward (proxy)
-  if (!exclude.has("RevenueReward")) {
-    const forwarder = requireConfigValue(
-      config.revenueReward?.forwarder,
-      "revenueReward.forwarder"
-    );
-    const distributor = requireConfigValue(
-      config.revenueReward?.distributor,
-      "revenueReward.distributor"
-    );
-    const dustLockAddress = getRecordedAddress("DustLock");
-    const userVaultFactoryAddress = getRecordedAddress("UserVaultFactory");
-    const userVaultBeaconAddress = getRecordedAddress("UserVaultBeacon");
-    const userVaultRegistryAddress = getRecordedAddress("UserVaultRegistry");
-    const poolAddressesProviderRegistry =
-      config.selfRepaying?.poolAddressesProviderRegistry;
-
-    if (!exclude.has("UserVaultFactory")) {
-      requireConfigValue(
-        poolAddressesProviderRegistry,
-        "selfRepaying.poolAddressesProviderRegistry"
-      );
-    }
-
-    console.log("\n⛏️  Deploying RevenueReward (proxy)...");
-    const revenueRewardFactory =
-      await hre.ethers.getContractFactory("RevenueReward");
-    const revenueReward = await hre.upgrades.deployProxy(
-      revenueRewardFactory,
-      [forwarder, dustLockAddress, distributor, userVaultFactoryAddress],
-      {
-        initializer: "initialize",
-        kind: "transparent",
-        constructorArgs: [forwarder],
-        unsafeAllow: ["constructor"],
-      }
-    );
-    await revenueReward.waitForDeployment();
-    const revenueRewardAddress = await revenueReward.getAddress();
-    recordAddress("RevenueReward", revenueRewardAddress);
-    console.log(`✅ RevenueReward deployed at ${revenueRewardAddress}`);
-    await reportDeployment(
-      hre,
-      revenueReward,
-      "Deploy RevenueReward (proxy)",
-      gasLog
-    );
-    await recordProxyInfo("RevenueReward", revenueRewardAddress);
-
-    // Verify RevenueReward implementation
-    const revenueRewardImpl =
-      await hre.upgrades.erc1967.getImplementationAddress(revenueRewardAddress);
-    await verifyContract(
-      hre,
-      revenueRewardImpl,
-      [forwarder],
-      "src/rewards/RevenueReward.sol:RevenueReward",
-      dryRun
-    );
-
-    console.log("⚙️  Linking DustLock -> RevenueReward...");
-    const dustLock = await hre.ethers.getContractAt(
-      "DustLock",
-      dustLockAddress,
-      deployer
-    );
-    const tx = await dustLock.setRevenueReward(revenueRewardAddress);
-    await reportTx(hre, tx, "DustLock.setRevenueReward", gasLog);
-    console.log("✅ DustLock revenue reward configured.");
-
-    if (!exclude.has("UserVaultFactory")) {
-      const poolRegistryAddress = requireConfigValue(
-        poolAddressesProviderRegistry,
-        "selfRepaying.poolAddressesProviderRegistry"
-      );
-      if (!isValidAddress(poolRegistryAddress)) {
-        throw new Error(
-          `Invalid poolAddressesProviderRegistry address provided: ${poolRegistryAddress}`
-        );
-      }
-      const userVaultFactory = await hre.ethers.getContractAt(
-        "UserVaultFactory",
-        userVaultFactoryAddress,
-        deployer
-      );
-      const currentRegistry = await userVaultFactory.userVaultRegistry();
-      if (currentRegistry === hre.ethers.ZeroAddress) {
-        console.log("⚙️  Initializing UserVaultFactory...");
-        const initTx = await userVaultFactory.initialize(
-          userVaultBeaconAddress,
-          userVaultRegistryAddress,
-          poolRegistryAddress,
-          revenueRewardAddress
-        );
-        await reportTx(hre, initTx, "UserVaultFactory.initialize", gasLog);
-        console.log("✅ UserVaultFactory initialized.");
-      } else {
-        console.log(
-          "ℹ️  UserVaultFactory already initialized; skipping initialization."
-        );
-      }
-    }
-  } else {
-    const existingRevenueReward = getRecordedAddress("RevenueReward");
-    console.log(
-      `\n⏭️  Skipping RevenueReward deployment (excluded). Using provided contract at ${existingRevenueReward}.`
-    );
-  }
-
-  // 9. Deploy DustLockTransferStrategy
-  if (!exclude.has("DustLockTransferStrategy")) {
-    const rewardsAdmin = requireConfigValue(
-      config.transferStrategy?.rewardsAdmin,
-      "transferStrategy.rewardsAdmin"
-    );
-    const dustVaultWallet = getEnvWallet(hre, "DUST_VAULT_PRIVATE_KEY");
-    const dustVault = dustVaultWallet
-      ? await dustVaultWallet.getAddress()
-      : requireConfigValue(
-          config.transferStrategy?.dustVault,
-          "transferStrategy.dustVault"
-        );
-    const dustLockAddress = getRecordedAddress("DustLock");
-    const controllerAddress = getRecordedAddress("DustRewardsController");
-    const incentivesController =
-      config.transferStrategy?.incentivesControllerOverride ??
-      controllerAddress;
-    const dustAddress = getRecordedAddress("Dust");
-
-    // Get the actual emission manager from the controller
-    const tempController = await hre.ethers.getContractAt(
-      "DustRewardsController",
-      controllerAddress
-    );
-    const emissionManager = await tempController.getEmissionManager();
-    console.log("\n⛏️  Deploying DustLockTransferStrategy...");
-    const strategyFactory = await hre.ethers.getContractFactory(
-      "DustLockTransferStrategy"
-    );
-    const strategy = await strategyFactory.deploy(
-      incentivesController,
-      rewardsAdmin,
-      dustVault,
-      dustLockAddress
-    );
-    await strategy.waitForDeployment();
-    const strategyAddress = await strategy.getAddress();
-    recordAddress("DustLockTransferStrategy", strategyAddress);
-    console.log(`✅ DustLockTransferStrategy deployed at ${strategyAddress}`);
-    await reportDeployment(
-      hre,
-      strategy,
-      "Deploy DustLockTransferStrategy",
-      gasLog
-    );
-
-    const rewardsController = await hre.ethers.getContractAt(
-      "DustRewardsController",
-      controllerAddress,
-      deployer
-    );
-    const emissionManagerSigner =
-      emissionManager.toLowerCase() === deployerAddress.toLowerCase()
-        ? deployer
-        : null;
-
-    if (emissionManagerSigner) {
-      console.log(
-        "⚙️  Registering transfer strategy with DustRewardsController..."
-      );
-      try {
-        const tx = await (rewardsController as any)
-          .connect(emissionManagerSigner)
-          .setTransferStrategy(dustAddress, strategyAddress);
-        await reportTx(
-          hre,
-          tx,
-          "DustRewardsController.setTransferStrategy",
-          gasLog
-        );
-        console.log("✅ Transfer strategy registered.");
-      } catch (err) {
-        console.warn(
-          "⚠️  Could not register transfer strategy now. Deferring as a pending action."
-        );
-        pendingActions.push(
-          `Call DustRewardsController.setTransferStrategy(${dustAddress}, ${strategyAddress}) from emission manager ${emissionManager}.`
-        );
-      }
-    } else {
-      pendingActions.push(
-        `Call DustRewardsController.setTransferStrategy(${dustAddress}, ${strategyAddress}) from emission manager ${emissionManager}.`
-      );
-    }
-
-    const dust = await hre.ethers.getContractAt("Dust", dustAddress, deployer);
-    const currentAllowance = await dust.allowance(dustVault, strategyAddress);
-    if (currentAllowance === hre.ethers.MaxUint256) {
-      console.log(
-        "✅ DUST vault already approved strategy with MaxUint allowance."
-      );
-    } else {
-      const vaultSigner = dustVaultWallet
-        ? dustVaultWallet
-        : dustVault.toLowerCase() ===
-            (await deployer.getAddress()).toLowerCase()
-          ? deployer
-          : await tryGetSigner(hre, dustVault, { dryRun });
-      if (vaultSigner) {
-        console.log("⚙️  Approving DUST vault allowance for strategy...");
-        try {
-          const approveTx = await (dust.connect(vaultSigner) as any).approve(
-            strategyAddress,
-            hre.ethers.MaxUint256
-          );
-          await reportTx(hre, approveTx, "DUST.approve(MaxUint256)", gasLog);
-          const updatedAllowance = await dust.allowance(
-            dustVault,
-            strategyAddress
-          );
-          if (updatedAllowance === hre.ethers.MaxUint256) {
-            console.log("✅ DUST vault approval set to MaxUint256.");
-          } else {
-            pendingActions.push(
-              `Verify DUST allowance: expected MaxUint256 for vault ${dustVault} -> strategy ${strategyAddress}.`
-            );
-          }
-        } catch (err) {
-          console.warn(
-            "⚠️  Could not set DUST vault approval now. Deferring as a pending action."
-          );
-          pendingActions.push(
-            `Approve DUST vault allowance manually: Dust(${dustAddress}).approve(${strategyAddress}, MaxUint256) from vault ${dustVault}.`
-          );
-        }
-      } else {
-        pendingActions.push(
-          `Approve DUST vault allowance manually: Dust(${dustAddress}).approve(${strategyAddress}, MaxUint256) from vault ${dustVault}.`
-        );
-      }
-    }
-  } else {
-    const existingStrategy = getRecordedAddress("DustLockTransferStrategy");
-    console.log(
-      `\n⏭️  Skipping DustLockTransferStrategy deployment (excluded). Using provided strategy at ${existingStrategy}.`
-    );
-  }
-
-  // 10. Deploy NeverlandDustHelper
-  if (!exclude.has("NeverlandDustHelper")) {
-    const dustAddress = getRecordedAddress("Dust");
-    const owner = requireConfigValue(
-      config.dustHelper?.owner,
-      "dustHelper.owner"
-    );
-    const uniswapPair = config.dustHelper?.uniswapPair;
-    if (uniswapPair && !isValidAddress(uniswapPair)) {
+  // Excluded contracts must be supplied via config.addresses
+  for (const name of exclude) {
+    if (!isValidAddress(configAddresses[name])) {
       throw new Error(
-        `Invalid dustHelper.uniswapPair address provided: ${uniswapPair}`
-      );
-    }
-
-    console.log("\n⛏️  Deploying NeverlandDustHelper...");
-    const helperFactory = await hre.ethers.getContractFactory(
-      "NeverlandDustHelper"
-    );
-    // Deploy with deployer as owner initially
-    const helper = await helperFactory.deploy(dustAddress, deployerAddress);
-    await helper.waitForDeployment();
-    const helperAddress = await helper.getAddress();
-    recordAddress("NeverlandDustHelper", helperAddress);
-    console.log(`✅ NeverlandDustHelper deployed at ${helperAddress}`);
-    await reportDeployment(hre, helper, "Deploy NeverlandDustHelper", gasLog);
-
-    // Verify NeverlandDustHelper
-    await verifyContract(
-      hre,
-      helperAddress,
-      [dustAddress, deployerAddress],
-      "src/helpers/NeverlandDustHelper.sol:NeverlandDustHelper",
-      dryRun
-    );
-
-    if (uniswapPair) {
-      console.log(
-        `⚙️  Setting NeverlandDustHelper Uniswap pair to ${uniswapPair}...`
-      );
-      try {
-        const tx = await helper.setUniswapPair(uniswapPair);
-        await reportTx(hre, tx, "NeverlandDustHelper.setUniswapPair", gasLog);
-        console.log("✅ Uniswap pair configured.");
-      } catch (err) {
-        console.warn(
-          "⚠️  Could not set Uniswap pair now. Deferring as a pending action."
-        );
-        pendingActions.push(
-          `Call NeverlandDustHelper.setUniswapPair(${uniswapPair}) from owner.`
-        );
-      }
-    }
-
-    // Transfer ownership if different from deployer
-    if (owner.toLowerCase() !== deployerAddress.toLowerCase()) {
-      console.log(
-        `⚙️  Transferring NeverlandDustHelper ownership to ${owner}...`
+        `Missing or invalid address for ${name} because it is excluded via --exclude. Please provide it in config.addresses.${name}`
       );
-      const tx = await helper.transferOwnership(owner);
-      await reportTx(hre, tx, "NeverlandDustHelper.transferOwnership", gasLog);
-      console.log("✅ NeverlandDustHelper ownership transferred.");
     }
-  } else {
-    const existingHelper = getRecordedAddress("NeverlandDustHelper");
-    console.log(
-      `\n⏭️  Skipping NeverlandDustHelper deployment (excluded). Using provided helper at ${existingHelper}.`
-    );
   }
 
-  // 11. Deploy NeverlandUiProvider
-  if (!exclude.has("NeverlandUiProvider")) {
-    const dustLockAddress = getRecordedAddress("DustLock");
-    const revenueRewardAddress = getRecordedAddress("RevenueReward");
-    const dustRewardsControllerAddress = getRecordedAddress(
-      "DustRewardsController"
-    );
-    const neverlandDustHelperAddress = getRecordedAddress(
-      "NeverlandDustHelper"
-    );
-    const aaveLendingPoolAddressProvider = requireConfigValue(
-      config.uiProvider?.aaveLendingPoolAddressProvider,
-      "uiProvider.aaveLendingPoolAddressProvider"
-    );
-
-    console.log("\n⛏️  Deploying NeverlandUiProvider...");
-    const uiProviderFactory = await hre.ethers.getContractFactory(
-      "NeverlandUiProvider"
-    );
-    const uiProvider = await uiProviderFactory.deploy(
-      dustLockAddress,
-      revenueRewardAddress,
-      dustRewardsControllerAddress,
-      neverlandDustHelperAddress,
-      aaveLendingPoolAddressProvider
-    );
-    await uiProvider.waitForDeployment();
-    const uiProviderAddress = await uiProvider.getAddress();
-    recordAddress("NeverlandUiProvider", uiProviderAddress);
-    console.log(`✅ NeverlandUiProvider deployed at ${uiProviderAddress}`);
-    await reportDeployment(
-      hre,
-      uiProvider,
-      "Deploy NeverlandUiProvider",
-      gasLog
-    );
-
-    // Verify NeverlandUiProvider
-    await verifyContract(
-      hre,
-      uiProviderAddress,
-      [
-        dustLockAddress,
-        revenueRewardAddress,
-        dustRewardsControllerAddress,
-        neverlandDustHelperAddress,
-        aaveLendingPoolAddressProvider,
-      ],
-      "src/utils/NeverlandUiProvider.sol:NeverlandUiProvider",
-      dryRun
-    );
-  } else {
-    const existingUiProvider = getRecordedAddress("NeverlandUiProvider");
-    console.log(
-      `\n⏭️  Skipping NeverlandUiProvider deployment (excluded). Using provided UI provider at ${existingUiProvider}.`
-    );
-  }
-
-  // 12. Transfer ProxyAdmin ownership if configured
-  if (proxyAdminAddress && config.proxyAdmin?.owner) {
-    const desiredOwner = config.proxyAdmin.owner;
-    const proxyAdmin = await hre.ethers.getContractAt(
-      "ProxyAdmin",
-      proxyAdminAddress,
-      deployer
-    );
-    const currentOwner = await proxyAdmin.owner();
+  const [deployer] = await hre.ethers.getSigners();
+  const deployerAddress = await deployer.getAddress();
+  console.log(`👤 Deployer: ${deployerAddress}`);
 
-    if (
-      desiredOwner.toLowerCase() !== currentOwner.toLowerCase() &&
-      desiredOwner.toLowerCase() !== deployerAddress.toLowerCase()
-    ) {
-      console.log(
-        `\n⚙️  Transferring ProxyAdmin ownership to ${desiredOwner}...`
-      );
-      const tx = await proxyAdmin.transferOwnership(desiredOwner);
-      await reportTx(hre, tx, "ProxyAdmin.transferOwnership", gasLog);
-      console.log("✅ ProxyAdmin ownership transferred.");
-    } else if (desiredOwner.toLowerCase() === currentOwner.toLowerCase()) {
-      console.log(`\n✅ ProxyAdmin owner already set to ${desiredOwner}`);
-    }
-  }
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const journal = DeploymentJournal.open(
+    hre.network.name,
+    { chainId: Number(chainId), deployer: deployerAddress, configPath },
+    { resume, ephemeral: dryRun }
+  );
+  console.log(
+    resume
+      ? `📓 Resuming from journal ${journal.path}`
+      : `📓 Recording progress to ${dryRun ? "in-memory journal" : journal.path}`
+  );
+  const safeBatch = useSafe
+    ? new SafeBatchCollector(Number(chainId), `Neverland ${hre.network.name}`)
+    : undefined;
+
+  const result = await executePlan(hre, NEVERLAND_PLAN, {
+    config: { ...config, profile },
+    exclude: exclude as Set<string>,
+    journal,
+    gasLog,
+    dryRun,
+    verify: true,
+    safe: safeBatch,
+    deterministic: config.deterministic,
+  });
+  const addresses = result.addresses as AddressBook;
+  const implementations = result.implementations as Partial<
+    Record<DeployableContract, string>
+  >;
+  const proxyAdminAddress = result.proxyAdmin;
+  const pendingActions = result.pendingActions;
 
   // Summary and cleanup
   console.log("\n================ Deployment Summary ================");
@@ -1165,27 +179,73 @@ const deployNeverland = async (
     );
     fs.mkdirSync(deploymentsRoot, { recursive: true });
 
-    // addresses.json mapping
-    const addressBook: Record<string, string> = {};
+    // Record the run in the deployments manifest
+    const deployedByName = new Map(result.deployed.map((d) => [d.name, d]));
+    // Entries this deployment sent or configured, across resumed runs
+    const touched = new Set<string>();
+    for (const step of journal.steps) {
+      touched.add(step.name);
+      for (const label of Object.keys(step.contracts)) touched.add(label);
+      if (step.proxied && proxyAdminAddress) touched.add("ProxyAdmin");
+    }
+    for (const deployed of result.deployed) {
+      touched.add(deployed.name);
+      for (const lib of Object.keys(deployed.libraries ?? {})) touched.add(lib);
+      if (deployed.implementation && proxyAdminAddress) {
+        touched.add("ProxyAdmin");
+      }
+    }
+    const updates: Record<string, ManifestUpdate> = {};
     for (const name of ALL_CONTRACTS) {
       const addr = addresses[name] ?? configAddresses[name];
-      if (addr) addressBook[name] = addr;
+      if (!addr) continue;
+      const entry = NEVERLAND_PLAN.entries.find((e) => e.name === name)!;
+      const deployed = deployedByName.get(name);
+      const update: ManifestUpdate = {
+        address: addr,
+        kind: deployed ? "contract" : undefined,
+        artifact: entry.artifact,
+        constructorArgs: deployed?.constructorArgs.map((arg) =>
+          typeof arg === "bigint" ? arg.toString() : arg
+        ),
+        libraries: deployed?.libraries,
+        txHash: deployed?.txHash,
+        blockNumber: deployed?.blockNumber,
+        deployer: deployed ? deployerAddress : undefined,
+        timestamp: deployed ? sessionTimestamp : undefined,
+      };
+      const impl = implementations[name];
+      if (impl) {
+        update.kind = "transparentProxy";
+        update.implementation = impl;
+        update.admin = proxyAdminAddress;
+      } else if (entry.artifact === "UpgradeableBeacon") {
+        const beacon = await hre.ethers.getContractAt(
+          "UpgradeableBeacon",
+          addr
+        );
+        update.kind = "beacon";
+        // Supplied beacons keep their recorded implementation for deployments:diff
+        if (touched.has(name)) {
+          update.implementation = await beacon.implementation();
+        }
+      }
+      for (const [lib, libAddr] of Object.entries(deployed?.libraries ?? {})) {
+        updates[lib] = { address: libAddr, kind: "library", artifact: lib };
+      }
+      updates[name] = update;
     }
-    const implBook: Record<string, string> = {};
-    for (const [name, impl] of Object.entries(implementations)) {
-      if (impl) implBook[name] = impl as string;
+    if (proxyAdminAddress) {
+      updates.ProxyAdmin = {
+        address: proxyAdminAddress,
+        kind: "proxyAdmin",
+        artifact: "ProxyAdmin",
+      };
     }
-    const addressesJson = {
-      networkName,
-      chainId,
-      addresses: addressBook,
-      implementations: implBook,
-      proxyAdmin: proxyAdminAddress ?? null,
-    };
-    fs.writeFileSync(
-      path.join(deploymentsRoot, "addresses.json"),
-      JSON.stringify(addressesJson, null, 2)
-    );
+    const manifest = await updateManifest(hre, updates);
+    // Baseline for deployments:diff; supplied contracts keep theirs until
+    // an explicit deployments:diff --record
+    await recordLiveState(hre, manifest, touched);
 
     const writtenRows: Array<{ contract: string; file: string }> = [];
 
@@ -1238,7 +298,9 @@ const deployNeverland = async (
     for (const [name, addr] of Object.entries(addresses)) {
       if (!addr) continue;
       // Resolve Hardhat metadata used for deployment from build-info
-      const metaObj = await getHardhatMetadata(name);
+      const artifactName =
+        NEVERLAND_PLAN.entries.find((e) => e.name === name)?.artifact ?? name;
+      const metaObj = await getHardhatMetadata(artifactName);
       if (!metaObj) {
         console.warn(
           `⚠️  Metadata not found for ${name} in artifacts/build-info`
@@ -1321,6 +383,26 @@ const deployNeverland = async (
     }
   }
 
+  if (safeBatch) {
+    console.log("\n================ Safe Batches =====================");
+    if (safeBatch.size === 0) {
+      console.log("None ✅");
+    } else {
+      console.table(safeBatch.summary());
+      if (dryRun) {
+        console.log("🚧 Dry-run: Safe batch files not written");
+      } else {
+        const dir = getSafeBatchDir(hre.network.name, sessionTimestamp);
+        for (const file of safeBatch.write(dir)) {
+          console.log(`🧾 ${path.relative(process.cwd(), file)}`);
+        }
+        console.log(
+          "   Import each file in the Safe Transaction Builder of the matching Safe."
+        );
+      }
+    }
+  }
+
   // Gas summary (useful to estimate costs before real deploys)
   if (gasLog.length > 0) {
     console.log("\n================ Gas Summary ======================");
@@ -1371,6 +453,15 @@ const deployNeverland = async (
       });
     }
     console.table(gasRows);
+    const gasFile = await writeGasReport(hre, gasLog, {
+      session: sessionTimestamp,
+      task: "deploy:neverland",
+    });
+    console.log(`⛽ Gas report: ${path.relative(process.cwd(), gasFile)}`);
+  }
+
+  if (!dryRun) {
+    console.log(`\n📓 Deployment journal: ${journal.path}`);
   }
 
   console.log("\n================ Operational Reminders =============");
@@ -1417,6 +508,14 @@ task("deploy:neverland", "Deploy the complete Neverland protocol")
     "dryRun",
     "Execute a dry run to preview deployment without making changes"
   )
+  .addFlag(
+    "resume",
+    "Resume an interrupted deployment from deployments/<network>/deploy-journal.json"
+  )
+  .addFlag(
+    "safe",
+    "Export privileged calls that need another owner as Safe Transaction Builder batches"
+  )
   .setAction(async (taskArgs: TaskArgs, hre: HardhatRuntimeEnvironment) => {
     const configPath = resolvePath(taskArgs.configFile || DEFAULT_CONFIG_PATH);
 
@@ -1437,9 +536,11 @@ task("deploy:neverland", "Deploy the complete Neverland protocol")
     }
 
     const dryRun = !!taskArgs.dryRun;
+    const resume = !!taskArgs.resume;
+    const useSafe = !!taskArgs.safe;
 
     try {
-      await deployNeverland(hre, configPath, exclude, dryRun);
+      await deployNeverland(hre, configPath, exclude, dryRun, resume, useSafe);
       console.log("\n🎉 Deployment task completed successfully!");
     } catch (error) {
       console.error("\n❌ Deployment failed:", error);
@@ -1447,6 +548,117 @@ task("deploy:neverland", "Deploy the complete Neverland protocol")
     }
   });
 
+/*//////////////////////////////////////////////////////////////
+                  TASK: PREDICT DETERMINISTIC ADDRESSES
+//////////////////////////////////////////////////////////////*/
+task(
+  "deploy:predict",
+  "Print the addresses a deterministic deploy:neverland run deploys to, without sending anything"
+)
+  .addOptionalParam(
+    "configFile",
+    "Path to deployment config JSON file",
+    DEFAULT_CONFIG_PATH
+  )
+  .addOptionalParam(
+    "exclude",
+    "Comma-separated list of contracts to exclude from deployment",
+    ""
+  )
+  .addOptionalParam(
+    "mode",
+    "create2 or create3 (defaults to config.deterministic.mode)"
+  )
+  .addOptionalParam(
+    "saltVersion",
+    "Salt version (defaults to config.deterministic.version)"
+  )
+  .addOptionalParam(
+    "deployer",
+    "Deployer address the salts are bound to (defaults to the configured signer)"
+  )
+  .setAction(
+    async (taskArgs: DeployPredictArgs, hre: HardhatRuntimeEnvironment) => {
+      const configPath = resolvePath(
+        taskArgs.configFile || DEFAULT_CONFIG_PATH
+      );
+      const config = loadConfigFile(hre, "deploy", configPath);
+
+      const exclude = new Set<string>();
+      if (taskArgs.exclude) {
+        const items = taskArgs.exclude
+          .split(",")
+          .map((item) => item.trim())
+          .filter(Boolean);
+        for (const item of items) {
+          if ((ALL_CONTRACTS as string[]).includes(item)) {
+            exclude.add(item);
+          } else {
+            console.warn(`Unknown contract in exclude list: ${item}`);
+          }
+        }
+      }
+
+      if (taskArgs.mode !== undefined && !isDeterministicMode(taskArgs.mode)) {
+        throw new Error(
+          `Invalid --mode "${taskArgs.mode}" (expected create2 or create3)`
+        );
+      }
+      const deterministic = {
+        mode: taskArgs.mode ?? config.deterministic?.mode,
+        version: taskArgs.saltVersion ?? config.deterministic?.version,
+      };
+      if (!deterministic.mode || !deterministic.version) {
+        const missing = [
+          !deterministic.mode && "--mode create2|create3",
+          !deterministic.version && "--salt-version <version>",
+        ].filter(Boolean);
+        throw new Error(
+          `${configPath} has no complete deterministic section: pass ${missing.join(" and ")} (e.g. --mode create3 --salt-version v1)`
+        );
+      }
+      assertDeterministicConfig(deterministic);
+      assertDeterministicPlan(NEVERLAND_PLAN, exclude);
+      const deployer =
+        taskArgs.deployer ??
+        (await (await hre.ethers.getSigners())[0].getAddress());
+      if (!hre.ethers.isAddress(deployer)) {
+        throw new Error(`Invalid deployer address: ${deployer}`);
+      }
+
+      console.log(`📄 Using config: ${configPath}`);
+      console.log(`👤 Deployer: ${deployer}`);
+      console.log(
+        `🧂 ${deterministic.mode} through CreateX (${CREATEX_ADDRESS}), salt version "${deterministic.version}"`
+      );
+      if (!config.deterministic) {
+        console.warn(
+          "⚠️  config.deterministic is not set: deploy:neverland would use plain CREATE with this config"
+        );
+      }
+
+      const predictions = await predictPlanAddresses(hre, NEVERLAND_PLAN, {
+        config: { ...config, profile: getNetworkProfile(hre) },
+        deterministic,
+        deployer,
+        exclude,
+      });
+      console.table(
+        predictions.map((p) => ({
+          contract: p.contract,
+          kind: p.kind,
+          address: p.address,
+          [`code on ${hre.network.name}`]: p.deployed ? "yes" : "no",
+        }))
+      );
+      if (deterministic.mode === "create2") {
+        console.log(
+          "ℹ️  CREATE2 addresses change with the bytecode and constructor arguments; create3 addresses only with the deployer, salt version and name."
+        );
+      }
+    }
+  );
+
 /*//////////////////////////////////////////////////////////////
                  TASK: VALIDATE DEPLOY CONFIG (EXCLUDE-AWARE)
 //////////////////////////////////////////////////////////////*/
@@ -1461,7 +673,7 @@ task("deploy:validate-config", "Validate deployment configuration file")
     "Comma-separated list of contracts to exclude from deployment",
     ""
   )
-  .setAction(async (taskArgs: TaskArgs) => {
+  .setAction(async (taskArgs: TaskArgs, hre: HardhatRuntimeEnvironment) => {
     const configPath = resolvePath(taskArgs.configFile || DEFAULT_CONFIG_PATH);
 
     // Parse exclude list
@@ -1482,8 +694,18 @@ task("deploy:validate-config", "Validate deployment configuration file")
 
     try {
       console.log(`📄 Validating config: ${configPath}`);
-      const config = loadConfig(configPath);
+      const resolved = resolveConfigFile(hre, "deploy", configPath);
+      const config = resolved.config as DeployConfig;
       const configAddresses = config.addresses ?? {};
+      const profile = getNetworkProfile(hre);
+
+      // Config fields the network profile can supply
+      const profileFallbacks: Record<string, string | undefined> = {
+        "selfRepaying.poolAddressesProviderRegistry":
+          profile.addresses.poolAddressesProviderRegistry,
+        "uiProvider.aaveLendingPoolAddressProvider":
+          profile.addresses.aavePoolAddressesProvider,
+      };
 
       // Define required fields per contract
       const requiredByContract: Record<DeployableContract, string[]> = {
@@ -1504,8 +726,16 @@ task("deploy:validate-config", "Validate deployment configuration file")
       };
 
       console.log("✅ Config file loaded successfully");
-      console.log("🔍 Checking required fields (respecting --exclude)...");
+      console.log("🔍 Checking references and the config schema...");
+      const schemaErrors: SchemaError[] = resolved.errors;
+      if (schemaErrors.length > 0) {
+        console.log("❌ Config errors:");
+        console.log(formatSchemaErrors(schemaErrors));
+      } else {
+        console.log("✅ Config matches config/schemas/deploy.schema.json");
+      }
 
+      console.log("🔍 Checking required fields (respecting --exclude)...");
       const missing: string[] = [];
       for (const name of ALL_CONTRACTS) {
         if (exclude.has(name)) continue;
@@ -1513,6 +743,9 @@ task("deploy:validate-config", "Validate deployment configuration file")
           const keys = field.split(".");
           let value: any = config;
           for (const key of keys) value = value?.[key];
+          if (value === undefined || value === null || value === "") {
+            value = profileFallbacks[field];
+          }
           if (value === undefined || value === null || value === "")
             missing.push(field);
         }
@@ -1520,7 +753,7 @@ task("deploy:validate-config", "Validate deployment configuration file")
 
       if (missing.length > 0) {
         console.log("❌ Missing required fields:");
-        missing.forEach((field) => console.log(`  • ${field}`));
+        missing.forEach((field) => console.log(`  • $.${field} is required`));
       } else {
         console.log(
           "✅ All required fields present for non-excluded contracts"
@@ -1539,6 +772,7 @@ task("deploy:validate-config", "Validate deployment configuration file")
           console.log(
             "❌ Missing DUST vault: provide DUST_VAULT_PRIVATE_KEY env or transferStrategy.dustVault in config."
           );
+          missing.push("transferStrategy.dustVault");
         }
       }
 
@@ -1555,11 +789,20 @@ task("deploy:validate-config", "Validate deployment configuration file")
         console.log(
           "❌ Excluded contracts missing addresses in config.addresses:"
         );
-        invalidExcluded.forEach((n) => console.log(`  • ${n}`));
+        invalidExcluded.forEach((n) =>
+          console.log(`  • $.addresses.${n} is required (excluded)`)
+        );
       } else if (exclude.size > 0) {
         console.log("✅ Excluded contracts have valid provided addresses");
       }
 
+      if (
+        schemaErrors.length > 0 ||
+        missing.length > 0 ||
+        invalidExcluded.length > 0
+      ) {
+        throw new Error("Configuration validation failed");
+      }
       console.log("🎉 Config validation completed");
     } catch (error) {
       console.error("❌ Config validation failed:", error);
@@ -0,0 +1,316 @@
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  getDeploymentsDir,
+  getManifestPath,
+  loadManifest,
+  migrateLegacyDeployments,
+  readManifest,
+  writeManifest,
+} from "./helpers/manifest";
+import { collectDrift, recordLiveState } from "./helpers/drift";
+import { GasReport } from "./types";
+import {
+  compareGasReports,
+  formatEther,
+  formatGwei,
+  loadGasReport,
+} from "./helpers/gas";
+
+/*//////////////////////////////////////////////////////////////
+                            HELPERS
+//////////////////////////////////////////////////////////////*/
+
+const DEPLOYMENTS_ROOT = path.join(__dirname, "../../deployments");
+
+const listNetworks = (networks?: string): string[] => {
+  if (networks) {
+    return networks
+      .split(",")
+      .map((n) => n.trim())
+      .filter(Boolean);
+  }
+  if (!fs.existsSync(DEPLOYMENTS_ROOT)) return [];
+  return fs
+    .readdirSync(DEPLOYMENTS_ROOT)
+    .filter((entry) =>
+      fs.statSync(path.join(DEPLOYMENTS_ROOT, entry)).isDirectory()
+    );
+};
+
+/*//////////////////////////////////////////////////////////////
+                    TASK: MIGRATE LEGACY FOLDERS
+//////////////////////////////////////////////////////////////*/
+
+task(
+  "deployments:migrate",
+  "Build deployments/<network>/manifest.json from the legacy addresses.json, per-contract, session and leaderboard files"
+)
+  .addOptionalParam(
+    "networks",
+    "Comma-separated deployments folders (defaults to every folder with an addresses.json)"
+  )
+  .addFlag("force", "Rebuild manifests that already exist")
+  .addFlag("dryRun", "Print the migrated manifests without writing them")
+  .setAction(
+    async (args: { networks?: string; force: boolean; dryRun: boolean }) => {
+      const networks = listNetworks(args.networks).filter((network) =>
+        fs.existsSync(path.join(getDeploymentsDir(network), "addresses.json"))
+      );
+      if (networks.length === 0) {
+        console.log("Nothing to migrate ✅");
+        return;
+      }
+
+      for (const network of networks) {
+        console.log(`\n📦 ${network}`);
+        if (fs.existsSync(getManifestPath(network)) && !args.force) {
+          console.log(
+            "⏭️  manifest.json already exists (use --force to rebuild)"
+          );
+          continue;
+        }
+
+        const { manifest, conflicts, superseded } =
+          migrateLegacyDeployments(network);
+        console.table(
+          Object.entries(manifest.contracts).map(([name, entry]) => ({
+            contract: name,
+            kind: entry.kind,
+            address: entry.address,
+            implementation: entry.implementation ?? "",
+          }))
+        );
+        if (conflicts.length > 0) {
+          console.log(
+            "⚠️  Conflicting legacy records (later source kept, run deployments:diff to check on-chain):"
+          );
+          console.table(conflicts);
+        }
+
+        if (args.dryRun) {
+          console.log(JSON.stringify(manifest, null, 2));
+          continue;
+        }
+        writeManifest(manifest);
+        for (const file of superseded) {
+          fs.unlinkSync(file);
+          console.log(`🗑️  Folded ${path.basename(file)} into manifest.json`);
+        }
+        console.log(
+          `✅ Wrote ${path.relative(process.cwd(), getManifestPath(network))}`
+        );
+      }
+    }
+  );
+
+/*//////////////////////////////////////////////////////////////
+                      TASK: VALIDATE MANIFESTS
+//////////////////////////////////////////////////////////////*/
+
+task(
+  "deployments:validate",
+  "Validate deployments/<network>/manifest.json files"
+)
+  .addOptionalParam(
+    "networks",
+    "Comma-separated deployments folders (defaults to every folder)"
+  )
+  .setAction(async (args: { networks?: string }) => {
+    const rows: Array<{ network: string; contracts: number; status: string }> =
+      [];
+    let failed = false;
+    for (const network of listNetworks(args.networks)) {
+      try {
+        const manifest = readManifest(network);
+        rows.push({
+          network,
+          contracts: manifest ? Object.keys(manifest.contracts).length : 0,
+          status: manifest ? "✅" : "(no deployments)",
+        });
+      } catch (error) {
+        failed = true;
+        rows.push({ network, contracts: 0, status: "❌" });
+        console.error(`\n❌ ${(error as Error).message}`);
+      }
+    }
+    console.table(rows);
+    if (failed) {
+      throw new Error("One or more deployments manifests are invalid");
+    }
+  });
+
+/*//////////////////////////////////////////////////////////////
+                   TASK: DIFF MANIFEST VS CHAIN
+//////////////////////////////////////////////////////////////*/
+
+task(
+  "deployments:diff",
+  "Compare deployments/<network>/manifest.json against live chain state (exit code 1 on drift)"
+)
+  .addOptionalParam(
+    "out",
+    "JSON report path (defaults to deployments/<network>/drift-report.json)"
+  )
+  .addFlag(
+    "record",
+    "Record the live values in the manifest as the new baseline instead of failing"
+  )
+  .setAction(
+    async (
+      args: { out?: string; record: boolean },
+      hre: HardhatRuntimeEnvironment
+    ) => {
+      const manifest = loadManifest(hre.network.name);
+      const { chainId } = await hre.ethers.provider.getNetwork();
+      if (Number(chainId) !== manifest.chainId) {
+        throw new Error(
+          `Manifest is for chain ${manifest.chainId}, connected to ${chainId}`
+        );
+      }
+
+      console.log(
+        `🔎 Comparing ${Object.keys(manifest.contracts).length} contract(s) on ${manifest.network}...`
+      );
+      const report = await collectDrift(hre, manifest);
+
+      console.table(
+        report.rows.map((row) => ({
+          contract: row.contract,
+          check: row.check,
+          expected: row.expected,
+          actual: row.actual,
+          status:
+            row.status === "ok"
+              ? "✅"
+              : row.status === "unrecorded"
+                ? "➖ unrecorded"
+                : `❌ ${row.status}`,
+        }))
+      );
+
+      const outPath = args.out
+        ? path.resolve(process.cwd(), args.out)
+        : path.join(getDeploymentsDir(manifest.network), "drift-report.json");
+      fs.mkdirSync(path.dirname(outPath), { recursive: true });
+      fs.writeFileSync(outPath, JSON.stringify(report, null, 2));
+      console.log(`📄 Report: ${path.relative(process.cwd(), outPath)}`);
+
+      const unrecorded = report.rows.filter((r) => r.status === "unrecorded");
+      if (args.record) {
+        await recordLiveState(hre, manifest);
+        console.log(
+          `📓 Recorded live values as the baseline in ${path.relative(process.cwd(), getManifestPath(manifest.network))}`
+        );
+        return;
+      }
+      if (unrecorded.length > 0) {
+        console.log(
+          `➖ ${unrecorded.length} value(s) have no baseline yet; run with --record to store them`
+        );
+      }
+      if (report.drift) {
+        const failing = report.rows.filter(
+          (r) => r.status === "drift" || r.status === "error"
+        );
+        console.error(`\n❌ Drift detected in ${failing.length} check(s)`);
+        process.exitCode = 1;
+      } else {
+        console.log("\n✅ No drift");
+      }
+    }
+  );
+
+/*//////////////////////////////////////////////////////////////
+                    TASK: COMPARE GAS REPORTS
+//////////////////////////////////////////////////////////////*/
+
+task(
+  "deployments:gas",
+  "Compare gas per step of two deployment sessions (or networks) and project the MON cost at a gas price"
+)
+  .addParam(
+    "base",
+    "Gas report: a gas.json path, a session folder, <network>/<session> or <network> (latest session)"
+  )
+  .addOptionalParam("target", "Gas report to compare against the base")
+  .addOptionalParam(
+    "gasPrice",
+    "Gas price in gwei for the projection (defaults to BUDGET_GAS_GWEI, then the first gas price of the target)"
+  )
+  .setAction(
+    async (args: { base: string; target?: string; gasPrice?: string }, hre) => {
+      const base = loadGasReport(args.base);
+      const target = args.target ? loadGasReport(args.target) : undefined;
+      const describe = (r: GasReport) =>
+        `${r.network}/${r.session} (${r.task}, ${new Date(r.session).toISOString()})`;
+      console.log(`📊 Base:   ${describe(base)}`);
+      if (target) console.log(`📊 Target: ${describe(target)}`);
+
+      const reference = target ?? base;
+      const gasPriceGwei =
+        args.gasPrice ??
+        process.env.BUDGET_GAS_GWEI ??
+        (reference.entries[0]
+          ? formatGwei(hre, BigInt(reference.entries[0].gasPrice))
+          : undefined);
+      const gasPrice = gasPriceGwei
+        ? hre.ethers.parseUnits(gasPriceGwei, "gwei")
+        : BigInt(0);
+
+      const cost = (gas?: bigint) =>
+        gas === undefined ? "" : formatEther(hre, gas * gasPrice);
+      const rows = compareGasReports(base, target ?? base);
+      const totalOf = (pick: (r: (typeof rows)[0]) => bigint | undefined) =>
+        rows.reduce((sum, r) => sum + (pick(r) ?? BigInt(0)), BigInt(0));
+      const baseTotal = totalOf((r) => r.baseGas);
+      const targetTotal = totalOf((r) => r.targetGas);
+
+      const delta = (before?: bigint, after?: bigint) => {
+        if (before === undefined || after === undefined) return {};
+        const diff = after - before;
+        return {
+          "Δ gas": `${diff > BigInt(0) ? "+" : ""}${diff}`,
+          "Δ %":
+            before === BigInt(0)
+              ? ""
+              : `${((Number(diff) / Number(before)) * 100).toFixed(1)}%`,
+        };
+      };
+      console.table(
+        [
+          ...rows,
+          { step: "TOTAL", baseGas: baseTotal, targetGas: targetTotal },
+        ].map((r) =>
+          target
+            ? {
+                step: r.step,
+                base: r.baseGas?.toString() ?? "(missing)",
+                target: r.targetGas?.toString() ?? "(missing)",
+                ...delta(r.baseGas, r.targetGas),
+                [`MON@${gasPriceGwei ?? 0}`]: cost(r.targetGas),
+              }
+            : {
+                step: r.step,
+                gasUsed: r.baseGas?.toString(),
+                [`MON@${gasPriceGwei ?? 0}`]: cost(r.baseGas),
+              }
+        )
+      );
+
+      if (!gasPriceGwei) {
+        console.log("ℹ️  No gas price to project with; pass --gas-price");
+        return;
+      }
+      console.log(`\n💰 Projected cost at ${gasPriceGwei} gwei:`);
+      const totals: Array<[GasReport, bigint]> = [[base, baseTotal]];
+      if (target) totals.push([target, targetTotal]);
+      for (const [report, total] of totals) {
+        console.log(
+          `   ${describe(report)}: ${cost(total)} MON (paid ${formatEther(hre, BigInt(report.totalCostWei))} MON)`
+        );
+      }
+    }
+  );
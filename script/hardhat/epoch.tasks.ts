@@ -0,0 +1,276 @@
+import fs from "fs";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contract } from "ethers";
+import { EpochDetails, EpochStatus, EpochTxArgs } from "./types";
+import { readManifest } from "./helpers/manifest";
+import { callAsOwner } from "./helpers/safe";
+import {
+  DEFAULT_TOLERANCE_BPS,
+  LeaderboardKeeperBot,
+  getKeeperStatePath,
+} from "./helpers/keeper";
+
+/*//////////////////////////////////////////////////////////////
+                        CONFIGURATION
+//////////////////////////////////////////////////////////////*/
+
+const EPOCH_MANAGER_ABI = [
+  "function owner() view returns (address)",
+  "function currentEpoch() view returns (uint256)",
+  "function hasStarted() view returns (bool)",
+  "function isInGapPeriod() view returns (bool)",
+  "function getEpochDetails(uint256 epochNumber) view returns (uint256 startBlock, uint256 startTime, uint256 endBlock, uint256 endTime)",
+  "function startNewEpoch()",
+  "function endCurrentEpoch()",
+];
+
+/*//////////////////////////////////////////////////////////////
+                            HELPERS
+//////////////////////////////////////////////////////////////*/
+
+const getEpochManager = (hre: HardhatRuntimeEnvironment): Contract => {
+  const network = hre.network.name;
+  const address = readManifest(network)?.contracts.EpochManager?.address;
+  if (!address) {
+    throw new Error(
+      `EpochManager not found in deployments/${network}/manifest.json`
+    );
+  }
+  return new Contract(address, EPOCH_MANAGER_ABI, hre.ethers.provider);
+};
+
+const formatTime = (timestamp: number): string =>
+  timestamp === 0 ? "-" : new Date(timestamp * 1000).toISOString();
+
+const formatDuration = (seconds: number): string => {
+  const days = Math.floor(seconds / 86_400);
+  const hours = Math.floor((seconds % 86_400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return days > 0
+    ? `${days}d ${hours}h`
+    : hours > 0
+      ? `${hours}h ${minutes}m`
+      : `${minutes}m`;
+};
+
+const readEpochDetails = async (
+  manager: Contract,
+  epoch: number
+): Promise<EpochDetails> => {
+  const details = await manager.getEpochDetails(epoch);
+  return {
+    epoch,
+    startBlock: Number(details.startBlock),
+    startTime: Number(details.startTime),
+    endBlock: Number(details.endBlock),
+    endTime: Number(details.endTime),
+  };
+};
+
+const readEpochStatus = async (manager: Contract): Promise<EpochStatus> => {
+  const [currentEpoch, hasStarted, isInGapPeriod, owner] = await Promise.all([
+    manager.currentEpoch(),
+    manager.hasStarted(),
+    manager.isInGapPeriod(),
+    manager.owner(),
+  ]);
+  const status: EpochStatus = {
+    currentEpoch: Number(currentEpoch),
+    hasStarted,
+    isInGapPeriod,
+    owner,
+  };
+  if (status.currentEpoch > 0) {
+    status.current = await readEpochDetails(manager, status.currentEpoch);
+  }
+  return status;
+};
+
+const printStatus = (status: EpochStatus, now: number): void => {
+  console.log(`\n📅 EpochManager (owner ${status.owner})`);
+  if (!status.hasStarted) {
+    console.log("   Leaderboard not started: no epoch yet");
+    return;
+  }
+  const current = status.current!;
+  const state = status.isInGapPeriod ? "ended (gap period)" : "active";
+  console.log(`   Epoch ${current.epoch}: ${state}`);
+  console.log(
+    `   Started: block ${current.startBlock} at ${formatTime(current.startTime)}`
+  );
+  if (current.endBlock !== 0) {
+    console.log(
+      `   Ended:   block ${current.endBlock} at ${formatTime(current.endTime)} (${formatDuration(current.endTime - current.startTime)})`
+    );
+    console.log(`   Gap so far: ${formatDuration(now - current.endTime)}`);
+  } else {
+    console.log(`   Running for ${formatDuration(now - current.startTime)}`);
+  }
+};
+
+const latestTimestamp = async (hre: HardhatRuntimeEnvironment) =>
+  (await hre.ethers.provider.getBlock("latest"))!.timestamp;
+
+/*//////////////////////////////////////////////////////////////
+                        TASK: EPOCH STATUS
+//////////////////////////////////////////////////////////////*/
+
+task(
+  "epoch:status",
+  "Show the current leaderboard epoch and gap state"
+).setAction(async (_, hre: HardhatRuntimeEnvironment) => {
+  try {
+    const status = await readEpochStatus(getEpochManager(hre));
+    printStatus(status, await latestTimestamp(hre));
+  } catch (error) {
+    console.error("\n❌ Epoch status failed:", error);
+    throw error;
+  }
+});
+
+/*//////////////////////////////////////////////////////////////
+                        TASK: EPOCH HISTORY
+//////////////////////////////////////////////////////////////*/
+
+task(
+  "epoch:history",
+  "List every leaderboard epoch with its blocks and times"
+).setAction(async (_, hre: HardhatRuntimeEnvironment) => {
+  try {
+    const manager = getEpochManager(hre);
+    const current = Number(await manager.currentEpoch());
+    if (current === 0) {
+      console.log("📅 Leaderboard not started: no epoch yet");
+      return;
+    }
+    const now = await latestTimestamp(hre);
+    const rows = [];
+    let previousEnd = 0;
+    for (let epoch = 1; epoch <= current; epoch++) {
+      const details = await readEpochDetails(manager, epoch);
+      rows.push({
+        epoch,
+        startBlock: details.startBlock,
+        startTime: formatTime(details.startTime),
+        endBlock: details.endBlock || "-",
+        endTime: formatTime(details.endTime),
+        duration: formatDuration((details.endTime || now) - details.startTime),
+        gapBefore:
+          previousEnd === 0
+            ? "-"
+            : formatDuration(details.startTime - previousEnd),
+      });
+      previousEnd = details.endTime;
+    }
+    console.log(`\n📜 ${current} epoch(s):`);
+    console.table(rows);
+  } catch (error) {
+    console.error("\n❌ Epoch history failed:", error);
+    throw error;
+  }
+});
+
+/*//////////////////////////////////////////////////////////////
+                        TASK: EPOCH START
+//////////////////////////////////////////////////////////////*/
+
+task("epoch:start", "Start the next leaderboard epoch")
+  .addFlag(
+    "safe",
+    "Write a Safe Transaction Builder batch for the owner instead of sending"
+  )
+  .setAction(async (taskArgs: EpochTxArgs, hre: HardhatRuntimeEnvironment) => {
+    try {
+      const manager = getEpochManager(hre);
+      const status = await readEpochStatus(manager);
+      if (status.hasStarted && !status.isInGapPeriod) {
+        throw new Error(
+          `Epoch ${status.currentEpoch} is still active: run epoch:end first`
+        );
+      }
+      console.log(`🚀 Starting epoch ${status.currentEpoch + 1}`);
+
+      if (
+        await callAsOwner(hre, {
+          contract: manager,
+          owner: status.owner,
+          method: "startNewEpoch",
+          label: "EpochManager.startNewEpoch()",
+          safe: taskArgs.safe,
+        })
+      ) {
+        printStatus(await readEpochStatus(manager), await latestTimestamp(hre));
+      }
+    } catch (error) {
+      console.error("\n❌ Epoch start failed:", error);
+      throw error;
+    }
+  });
+
+/*//////////////////////////////////////////////////////////////
+                          TASK: EPOCH END
+//////////////////////////////////////////////////////////////*/
+
+task("epoch:end", "End the current leaderboard epoch")
+  .addFlag(
+    "safe",
+    "Write a Safe Transaction Builder batch for the owner instead of sending"
+  )
+  .addFlag("force", "End the epoch even if keeper settlements are pending")
+  .setAction(async (taskArgs: EpochTxArgs, hre: HardhatRuntimeEnvironment) => {
+    try {
+      const manager = getEpochManager(hre);
+      const status = await readEpochStatus(manager);
+      if (!status.hasStarted || status.isInGapPeriod) {
+        throw new Error("No active epoch to end");
+      }
+
+      // Points of the epoch are final only once every active user is settled
+      // within it, whatever the keeper's minSettlementInterval
+      const current = status.current!;
+      console.log(
+        `🔎 Checking keeper settlements since the start of epoch ${current.epoch} (${formatTime(current.startTime)})`
+      );
+      const statePath = getKeeperStatePath(hre.network.name);
+      let message: string | undefined;
+      if (!fs.existsSync(statePath)) {
+        message = `No keeper state at ${statePath} to check settlements against: run keeper:run first`;
+      } else {
+        const bot = await LeaderboardKeeperBot.open(hre, null, {
+          dryRun: true,
+          toleranceBps: DEFAULT_TOLERANCE_BPS,
+          maxRetries: 3,
+          retryDelayMs: 5_000,
+          logChunkSize: 5_000,
+        });
+        const pending = await bot.unsettledSince(BigInt(current.startTime));
+        if (pending.length > 0) {
+          const preview = pending.slice(0, 10).join(", ");
+          message = `${pending.length} active user(s) not settled in epoch ${current.epoch} (${preview}${pending.length > 10 ? ", ..." : ""}): run keeper:run first`;
+        }
+      }
+      if (message) {
+        if (!taskArgs.force) throw new Error(message);
+        console.warn(`⚠️  ${message} (--force)`);
+      } else {
+        console.log("✅ All active users settled");
+      }
+
+      console.log(`🏁 Ending epoch ${status.currentEpoch}`);
+      if (
+        await callAsOwner(hre, {
+          contract: manager,
+          owner: status.owner,
+          method: "endCurrentEpoch",
+          label: "EpochManager.endCurrentEpoch()",
+          safe: taskArgs.safe,
+        })
+      ) {
+        printStatus(await readEpochStatus(manager), await latestTimestamp(hre));
+      }
+    } catch (error) {
+      console.error("\n❌ Epoch end failed:", error);
+      throw error;
+    }
+  });
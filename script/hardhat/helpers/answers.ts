@@ -0,0 +1,257 @@
+import fs from "fs";
+import path from "path";
+import Enquirer from "enquirer";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  AnswerValue,
+  AnswersFile,
+  WizardArgs,
+  WizardQuestion,
+} from "../types/answers";
+
+const resolvePath = (maybePath: string): string =>
+  path.isAbsolute(maybePath) ? maybePath : path.join(process.cwd(), maybePath);
+
+const formatAnswer = (value: AnswerValue): string =>
+  Array.isArray(value) ? value.join(", ") : String(value);
+
+/**
+ * Read an answers file recorded for `task`
+ */
+export function readAnswersFile(file: string, task: string): AnswersFile {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Answers file not found at ${file}`);
+  }
+  let data: AnswersFile;
+  try {
+    data = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Unable to parse answers file ${file}: ${(error as Error).message}`
+    );
+  }
+  if (data.task !== task) {
+    throw new Error(
+      `Answers file ${file} was recorded for "${data.task}", not "${task}"`
+    );
+  }
+  if (!data.answers || typeof data.answers !== "object") {
+    throw new Error(`Answers file ${file} has no answers`);
+  }
+  return data;
+}
+
+/**
+ * Parse `--set "key=value;key=value"`; values stay strings and are coerced
+ * to the type of the prompt they answer
+ */
+export function parseSetAnswers(set?: string): Record<string, string> {
+  const answers: Record<string, string> = {};
+  for (const pair of (set ?? "").split(";")) {
+    if (pair.trim() === "") continue;
+    const separator = pair.indexOf("=");
+    if (separator <= 0) {
+      throw new Error(`Invalid --set entry "${pair}" (expected key=value)`);
+    }
+    answers[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+  }
+  return answers;
+}
+
+/**
+ * Prompts of one wizard run. Each prompt has a stable key; an answer given
+ * for it (answers file, then --set overrides) is validated like typed input
+ * and used instead of prompting. Without a terminal or with
+ * --non-interactive, a missing answer fails the task. Every answer used,
+ * prompted or not, is kept so the session can be saved with
+ * --record-answers and replayed verbatim.
+ */
+export class WizardSession {
+  private readonly enquirer = new Enquirer();
+  private readonly given: Record<string, AnswerValue>;
+  private readonly used = new Set<string>();
+  private readonly recorded: Record<string, AnswerValue> = {};
+
+  private constructor(
+    private readonly task: string,
+    given: Record<string, AnswerValue>,
+    private readonly interactive: boolean,
+    private readonly recordPath: string | undefined,
+    /** Network whose manifest and profile the answers were recorded against */
+    readonly sourceNetwork: { name: string; chainId?: number }
+  ) {
+    this.given = given;
+  }
+
+  /**
+   * Start a session from the task's --answers, --set, --record-answers and
+   * --non-interactive arguments
+   */
+  static open(
+    hre: HardhatRuntimeEnvironment,
+    task: string,
+    args: WizardArgs
+  ): WizardSession {
+    const file = args.answers
+      ? readAnswersFile(resolvePath(args.answers), task)
+      : undefined;
+    const given = { ...file?.answers, ...parseSetAnswers(args.set) };
+
+    let sourceNetwork = {
+      name: hre.network.name,
+      chainId: hre.network.config.chainId,
+    };
+    if (file && file.network !== hre.network.name) {
+      sourceNetwork = { name: file.network, chainId: file.chainId };
+      console.log(
+        `🔁 Replaying answers recorded on ${file.network} against ${hre.network.name}: defaults come from the ${file.network} manifest and profile`
+      );
+    }
+    if (Object.keys(given).length > 0) {
+      console.log(
+        `📝 ${Object.keys(given).length} pre-filled answer(s)${args.answers ? ` from ${args.answers}` : ""}`
+      );
+    }
+
+    return new WizardSession(
+      task,
+      given,
+      !args.nonInteractive && !!process.stdin.isTTY,
+      args.recordAnswers ? resolvePath(args.recordAnswers) : undefined,
+      sourceNetwork
+    );
+  }
+
+  /** Whether an answer was given for `key` */
+  has(key: string): boolean {
+    return key in this.given;
+  }
+
+  /**
+   * Answer of a prompt: the given answer, else the user's input
+   * @throws When the given answer is invalid, or missing in a
+   * non-interactive session
+   */
+  async ask<T extends AnswerValue>(
+    key: string,
+    question: WizardQuestion
+  ): Promise<T> {
+    let value: AnswerValue;
+    if (this.has(key)) {
+      value = this.coerce(key, question, this.given[key]);
+      this.used.add(key);
+      console.log(`  ${question.message} ${formatAnswer(value)} (answers)`);
+    } else if (this.interactive) {
+      const response: any = await this.enquirer.prompt({
+        ...question,
+        name: "value",
+      } as any);
+      value = response.value;
+    } else {
+      throw new Error(
+        `No answer for "${key}" (${question.message}) in non-interactive mode: add it to the answers file or pass --set "${key}=..."`
+      );
+    }
+    this.recorded[key] = value;
+    return value as T;
+  }
+
+  /**
+   * Given answer for a value the wizard can also work out itself
+   * (e.g. a constructor parameter with a default), checked by `validate`
+   */
+  take(key: string, validate?: (input: string) => boolean | string) {
+    if (!this.has(key)) return undefined;
+    const value = this.coerce(
+      key,
+      { type: "input", message: key, validate },
+      this.given[key]
+    ) as string;
+    this.used.add(key);
+    this.recorded[key] = value;
+    return value;
+  }
+
+  /** Keep a value the wizard worked out, so a replay uses it verbatim */
+  record(key: string, value: AnswerValue): void {
+    this.recorded[key] = value;
+  }
+
+  /**
+   * Write the recorded answers to the --record-answers file, if any, and
+   * warn about given answers no prompt asked for
+   * @returns The written file
+   */
+  save(): string | undefined {
+    const unused = Object.keys(this.given).filter((key) => !this.used.has(key));
+    if (unused.length > 0) {
+      console.warn(`⚠️  Unused answers: ${unused.join(", ")}`);
+    }
+    if (!this.recordPath) return undefined;
+
+    const file: AnswersFile = {
+      task: this.task,
+      network: this.sourceNetwork.name,
+      chainId: this.sourceNetwork.chainId,
+      recordedAt: new Date().toISOString(),
+      answers: this.recorded,
+    };
+    fs.mkdirSync(path.dirname(this.recordPath), { recursive: true });
+    fs.writeFileSync(this.recordPath, JSON.stringify(file, null, 2) + "\n");
+    console.log(
+      `📼 Recorded ${Object.keys(this.recorded).length} answer(s) to ${path.relative(process.cwd(), this.recordPath)} (replay with --answers)`
+    );
+    return this.recordPath;
+  }
+
+  /** Coerce a given answer to the prompt's type and validate it */
+  private coerce(
+    key: string,
+    question: WizardQuestion,
+    raw: AnswerValue
+  ): AnswerValue {
+    const fail = (reason: string): never => {
+      throw new Error(`Invalid answer for "${key}": ${reason}`);
+    };
+    const choiceNames = (question.choices ?? [])
+      .filter((choice) => !choice.disabled)
+      .map((choice) => choice.name);
+
+    switch (question.type) {
+      case "confirm":
+        if (typeof raw === "boolean") return raw;
+        if (raw === "true" || raw === "false") return raw === "true";
+        return fail(`expected true or false, got ${formatAnswer(raw)}`);
+      case "multiselect": {
+        const items = Array.isArray(raw)
+          ? raw
+          : String(raw)
+              .split(",")
+              .map((item) => item.trim())
+              .filter(Boolean);
+        const unknown = items.filter((item) => !choiceNames.includes(item));
+        if (unknown.length > 0) {
+          fail(
+            `${unknown.join(", ")} not available (choose from ${choiceNames.join(", ")})`
+          );
+        }
+        return items;
+      }
+      case "select":
+        if (typeof raw !== "string" || !choiceNames.includes(raw)) {
+          fail(
+            `${formatAnswer(raw)} not available (choose from ${choiceNames.join(", ")})`
+          );
+        }
+        return raw;
+      default: {
+        if (typeof raw !== "string") {
+          return fail(`expected a string, got ${formatAnswer(raw)}`);
+        }
+        const verdict = question.validate ? question.validate(raw) : true;
+        if (verdict !== true) fail(`${raw}: ${verdict || "rejected"}`);
+        return raw;
+      }
+    }
+  }
+}
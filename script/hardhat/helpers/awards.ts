@@ -0,0 +1,294 @@
+import fs from "fs";
+import path from "path";
+import { Interface, getAddress, isAddress, parseUnits } from "ethers";
+import type { Provider, TransactionReceipt } from "ethers";
+import {
+  AwardBatch,
+  AwardKind,
+  AwardReceiptEvent,
+  AwardRow,
+} from "../types/awards";
+import { getDeploymentsDir } from "./manifest";
+
+export const LEADERBOARD_CONFIG_AWARDS_ABI = [
+  "function owner() view returns (address)",
+  "function batchAwardPoints(address[] users, uint256[] points, string reason)",
+  "function batchRemovePoints(address[] users, uint256[] points, string reason)",
+  "event PointsAwarded(address indexed user, uint256 points, string reason, uint256 timestamp)",
+  "event PointsRemoved(address indexed user, uint256 points, string reason, uint256 timestamp)",
+];
+
+const METHODS: Record<AwardKind, string> = {
+  award: "batchAwardPoints",
+  remove: "batchRemovePoints",
+};
+
+const EVENTS: Record<AwardKind, AwardReceiptEvent["name"]> = {
+  award: "PointsAwarded",
+  remove: "PointsRemoved",
+};
+
+/** Share of the gas limit a planned batch may use, for estimate drift */
+const GAS_HEADROOM_BPS = 9_000n;
+
+/*//////////////////////////////////////////////////////////////
+                              CSV
+//////////////////////////////////////////////////////////////*/
+
+/** Split a CSV line, honouring double quotes ("" escapes a quote) */
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+};
+
+/**
+ * Read `address,points,reason` rows. Points are decimal (18 decimals
+ * on-chain); a negative amount removes points. An optional header line and
+ * blank lines are skipped; unquoted commas after the second column belong to
+ * the reason.
+ * @throws Listing every invalid line
+ */
+export function readAwardsCsv(file: string): AwardRow[] {
+  if (!fs.existsSync(file)) {
+    throw new Error(`CSV file not found at ${file}`);
+  }
+  const rows: AwardRow[] = [];
+  const errors: string[] = [];
+  const lines = fs.readFileSync(file, "utf8").split(/\r?\n/);
+
+  lines.forEach((text, index) => {
+    const line = index + 1;
+    if (text.trim() === "") return;
+    const [rawAddress, rawAmount, ...rest] = splitCsvLine(text);
+    const address = rawAddress.trim();
+    const amount = rawAmount?.trim();
+    // Keep the spacing of unquoted commas inside the reason
+    const reason = rest.join(",").trim();
+    if (line === 1 && address.toLowerCase() === "address") return;
+
+    if (!isAddress(address) || BigInt(address) === 0n) {
+      errors.push(`line ${line}: invalid address "${address}"`);
+      return;
+    }
+    let points: bigint;
+    try {
+      points = parseUnits(amount ?? "", 18);
+    } catch {
+      errors.push(`line ${line}: invalid points "${amount ?? ""}"`);
+      return;
+    }
+    if (points === 0n) {
+      errors.push(`line ${line}: zero points`);
+      return;
+    }
+    if (reason === "") {
+      errors.push(`line ${line}: missing reason`);
+      return;
+    }
+    rows.push({
+      line,
+      kind: points > 0n ? "award" : "remove",
+      address: getAddress(address),
+      points: points > 0n ? points : -points,
+      reason,
+    });
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid rows in ${file}:\n  ${errors.join("\n  ")}`);
+  }
+  return rows;
+}
+
+/**
+ * Drop rows repeating an earlier one (same address, points and reason)
+ * @throws When an address gets different amounts for the same reason
+ */
+export function dedupeAwards(rows: AwardRow[]): {
+  rows: AwardRow[];
+  duplicates: AwardRow[];
+} {
+  const seen = new Map<string, AwardRow>();
+  const unique: AwardRow[] = [];
+  const duplicates: AwardRow[] = [];
+  const conflicts: string[] = [];
+  for (const row of rows) {
+    const key = `${row.kind}|${row.address}|${row.reason}`;
+    const first = seen.get(key);
+    if (!first) {
+      seen.set(key, row);
+      unique.push(row);
+    } else if (first.points === row.points) {
+      duplicates.push(row);
+    } else {
+      conflicts.push(
+        `line ${row.line} (${row.address}, "${row.reason}") conflicts with line ${first.line}`
+      );
+    }
+  }
+  if (conflicts.length > 0) {
+    throw new Error(
+      `Conflicting rows (merge them or use distinct reasons):\n  ${conflicts.join("\n  ")}`
+    );
+  }
+  return { rows: unique, duplicates };
+}
+
+/*//////////////////////////////////////////////////////////////
+                            BATCHES
+//////////////////////////////////////////////////////////////*/
+
+/** Function name and calldata of a batch */
+export const encodeAwardBatch = (
+  iface: Interface,
+  batch: Pick<AwardBatch, "kind" | "reason" | "rows">
+): { method: string; data: string } => {
+  const method = METHODS[batch.kind];
+  return {
+    method,
+    data: iface.encodeFunctionData(method, [
+      batch.rows.map((row) => row.address),
+      batch.rows.map((row) => row.points),
+      batch.reason,
+    ]),
+  };
+};
+
+/**
+ * Group rows by kind and reason (one reason per call), then split each group
+ * into calls estimated to stay under `maxGas`. Sizes come from a per-row
+ * gas estimate and are re-checked by estimating every planned call.
+ */
+export async function planAwardBatches(
+  provider: Provider,
+  target: string,
+  from: string,
+  rows: AwardRow[],
+  maxGas: bigint
+): Promise<AwardBatch[]> {
+  const iface = new Interface(LEADERBOARD_CONFIG_AWARDS_ABI);
+  const budget = (maxGas * GAS_HEADROOM_BPS) / 10_000n;
+  const estimate = (kind: AwardKind, reason: string, part: AwardRow[]) =>
+    provider.estimateGas({
+      from,
+      to: target,
+      data: encodeAwardBatch(iface, { kind, reason, rows: part }).data,
+    });
+
+  const groups = new Map<string, AwardRow[]>();
+  for (const row of rows) {
+    const key = `${row.kind}|${row.reason}`;
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+
+  const batches: AwardBatch[] = [];
+  for (const group of groups.values()) {
+    const { kind, reason } = group[0];
+    const single = await estimate(kind, reason, group.slice(0, 1));
+    if (single > budget) {
+      throw new Error(
+        `A single ${METHODS[kind]} row for "${reason}" needs ~${single} gas, over the ${maxGas} limit`
+      );
+    }
+    let size = group.length;
+    if (group.length > 1) {
+      const pair = await estimate(kind, reason, group.slice(0, 2));
+      const perRow = pair > single ? pair - single : 1n;
+      const fits = (budget - (single - perRow)) / perRow;
+      size = Math.max(1, Math.min(group.length, Number(fits)));
+    }
+
+    // Shrink any call the linear estimate got wrong
+    const pending: AwardRow[][] = [];
+    for (let i = 0; i < group.length; i += size) {
+      pending.push(group.slice(i, i + size));
+    }
+    while (pending.length > 0) {
+      const part = pending.shift()!;
+      const gasEstimate = await estimate(kind, reason, part);
+      if (gasEstimate > budget && part.length > 1) {
+        const half = Math.ceil(part.length / 2);
+        pending.unshift(part.slice(0, half), part.slice(half));
+        continue;
+      }
+      batches.push({ kind, reason, rows: part, gasEstimate });
+    }
+  }
+  return batches;
+}
+
+/**
+ * PointsAwarded/PointsRemoved events of a mined batch, in row order
+ * @throws When the events do not match the batch rows
+ */
+export function matchAwardEvents(
+  iface: Interface,
+  receipt: TransactionReceipt,
+  batch: AwardBatch
+): AwardReceiptEvent[] {
+  const name = EVENTS[batch.kind];
+  const events: AwardReceiptEvent[] = [];
+  for (const log of receipt.logs) {
+    const parsed = iface.parseLog(log);
+    if (parsed?.name !== name) continue;
+    events.push({
+      name,
+      logIndex: log.index,
+      user: parsed.args.user,
+      points: parsed.args.points.toString(),
+      reason: parsed.args.reason,
+      timestamp: parsed.args.timestamp.toString(),
+    });
+  }
+  const mismatch =
+    events.length !== batch.rows.length ||
+    events.some(
+      (event, i) =>
+        event.user !== batch.rows[i].address ||
+        event.points !== batch.rows[i].points.toString() ||
+        event.reason !== batch.reason
+    );
+  if (mismatch) {
+    throw new Error(
+      `${receipt.hash}: ${events.length} ${name} event(s) do not match the ${batch.rows.length} batch row(s)`
+    );
+  }
+  return events;
+}
+
+/**
+ * Receipt file for a CSV run: deployments/{network}/points/{timestamp}-{csv}.json
+ */
+export const getAwardReceiptPath = (
+  network: string,
+  source: string,
+  timestamp: number
+): string =>
+  path.join(
+    getDeploymentsDir(network),
+    "points",
+    `${timestamp}-${path.basename(source, path.extname(source))}.json`
+  );
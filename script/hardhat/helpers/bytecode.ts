@@ -0,0 +1,270 @@
+import fs from "fs";
+import path from "path";
+import { getAddress, keccak256, toUtf8Bytes } from "ethers";
+import type {
+  Artifact,
+  BuildInfo,
+  HardhatRuntimeEnvironment,
+} from "hardhat/types";
+import { DeploymentManifest } from "../types/manifest";
+import { BytecodeComparison } from "../types/verify";
+import { getDeploymentsDir } from "./manifest";
+
+interface ByteRange {
+  start: number;
+  length: number;
+}
+
+interface CompiledCode {
+  buildId: string;
+  code: string;
+  links: Record<string, ByteRange[]>;
+  immutables: Record<string, ByteRange[]>;
+}
+
+/*//////////////////////////////////////////////////////////////
+                            HELPERS
+//////////////////////////////////////////////////////////////*/
+
+/** Strip the trailing CBOR metadata (its length is the last two bytes) */
+export const stripMetadata = (code: string): string => {
+  const hex = code.replace(/^0x/, "").toLowerCase();
+  const length = parseInt(hex.slice(-4), 16) * 2 + 4;
+  return length < hex.length ? hex.slice(0, -length) : hex;
+};
+
+const readRange = (hex: string, range: ByteRange): string =>
+  hex.slice(range.start * 2, (range.start + range.length) * 2);
+
+/**
+ * Zero the given byte ranges (linked libraries, immutables) of a hex string
+ */
+export const maskBytecode = (hex: string, ranges: ByteRange[]): string => {
+  let masked = hex.replace(/^0x/, "").toLowerCase();
+  for (const { start, length } of ranges) {
+    masked =
+      masked.slice(0, start * 2) +
+      "0".repeat(length * 2) +
+      masked.slice((start + length) * 2);
+  }
+  return masked;
+};
+
+// Libraries start with PUSH20 <own address>, filled in at deploy time
+const LIBRARY_PREFIX = /^73[0-9a-f]{40}/;
+
+/**
+ * Find the name of an AST node by id (immutable references are keyed by
+ * the declaration id)
+ */
+const findDeclarationName = (
+  buildInfo: BuildInfo,
+  id: number
+): string | undefined => {
+  const visit = (node: any): string | undefined => {
+    if (!node || typeof node !== "object") return undefined;
+    if (node.id === id && typeof node.name === "string") return node.name;
+    for (const value of Object.values(node)) {
+      const found = Array.isArray(value)
+        ? value.map(visit).find(Boolean)
+        : visit(value);
+      if (found) return found;
+    }
+    return undefined;
+  };
+  for (const source of Object.values(buildInfo.output.sources)) {
+    const name = visit(source.ast);
+    if (name) return name;
+  }
+  return undefined;
+};
+
+const compiledCode = (
+  buildInfo: BuildInfo,
+  sourceName: string,
+  contractName: string
+): CompiledCode | undefined => {
+  const output =
+    buildInfo.output.contracts[sourceName]?.[contractName]?.evm
+      .deployedBytecode;
+  if (!output?.object) return undefined;
+
+  const links: Record<string, ByteRange[]> = {};
+  for (const libraries of Object.values(output.linkReferences ?? {})) {
+    for (const [library, ranges] of Object.entries(libraries)) {
+      links[library] = ranges;
+    }
+  }
+  const immutables: Record<string, ByteRange[]> = {};
+  for (const [id, ranges] of Object.entries(output.immutableReferences ?? {})) {
+    const name = findDeclarationName(buildInfo, Number(id)) ?? `#${id}`;
+    immutables[name] = ranges;
+  }
+  // Link placeholders are not hex; mask them like the on-chain addresses
+  const code = output.object.replace(
+    /__\$[0-9a-fA-F]{34}\$__/g,
+    "0".repeat(40)
+  );
+  return { buildId: buildInfo.id, code, links, immutables };
+};
+
+const maskedEqual = (onchain: string, compiled: CompiledCode): boolean => {
+  const ranges = [
+    ...Object.values(compiled.links).flat(),
+    ...Object.values(compiled.immutables).flat(),
+  ];
+  const local = stripMetadata(compiled.code);
+  let live = stripMetadata(onchain);
+  if (LIBRARY_PREFIX.test(local)) {
+    live = live.replace(LIBRARY_PREFIX, local.slice(0, 42));
+  }
+  return maskBytecode(live, ranges) === maskBytecode(local, ranges);
+};
+
+/**
+ * Metadata exported next to the manifest (deployments/<network>/<Name>.json),
+ * when it was recorded for the given address
+ */
+const readRecordedMetadata = (
+  network: string,
+  name: string,
+  address: string
+): any | undefined => {
+  const file = path.join(getDeploymentsDir(network), `${name}.json`);
+  if (!fs.existsSync(file)) return undefined;
+  const data = JSON.parse(fs.readFileSync(file, "utf8"));
+  const recorded: string | undefined = data.implementation ?? data.address;
+  return recorded?.toLowerCase() === address.toLowerCase()
+    ? data.metadata
+    : undefined;
+};
+
+/**
+ * Sources whose recorded keccak256 differs from the local build input
+ */
+const changedSources = (metadata: any, buildInfo: BuildInfo): string[] =>
+  Object.entries<{ keccak256?: string }>(metadata?.sources ?? {})
+    .filter(([source, { keccak256: recorded }]) => {
+      const content = buildInfo.input.sources[source]?.content;
+      return (
+        content === undefined || keccak256(toUtf8Bytes(content)) !== recorded
+      );
+    })
+    .map(([source]) => source);
+
+/*//////////////////////////////////////////////////////////////
+                           COMPARISON
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Compare the runtime code of a manifest contract (the implementation for
+ * transparent proxies) with the local build, masking linked libraries and
+ * immutables. Code that matches no local build is checked against the
+ * recorded deployment metadata before being flagged as unknown
+ */
+export async function compareBytecode(
+  hre: HardhatRuntimeEnvironment,
+  manifest: DeploymentManifest,
+  name: string
+): Promise<BytecodeComparison> {
+  const entry = manifest.contracts[name];
+  const address =
+    entry.kind === "transparentProxy"
+      ? await hre.upgrades.erc1967.getImplementationAddress(entry.address)
+      : entry.address;
+  const result: BytecodeComparison = {
+    contract: name,
+    artifact: entry.artifact,
+    address,
+    status: "skipped",
+    libraries: {},
+    immutables: {},
+  };
+
+  let artifact: Artifact;
+  try {
+    if (!entry.artifact) throw new Error("No artifact in the manifest");
+    artifact = await hre.artifacts.readArtifact(entry.artifact);
+  } catch (error) {
+    return { ...result, details: (error as Error).message.split("\n")[0] };
+  }
+  const fqName = `${artifact.sourceName}:${artifact.contractName}`;
+  const buildInfo = await hre.artifacts.getBuildInfo(fqName);
+  const current =
+    buildInfo &&
+    compiledCode(buildInfo, artifact.sourceName, artifact.contractName);
+  if (!buildInfo || !current) {
+    return { ...result, details: `No build info for ${fqName}` };
+  }
+
+  const onchain = (await hre.ethers.provider.getCode(address))
+    .replace(/^0x/, "")
+    .toLowerCase();
+  if (onchain === "") return { ...result, status: "missing" };
+
+  const live = stripMetadata(onchain);
+  for (const [library, ranges] of Object.entries(current.links)) {
+    result.libraries[library] = getAddress(`0x${readRange(live, ranges[0])}`);
+  }
+  for (const [variable, ranges] of Object.entries(current.immutables)) {
+    const word = readRange(live, ranges[0]);
+    result.immutables[variable] = /^0{24}/.test(word)
+      ? getAddress(`0x${word.slice(24)}`)
+      : `0x${word}`;
+  }
+
+  const libraryMismatches = Object.entries(result.libraries)
+    .filter(([library, linked]) => {
+      const expected =
+        entry.libraries?.[library] ?? manifest.contracts[library]?.address;
+      return expected && expected.toLowerCase() !== linked.toLowerCase();
+    })
+    .map(([library, linked]) => `${library} linked at ${linked}`);
+
+  if (maskedEqual(onchain, current)) {
+    return libraryMismatches.length > 0
+      ? {
+          ...result,
+          status: "unknown",
+          buildId: current.buildId,
+          details: `Not the manifest library: ${libraryMismatches.join(", ")}`,
+        }
+      : { ...result, status: "match", buildId: current.buildId };
+  }
+
+  for (const buildInfoPath of await hre.artifacts.getBuildInfoPaths()) {
+    const other: BuildInfo = JSON.parse(fs.readFileSync(buildInfoPath, "utf8"));
+    if (other.id === current.buildId) continue;
+    const compiled = compiledCode(
+      other,
+      artifact.sourceName,
+      artifact.contractName
+    );
+    if (compiled && maskedEqual(onchain, compiled)) {
+      return {
+        ...result,
+        status: "stale",
+        buildId: other.id,
+        details: "Matches an older local build",
+      };
+    }
+  }
+
+  const metadata = readRecordedMetadata(manifest.network, name, address);
+  if (metadata) {
+    const changed = changedSources(metadata, buildInfo);
+    return {
+      ...result,
+      status: "recorded",
+      details:
+        changed.length > 0
+          ? `Changed since deployment: ${changed.join(", ")}`
+          : "Recorded sources match; compiler settings differ",
+    };
+  }
+  return {
+    ...result,
+    status: "unknown",
+    details: "Deployed from an unknown build",
+  };
+}
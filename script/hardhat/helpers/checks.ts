@@ -0,0 +1,447 @@
+import fs from "fs";
+import path from "path";
+import { FunctionFragment, ZeroAddress, formatEther, parseEther } from "ethers";
+import {
+  BytecodeStatus,
+  CheckContext,
+  CheckOutcome,
+  CheckResult,
+  CheckStatus,
+  ExpectedSource,
+  Invariant,
+  VerifyReport,
+} from "../types/verify";
+import { compareBytecode } from "./bytecode";
+
+/*//////////////////////////////////////////////////////////////
+                            REGISTRY
+//////////////////////////////////////////////////////////////*/
+
+const INVARIANTS: Invariant[] = [];
+
+/**
+ * Register invariants checked by verify:deployment. Contracts added to the
+ * manifest register their own from a config module (see config/invariants.ts)
+ */
+export function registerInvariants(...invariants: Invariant[]): void {
+  for (const invariant of invariants) {
+    const duplicate = INVARIANTS.some(
+      (i) => i.contract === invariant.contract && i.name === invariant.name
+    );
+    if (duplicate) {
+      throw new Error(
+        `Invariant "${invariant.name}" is already registered for ${invariant.contract}`
+      );
+    }
+    INVARIANTS.push(invariant);
+  }
+}
+
+export const getInvariants = (): Invariant[] => [...INVARIANTS];
+
+/*//////////////////////////////////////////////////////////////
+                            HELPERS
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Human-readable ABI fragment for a view getter
+ * @example view("getTransferStrategy", "address", "address")
+ */
+export const view = (name: string, returns: string, ...inputs: string[]) =>
+  `function ${name}(${inputs.join(",")}) view returns (${returns})`;
+
+const OWNER = view("owner", "address");
+
+const getPath = (tree: Record<string, any> | undefined, dotted: string): any =>
+  dotted
+    .split(".")
+    .reduce<any>((node, key) => (node == null ? undefined : node[key]), tree);
+
+const sameAddress = (a: string, b: string): boolean =>
+  a.toLowerCase() === b.toLowerCase();
+
+const describe = (source: ExpectedSource): string =>
+  source.from === "config"
+    ? `${source.config ?? "deploy"}:${source.path}`
+    : source.from === "contract"
+      ? source.name
+      : source.value;
+
+/**
+ * Resolve an expected value; undefined when the config leaves it empty
+ */
+export function resolveExpected(
+  ctx: CheckContext,
+  source: ExpectedSource
+): string | undefined {
+  let value: unknown;
+  if (source.from === "config") {
+    value = getPath(ctx.configs[source.config ?? "deploy"], source.path);
+  } else if (source.from === "contract") {
+    value = ctx.manifest.contracts[source.name]?.address;
+  } else {
+    value = source.value;
+  }
+  return value === undefined || value === null || value === ""
+    ? undefined
+    : String(value);
+}
+
+/**
+ * Call a view on a manifest contract
+ */
+export async function readView(
+  ctx: CheckContext,
+  contract: string,
+  signature: string,
+  args: unknown[] = []
+): Promise<any> {
+  const address = ctx.manifest.contracts[contract]?.address;
+  if (!address) throw new Error(`${contract} is not in the manifest`);
+  const instance = new ctx.hre.ethers.Contract(
+    address,
+    [signature],
+    ctx.hre.ethers.provider
+  );
+  const fragment = instance.interface.fragments[0] as FunctionFragment;
+  return instance.getFunction(fragment.name)(...args);
+}
+
+const skipped = (source: ExpectedSource): CheckOutcome => ({
+  status: "skip",
+  details: `${describe(source)} is not configured`,
+});
+
+/*//////////////////////////////////////////////////////////////
+                        CHECK DEFINITIONS
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Address-valued role (team, keeper, executor, ...). With `pending`, a match
+ * on the pending getter of a two-step handoff reports "pending"
+ */
+export const role = (
+  contract: string,
+  name: string,
+  getter: string,
+  expected: ExpectedSource,
+  opts: { pending?: string } = {}
+): Invariant => ({
+  contract,
+  name,
+  run: async (ctx) => {
+    const want = resolveExpected(ctx, expected);
+    if (!want) return skipped(expected);
+    const actual: string = await readView(ctx, contract, getter);
+    if (sameAddress(actual, want)) {
+      return { status: "pass", expected: want, actual };
+    }
+    if (opts.pending) {
+      const pending: string = await readView(
+        ctx,
+        contract,
+        view(opts.pending, "address")
+      );
+      if (sameAddress(pending, want)) {
+        return {
+          status: "pending",
+          expected: want,
+          actual,
+          details: `Pending acceptance by ${pending}`,
+        };
+      }
+    }
+    return { status: "fail", expected: want, actual };
+  },
+});
+
+export const ownership = (
+  contract: string,
+  expected: ExpectedSource,
+  opts: { pending?: string } = {}
+): Invariant => role(contract, "Owner", OWNER, expected, opts);
+
+/**
+ * Address returned by a getter points at the expected contract
+ */
+export const wiring = (
+  contract: string,
+  name: string,
+  getter: string,
+  target: ExpectedSource,
+  opts: { args?: ExpectedSource[]; unsetIsPending?: boolean } = {}
+): Invariant => ({
+  contract,
+  name,
+  run: async (ctx) => {
+    const want = resolveExpected(ctx, target);
+    if (!want) return skipped(target);
+    const args: string[] = [];
+    for (const source of opts.args ?? []) {
+      const arg = resolveExpected(ctx, source);
+      if (!arg) return skipped(source);
+      args.push(arg);
+    }
+    const actual: string = await readView(ctx, contract, getter, args);
+    if (sameAddress(actual, want)) {
+      return { status: "pass", expected: want, actual };
+    }
+    if (opts.unsetIsPending && actual === ZeroAddress) {
+      return {
+        status: "pending",
+        expected: want,
+        actual,
+        details: "Not set yet",
+      };
+    }
+    return { status: "fail", expected: want, actual };
+  },
+});
+
+export interface BoundsOptions {
+  equals?: ExpectedSource;
+  min?: bigint;
+  max?: bigint;
+  /** Expected config values are whole-token amounts */
+  expectedInEther?: boolean;
+  format?: "ether" | "bps";
+}
+
+/**
+ * Numeric getter equals a configured value and/or lies within bounds
+ */
+export const bounds = (
+  contract: string,
+  name: string,
+  getter: string,
+  opts: BoundsOptions
+): Invariant => ({
+  contract,
+  name,
+  run: async (ctx) => {
+    const show = (value: bigint): string =>
+      opts.format === "ether"
+        ? formatEther(value)
+        : opts.format === "bps"
+          ? `${value} bps`
+          : value.toString();
+
+    let want: bigint | undefined;
+    if (opts.equals) {
+      const raw = resolveExpected(ctx, opts.equals);
+      if (raw !== undefined) {
+        want = opts.expectedInEther ? parseEther(raw) : BigInt(raw);
+      }
+    }
+    const actual = BigInt(await readView(ctx, contract, getter));
+    const range = [
+      opts.min !== undefined ? `>= ${show(opts.min)}` : "",
+      opts.max !== undefined ? `<= ${show(opts.max)}` : "",
+    ]
+      .filter(Boolean)
+      .join(", ");
+
+    const outOfRange =
+      (opts.min !== undefined && actual < opts.min) ||
+      (opts.max !== undefined && actual > opts.max);
+    if (outOfRange) {
+      return {
+        status: "fail",
+        expected: range,
+        actual: show(actual),
+        details: "Out of bounds",
+      };
+    }
+    if (want === undefined) {
+      if (!range) {
+        return opts.equals
+          ? skipped(opts.equals)
+          : { status: "info", actual: show(actual) };
+      }
+      return { status: "pass", expected: range, actual: show(actual) };
+    }
+    return {
+      status: actual === want ? "pass" : "fail",
+      expected: show(want),
+      actual: show(actual),
+    };
+  },
+});
+
+/**
+ * Runtime bytecode (the implementation's for proxies) matches the local
+ * build, with linked libraries and immutables masked
+ */
+export const bytecodeMatch = (contract: string): Invariant => ({
+  contract,
+  name: "Bytecode",
+  run: async (ctx) => {
+    const result = await compareBytecode(ctx.hre, ctx.manifest, contract);
+    const status: Record<BytecodeStatus, CheckStatus> = {
+      match: "pass",
+      stale: "fail",
+      recorded: "fail",
+      unknown: "fail",
+      missing: "fail",
+      skipped: "skip",
+    };
+    return {
+      status: status[result.status],
+      expected: result.artifact,
+      actual: `${result.address} (${result.status})`,
+      details: result.details,
+    };
+  },
+});
+
+/**
+ * One-off check with its own logic
+ */
+export const custom = (
+  contract: string,
+  name: string,
+  run: (ctx: CheckContext) => Promise<CheckOutcome>
+): Invariant => ({ contract, name, run });
+
+/*//////////////////////////////////////////////////////////////
+                             RUNNER
+//////////////////////////////////////////////////////////////*/
+
+export const STATUS_ICONS: Record<CheckStatus, string> = {
+  pass: "✅",
+  fail: "❌",
+  pending: "⏳",
+  warn: "⚠️ ",
+  info: "ℹ️ ",
+  skip: "⏭️ ",
+  error: "💥",
+};
+
+/**
+ * Run invariants in registration order; contracts missing from the manifest
+ * are reported as skipped
+ */
+export async function runInvariants(
+  ctx: CheckContext,
+  invariants: Invariant[]
+): Promise<CheckResult[]> {
+  const results: CheckResult[] = [];
+  for (const invariant of invariants) {
+    const start = Date.now();
+    let outcome: CheckOutcome;
+    if (!ctx.manifest.contracts[invariant.contract]) {
+      outcome = { status: "skip", details: "Not in the manifest" };
+    } else {
+      try {
+        outcome = await invariant.run(ctx);
+      } catch (error) {
+        outcome = {
+          status: "error",
+          details: ((error as any)?.shortMessage ?? (error as Error).message)
+            .split("\n")[0]
+            .slice(0, 200),
+        };
+      }
+    }
+    results.push({
+      contract: invariant.contract,
+      name: invariant.name,
+      ...outcome,
+      durationMs: Date.now() - start,
+    });
+  }
+  return results;
+}
+
+/**
+ * Whether a result fails the run (--strict also fails pending and warnings)
+ */
+export const isFailure = (result: CheckResult, strict = false): boolean =>
+  result.status === "fail" ||
+  result.status === "error" ||
+  (strict && (result.status === "pending" || result.status === "warn"));
+
+/*//////////////////////////////////////////////////////////////
+                            REPORTS
+//////////////////////////////////////////////////////////////*/
+
+const xml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export const describeResult = (result: CheckResult): string =>
+  [
+    result.expected !== undefined ? `Expected: ${result.expected}` : "",
+    result.actual !== undefined ? `Got: ${result.actual}` : "",
+    result.details ?? "",
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+/**
+ * JUnit XML with one testsuite per contract
+ */
+export function toJUnit(report: VerifyReport, strict = false): string {
+  const suites = new Map<string, CheckResult[]>();
+  for (const result of report.results) {
+    suites.set(result.contract, [
+      ...(suites.get(result.contract) ?? []),
+      result,
+    ]);
+  }
+
+  const count = (results: CheckResult[]) => ({
+    tests: results.length,
+    failures: results.filter(
+      (r) => r.status !== "error" && isFailure(r, strict)
+    ).length,
+    errors: results.filter((r) => r.status === "error").length,
+    skipped: results.filter((r) => r.status === "skip").length,
+    time: results.reduce((sum, r) => sum + r.durationMs, 0) / 1000,
+  });
+  const attrs = (c: ReturnType<typeof count>) =>
+    `tests="${c.tests}" failures="${c.failures}" errors="${c.errors}" skipped="${c.skipped}" time="${c.time}"`;
+
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="verify:deployment ${xml(report.network)}" ${attrs(count(report.results))}>`,
+  ];
+  for (const [contract, results] of suites) {
+    lines.push(
+      `  <testsuite name="${xml(contract)}" timestamp="${report.generatedAt}" ${attrs(count(results))}>`
+    );
+    for (const result of results) {
+      const message = xml(describeResult(result));
+      lines.push(
+        `    <testcase classname="${xml(`${report.network}.${contract}`)}" name="${xml(result.name)}" time="${result.durationMs / 1000}">`
+      );
+      if (result.status === "error") {
+        lines.push(`      <error message="${message}"/>`);
+      } else if (isFailure(result, strict)) {
+        lines.push(
+          `      <failure message="${message}" type="${result.status}"/>`
+        );
+      } else if (result.status === "skip") {
+        lines.push(`      <skipped message="${message}"/>`);
+      } else if (message) {
+        lines.push(
+          `      <system-out>${xml(`[${result.status}] `)}${message}</system-out>`
+        );
+      }
+      lines.push(`    </testcase>`);
+    }
+    lines.push(`  </testsuite>`);
+  }
+  lines.push(`</testsuites>`, "");
+  return lines.join("\n");
+}
+
+export function writeReport(file: string, contents: string): string {
+  const target = path.resolve(process.cwd(), file);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, contents);
+  return target;
+}
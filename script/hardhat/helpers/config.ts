@@ -0,0 +1,286 @@
+import fs from "fs";
+import path from "path";
+import { ZeroAddress } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ConfigSchemaTypes } from "../types/config.generated";
+import { JsonSchema, SchemaError } from "../types/schema";
+import { ArgSource } from "../types/plan";
+import {
+  formatSchemaErrors,
+  generateTypeDeclarations,
+  validateSchema,
+} from "./schema";
+import { getInterpolationSources, interpolateConfig } from "./interpolate";
+import { NEVERLAND_ENTRIES } from "../config/plan";
+
+export type ConfigSchemaName = keyof ConfigSchemaTypes;
+
+/**
+ * Get the config schemas directory (script/hardhat/config/schemas)
+ */
+export const getSchemasDir = (): string =>
+  path.resolve(__dirname, "..", "config", "schemas");
+
+/** File the config types are generated into */
+export const GENERATED_TYPES_PATH = path.resolve(
+  __dirname,
+  "..",
+  "types",
+  "config.generated.ts"
+);
+
+/** Names of the schemas on disk (<name>.schema.json) */
+export function listSchemas(): string[] {
+  const dir = getSchemasDir();
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(".schema.json"))
+    .map((file) => file.replace(/\.schema\.json$/, ""))
+    .sort();
+}
+
+export function loadSchema(name: string): JsonSchema {
+  const file = path.join(getSchemasDir(), `${name}.schema.json`);
+  if (!fs.existsSync(file)) {
+    throw new Error(
+      `Unknown config schema "${name}" (available: ${listSchemas().join(", ")})`
+    );
+  }
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+/**
+ * Schema of a config file from its name: deploy.mainnet.json → deploy,
+ * deploy-leaderboard.json → deploy-leaderboard
+ */
+export function schemaNameForFile(file: string): ConfigSchemaName | undefined {
+  const schemas = listSchemas();
+  const parts = path
+    .basename(file)
+    .replace(/\.json$/, "")
+    .split(".");
+  for (let end = parts.length; end > 0; end--) {
+    const name = parts.slice(0, end).join(".");
+    if (schemas.includes(name)) return name as ConfigSchemaName;
+  }
+  return undefined;
+}
+
+/*//////////////////////////////////////////////////////////////
+                         CROSS-FIELD RULES
+//////////////////////////////////////////////////////////////*/
+
+/** Contracts a plan source reads the address of, fallbacks included */
+const contractSources = (source: ArgSource | undefined): string[] =>
+  !source
+    ? []
+    : [
+        ...(source.from === "contract" ? [source.name] : []),
+        ...contractSources(source.fallback),
+      ];
+
+const isSet = (value?: string): value is string =>
+  !!value && value.trim() !== "";
+
+/**
+ * Rules a schema cannot express, run once the config matches its schema
+ */
+const CROSS_FIELD_RULES: {
+  [N in ConfigSchemaName]: (config: ConfigSchemaTypes[N]) => SchemaError[];
+} = {
+  deploy: (config) => {
+    // A reused contract keeps pointing at the old instance of a contract
+    // it was constructed or initialized with, so that one must be reused too
+    const errors: SchemaError[] = [];
+    const addresses: Record<string, string | undefined> =
+      config.addresses ?? {};
+    for (const entry of NEVERLAND_ENTRIES) {
+      if (!isSet(addresses[entry.name])) continue;
+      const params = [
+        ...entry.constructorParams,
+        ...(entry.proxy?.initializerParams ?? []),
+      ];
+      const dependencies = new Set(
+        params.flatMap((param) => contractSources(param.source))
+      );
+      for (const dependency of dependencies) {
+        if (!isSet(addresses[dependency])) {
+          errors.push({
+            path: `$.addresses.${entry.name}`,
+            message: `is reused but $.addresses.${dependency}, which it was deployed with, is empty (it would be redeployed)`,
+          });
+        }
+      }
+    }
+    return errors;
+  },
+  "deploy-leaderboard": (config) => {
+    const errors: SchemaError[] = [];
+    const tiers = config.votingPowerMultiplier?.tiers ?? [];
+    tiers.forEach((tier, index) => {
+      if (index === 0) return;
+      const previous = tiers[index - 1].minVotingPower;
+      if (BigInt(tier.minVotingPower) <= BigInt(previous)) {
+        errors.push({
+          path: `$.votingPowerMultiplier.tiers[${index}].minVotingPower`,
+          message: `must be above the previous tier's (${previous}): tiers ascend by minVotingPower`,
+        });
+      }
+    });
+    return errors;
+  },
+  "deploy-leaderboard-keeper": (config) => {
+    const errors: SchemaError[] = [];
+    const { keeper } = config;
+    for (const key of [
+      "initialOwner",
+      "keeperAddress",
+      "dustLock",
+      "nftRegistry",
+    ] as const) {
+      if (keeper[key] === ZeroAddress) {
+        errors.push({
+          path: `$.keeper.${key}`,
+          message: "must not be the zero address",
+        });
+      }
+    }
+    if (keeper.dustLock === keeper.nftRegistry) {
+      errors.push({
+        path: "$.keeper.nftRegistry",
+        message: "must differ from $.keeper.dustLock",
+      });
+    }
+    return errors;
+  },
+  "setup-dusthelper": (config) => {
+    const errors: SchemaError[] = [];
+    if (config.removeV4 && config.v4Pool) {
+      errors.push({
+        path: "$.v4Pool",
+        message: "cannot be set together with $.removeV4",
+      });
+    }
+    if (config.v4Pool && !isSet(config.pairOracle)) {
+      errors.push({
+        path: "$.pairOracle",
+        message: "is required with $.v4Pool: the pool only prices DUST/<PAIR>",
+      });
+    }
+    return errors;
+  },
+};
+
+/*//////////////////////////////////////////////////////////////
+                        VALIDATION / LOADING
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Every schema and cross-field error of a config value
+ */
+export function validateConfig(
+  name: ConfigSchemaName,
+  config: unknown
+): SchemaError[] {
+  const errors = validateSchema(loadSchema(name), config);
+  if (errors.length > 0) return errors;
+  return (CROSS_FIELD_RULES[name] as (config: unknown) => SchemaError[])(
+    config
+  );
+}
+
+/**
+ * Check a config value against its schema
+ * @throws Listing every error with its JSON path
+ */
+export function assertConfig<N extends ConfigSchemaName>(
+  name: N,
+  config: unknown,
+  label: string = name
+): asserts config is ConfigSchemaTypes[N] {
+  const errors = validateConfig(name, config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${label}:\n${formatSchemaErrors(errors)}`);
+  }
+}
+
+/** Read a JSON file without validating it */
+export function readConfigFile(file: string): unknown {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Config file not found at ${file}`);
+  }
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(`Unable to parse config JSON: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Read a config file, resolve its `${...}` references (env, then the
+ * deployments manifest, then the network profile) and validate the result
+ * @returns The resolved config and every unresolved reference or schema error
+ */
+export function resolveConfigFile(
+  hre: HardhatRuntimeEnvironment,
+  name: ConfigSchemaName,
+  file: string
+): { config: unknown; errors: SchemaError[] } {
+  const { config, errors } = interpolateConfig(
+    readConfigFile(file),
+    getInterpolationSources(hre)
+  );
+  // An unresolved reference also fails its format; report it once
+  const unresolved = new Set(errors.map((error) => error.path));
+  errors.push(
+    ...validateConfig(name, config).filter(
+      (error) => !unresolved.has(error.path)
+    )
+  );
+  return { config, errors };
+}
+
+/**
+ * Read, resolve and validate a config file
+ * @throws When the file is missing, unparsable, has unresolved references
+ * or does not match its schema
+ */
+export function loadConfigFile<N extends ConfigSchemaName>(
+  hre: HardhatRuntimeEnvironment,
+  name: N,
+  file: string
+): ConfigSchemaTypes[N] {
+  const { config, errors } = resolveConfigFile(hre, name, file);
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid config ${path.relative(process.cwd(), file)}:\n${formatSchemaErrors(errors)}`
+    );
+  }
+  return config as ConfigSchemaTypes[N];
+}
+
+/*//////////////////////////////////////////////////////////////
+                          TYPE GENERATION
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Source of types/config.generated.ts (before formatting)
+ */
+export function renderConfigTypes(): string {
+  const names = listSchemas();
+  const schemas = names.map(loadSchema);
+  const map = names
+    .map((name, i) => `  ${JSON.stringify(name)}: ${schemas[i].title};`)
+    .join("\n");
+  return [
+    "// Generated by `npx hardhat config:types` from config/schemas/*.schema.json.",
+    "// Do not edit: change the schema and regenerate.",
+    "",
+    generateTypeDeclarations(schemas),
+    "",
+    "/** Config type validated by each schema, by schema name */",
+    `export interface ConfigSchemaTypes {\n${map}\n}`,
+    "",
+  ].join("\n");
+}
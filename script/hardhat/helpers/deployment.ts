@@ -1,29 +1,33 @@
-import fs from "fs";
-import path from "path";
-import { NetworkConfig } from "../types/deploy";
+import { ContractProxy, NetworkConfig } from "../types/deploy";
+import { getManifestAddresses, readManifest } from "./manifest";
+import { loadNetworkProfile, getProfileDefault } from "./profile";
 
 /**
- * Load deployment configuration from deployments/{network}/addresses.json
+ * Load deployment configuration from deployments/{network}/manifest.json
+ * and the network profile
  */
-export function loadDeploymentConfig(networkName: string): NetworkConfig {
-  const configPath = path.join(
-    __dirname,
-    "../../../deployments",
-    networkName,
-    "addresses.json"
-  );
-
-  if (fs.existsSync(configPath)) {
-    return JSON.parse(fs.readFileSync(configPath, "utf-8"));
+export function loadDeploymentConfig(
+  networkName: string,
+  chainId?: number
+): NetworkConfig {
+  const manifest = readManifest(networkName);
+  const profile = loadNetworkProfile(networkName, manifest?.chainId ?? chainId);
+  if (!manifest) {
+    return { networkName, chainId, addresses: {}, profile };
   }
-  return { addresses: {} };
+  return {
+    networkName: manifest.network,
+    chainId: manifest.chainId,
+    addresses: getManifestAddresses(manifest),
+    profile,
+  };
 }
 
 /**
  * Get default value for a parameter from config hierarchy:
  * 1. Deployed addresses (from current session) - highest priority
- * 2. deployments/{network}/addresses.json - network-specific deployed contracts
- * 3. Fallback defaults - hardcoded for common params
+ * 2. deployments/{network}/manifest.json - network-specific deployed contracts
+ * 3. Network profile - config/networks/{network}.json and the profiles it extends
  */
 export function getDefaultValue(
   paramName: string,
@@ -51,74 +55,10 @@ export function getDefaultValue(
     return networkConfig.addresses[configKey];
   }
 
-  // Fallback hardcoded defaults for common params
-  const FALLBACK_DEFAULTS: Record<string, Record<string, string>> = {
-    "monad-testnet": {
-      aavePoolAddressesProvider: "0x0bAe833178A7Ef0C5b47ca10D844736F65CBd499",
-      dust: "0x8c30De5c41528494DEC99f77a410FB63817dC7E2",
-      forwarder: "0x0000000000000000000000000000000000000001", // No forwarder by default
-      emissionManager: "", // Must be set
-      owner: "", // Will use deployer
-      keeper: "", // Will use deployer
-      // Leaderboard defaults
-      depositRateBps: "100",
-      borrowRateBps: "500",
-      vpRateBps: "200",
-      supplyDailyBonus: "10000000000000000000", // 10 DUST
-      borrowDailyBonus: "20000000000000000000", // 20 DUST
-      repayDailyBonus: "0",
-      withdrawDailyBonus: "0",
-      cooldownSeconds: "3600", // 1 hour
-      minDailyBonusUsd: "0",
-      firstBonus: "1000", // 10%
-      decayRatio: "9000", // 90%
-      minSettlementInterval: "3600", // 1 hour
-    },
-    monad: {
-      aavePoolAddressesProvider: "",
-      dust: "",
-      forwarder: "0x0000000000000000000000000000000000000000",
-      emissionManager: "",
-      owner: "",
-      keeper: "",
-      depositRateBps: "100",
-      borrowRateBps: "500",
-      vpRateBps: "200",
-      supplyDailyBonus: "10000000000000000000",
-      borrowDailyBonus: "20000000000000000000",
-      repayDailyBonus: "0",
-      withdrawDailyBonus: "0",
-      cooldownSeconds: "3600",
-      minDailyBonusUsd: "0",
-      firstBonus: "1000",
-      decayRatio: "9000",
-      minSettlementInterval: "3600",
-    },
-    hardhat: {
-      aavePoolAddressesProvider: "",
-      dust: "",
-      forwarder: "0x0000000000000000000000000000000000000000",
-      emissionManager: "",
-      owner: "",
-      keeper: "",
-      depositRateBps: "100",
-      borrowRateBps: "500",
-      vpRateBps: "200",
-      supplyDailyBonus: "10000000000000000000",
-      borrowDailyBonus: "20000000000000000000",
-      repayDailyBonus: "0",
-      withdrawDailyBonus: "0",
-      cooldownSeconds: "3600",
-      minDailyBonusUsd: "0",
-      firstBonus: "1000",
-      decayRatio: "9000",
-      minSettlementInterval: "3600",
-    },
-  };
-
-  const networkDefaults =
-    FALLBACK_DEFAULTS[networkConfig.networkName || ""] || {};
-  return networkDefaults[paramName];
+  // Network profile defaults (config/networks)
+  return networkConfig.profile
+    ? getProfileDefault(networkConfig.profile, paramName, configKey)
+    : undefined;
 }
 
 /**
@@ -196,6 +136,15 @@ export function resolveDependencies(
   return { allContracts: allContractsNeeded, addedDeps };
 }
 
+/**
+ * Initializer signature of a proxy, e.g. `initialize(address,uint256)`
+ */
+export function getInitializerSignature(proxy: ContractProxy): string {
+  if (!proxy.initializer) return "(no initializer)";
+  const types = proxy.initializerParams.map((param) => param.type);
+  return `${proxy.initializer}(${types.join(",")})`;
+}
+
 /**
  * Generate deployment export data
  */
@@ -0,0 +1,350 @@
+import {
+  Interface,
+  concat,
+  dataSlice,
+  getAddress,
+  getCreate2Address,
+  getCreateAddress,
+  keccak256,
+  toUtf8Bytes,
+  zeroPadValue,
+} from "ethers";
+import type { Signer } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  getProxyAdminFactory,
+  getTransparentUpgradeableProxyFactory,
+} from "@openzeppelin/hardhat-upgrades/dist/utils";
+import { DeterministicConfig } from "../types/config.generated";
+import { DeterministicMode } from "../types/deploy";
+import { ArgSource, DeploymentPlan, PlanEntry } from "../types/plan";
+import { getEnvWallet } from "./signers";
+
+/** CreateX factory, deployed at the same address on every supported chain */
+export const CREATEX_ADDRESS = "0xba5Ed099633D3B313e4D5F7bdc1305d3c28ba5Ed";
+
+const CREATEX_ABI = [
+  "function deployCreate2(bytes32 salt, bytes initCode) payable returns (address)",
+  "function deployCreate3(bytes32 salt, bytes initCode) payable returns (address)",
+  "function deployCreate2AndInit(bytes32 salt, bytes initCode, bytes data, (uint256 constructorAmount, uint256 initCallAmount) values) payable returns (address)",
+  "function deployCreate3AndInit(bytes32 salt, bytes initCode, bytes data, (uint256 constructorAmount, uint256 initCallAmount) values) payable returns (address)",
+];
+
+// keccak256 of the CREATE3 proxy CreateX deploys with CREATE2 before the real contract
+const CREATE3_PROXY_INITCODE_HASH = keccak256(
+  "0x67363d3d37363d34f03d5260086018f3"
+);
+
+const ownableInterface = new Interface([
+  "function transferOwnership(address newOwner)",
+]);
+
+/** Salt name of the shared ProxyAdmin */
+export const PROXY_ADMIN_SALT_NAME = "ProxyAdmin";
+
+/** Salt name of the implementation behind a proxied entry */
+export const implementationSaltName = (name: string): string =>
+  `${name}.implementation`;
+
+const DETERMINISTIC_MODES: DeterministicMode[] = ["create2", "create3"];
+
+export const isDeterministicMode = (
+  value: unknown
+): value is DeterministicMode =>
+  (DETERMINISTIC_MODES as unknown[]).includes(value);
+
+/**
+ * Check a deterministic config (config.deterministic or task overrides)
+ */
+export function assertDeterministicConfig(
+  config: Partial<DeterministicConfig>
+): asserts config is DeterministicConfig {
+  if (!isDeterministicMode(config.mode)) {
+    throw new Error(
+      `Invalid deterministic mode "${config.mode}" (expected create2 or create3)`
+    );
+  }
+  if (!config.version || `${config.version}`.trim() === "") {
+    throw new Error("Deterministic mode needs a salt version");
+  }
+}
+
+/**
+ * CreateX sends the initializer of deterministic proxies, so entries whose
+ * initializer hands roles to msg.sender cannot be deployed that way
+ */
+export function assertDeterministicPlan(
+  plan: DeploymentPlan,
+  exclude: Set<string> = new Set()
+): void {
+  for (const entry of plan.entries) {
+    const roles = entry.proxy?.senderRoles ?? [];
+    if (exclude.has(entry.name) || roles.length === 0) continue;
+    throw new Error(
+      `${entry.name}.${entry.proxy!.initializer} makes msg.sender its ${roles.join(" and ")}, which would be the CreateX factory in a deterministic deployment: exclude ${entry.name} and supply its address, or deploy without the deterministic section`
+    );
+  }
+}
+
+/*//////////////////////////////////////////////////////////////
+                         SALTS AND ADDRESSES
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * CreateX permissioned salt: deployer (20 bytes) ++ 0x00 (no chain id in the
+ * guard, so the address is the same on every chain) ++ the first 11 bytes of
+ * keccak256("<version>:<name>"). Only the deployer can use it.
+ */
+export const deriveDeterministicSalt = (
+  deployer: string,
+  version: string,
+  name: string
+): string =>
+  concat([
+    getAddress(deployer),
+    "0x00",
+    dataSlice(keccak256(toUtf8Bytes(`${version}:${name}`)), 0, 11),
+  ]);
+
+/** Salt CreateX actually deploys with (its _guard for permissioned salts) */
+const guardSalt = (deployer: string, salt: string): string =>
+  keccak256(concat([zeroPadValue(getAddress(deployer), 32), salt]));
+
+/**
+ * Address CreateX deploys a salt to. CREATE3 addresses only depend on the
+ * deployer and salt; CREATE2 addresses also depend on the init code.
+ */
+export function predictDeterministicAddress(
+  mode: DeterministicMode,
+  deployer: string,
+  salt: string,
+  initCode?: string
+): string {
+  const guarded = guardSalt(deployer, salt);
+  if (mode === "create3") {
+    const proxy = getCreate2Address(
+      CREATEX_ADDRESS,
+      guarded,
+      CREATE3_PROXY_INITCODE_HASH
+    );
+    return getCreateAddress({ from: proxy, nonce: 1 });
+  }
+  if (!initCode) throw new Error("CREATE2 addresses need the init code");
+  return getCreate2Address(CREATEX_ADDRESS, guarded, keccak256(initCode));
+}
+
+/*//////////////////////////////////////////////////////////////
+                            DEPLOYMENT
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Deploy init code through CreateX, or return the predicted address untouched
+ * when it already has code. `initData` is called on the new contract by
+ * CreateX in the same transaction.
+ * @returns The address and the sent transaction (absent when reused)
+ */
+export async function deployDeterministic(
+  hre: HardhatRuntimeEnvironment,
+  signer: Signer,
+  opts: {
+    mode: DeterministicMode;
+    salt: string;
+    initCode: string;
+    initData?: string;
+  }
+): Promise<{ address: string; tx?: any }> {
+  const provider = hre.ethers.provider;
+  const address = predictDeterministicAddress(
+    opts.mode,
+    await signer.getAddress(),
+    opts.salt,
+    opts.initCode
+  );
+  if ((await provider.getCode(address)) !== "0x") return { address };
+  if ((await provider.getCode(CREATEX_ADDRESS)) === "0x") {
+    throw new Error(
+      `CreateX is not deployed on ${hre.network.name} (${CREATEX_ADDRESS})`
+    );
+  }
+
+  const createx = new hre.ethers.Contract(CREATEX_ADDRESS, CREATEX_ABI, signer);
+  const method = opts.mode === "create3" ? "deployCreate3" : "deployCreate2";
+  const tx = opts.initData
+    ? await createx[`${method}AndInit`](
+        opts.salt,
+        opts.initCode,
+        opts.initData,
+        [0, 0]
+      )
+    : await createx[method](opts.salt, opts.initCode);
+  return { address, tx };
+}
+
+/**
+ * Init call handing a contract whose constructor makes msg.sender the owner
+ * from CreateX to the deployer
+ */
+export const encodeOwnershipClaim = (deployer: string): string =>
+  ownableInterface.encodeFunctionData("transferOwnership", [deployer]);
+
+/*//////////////////////////////////////////////////////////////
+                            PREDICTION
+//////////////////////////////////////////////////////////////*/
+
+export interface PredictedAddress {
+  contract: string;
+  kind:
+    | "contract"
+    | "proxy"
+    | "implementation"
+    | "beacon"
+    | "proxyAdmin"
+    | "library";
+  address: string;
+  deployed: boolean;
+}
+
+const getPath = (tree: Record<string, any>, dotted: string): any =>
+  dotted
+    .split(".")
+    .reduce<any>((node, key) => (node == null ? undefined : node[key]), tree);
+
+/**
+ * Predict every address a deterministic run of `plan` deploys, without
+ * sending anything. CREATE2 predictions resolve constructor arguments from
+ * the config, the deployer and earlier predictions; CREATE3 ones need none.
+ */
+export async function predictPlanAddresses(
+  hre: HardhatRuntimeEnvironment,
+  plan: DeploymentPlan,
+  opts: {
+    config: Record<string, any>;
+    deterministic: DeterministicConfig;
+    deployer: string;
+    exclude?: Set<string>;
+  }
+): Promise<PredictedAddress[]> {
+  const { mode, version } = opts.deterministic;
+  const exclude = opts.exclude ?? new Set<string>();
+  const addresses: Record<string, string> = {};
+  const predictions: PredictedAddress[] = [];
+
+  const resolveValue = async (
+    entry: PlanEntry,
+    source: ArgSource
+  ): Promise<any> => {
+    let value: any;
+    switch (source.from) {
+      case "config":
+        value = getPath(opts.config, source.path);
+        if (typeof value === "string" && value.trim() === "") value = undefined;
+        break;
+      case "contract":
+        value = addresses[source.name] ?? opts.config.addresses?.[source.name];
+        break;
+      case "deployer":
+        value = opts.deployer;
+        break;
+      case "value":
+        value = source.value;
+        break;
+      case "wallet":
+        value = await getEnvWallet(hre, source.env)?.getAddress();
+        break;
+      default:
+        throw new Error(
+          `${entry.name}: a ${source.from} value cannot be predicted; use create3`
+        );
+    }
+    if (value === undefined && source.fallback) {
+      return resolveValue(entry, source.fallback);
+    }
+    if (value === undefined) {
+      throw new Error(
+        `${entry.name}: unable to resolve a ${source.from} value`
+      );
+    }
+    return value;
+  };
+
+  const predict = async (
+    contract: string,
+    kind: PredictedAddress["kind"],
+    saltName: string,
+    getInitCode: () => Promise<string>
+  ): Promise<string> => {
+    const address = predictDeterministicAddress(
+      mode,
+      opts.deployer,
+      deriveDeterministicSalt(opts.deployer, version, saltName),
+      mode === "create2" ? await getInitCode() : undefined
+    );
+    if (!predictions.some((p) => p.address === address)) {
+      predictions.push({
+        contract,
+        kind,
+        address,
+        deployed: (await hre.ethers.provider.getCode(address)) !== "0x",
+      });
+    }
+    return address;
+  };
+
+  let proxyAdmin: string | undefined;
+  for (const entry of plan.entries) {
+    if (exclude.has(entry.name)) continue;
+
+    const libraries: Record<string, string> = {};
+    for (const lib of entry.libraries ?? []) {
+      libraries[lib] = await predict(lib, "library", lib, async () => {
+        const factory = await hre.ethers.getContractFactory(lib);
+        return (await factory.getDeployTransaction()).data;
+      });
+    }
+    const getInitCode = async () => {
+      const factory = await hre.ethers.getContractFactory(entry.artifact, {
+        libraries,
+      });
+      const args: any[] = [];
+      for (const param of entry.constructorParams) {
+        args.push(await resolveValue(entry, param.source));
+      }
+      return (await factory.getDeployTransaction(...args)).data;
+    };
+
+    if (!entry.proxy) {
+      addresses[entry.name] = await predict(
+        entry.name,
+        entry.artifact === "UpgradeableBeacon" ? "beacon" : "contract",
+        entry.name,
+        getInitCode
+      );
+      continue;
+    }
+
+    const implementation = await predict(
+      entry.name,
+      "implementation",
+      implementationSaltName(entry.name),
+      getInitCode
+    );
+    proxyAdmin ??= await predict(
+      "ProxyAdmin",
+      "proxyAdmin",
+      PROXY_ADMIN_SALT_NAME,
+      async () => (await getProxyAdminFactory(hre)).bytecode
+    );
+    addresses[entry.name] = await predict(
+      entry.name,
+      "proxy",
+      entry.name,
+      async () =>
+        (
+          await (
+            await getTransparentUpgradeableProxyFactory(hre)
+          ).getDeployTransaction(implementation, proxyAdmin!, "0x")
+        ).data
+    );
+  }
+  return predictions;
+}
@@ -0,0 +1,153 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { FunctionFragment } from "ethers";
+import {
+  DeploymentManifest,
+  DriftReport,
+  DriftRow,
+  ManifestContract,
+} from "../types/manifest";
+import { TRACKED_READS } from "../config/drift";
+import { writeManifest } from "./manifest";
+
+const BEACON_ABI = ["function implementation() view returns (address)"];
+
+interface LiveRead {
+  check: string;
+  expected?: string;
+  actual?: string;
+  error?: string;
+}
+
+const sameValue = (a: string, b: string): boolean =>
+  a.toLowerCase() === b.toLowerCase();
+
+const errorMessage = (error: unknown): string =>
+  ((error as any)?.shortMessage ?? (error as Error)?.message ?? String(error))
+    .split("\n")[0]
+    .slice(0, 120);
+
+/**
+ * Read the live values the manifest makes claims about for one contract:
+ * code presence, proxy slots, beacon implementation and tracked getters
+ */
+async function readLive(
+  hre: HardhatRuntimeEnvironment,
+  manifest: DeploymentManifest,
+  name: string,
+  entry: ManifestContract
+): Promise<LiveRead[]> {
+  const reads: LiveRead[] = [];
+  const attempt = async (
+    check: string,
+    expected: string | undefined,
+    read: () => Promise<unknown>
+  ): Promise<void> => {
+    try {
+      reads.push({ check, expected, actual: String(await read()) });
+    } catch (error) {
+      reads.push({ check, expected, error: errorMessage(error) });
+    }
+  };
+
+  const code = await hre.ethers.provider.getCode(entry.address);
+  reads.push({
+    check: "code",
+    expected: "present",
+    actual: code === "0x" ? "missing" : "present",
+  });
+  if (code === "0x") return reads;
+
+  if (entry.kind === "transparentProxy") {
+    await attempt("implementation", entry.implementation, () =>
+      hre.upgrades.erc1967.getImplementationAddress(entry.address)
+    );
+    await attempt("admin", entry.admin, () =>
+      hre.upgrades.erc1967.getAdminAddress(entry.address)
+    );
+  } else if (entry.kind === "beacon") {
+    const beacon = new hre.ethers.Contract(
+      entry.address,
+      BEACON_ABI,
+      hre.ethers.provider
+    );
+    await attempt("implementation", entry.implementation, () =>
+      beacon.implementation()
+    );
+  }
+
+  for (const tracked of TRACKED_READS[name] ?? []) {
+    const contract = new hre.ethers.Contract(
+      entry.address,
+      [tracked.signature],
+      hre.ethers.provider
+    );
+    const method = contract.interface.fragments[0] as FunctionFragment;
+    await attempt(tracked.label, entry.state?.[tracked.label], () => {
+      const args = (tracked.args ?? []).map((arg) => {
+        const address = manifest.contracts[arg]?.address;
+        if (!address) throw new Error(`${arg} is not in the manifest`);
+        return address;
+      });
+      return contract.getFunction(method.name)(...args);
+    });
+  }
+  return reads;
+}
+
+/**
+ * Compare every manifest entry against the chain
+ */
+export async function collectDrift(
+  hre: HardhatRuntimeEnvironment,
+  manifest: DeploymentManifest
+): Promise<DriftReport> {
+  const rows: DriftRow[] = [];
+  for (const [name, entry] of Object.entries(manifest.contracts)) {
+    for (const read of await readLive(hre, manifest, name, entry)) {
+      const expected = read.expected ?? "";
+      let status: DriftRow["status"];
+      if (read.error !== undefined) status = "error";
+      else if (read.expected === undefined) status = "unrecorded";
+      else status = sameValue(expected, read.actual!) ? "ok" : "drift";
+      rows.push({
+        contract: name,
+        check: read.check,
+        expected,
+        actual: read.error ?? read.actual!,
+        status,
+      });
+    }
+  }
+  return {
+    network: manifest.network,
+    chainId: manifest.chainId,
+    blockNumber: await hre.ethers.provider.getBlockNumber(),
+    generatedAt: new Date().toISOString(),
+    drift: rows.some((r) => r.status === "drift" || r.status === "error"),
+    rows,
+  };
+}
+
+/**
+ * Record live proxy slots, beacon implementations and tracked getters in the
+ * manifest as the new baseline, then write it. When `names` is given, only
+ * those entries are re-baselined; the rest keep their recorded values
+ */
+export async function recordLiveState(
+  hre: HardhatRuntimeEnvironment,
+  manifest: DeploymentManifest,
+  names?: ReadonlySet<string>
+): Promise<void> {
+  for (const [name, entry] of Object.entries(manifest.contracts)) {
+    if (names && !names.has(name)) continue;
+    const state: Record<string, string> = {};
+    for (const read of await readLive(hre, manifest, name, entry)) {
+      if (read.actual === undefined || read.check === "code") continue;
+      if (read.check === "implementation") entry.implementation = read.actual;
+      else if (read.check === "admin") entry.admin = read.actual;
+      else state[read.check] = read.actual;
+    }
+    if (Object.keys(state).length > 0) entry.state = state;
+  }
+  writeManifest(manifest);
+}
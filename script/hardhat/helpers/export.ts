@@ -1,12 +1,27 @@
 import fs from "fs";
 import path from "path";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ManifestContract } from "../types/manifest";
+import {
+  ManifestUpdate,
+  getDeploymentsDir,
+  getManifestAddresses,
+  readManifest,
+  updateManifest,
+} from "./manifest";
+import { redactSecrets } from "./interpolate";
 
 /**
  * Standard deployment export interface
  */
 export interface DeploymentExport {
   address: string;
+  /** Manifest fields; defaults to a plain contract */
+  kind?: ManifestContract["kind"];
+  artifact?: string;
+  implementation?: string;
+  admin?: string;
+  libraries?: Record<string, string>;
   constructorArgs?: any[];
   metadata?: {
     txHash?: string;
@@ -19,9 +34,27 @@ export interface DeploymentExport {
   };
 }
 
+const toManifestUpdate = (deployment: DeploymentExport): ManifestUpdate => ({
+  address: deployment.address,
+  kind: deployment.kind,
+  artifact: deployment.artifact,
+  implementation: deployment.implementation,
+  admin: deployment.admin,
+  libraries: deployment.libraries,
+  constructorArgs: redactSecrets(
+    (deployment.constructorArgs || []).map((arg) =>
+      typeof arg === "bigint" ? arg.toString() : arg
+    )
+  ),
+  txHash: deployment.metadata?.txHash,
+  blockNumber: deployment.metadata?.blockNumber,
+  deployer: deployment.metadata?.deployer,
+  timestamp: deployment.metadata?.timestamp,
+});
+
 /**
  * Export a single contract deployment to the deployments folder
- * Creates addresses.json at root and timestamped contract file
+ * Records it in manifest.json and writes a timestamped contract file
  */
 export async function exportDeployment(
   hre: HardhatRuntimeEnvironment,
@@ -30,25 +63,14 @@ export async function exportDeployment(
   sessionTimestamp?: number
 ): Promise<void> {
   const network = hre.network.name;
-  const deploymentsDir = path.join(__dirname, "../../../deployments", network);
+  const deploymentsDir = getDeploymentsDir(network);
   const timestamp =
     sessionTimestamp || deployment.metadata?.timestamp || Date.now();
 
-  // Ensure deployments directory exists
-  if (!fs.existsSync(deploymentsDir)) {
-    fs.mkdirSync(deploymentsDir, { recursive: true });
-  }
-
-  // 1. Update addresses.json at root (always current addresses)
-  const addressesFile = path.join(deploymentsDir, "addresses.json");
-  let addresses: Record<string, string> = {};
-
-  if (fs.existsSync(addressesFile)) {
-    addresses = JSON.parse(fs.readFileSync(addressesFile, "utf-8"));
-  }
-
-  addresses[contractName] = deployment.address;
-  fs.writeFileSync(addressesFile, JSON.stringify(addresses, null, 2));
+  // 1. Update the manifest (always current addresses)
+  await updateManifest(hre, {
+    [contractName]: toManifestUpdate(deployment),
+  });
 
   // 2. Create timestamped session folder
   const sessionDir = path.join(deploymentsDir, timestamp.toString());
@@ -64,7 +86,10 @@ export async function exportDeployment(
     metadata: deployment.metadata || {},
   };
 
-  fs.writeFileSync(contractFile, JSON.stringify(contractData, null, 2));
+  fs.writeFileSync(
+    contractFile,
+    JSON.stringify(redactSecrets(contractData), null, 2)
+  );
 
   console.log(
     `✅ Exported ${contractName} to deployments/${network}/${timestamp}/`
@@ -76,33 +101,25 @@ export async function exportDeployment(
  */
 export async function exportDeployments(
   hre: HardhatRuntimeEnvironment,
-  deployments: Record<string, DeploymentExport>
+  deployments: Record<string, DeploymentExport>,
+  timestamp?: number
 ): Promise<void> {
   const network = hre.network.name;
-  const deploymentsDir = path.join(__dirname, "../../../deployments", network);
+  const deploymentsDir = getDeploymentsDir(network);
 
   // Use same timestamp for all contracts in this session
-  const sessionTimestamp = Date.now();
-
-  // Ensure deployments directory exists
-  if (!fs.existsSync(deploymentsDir)) {
-    fs.mkdirSync(deploymentsDir, { recursive: true });
-  }
-
-  // 1. Update addresses.json at root with all contracts
-  const addressesFile = path.join(deploymentsDir, "addresses.json");
-  let addresses: Record<string, string> = {};
-
-  if (fs.existsSync(addressesFile)) {
-    addresses = JSON.parse(fs.readFileSync(addressesFile, "utf-8"));
-  }
-
-  // Update addresses
-  for (const [contractName, deployment] of Object.entries(deployments)) {
-    addresses[contractName] = deployment.address;
-  }
-
-  fs.writeFileSync(addressesFile, JSON.stringify(addresses, null, 2));
+  const sessionTimestamp = timestamp || Date.now();
+
+  // 1. Update the manifest with all contracts
+  await updateManifest(
+    hre,
+    Object.fromEntries(
+      Object.entries(deployments).map(([contractName, deployment]) => [
+        contractName,
+        toManifestUpdate(deployment),
+      ])
+    )
+  );
 
   // 2. Create timestamped session folder
   const sessionDir = path.join(deploymentsDir, sessionTimestamp.toString());
@@ -119,7 +136,10 @@ export async function exportDeployments(
       metadata: deployment.metadata || {},
     };
 
-    fs.writeFileSync(contractFile, JSON.stringify(contractData, null, 2));
+    fs.writeFileSync(
+      contractFile,
+      JSON.stringify(redactSecrets(contractData), null, 2)
+    );
   }
 
   console.log(
@@ -128,34 +148,32 @@ export async function exportDeployments(
 }
 
 /**
- * Read existing deployment addresses for a network
+ * Read existing deployment addresses for a network (from the manifest)
  */
 export function loadDeploymentAddresses(
   network: string
 ): Record<string, string> {
-  const deploymentsDir = path.join(__dirname, "../../../deployments", network);
-  const addressesFile = path.join(deploymentsDir, "addresses.json");
-
-  if (!fs.existsSync(addressesFile)) {
-    return {};
-  }
-
-  return JSON.parse(fs.readFileSync(addressesFile, "utf-8"));
+  const manifest = readManifest(network);
+  return manifest ? getManifestAddresses(manifest) : {};
 }
 
 /**
- * Read a specific contract deployment
+ * Read a specific contract deployment (from the manifest)
  */
 export function loadDeployment(
   network: string,
   contractName: string
 ): DeploymentExport | null {
-  const deploymentsDir = path.join(__dirname, "../../../deployments", network);
-  const contractFile = path.join(deploymentsDir, `${contractName}.json`);
-
-  if (!fs.existsSync(contractFile)) {
+  const entry = readManifest(network)?.contracts[contractName];
+  if (!entry) {
     return null;
   }
 
-  return JSON.parse(fs.readFileSync(contractFile, "utf-8"));
+  const { constructorArgs, txHash, blockNumber, deployer, timestamp, ...rest } =
+    entry;
+  return {
+    ...rest,
+    constructorArgs,
+    metadata: { txHash, blockNumber, deployer, timestamp },
+  };
 }
@@ -0,0 +1,141 @@
+import { BrowserProvider } from "ethers";
+import type { JsonRpcSigner } from "ethers";
+import type {
+  EthereumProvider,
+  HardhatRuntimeEnvironment,
+  HttpNetworkConfig,
+} from "hardhat/types";
+import { createProvider } from "hardhat/internal/core/providers/construction";
+import { tryGetSigner } from "./signers";
+
+interface HardhatMetadata {
+  chainId: number;
+  forkedNetwork?: { chainId: number; forkBlockNumber: number };
+}
+
+const OWNABLE_ABI = [
+  "function owner() view returns (address)",
+  "function transferOwnership(address newOwner)",
+];
+
+/**
+ * Chain id of the network the current provider stands for: the forked chain
+ * when running on an in-process fork, the provider's chain otherwise
+ */
+export async function getUnderlyingChainId(
+  hre: HardhatRuntimeEnvironment
+): Promise<number> {
+  try {
+    const metadata: HardhatMetadata = await hre.network.provider.send(
+      "hardhat_metadata",
+      []
+    );
+    if (metadata.forkedNetwork) return metadata.forkedNetwork.chainId;
+  } catch {}
+  return Number((await hre.ethers.provider.getNetwork()).chainId);
+}
+
+/**
+ * Reset the in-process Hardhat network to a fork of a configured network
+ * @returns The forked block number
+ */
+export async function forkNetwork(
+  hre: HardhatRuntimeEnvironment,
+  network: string,
+  blockNumber?: number
+): Promise<number> {
+  if (hre.network.name !== "hardhat") {
+    throw new Error(
+      `Forking needs the in-process network (--network hardhat), got ${hre.network.name}`
+    );
+  }
+  const url = (hre.config.networks[network] as HttpNetworkConfig | undefined)
+    ?.url;
+  if (!url) throw new Error(`No RPC url configured for network ${network}`);
+
+  await hre.network.provider.request({
+    method: "hardhat_reset",
+    params: [{ forking: { jsonRpcUrl: url, blockNumber } }],
+  });
+  const forked = await hre.ethers.provider.getBlockNumber();
+  console.log(`🍴 Forked ${network} at block ${forked}`);
+  return forked;
+}
+
+/**
+ * Hand an Ownable contract on the fork to `to` by impersonating its owner
+ */
+export async function takeOwnership(
+  hre: HardhatRuntimeEnvironment,
+  target: string,
+  to: string
+): Promise<void> {
+  const contract = new hre.ethers.Contract(
+    target,
+    OWNABLE_ABI,
+    hre.ethers.provider
+  );
+  const owner: string = await contract.owner();
+  if (owner.toLowerCase() === to.toLowerCase()) return;
+
+  await hre.network.provider.send("hardhat_setBalance", [
+    owner,
+    "0x56BC75E2D63100000", // 100 MON for gas
+  ]);
+  const signer = await tryGetSigner(hre, owner, { dryRun: true });
+  if (!signer) throw new Error(`Unable to impersonate ${owner}`);
+  const tx = await (contract.connect(signer) as any).transferOwnership(to);
+  await tx.wait();
+  console.log(`🎭 ${target} owner ${owner} -> ${to} (fork only)`);
+}
+
+/**
+ * Run `fn` against a throwaway fork of the current network's latest block,
+ * leaving the network itself untouched: an evm snapshot on the in-process
+ * network, a separate in-process fork of the RPC otherwise
+ */
+export async function withFork<T>(
+  hre: HardhatRuntimeEnvironment,
+  fn: (provider: BrowserProvider) => Promise<T>
+): Promise<T> {
+  if (hre.network.name === "hardhat") {
+    const snapshot = await hre.network.provider.send("evm_snapshot", []);
+    try {
+      return await fn(new BrowserProvider(hre.network.provider));
+    } finally {
+      await hre.network.provider.send("evm_revert", [snapshot]);
+    }
+  }
+
+  const url = (hre.network.config as HttpNetworkConfig).url;
+  if (!url) throw new Error(`No RPC url configured for ${hre.network.name}`);
+  const fork: EthereumProvider = await createProvider(
+    hre.config,
+    "hardhat",
+    hre.artifacts
+  );
+  await fork.request({
+    method: "hardhat_reset",
+    params: [{ forking: { jsonRpcUrl: url } }],
+  });
+  const provider = new BrowserProvider(fork);
+  console.log(
+    `🍴 Forked ${hre.network.name} at block ${await provider.getBlockNumber()}`
+  );
+  return fn(provider);
+}
+
+/**
+ * Impersonate an account (EOA or contract) on a fork returned by withFork
+ */
+export async function impersonate(
+  provider: BrowserProvider,
+  address: string
+): Promise<JsonRpcSigner> {
+  await provider.send("hardhat_impersonateAccount", [address]);
+  await provider.send("hardhat_setBalance", [
+    address,
+    "0x56BC75E2D63100000", // 100 MON for gas
+  ]);
+  return provider.getSigner(address);
+}
@@ -0,0 +1,166 @@
+import fs from "fs";
+import path from "path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { GasComparisonRow, GasEntry, GasReport } from "../types/deploy";
+import { getDeploymentsDir } from "./manifest";
+import { redactSecrets } from "./interpolate";
+
+const GAS_REPORT_FILE = "gas.json";
+
+export const formatEther = (
+  hre: HardhatRuntimeEnvironment,
+  wei: bigint
+): string => hre.ethers.formatEther(wei);
+
+export const formatGwei = (
+  hre: HardhatRuntimeEnvironment,
+  wei: bigint
+): string => hre.ethers.formatUnits(wei, "gwei");
+
+/**
+ * Wait for a transaction and append its gas usage to the log
+ */
+export const reportTx = async (
+  hre: HardhatRuntimeEnvironment,
+  tx: any,
+  label: string,
+  gasLog: GasEntry[]
+): Promise<void> => {
+  if (!tx) return;
+  const receipt = await tx.wait();
+  const gasUsed: bigint = receipt.gasUsed ?? BigInt(0);
+  const gasPrice: bigint =
+    receipt.effectiveGasPrice ?? receipt.gasPrice ?? BigInt(0);
+  const costWei = gasUsed * gasPrice;
+  const from: string = (receipt.from ?? tx.from ?? "").toString();
+  gasLog.push({ label, from, gasUsed, gasPrice, costWei });
+  console.log(
+    `   ⛽ ${label}: gas=${gasUsed.toString()} price=${formatGwei(
+      hre,
+      gasPrice
+    )} gwei cost=${formatEther(hre, costWei)} MON`
+  );
+};
+
+/**
+ * Report the deployment transaction of a contract (best-effort)
+ */
+export const reportDeployment = async (
+  hre: HardhatRuntimeEnvironment,
+  contract: any,
+  label: string,
+  gasLog: GasEntry[]
+): Promise<void> => {
+  try {
+    const depTx =
+      typeof contract.deploymentTransaction === "function"
+        ? contract.deploymentTransaction()
+        : null;
+    if (depTx) {
+      await reportTx(hre, depTx, label, gasLog);
+    }
+  } catch (_) {
+    // best-effort only
+  }
+};
+
+/*//////////////////////////////////////////////////////////////
+                          GAS REPORTS
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Save a gas log into its session folder (deployments/<network>/<session>/gas.json)
+ * @returns The written file
+ */
+export const writeGasReport = async (
+  hre: HardhatRuntimeEnvironment,
+  gasLog: GasEntry[],
+  opts: { session: number; task: string }
+): Promise<string> => {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const report: GasReport = {
+    network: hre.network.name,
+    chainId: Number(chainId),
+    session: opts.session,
+    task: opts.task,
+    entries: gasLog.map((e) => ({
+      label: e.label,
+      from: e.from,
+      gasUsed: e.gasUsed.toString(),
+      gasPrice: e.gasPrice.toString(),
+      costWei: e.costWei.toString(),
+    })),
+    totalGas: gasLog.reduce((sum, e) => sum + e.gasUsed, BigInt(0)).toString(),
+    totalCostWei: gasLog
+      .reduce((sum, e) => sum + e.costWei, BigInt(0))
+      .toString(),
+  };
+  const dir = path.join(
+    getDeploymentsDir(hre.network.name),
+    opts.session.toString()
+  );
+  fs.mkdirSync(dir, { recursive: true });
+  const file = path.join(dir, GAS_REPORT_FILE);
+  fs.writeFileSync(file, JSON.stringify(redactSecrets(report), null, 2));
+  return file;
+};
+
+/**
+ * Load a gas report from a file, a session folder, `<network>/<session>` or
+ * `<network>` (its latest session with a gas report)
+ */
+export const loadGasReport = (ref: string): GasReport => {
+  let file = ref;
+  if (!fs.existsSync(file)) {
+    const [network, session] = ref.split("/");
+    const dir = getDeploymentsDir(network);
+    const latest =
+      session ??
+      (fs.existsSync(dir)
+        ? fs
+            .readdirSync(dir)
+            .filter(
+              (entry) =>
+                /^\d+$/.test(entry) &&
+                fs.existsSync(path.join(dir, entry, GAS_REPORT_FILE))
+            )
+            .sort((a, b) => Number(a) - Number(b))
+            .pop()
+        : undefined);
+    if (!latest) throw new Error(`No gas report found for ${ref}`);
+    file = path.join(dir, latest);
+  }
+  if (fs.statSync(file).isDirectory()) file = path.join(file, GAS_REPORT_FILE);
+  if (!fs.existsSync(file)) throw new Error(`No gas report at ${file}`);
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+};
+
+const gasByStep = (report: GasReport): Map<string, bigint> => {
+  const steps = new Map<string, bigint>();
+  for (const entry of report.entries) {
+    steps.set(
+      entry.label,
+      (steps.get(entry.label) ?? BigInt(0)) + BigInt(entry.gasUsed)
+    );
+  }
+  return steps;
+};
+
+/**
+ * Gas per step of two reports, matched by label (repeated labels are summed),
+ * in the order steps first appear
+ */
+export const compareGasReports = (
+  base: GasReport,
+  target: GasReport
+): GasComparisonRow[] => {
+  const baseSteps = gasByStep(base);
+  const targetSteps = gasByStep(target);
+  return [...new Set([...baseSteps.keys(), ...targetSteps.keys()])].map(
+    (step) => ({
+      step,
+      baseGas: baseSteps.get(step),
+      targetGas: targetSteps.get(step),
+    })
+  );
+};
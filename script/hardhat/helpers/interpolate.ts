@@ -0,0 +1,172 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  InterpolationSource,
+  InterpolationSources,
+  SchemaError,
+} from "../types/schema";
+import { readManifest } from "./manifest";
+import { loadNetworkProfile } from "./profile";
+import { childPath } from "./schema";
+
+// ${NAME} or ${dotted.path}; $${...} escapes a literal ${...}
+const REFERENCE = /\$?\$\{([^}]*)\}/g;
+
+/** Env vars whose values never reach logs or files */
+const SECRET_NAME = /PRIVATE_KEY|MNEMONIC|SECRET|PASSWORD|API_KEY|TOKEN/i;
+
+/** Secret value → name of the env var it came from */
+const secrets = new Map<string, string>();
+
+/*//////////////////////////////////////////////////////////////
+                              SECRETS
+//////////////////////////////////////////////////////////////*/
+
+export const isSecretName = (name: string): boolean => SECRET_NAME.test(name);
+
+/**
+ * Remember a secret so redactSecrets masks it wherever it ends up
+ */
+export function registerSecret(name: string, value: string): void {
+  if (value.trim() !== "") secrets.set(value, name);
+}
+
+/**
+ * Copy of a value (string, array or plain object tree) with every registered
+ * secret replaced by `[redacted NAME]`
+ */
+export function redactSecrets<T>(value: T): T {
+  if (secrets.size === 0) return value;
+  if (typeof value === "string") {
+    let redacted: string = value;
+    for (const [secret, name] of secrets) {
+      redacted = redacted.split(secret).join(`[redacted ${name}]`);
+    }
+    return redacted as T;
+  }
+  if (Array.isArray(value)) return value.map(redactSecrets) as T;
+  if (value && typeof value === "object" && value.constructor === Object) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [key, redactSecrets(child)])
+    ) as T;
+  }
+  return value;
+}
+
+/*//////////////////////////////////////////////////////////////
+                           INTERPOLATION
+//////////////////////////////////////////////////////////////*/
+
+const getPath = (tree: unknown, dotted: string): unknown =>
+  dotted
+    .split(".")
+    .reduce<any>((node, key) => (node == null ? undefined : node[key]), tree);
+
+/**
+ * Sources of a network: the process env, its deployments manifest and its
+ * network profile
+ */
+export function getInterpolationSources(
+  hre: HardhatRuntimeEnvironment
+): InterpolationSources {
+  return {
+    env: process.env,
+    manifest: readManifest(hre.network.name),
+    profile: loadNetworkProfile(hre.network.name, hre.network.config.chainId),
+  };
+}
+
+/**
+ * Resolve one reference: an env var of that name, else a dotted path into
+ * the manifest (`addresses.<name>`, `implementations.<name>`,
+ * `contracts.<name>.<field>`, `chainId`), else into the network profile
+ * (`addresses.<key>`, `defaults.<key>`, `chainId`)
+ */
+export function resolveReference(
+  reference: string,
+  sources: InterpolationSources
+): { value: string; source: InterpolationSource } | undefined {
+  const env = sources.env[reference];
+  if (env !== undefined && env.trim() !== "") {
+    return { value: env, source: "env" };
+  }
+
+  const { manifest, profile } = sources;
+  const views: Array<[InterpolationSource, unknown]> = [
+    [
+      "manifest",
+      manifest && {
+        chainId: manifest.chainId,
+        network: manifest.network,
+        contracts: manifest.contracts,
+        addresses: Object.fromEntries(
+          Object.entries(manifest.contracts).map(([name, entry]) => [
+            name,
+            entry.address,
+          ])
+        ),
+        implementations: Object.fromEntries(
+          Object.entries(manifest.contracts)
+            .filter(([, entry]) => entry.implementation)
+            .map(([name, entry]) => [name, entry.implementation])
+        ),
+      },
+    ],
+    ["profile", profile],
+  ];
+  for (const [source, view] of views) {
+    const value = getPath(view, reference);
+    if (typeof value === "number" || typeof value === "bigint") {
+      return { value: value.toString(), source };
+    }
+    if (typeof value === "string" && value.trim() !== "") {
+      return { value, source };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Replace every `${...}` reference in the strings of a parsed config file.
+ * Env values with secret-looking names are registered for redaction.
+ * @returns The interpolated copy and one error per unresolved reference
+ */
+export function interpolateConfig<T>(
+  config: T,
+  sources: InterpolationSources
+): { config: T; errors: SchemaError[] } {
+  const errors: SchemaError[] = [];
+
+  const walk = (node: unknown, path: string): unknown => {
+    if (Array.isArray(node)) {
+      return node.map((child, index) => walk(child, childPath(path, index)));
+    }
+    if (node && typeof node === "object") {
+      return Object.fromEntries(
+        Object.entries(node).map(([key, child]) => [
+          key,
+          walk(child, childPath(path, key)),
+        ])
+      );
+    }
+    if (typeof node !== "string") return node;
+
+    return node.replace(REFERENCE, (match, reference: string) => {
+      if (match.startsWith("$$")) return match.slice(1);
+      const name = reference.trim();
+      const resolved = name ? resolveReference(name, sources) : undefined;
+      if (!resolved) {
+        errors.push({
+          path,
+          message: `references \${${name}}, which is not set in the environment, the ${sources.manifest?.network ?? "network"} deployments manifest or the ${sources.profile.name} network profile`,
+        });
+        return match;
+      }
+      if (resolved.source === "env" && isSecretName(name)) {
+        registerSecret(name, resolved.value);
+      }
+      return resolved.value;
+    });
+  };
+
+  return { config: walk(config, "$") as T, errors };
+}
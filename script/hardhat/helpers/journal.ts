@@ -0,0 +1,281 @@
+import fs from "fs";
+import path from "path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * Status of a transaction recorded in the journal.
+ * "sent" means the hash is known but the receipt was never observed.
+ */
+export type JournalTxStatus = "sent" | "confirmed";
+
+export interface JournalTx {
+  label: string;
+  hash: string;
+  status: JournalTxStatus;
+  timestamp: number;
+}
+
+export interface JournalStep {
+  name: string;
+  status: "in-progress" | "complete";
+  startedAt: number;
+  completedAt?: number;
+  /** Contracts deployed by this step, keyed by label (e.g. "DustLock", "BalanceLogicLibrary") */
+  contracts: Record<string, string>;
+  /** Whether the step's main contract sits behind an ERC-1967 proxy */
+  proxied?: boolean;
+  txs: JournalTx[];
+  pendingActions: string[];
+}
+
+export interface DeploymentJournalData {
+  version: 1;
+  network: string;
+  chainId: number;
+  deployer: string;
+  configPath: string;
+  createdAt: string;
+  updatedAt: string;
+  steps: Record<string, JournalStep>;
+}
+
+/**
+ * Get the journal file path for a network: deployments/{network}/deploy-journal.json
+ */
+export function getJournalPath(network: string): string {
+  return path.join(
+    __dirname,
+    "../../../deployments",
+    network,
+    "deploy-journal.json"
+  );
+}
+
+/**
+ * Persisted record of every deploy and configuration transaction sent by
+ * deploy:neverland, so an interrupted run can be resumed with --resume.
+ * Ephemeral journals (dry-run) keep the same API but never touch disk.
+ */
+export class DeploymentJournal {
+  private readonly filePath: string;
+  private readonly ephemeral: boolean;
+  private data: DeploymentJournalData;
+
+  private constructor(
+    filePath: string,
+    data: DeploymentJournalData,
+    ephemeral: boolean
+  ) {
+    this.filePath = filePath;
+    this.data = data;
+    this.ephemeral = ephemeral;
+  }
+
+  /**
+   * Open the journal for the current network
+   * @param resume Load the existing journal instead of starting a new one
+   * @param ephemeral Keep the journal in memory only (dry-run)
+   */
+  static open(
+    network: string,
+    init: { chainId: number; deployer: string; configPath: string },
+    opts: { resume?: boolean; ephemeral?: boolean } = {}
+  ): DeploymentJournal {
+    const filePath = getJournalPath(network);
+    const exists = fs.existsSync(filePath);
+
+    if (opts.resume) {
+      if (!exists) {
+        throw new Error(
+          `No deployment journal found at ${filePath}. Run without --resume to start a new deployment.`
+        );
+      }
+      const data = JSON.parse(
+        fs.readFileSync(filePath, "utf8")
+      ) as DeploymentJournalData;
+      if (data.chainId !== init.chainId) {
+        throw new Error(
+          `Journal was recorded on chainId ${data.chainId} but the current network is chainId ${init.chainId}.`
+        );
+      }
+      if (data.deployer.toLowerCase() !== init.deployer.toLowerCase()) {
+        console.warn(
+          `⚠️  Journal was recorded by ${data.deployer}; resuming with ${init.deployer}.`
+        );
+      }
+      if (path.resolve(data.configPath) !== path.resolve(init.configPath)) {
+        console.warn(
+          `⚠️  Journal was recorded with config ${data.configPath}; resuming with ${init.configPath}.`
+        );
+      }
+      return new DeploymentJournal(filePath, data, !!opts.ephemeral);
+    }
+
+    // Starting over: keep the previous journal around instead of overwriting it
+    if (exists && !opts.ephemeral) {
+      const archived = filePath.replace(/\.json$/, `.${Date.now()}.json`);
+      fs.renameSync(filePath, archived);
+      console.log(
+        `🗄️  Archived previous journal to ${path.basename(archived)}`
+      );
+    }
+
+    const now = new Date().toISOString();
+    const journal = new DeploymentJournal(
+      filePath,
+      {
+        version: 1,
+        network,
+        chainId: init.chainId,
+        deployer: init.deployer,
+        configPath: init.configPath,
+        createdAt: now,
+        updatedAt: now,
+        steps: {},
+      },
+      !!opts.ephemeral
+    );
+    journal.persist();
+    return journal;
+  }
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  get steps(): JournalStep[] {
+    return Object.values(this.data.steps);
+  }
+
+  isComplete(step: string): boolean {
+    return this.data.steps[step]?.status === "complete";
+  }
+
+  /**
+   * Mark a step as started (idempotent when resuming a partial step)
+   */
+  beginStep(step: string): void {
+    if (!this.data.steps[step]) {
+      this.data.steps[step] = {
+        name: step,
+        status: "in-progress",
+        startedAt: Date.now(),
+        contracts: {},
+        txs: [],
+        pendingActions: [],
+      };
+      this.persist();
+    }
+  }
+
+  completeStep(step: string): void {
+    const entry = this.requireStep(step);
+    entry.status = "complete";
+    entry.completedAt = Date.now();
+    this.persist();
+  }
+
+  getContract(step: string, label: string): string | undefined {
+    return this.data.steps[step]?.contracts[label];
+  }
+
+  recordContract(
+    step: string,
+    label: string,
+    address: string,
+    opts: { proxied?: boolean } = {}
+  ): void {
+    const entry = this.requireStep(step);
+    entry.contracts[label] = address;
+    if (opts.proxied) entry.proxied = true;
+    this.persist();
+  }
+
+  getTx(step: string, label: string): JournalTx | undefined {
+    return this.data.steps[step]?.txs.find((t) => t.label === label);
+  }
+
+  recordTx(
+    step: string,
+    label: string,
+    hash: string,
+    status: JournalTxStatus
+  ): void {
+    const entry = this.requireStep(step);
+    const existing = entry.txs.find((t) => t.label === label);
+    if (existing) {
+      existing.hash = hash;
+      existing.status = status;
+      existing.timestamp = Date.now();
+    } else {
+      entry.txs.push({ label, hash, status, timestamp: Date.now() });
+    }
+    this.persist();
+  }
+
+  recordPendingAction(step: string, action: string): void {
+    const entry = this.requireStep(step);
+    if (!entry.pendingActions.includes(action)) {
+      entry.pendingActions.push(action);
+      this.persist();
+    }
+  }
+
+  /**
+   * Check whether a journaled transaction actually landed on-chain.
+   * Upgrades "sent" entries to "confirmed" when a successful receipt is found.
+   */
+  async isTxConfirmed(
+    hre: HardhatRuntimeEnvironment,
+    step: string,
+    label: string
+  ): Promise<boolean> {
+    const entry = this.getTx(step, label);
+    if (!entry) return false;
+    const receipt = await hre.ethers.provider.getTransactionReceipt(entry.hash);
+    if (!receipt || receipt.status !== 1) return false;
+    if (entry.status !== "confirmed") {
+      this.recordTx(step, label, entry.hash, "confirmed");
+    }
+    return true;
+  }
+
+  /**
+   * Re-check on-chain state for a completed step: every recorded contract must
+   * have code and every recorded transaction must have a successful receipt.
+   */
+  async verifyStep(
+    hre: HardhatRuntimeEnvironment,
+    step: string
+  ): Promise<string[]> {
+    const entry = this.requireStep(step);
+    const problems: string[] = [];
+    for (const [label, address] of Object.entries(entry.contracts)) {
+      const code = await hre.ethers.provider.getCode(address);
+      if (code === "0x") {
+        problems.push(`${label} has no code at ${address}`);
+      }
+    }
+    for (const tx of entry.txs) {
+      if (!(await this.isTxConfirmed(hre, step, tx.label))) {
+        problems.push(`${tx.label} (${tx.hash}) has no successful receipt`);
+      }
+    }
+    return problems;
+  }
+
+  private requireStep(step: string): JournalStep {
+    const entry = this.data.steps[step];
+    if (!entry) {
+      throw new Error(`Journal step ${step} was never started`);
+    }
+    return entry;
+  }
+
+  private persist(): void {
+    this.data.updatedAt = new Date().toISOString();
+    if (this.ephemeral) return;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.data, null, 2));
+  }
+}
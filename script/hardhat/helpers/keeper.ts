@@ -0,0 +1,563 @@
+import fs from "fs";
+import path from "path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  Contract,
+  ContractTransactionResponse,
+  Signer,
+  TransactionReceipt,
+  getAddress,
+  isAddress,
+  isError,
+} from "ethers";
+import {
+  KeeperOptions,
+  KeeperRunPlan,
+  KeeperRunSummary,
+  KeeperStateFile,
+  KeeperUserReading,
+  KeeperUserState,
+} from "../types/keeper";
+import { getDeploymentsDir, readManifest } from "./manifest";
+
+const KEEPER_ABI = [
+  "function keeper() view returns (address)",
+  "function owner() view returns (address)",
+  "function dustLock() view returns (address)",
+  "function nftRegistry() view returns (address)",
+  "function minSettlementInterval() view returns (uint256)",
+  "function lastSettlement(address user) view returns (uint256)",
+  "function MAX_CORRECTION_BATCH() view returns (uint256)",
+  "function MAX_SETTLEMENT_BATCH() view returns (uint256)",
+  "function batchVerifyAndSettle(address[] users, (uint256 votingPower, uint256 nftCollectionCount, uint256 timestamp)[] states)",
+  "function batchSettleAccurate(address[] users)",
+  "event StateVerified(address indexed user, uint256 votingPower, uint256 nftCollectionCount, uint256 timestamp, string reason)",
+];
+
+const DUST_LOCK_ABI = [
+  "function balanceOf(address owner) view returns (uint256)",
+  "function ownerToNFTokenIdList(address owner, uint256 index) view returns (uint256)",
+  "function balanceOfNFT(uint256 tokenId) view returns (uint256)",
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+];
+
+const REGISTRY_ABI = [
+  "function getActivePartnerships() view returns (address[])",
+];
+
+const ERC721_ABI = ["function balanceOf(address owner) view returns (uint256)"];
+
+/** Voting power drift (bps) settled without a state correction */
+export const DEFAULT_TOLERANCE_BPS = 100;
+
+/** Users whose on-chain state is read in parallel */
+const READ_CONCURRENCY = 20;
+
+/*//////////////////////////////////////////////////////////////
+                            UTILITIES
+//////////////////////////////////////////////////////////////*/
+
+/** Split items into consecutive batches of at most `size` */
+export function chunk<T>(items: T[], size: number): T[][] {
+  if (size < 1) throw new Error(`Invalid batch size ${size}`);
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run `fn` up to `attempts` times, backing off exponentially from `delayMs`
+ */
+export async function withRetry<T>(
+  label: string,
+  attempts: number,
+  delayMs: number,
+  fn: () => Promise<T>
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      const message = (error as Error).message?.split("\n")[0] ?? error;
+      if (attempt >= attempts) {
+        throw new Error(
+          `${label} failed after ${attempt} attempt(s): ${message}`
+        );
+      }
+      const wait = delayMs * 2 ** (attempt - 1);
+      console.warn(
+        `⚠️  ${label} failed (attempt ${attempt}/${attempts}): ${message}. Retrying in ${wait / 1000}s...`
+      );
+      await sleep(wait);
+    }
+  }
+}
+
+/**
+ * Read a user list: a JSON array of addresses, or one address per line
+ * (blank lines and `#` comments ignored)
+ */
+export function readUserList(file: string): string[] {
+  const content = fs.readFileSync(file, "utf8");
+  const entries: string[] = content.trim().startsWith("[")
+    ? JSON.parse(content)
+    : content
+        .split("\n")
+        .map((line) => line.replace(/#.*/, "").trim())
+        .filter(Boolean);
+  return entries.map((entry) => {
+    if (!isAddress(entry)) {
+      throw new Error(`Invalid address in ${file}: ${entry}`);
+    }
+    return getAddress(entry);
+  });
+}
+
+/**
+ * Keeper state file for a network: deployments/{network}/keeper-state.json
+ */
+export const getKeeperStatePath = (network: string): string =>
+  path.join(getDeploymentsDir(network), "keeper-state.json");
+
+/*//////////////////////////////////////////////////////////////
+                            KEEPER BOT
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Drives LeaderboardKeeper settlements. Users are discovered from veNFT
+ * transfers and StateVerified events; each run reads their voting power
+ * (DustLock) and partner collection count (NFTPartnershipRegistry) the way
+ * syncMyState does, sends users whose verified state drifted to
+ * batchVerifyAndSettle and the rest to batchSettleAccurate, in batches
+ * bounded by the contract limits, skipping users settled less than
+ * minSettlementInterval ago. The scan position and last verified states are
+ * kept in a state file so later runs only scan new blocks.
+ */
+export class LeaderboardKeeperBot {
+  private constructor(
+    private readonly hre: HardhatRuntimeEnvironment,
+    private readonly keeper: Contract,
+    private readonly dustLock: Contract,
+    private readonly registry: Contract,
+    private readonly state: KeeperStateFile,
+    private readonly statePath: string,
+    private readonly options: KeeperOptions
+  ) {}
+
+  /**
+   * Attach to the network's LeaderboardKeeper (from the deployments
+   * manifest) with a signer allowed to settle, or read-only without one
+   */
+  static async open(
+    hre: HardhatRuntimeEnvironment,
+    signer: Signer | null,
+    options: KeeperOptions
+  ): Promise<LeaderboardKeeperBot> {
+    const network = hre.network.name;
+    const manifest = readManifest(network);
+    const keeperAddress = manifest?.contracts.LeaderboardKeeper?.address;
+    if (!keeperAddress) {
+      throw new Error(
+        `LeaderboardKeeper not found in deployments/${network}/manifest.json`
+      );
+    }
+    const keeper = new Contract(
+      keeperAddress,
+      KEEPER_ABI,
+      signer ?? hre.ethers.provider
+    );
+
+    if (signer) {
+      const signerAddress = await signer.getAddress();
+      const [keeperRole, owner] = await Promise.all([
+        keeper.keeper(),
+        keeper.owner(),
+      ]);
+      if (
+        ![keeperRole, owner].some(
+          (allowed: string) =>
+            allowed.toLowerCase() === signerAddress.toLowerCase()
+        )
+      ) {
+        throw new Error(
+          `${signerAddress} is neither the keeper (${keeperRole}) nor the owner (${owner}) of LeaderboardKeeper`
+        );
+      }
+    }
+
+    const [dustLockAddress, registryAddress] = await Promise.all([
+      keeper.dustLock(),
+      keeper.nftRegistry(),
+    ]);
+    const provider = hre.ethers.provider;
+    const dustLock = new Contract(dustLockAddress, DUST_LOCK_ABI, provider);
+    const registry = new Contract(registryAddress, REGISTRY_ABI, provider);
+
+    const statePath = getKeeperStatePath(network);
+    let state: KeeperStateFile;
+    if (fs.existsSync(statePath)) {
+      state = JSON.parse(fs.readFileSync(statePath, "utf8"));
+      if (state.keeper.toLowerCase() !== keeperAddress.toLowerCase()) {
+        throw new Error(
+          `${statePath} belongs to LeaderboardKeeper ${state.keeper}, not ${keeperAddress}: move it aside to start over`
+        );
+      }
+    } else {
+      state = {
+        version: 1,
+        network,
+        keeper: keeperAddress,
+        nextBlock:
+          options.fromBlock ??
+          manifest?.contracts.DustLock?.blockNumber ??
+          manifest?.contracts.LeaderboardKeeper?.blockNumber ??
+          0,
+        users: {},
+      };
+    }
+    for (const user of options.users ?? []) {
+      if (!(user in state.users)) state.users[user] = null;
+    }
+
+    return new LeaderboardKeeperBot(
+      hre,
+      keeper,
+      dustLock,
+      registry,
+      state,
+      statePath,
+      options
+    );
+  }
+
+  /**
+   * Scan new blocks for veNFT recipients and StateVerified events
+   * @returns Number of users seen for the first time
+   */
+  async discoverUsers(): Promise<number> {
+    const latest = await this.hre.ethers.provider.getBlockNumber();
+    const before = Object.keys(this.state.users).length;
+    const transfer = this.dustLock.filters.Transfer();
+    const verified = this.keeper.filters.StateVerified();
+
+    for (
+      let from = this.state.nextBlock;
+      from <= latest;
+      from += this.options.logChunkSize
+    ) {
+      const to = Math.min(from + this.options.logChunkSize - 1, latest);
+      const [transfers, verifications] = await withRetry(
+        `Logs ${from}-${to}`,
+        this.options.maxRetries,
+        this.options.retryDelayMs,
+        () =>
+          Promise.all([
+            this.dustLock.queryFilter(transfer, from, to),
+            this.keeper.queryFilter(verified, from, to),
+          ])
+      );
+      for (const log of transfers as any[]) {
+        const recipient = getAddress(log.args.to);
+        if (BigInt(recipient) === 0n) continue;
+        if (!(recipient in this.state.users)) {
+          this.state.users[recipient] = null;
+        }
+      }
+      for (const log of verifications as any[]) {
+        this.state.users[getAddress(log.args.user)] = {
+          votingPower: log.args.votingPower.toString(),
+          nftCollectionCount: log.args.nftCollectionCount.toString(),
+        };
+      }
+      this.state.nextBlock = to + 1;
+    }
+    this.save();
+    return Object.keys(this.state.users).length - before;
+  }
+
+  /**
+   * A user's state as syncMyState computes it: summed veNFT voting power and
+   * the number of active partner collections they hold
+   */
+  async readUserState(
+    user: string,
+    collections: string[]
+  ): Promise<KeeperUserState> {
+    const provider = this.hre.ethers.provider;
+    const tokenCount: bigint = await this.dustLock.balanceOf(user);
+    let votingPower = 0n;
+    for (let i = 0n; i < tokenCount; i++) {
+      const tokenId = await this.dustLock.ownerToNFTokenIdList(user, i);
+      votingPower += (await this.dustLock.balanceOfNFT(tokenId)) as bigint;
+    }
+    let nftCollectionCount = 0n;
+    for (const collection of collections) {
+      const nft = new Contract(collection, ERC721_ABI, provider);
+      if (((await nft.balanceOf(user)) as bigint) > 0n) nftCollectionCount++;
+    }
+    return { votingPower, nftCollectionCount };
+  }
+
+  /** Whether the computed state differs from the last verified one */
+  private needsCorrection(user: string, current: KeeperUserState): boolean {
+    const verified = this.state.users[user];
+    if (!verified) return true;
+    if (BigInt(verified.nftCollectionCount) !== current.nftCollectionCount) {
+      return true;
+    }
+    const verifiedPower = BigInt(verified.votingPower);
+    const drift =
+      current.votingPower > verifiedPower
+        ? current.votingPower - verifiedPower
+        : verifiedPower - current.votingPower;
+    return drift * 10_000n > verifiedPower * BigInt(this.options.toleranceBps);
+  }
+
+  /**
+   * Read the last settlement and state of users holding voting power or
+   * partner NFTs, or with a verified state still to clear
+   */
+  private async readActiveUsers(
+    users: string[],
+    collections: string[]
+  ): Promise<KeeperUserReading[]> {
+    const active: KeeperUserReading[] = [];
+    for (const group of chunk(users, READ_CONCURRENCY)) {
+      const rows = await Promise.all(
+        group.map((user) =>
+          withRetry(
+            `Read ${user}`,
+            this.options.maxRetries,
+            this.options.retryDelayMs,
+            async () => ({
+              user,
+              last: (await this.keeper.lastSettlement(user)) as bigint,
+              state: await this.readUserState(user, collections),
+            })
+          )
+        )
+      );
+      for (const row of rows) {
+        const verified = this.state.users[row.user];
+        const holdsNothing =
+          row.state.votingPower === 0n && row.state.nftCollectionCount === 0n;
+        const verifiedNothing =
+          !verified ||
+          (verified.votingPower === "0" && verified.nftCollectionCount === "0");
+        if (!(holdsNothing && verifiedNothing)) active.push(row);
+      }
+    }
+    return active;
+  }
+
+  /**
+   * Discover users and sort the active ones into settlements that are due
+   * (with or without a state correction) and users settled too recently
+   */
+  private async planRun(): Promise<KeeperRunPlan> {
+    const discovered = await this.discoverUsers();
+    const users = Object.keys(this.state.users);
+    console.log(
+      `👥 ${users.length} known user(s) (${discovered} new, scanned to block ${this.state.nextBlock - 1})`
+    );
+
+    const [interval, collections, block] = await Promise.all([
+      this.keeper.minSettlementInterval() as Promise<bigint>,
+      this.registry.getActivePartnerships() as Promise<string[]>,
+      this.hre.ethers.provider.getBlock("latest"),
+    ]);
+    const plan: KeeperRunPlan = {
+      users: users.length,
+      active: 0,
+      tooSoon: 0,
+      corrections: [],
+      accurate: [],
+      now: BigInt(block!.timestamp),
+    };
+    console.log(
+      `⏱️  minSettlementInterval ${interval}s, ${collections.length} active partnership(s)`
+    );
+
+    for (const { user, last, state } of await this.readActiveUsers(
+      users,
+      collections
+    )) {
+      plan.active++;
+      if (last > 0n && plan.now < last + interval) {
+        plan.tooSoon++;
+        continue;
+      }
+      if (this.needsCorrection(user, state)) {
+        plan.corrections.push({ user, state });
+      } else {
+        plan.accurate.push(user);
+      }
+    }
+    return plan;
+  }
+
+  /**
+   * Known users (from the state file, without scanning for new ones) that are
+   * active but have no settlement at or after `since`. Only the settlement
+   * time counts: voting power decays every second, so the verified state is
+   * always a little off, and minSettlementInterval is ignored. Nothing is sent.
+   */
+  async unsettledSince(since: bigint): Promise<string[]> {
+    const collections: string[] = await this.registry.getActivePartnerships();
+    const readings = await this.readActiveUsers(
+      Object.keys(this.state.users),
+      collections
+    );
+    return readings.filter(({ last }) => last < since).map(({ user }) => user);
+  }
+
+  /**
+   * Discover users, then settle every active user that is due
+   */
+  async runOnce(): Promise<KeeperRunSummary> {
+    const { users, active, tooSoon, corrections, accurate, now } =
+      await this.planRun();
+    const [maxCorrections, maxSettlements] = await Promise.all([
+      this.keeper.MAX_CORRECTION_BATCH() as Promise<bigint>,
+      this.keeper.MAX_SETTLEMENT_BATCH() as Promise<bigint>,
+    ]);
+
+    const summary: KeeperRunSummary = {
+      users,
+      active,
+      tooSoon,
+      corrections: 0,
+      settled: 0,
+      batches: 0,
+      failedBatches: 0,
+    };
+
+    for (const batch of chunk(corrections, Number(maxCorrections))) {
+      summary.batches++;
+      const ok = await this.sendBatch(
+        `batchVerifyAndSettle(${batch.length})`,
+        "batchVerifyAndSettle",
+        [
+          batch.map(({ user }) => user),
+          batch.map(({ state }) => ({
+            votingPower: state.votingPower,
+            nftCollectionCount: state.nftCollectionCount,
+            timestamp: now,
+          })),
+        ]
+      );
+      if (!ok) {
+        summary.failedBatches++;
+        continue;
+      }
+      summary.corrections += batch.length;
+      for (const { user, state } of batch) {
+        this.state.users[user] = {
+          votingPower: state.votingPower.toString(),
+          nftCollectionCount: state.nftCollectionCount.toString(),
+        };
+      }
+      this.save();
+    }
+
+    for (const batch of chunk(accurate, Number(maxSettlements))) {
+      summary.batches++;
+      const ok = await this.sendBatch(
+        `batchSettleAccurate(${batch.length})`,
+        "batchSettleAccurate",
+        [batch]
+      );
+      if (ok) summary.settled += batch.length;
+      else summary.failedBatches++;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Send (or simulate, in dry-run mode) one batch, retrying failed sends.
+   * Once a transaction is out it is never sent again: if waiting for it
+   * fails, its receipt is polled by hash instead.
+   * @returns Whether the batch went through
+   */
+  private async sendBatch(
+    label: string,
+    method: string,
+    args: any[]
+  ): Promise<boolean> {
+    const { maxRetries, retryDelayMs } = this.options;
+    try {
+      if (this.options.dryRun) {
+        await withRetry(label, maxRetries, retryDelayMs, () =>
+          this.keeper[method].staticCall(...args)
+        );
+        console.log(`🧪 ${label} would succeed (dry run)`);
+        return true;
+      }
+      const tx: ContractTransactionResponse = await withRetry(
+        label,
+        maxRetries,
+        retryDelayMs,
+        () => this.keeper[method](...args)
+      );
+      console.log(`⚙️  ${label}: ${tx.hash}`);
+      const receipt = await this.waitForReceipt(label, tx);
+      if (receipt.status !== 1) {
+        throw new Error(`${label} reverted in ${tx.hash}`);
+      }
+      console.log(`✅ ${label} mined (gas ${receipt.gasUsed})`);
+      return true;
+    } catch (error) {
+      console.error(`❌ ${(error as Error).message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Wait for a sent batch, falling back to polling its receipt when the
+   * wait itself fails (e.g. a dropped RPC connection)
+   */
+  private async waitForReceipt(
+    label: string,
+    tx: ContractTransactionResponse
+  ): Promise<TransactionReceipt> {
+    try {
+      return (await tx.wait())!;
+    } catch (error) {
+      // A mined revert is final
+      if (isError(error, "CALL_EXCEPTION") && error.receipt) {
+        return error.receipt;
+      }
+      const message = (error as Error).message?.split("\n")[0] ?? error;
+      console.warn(
+        `⚠️  Waiting for ${label} failed: ${message}. Polling ${tx.hash}...`
+      );
+    }
+    return withRetry(
+      `Receipt of ${tx.hash}`,
+      this.options.maxRetries,
+      this.options.retryDelayMs,
+      async () => {
+        const receipt = await this.hre.ethers.provider.getTransactionReceipt(
+          tx.hash
+        );
+        if (!receipt) throw new Error("not mined yet");
+        return receipt;
+      }
+    );
+  }
+
+  /** Persist the state file (never in dry-run mode) */
+  private save(): void {
+    if (this.options.dryRun) return;
+    fs.mkdirSync(path.dirname(this.statePath), { recursive: true });
+    fs.writeFileSync(
+      this.statePath,
+      JSON.stringify(this.state, null, 2) + "\n"
+    );
+  }
+}
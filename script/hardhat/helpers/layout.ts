@@ -0,0 +1,347 @@
+import fs from "fs";
+import path from "path";
+import type { BuildInfo, HardhatRuntimeEnvironment } from "hardhat/types";
+import { LayoutChange, StorageLayout } from "../types/layout";
+import { getDeploymentsDir } from "./manifest";
+import { getUnderlyingChainId } from "./fork";
+
+const OPENZEPPELIN_DIR = path.join(__dirname, "../../../.openzeppelin");
+
+interface LayoutItem {
+  label: string;
+  contract: string;
+  slot: bigint;
+  offset: number;
+  /** Slots spanned from `slot` */
+  size: bigint;
+  type: string;
+  /** Type label plus size and struct members, without AST ids */
+  signature: string;
+}
+
+/*//////////////////////////////////////////////////////////////
+                          LAYOUT SOURCES
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Layout of a deployed implementation recorded by the upgrades plugin in
+ * .openzeppelin/unknown-<chainId>.json
+ */
+export function readDeployedLayout(
+  chainId: number,
+  implementation: string
+): StorageLayout | undefined {
+  const file = path.join(OPENZEPPELIN_DIR, `unknown-${chainId}.json`);
+  if (!fs.existsSync(file)) return undefined;
+  const data = JSON.parse(fs.readFileSync(file, "utf8"));
+  const impl = Object.values<any>(data.impls ?? {}).find((entry) =>
+    [entry.address, ...(entry.allAddresses ?? [])].some(
+      (address: string) =>
+        address.toLowerCase() === implementation.toLowerCase()
+    )
+  );
+  return impl?.layout;
+}
+
+/**
+ * Layout of a contract in the current build, or in an older local build by
+ * id (storageLayout output is requested by the upgrades plugin)
+ */
+export async function readBuildLayout(
+  hre: HardhatRuntimeEnvironment,
+  contractName: string,
+  buildId?: string
+): Promise<StorageLayout> {
+  const artifact = await hre.artifacts.readArtifact(contractName);
+  const fqName = `${artifact.sourceName}:${artifact.contractName}`;
+  const buildInfo: BuildInfo | undefined = buildId
+    ? JSON.parse(
+        fs.readFileSync(
+          path.join(
+            hre.config.paths.artifacts,
+            "build-info",
+            `${buildId}.json`
+          ),
+          "utf8"
+        )
+      )
+    : await hre.artifacts.getBuildInfo(fqName);
+  const layout: StorageLayout | undefined = (
+    buildInfo?.output.contracts[artifact.sourceName]?.[
+      artifact.contractName
+    ] as any
+  )?.storageLayout;
+  if (!layout) throw new Error(`No storage layout in the build of ${fqName}`);
+  return {
+    ...layout,
+    // solc reports "path:Contract", the plugin only the contract name
+    storage: layout.storage.map((item) => ({
+      ...item,
+      contract: item.contract.split(":").pop()!,
+    })),
+  };
+}
+
+/*//////////////////////////////////////////////////////////////
+                           COMPARISON
+//////////////////////////////////////////////////////////////*/
+
+const typeSignature = (
+  layout: StorageLayout,
+  type: string,
+  seen: Set<string> = new Set()
+): string => {
+  const info = layout.types[type];
+  if (!info) return type.replace(/\)\d+(_storage)?/g, ")$1");
+  // Contract types are stored as addresses
+  const label = info.label.replace(/^contract \S+$/, "address");
+  let signature = `${label}/${info.numberOfBytes}`;
+  for (const struct of type.match(/t_struct\([^)]*\)\d+_storage/g) ?? []) {
+    const members = layout.types[struct]?.members;
+    if (!members || seen.has(struct)) continue;
+    seen.add(struct);
+    signature += `{${members
+      .map(
+        (m) =>
+          `${m.label}:${typeSignature(layout, m.type, seen)}@${m.slot}.${m.offset}`
+      )
+      .join(",")}}`;
+  }
+  return signature;
+};
+
+const normalize = (layout: StorageLayout): LayoutItem[] =>
+  layout.storage.map((item) => {
+    const bytes = BigInt(layout.types[item.type]?.numberOfBytes ?? "32");
+    return {
+      label: item.label,
+      contract: item.contract,
+      slot: BigInt(item.slot),
+      offset: item.offset,
+      size: (BigInt(item.offset) + bytes + BigInt(31)) / BigInt(32),
+      type: layout.types[item.type]?.label ?? item.type,
+      signature: typeSignature(layout, item.type),
+    };
+  });
+
+const isGap = (item: LayoutItem): boolean => item.label.startsWith("__gap");
+
+const describe = (item: LayoutItem): string =>
+  `${item.contract}.${item.label}: ${item.type}`;
+
+/**
+ * Compare two layouts variable by variable. Reordered, removed and retyped
+ * variables are breaking; appended variables and variables carved out of the
+ * front of a `__gap` are not
+ */
+export function compareLayouts(
+  before: StorageLayout,
+  after: StorageLayout
+): LayoutChange[] {
+  const oldItems = normalize(before);
+  const newItems = normalize(after);
+  const position = (item: LayoutItem) => `${item.slot}:${item.offset}`;
+  const newByPosition = new Map(newItems.map((i) => [position(i), i]));
+  const matched = new Set<LayoutItem>();
+  const reclaimed: Array<[bigint, bigint]> = [];
+  const changes: LayoutChange[] = [];
+
+  const change = (
+    kind: LayoutChange["kind"],
+    at: LayoutItem,
+    breaking: boolean,
+    oldItem?: LayoutItem,
+    newItem?: LayoutItem
+  ) =>
+    changes.push({
+      kind,
+      slot: at.slot.toString(),
+      offset: at.offset,
+      before: oldItem && describe(oldItem),
+      after: newItem && describe(newItem),
+      breaking,
+    });
+
+  for (const oldItem of oldItems) {
+    if (isGap(oldItem)) {
+      const end = oldItem.slot + oldItem.size;
+      const gap = newItems.find(
+        (i) =>
+          isGap(i) &&
+          i.contract === oldItem.contract &&
+          i.slot >= oldItem.slot &&
+          i.slot + i.size === end
+      );
+      if (gap) {
+        matched.add(gap);
+        if (gap.slot === oldItem.slot) {
+          change("unchanged", oldItem, false, oldItem, gap);
+        } else {
+          reclaimed.push([oldItem.slot, gap.slot]);
+          change("gap-resized", oldItem, false, oldItem, gap);
+        }
+        continue;
+      }
+    }
+
+    const newItem = newByPosition.get(position(oldItem));
+    const relocated = newItems.find(
+      (i) =>
+        i !== newItem &&
+        i.label === oldItem.label &&
+        i.contract === oldItem.contract
+    );
+    if (!newItem || newItem.label !== oldItem.label) {
+      if (relocated) {
+        matched.add(relocated);
+        change("moved", oldItem, true, oldItem, relocated);
+      } else if (newItem && newItem.signature === oldItem.signature) {
+        matched.add(newItem);
+        change("renamed", oldItem, false, oldItem, newItem);
+      } else {
+        change("removed", oldItem, true, oldItem, newItem);
+      }
+      continue;
+    }
+    matched.add(newItem);
+    if (newItem.signature !== oldItem.signature) {
+      change("retyped", oldItem, true, oldItem, newItem);
+    } else {
+      change("unchanged", oldItem, false, oldItem, newItem);
+    }
+  }
+
+  const oldEnd = oldItems.reduce(
+    (end, i) => (i.slot + i.size > end ? i.slot + i.size : end),
+    BigInt(0)
+  );
+  for (const newItem of newItems) {
+    if (matched.has(newItem)) continue;
+    const appended =
+      newItem.slot >= oldEnd ||
+      reclaimed.some(
+        ([from, to]) =>
+          newItem.slot >= from && newItem.slot + newItem.size <= to
+      );
+    change("added", newItem, !appended, undefined, newItem);
+  }
+  return changes.sort((a, b) =>
+    BigInt(a.slot) === BigInt(b.slot)
+      ? a.offset - b.offset
+      : BigInt(a.slot) < BigInt(b.slot)
+        ? -1
+        : 1
+  );
+}
+
+/*//////////////////////////////////////////////////////////////
+                           REPORTING
+//////////////////////////////////////////////////////////////*/
+
+export function formatLayoutReport(
+  label: string,
+  beforeSource: string,
+  afterSource: string,
+  changes: LayoutChange[]
+): string {
+  const breaking = changes.filter((c) => c.breaking);
+  const rows = changes.map(
+    (c) =>
+      `| ${c.slot} | ${c.offset} | ${c.before ?? ""} | ${c.after ?? ""} | ${
+        c.breaking ? `❌ ${c.kind}` : c.kind
+      } |`
+  );
+  return [
+    `# ${label} storage layout`,
+    "",
+    `- Before: ${beforeSource}`,
+    `- After: ${afterSource}`,
+    `- Result: ${
+      breaking.length > 0
+        ? `❌ ${breaking.length} breaking change(s)`
+        : "✅ compatible"
+    }`,
+    "",
+    "| Slot | Offset | Before | After | Change |",
+    "| ---- | ------ | ------ | ----- | ------ |",
+    ...rows,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Pre-upgrade gate: compare the layout of the proxy's current implementation
+ * with the new one, write a report and throw on breaking changes.
+ * The new layout comes from the plugin record of `implementation` when it
+ * was deployed through the plugin, otherwise from the build of `contractName`.
+ * Implementations the plugin never saw (beacon implementations) fall back to
+ * the local build `currentBuildId` their bytecode was matched to
+ */
+export async function assertStorageCompatible(
+  hre: HardhatRuntimeEnvironment,
+  opts: {
+    label: string;
+    proxy: string;
+    /** Current implementation, read from the ERC-1967 slot when omitted */
+    current?: string;
+    currentBuildId?: string;
+    implementation?: string;
+    contractName?: string;
+  }
+): Promise<void> {
+  const chainId = await getUnderlyingChainId(hre);
+  const current =
+    opts.current ??
+    (await hre.upgrades.erc1967.getImplementationAddress(opts.proxy));
+  let before = readDeployedLayout(chainId, current);
+  let beforeSource = current;
+  if (!before && opts.currentBuildId && opts.contractName) {
+    before = await readBuildLayout(hre, opts.contractName, opts.currentBuildId);
+    beforeSource = `${current} (local build ${opts.currentBuildId})`;
+  }
+  if (!before) {
+    throw new Error(
+      `No recorded storage layout for the current ${opts.label} implementation ${current} in .openzeppelin/unknown-${chainId}.json (pass --skip-layout-check to upgrade without the check)`
+    );
+  }
+
+  let after = opts.implementation
+    ? readDeployedLayout(chainId, opts.implementation)
+    : undefined;
+  let afterSource = `${opts.implementation} (.openzeppelin/unknown-${chainId}.json)`;
+  if (!after && opts.contractName) {
+    after = await readBuildLayout(hre, opts.contractName);
+    afterSource = `local build of ${opts.contractName}`;
+  }
+  if (!after) {
+    throw new Error(
+      `No storage layout for the new ${opts.label} implementation (pass --contract to use the local build)`
+    );
+  }
+
+  const changes = compareLayouts(before, after);
+  const dir = path.join(
+    getDeploymentsDir(hre.network.name),
+    `${Date.now()}-layout`
+  );
+  fs.mkdirSync(dir, { recursive: true });
+  const file = path.join(dir, `${opts.label}.md`);
+  fs.writeFileSync(
+    file,
+    formatLayoutReport(opts.label, beforeSource, afterSource, changes)
+  );
+
+  const changed = changes.filter((c) => c.kind !== "unchanged");
+  if (changed.length > 0) console.table(changed);
+  console.log(`📐 Layout report: ${path.relative(process.cwd(), file)}`);
+
+  const breaking = changes.filter((c) => c.breaking);
+  if (breaking.length > 0) {
+    throw new Error(
+      `${opts.label} storage layout is incompatible: ${breaking
+        .map((c) => `${c.kind} at slot ${c.slot}`)
+        .join(", ")}`
+    );
+  }
+  console.log(`✅ ${opts.label} storage layout is compatible`);
+}
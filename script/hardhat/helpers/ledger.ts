@@ -0,0 +1,293 @@
+import fs from "fs";
+import path from "path";
+import { AbiCoder, getAddress, id } from "ethers";
+import type { Log } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  LedgerCheckRow,
+  UpgradeLedger,
+  UpgradeLedgerEntry,
+} from "../types/upgrade";
+import {
+  findManifestContract,
+  getDeploymentsDir,
+  readManifest,
+} from "./manifest";
+import { getUnderlyingChainId } from "./fork";
+
+const UPGRADED_TOPIC = id("Upgraded(address)");
+const ADMIN_CHANGED_TOPIC = id("AdminChanged(address,address)");
+
+/**
+ * Get the upgrade ledger path for a network: deployments/{network}/upgrades.json
+ */
+export const getLedgerPath = (network: string): string =>
+  path.join(getDeploymentsDir(network), "upgrades.json");
+
+const entryKey = (entry: UpgradeLedgerEntry): string =>
+  `${entry.txHash}:${entry.proxy}:${entry.kind}`.toLowerCase();
+
+const byBlock = (a: UpgradeLedgerEntry, b: UpgradeLedgerEntry): number =>
+  a.blockNumber - b.blockNumber || a.timestamp - b.timestamp;
+
+const sameAddress = (a?: string, b?: string): boolean =>
+  (a ?? "").toLowerCase() === (b ?? "").toLowerCase();
+
+/*//////////////////////////////////////////////////////////////
+                          LEDGER FILE
+//////////////////////////////////////////////////////////////*/
+
+export function readLedger(network: string): UpgradeLedger | null {
+  const file = getLedgerPath(network);
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+export function writeLedger(ledger: UpgradeLedger): void {
+  const file = getLedgerPath(ledger.network);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  ledger.entries.sort(byBlock);
+  fs.writeFileSync(file, JSON.stringify(ledger, null, 2));
+}
+
+/**
+ * Merge entries into a ledger by tx hash, proxy and kind. Chain data wins
+ * for on-chain fields; the build-info id of task entries is kept
+ */
+export function mergeLedgerEntries(
+  ledger: UpgradeLedger,
+  entries: UpgradeLedgerEntry[]
+): number {
+  const existing = new Map(ledger.entries.map((e) => [entryKey(e), e]));
+  let added = 0;
+  for (const entry of entries) {
+    const current = existing.get(entryKey(entry));
+    if (current) {
+      Object.assign(current, {
+        ...entry,
+        buildInfo: current.buildInfo ?? entry.buildInfo,
+        source: current.source,
+      });
+    } else {
+      ledger.entries.push(entry);
+      existing.set(entryKey(entry), entry);
+      added++;
+    }
+  }
+  ledger.entries.sort(byBlock);
+  return added;
+}
+
+/**
+ * Append an upgrade sent by an upgrade task to the network ledger
+ */
+export async function recordUpgrade(
+  hre: HardhatRuntimeEnvironment,
+  opts: {
+    proxy: string;
+    previousImplementation: string;
+    implementation: string;
+    txHash: string;
+    /** Artifact the implementation was built from, for the build-info id */
+    artifact?: string;
+    /** Upgrade authority, read from the ERC-1967 admin slot when omitted */
+    admin?: string;
+  }
+): Promise<void> {
+  const provider = hre.ethers.provider;
+  const [receipt, tx] = await Promise.all([
+    provider.getTransactionReceipt(opts.txHash),
+    provider.getTransaction(opts.txHash),
+  ]);
+  if (!receipt || !tx) {
+    console.warn(`⚠️  No receipt for ${opts.txHash}; upgrade not logged`);
+    return;
+  }
+  const block = await provider.getBlock(receipt.blockNumber);
+
+  let admin = opts.admin;
+  try {
+    admin ??= await hre.upgrades.erc1967.getAdminAddress(opts.proxy);
+  } catch {}
+  let buildInfo: string | undefined;
+  if (opts.artifact) {
+    try {
+      const artifact = await hre.artifacts.readArtifact(opts.artifact);
+      buildInfo = (
+        await hre.artifacts.getBuildInfo(
+          `${artifact.sourceName}:${artifact.contractName}`
+        )
+      )?.id;
+    } catch {}
+  }
+
+  const manifest = readManifest(hre.network.name);
+  const found = manifest && findManifestContract(manifest, opts.proxy);
+  const ledger = readLedger(hre.network.name) ?? {
+    version: 1,
+    network: hre.network.name,
+    chainId: await getUnderlyingChainId(hre),
+    entries: [],
+  };
+  mergeLedgerEntries(ledger, [
+    {
+      contract: found?.[0] ?? opts.proxy,
+      proxy: opts.proxy,
+      kind: "upgrade",
+      previousImplementation: opts.previousImplementation,
+      implementation: opts.implementation,
+      admin,
+      txHash: opts.txHash,
+      blockNumber: receipt.blockNumber,
+      timestamp: block?.timestamp ?? 0,
+      operator: tx.from,
+      buildInfo,
+      source: "task",
+    },
+  ]);
+  writeLedger(ledger);
+  console.log(
+    `📒 Logged ${found?.[0] ?? opts.proxy} upgrade in ${path.relative(process.cwd(), getLedgerPath(hre.network.name))}`
+  );
+}
+
+/*//////////////////////////////////////////////////////////////
+                         CHAIN HISTORY
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Rebuild ledger entries from ERC-1967 Upgraded and AdminChanged events
+ * (beacons emit the same Upgraded event)
+ * @param targets Proxy and beacon addresses by manifest name
+ */
+export async function fetchUpgradeHistory(
+  hre: HardhatRuntimeEnvironment,
+  targets: Record<string, string>,
+  opts: { fromBlock: number; toBlock: number; chunkSize: number }
+): Promise<UpgradeLedgerEntry[]> {
+  const provider = hre.ethers.provider;
+  const names = new Map(
+    Object.entries(targets).map(([name, address]) => [
+      address.toLowerCase(),
+      name,
+    ])
+  );
+
+  const logs: Log[] = [];
+  for (
+    let from = opts.fromBlock;
+    from <= opts.toBlock;
+    from += opts.chunkSize
+  ) {
+    const to = Math.min(from + opts.chunkSize - 1, opts.toBlock);
+    logs.push(
+      ...(await provider.getLogs({
+        address: Object.values(targets),
+        topics: [[UPGRADED_TOPIC, ADMIN_CHANGED_TOPIC]],
+        fromBlock: from,
+        toBlock: to,
+      }))
+    );
+  }
+  logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  const state = new Map<string, { implementation?: string; admin?: string }>();
+  const senders = new Map<string, string>();
+  const timestamps = new Map<number, number>();
+  const entries: UpgradeLedgerEntry[] = [];
+  for (const log of logs) {
+    const proxy = getAddress(log.address);
+    const current = state.get(proxy) ?? {};
+    if (!senders.has(log.transactionHash)) {
+      const tx = await provider.getTransaction(log.transactionHash);
+      senders.set(log.transactionHash, tx?.from ?? "");
+    }
+    if (!timestamps.has(log.blockNumber)) {
+      const block = await provider.getBlock(log.blockNumber);
+      timestamps.set(log.blockNumber, block?.timestamp ?? 0);
+    }
+    const base = {
+      contract: names.get(proxy.toLowerCase()) ?? proxy,
+      proxy,
+      txHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      timestamp: timestamps.get(log.blockNumber)!,
+      operator: senders.get(log.transactionHash)!,
+      source: "chain" as const,
+    };
+
+    if (log.topics[0] === UPGRADED_TOPIC) {
+      const implementation = getAddress(`0x${log.topics[1].slice(26)}`);
+      entries.push({
+        ...base,
+        kind: "upgrade",
+        previousImplementation: current.implementation,
+        implementation,
+        admin: current.admin,
+      });
+      current.implementation = implementation;
+    } else {
+      const [previousAdmin, admin] = AbiCoder.defaultAbiCoder().decode(
+        ["address", "address"],
+        log.data
+      );
+      entries.push({ ...base, kind: "adminChange", previousAdmin, admin });
+      current.admin = admin;
+    }
+    state.set(proxy, current);
+  }
+  return entries;
+}
+
+/**
+ * Compare the local ledger with the chain history over the scanned range
+ */
+export function crossCheckLedger(
+  local: UpgradeLedgerEntry[],
+  chain: UpgradeLedgerEntry[]
+): LedgerCheckRow[] {
+  const localByKey = new Map(local.map((e) => [entryKey(e), e]));
+  const seen = new Set<string>();
+  const rows: LedgerCheckRow[] = [];
+  const row = (
+    entry: UpgradeLedgerEntry,
+    status: LedgerCheckRow["status"],
+    details?: string
+  ) =>
+    rows.push({
+      contract: entry.contract,
+      kind: entry.kind,
+      txHash: entry.txHash,
+      blockNumber: entry.blockNumber,
+      status,
+      details,
+    });
+
+  for (const entry of chain) {
+    const recorded = localByKey.get(entryKey(entry));
+    if (!recorded) {
+      row(entry, "chain only");
+      continue;
+    }
+    seen.add(entryKey(entry));
+    const differences = (
+      ["implementation", "admin", "operator"] as const
+    ).filter(
+      (field) =>
+        recorded[field] !== undefined &&
+        entry[field] !== undefined &&
+        !sameAddress(recorded[field], entry[field])
+    );
+    row(
+      entry,
+      differences.length > 0 ? "mismatch" : "matched",
+      differences
+        .map((field) => `${field}: ${recorded[field]} != ${entry[field]}`)
+        .join(", ") || undefined
+    );
+  }
+  for (const entry of local) {
+    if (!seen.has(entryKey(entry))) row(entry, "local only");
+  }
+  return rows.sort((a, b) => a.blockNumber - b.blockNumber);
+}
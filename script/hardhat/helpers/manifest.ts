@@ -0,0 +1,628 @@
+import fs from "fs";
+import path from "path";
+import { getAddress, isAddress } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  DeploymentManifest,
+  ManifestContract,
+  ManifestContractKind,
+} from "../types/manifest";
+import { ArgSource } from "../types/plan";
+import { PLAN_ENTRIES } from "../config/plan";
+
+export const MANIFEST_VERSION = 1;
+
+const DEPLOYMENTS_ROOT = path.join(__dirname, "../../../deployments");
+
+const CONTRACT_KINDS: ManifestContractKind[] = [
+  "contract",
+  "transparentProxy",
+  "beacon",
+  "proxyAdmin",
+  "library",
+];
+
+const CONTRACT_FIELDS = new Set([
+  "address",
+  "kind",
+  "artifact",
+  "implementation",
+  "admin",
+  "libraries",
+  "constructorArgs",
+  "txHash",
+  "blockNumber",
+  "deployer",
+  "timestamp",
+  "state",
+]);
+
+/** Beacons and the plan entry holding their implementation */
+const BEACON_IMPLEMENTATIONS: Record<string, string> = {
+  UserVaultBeacon: "UserVaultImplementation",
+};
+
+export const getDeploymentsDir = (network: string): string =>
+  path.join(DEPLOYMENTS_ROOT, network);
+
+export const getManifestPath = (network: string): string =>
+  path.join(getDeploymentsDir(network), "manifest.json");
+
+const getLegacyAddressesPath = (network: string): string =>
+  path.join(getDeploymentsDir(network), "addresses.json");
+
+const isInteger = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+const sameAddress = (a?: string, b?: string): boolean =>
+  !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+/*//////////////////////////////////////////////////////////////
+                            VALIDATION
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Validate a parsed manifest
+ * @returns Errors prefixed with the JSON path they apply to (empty when valid)
+ */
+export function validateManifest(data: unknown): string[] {
+  const errors: string[] = [];
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return ["$: manifest must be an object"];
+  }
+  const manifest = data as Record<string, any>;
+
+  if (manifest.version !== MANIFEST_VERSION) {
+    errors.push(
+      `$.version: expected ${MANIFEST_VERSION}, got ${JSON.stringify(manifest.version)}`
+    );
+  }
+  if (typeof manifest.network !== "string" || manifest.network === "") {
+    errors.push("$.network: must be a non-empty string");
+  }
+  if (!isInteger(manifest.chainId) || manifest.chainId === 0) {
+    errors.push("$.chainId: must be a positive integer");
+  }
+  if (typeof manifest.updatedAt !== "string") {
+    errors.push("$.updatedAt: must be an ISO 8601 string");
+  }
+  if (
+    typeof manifest.contracts !== "object" ||
+    manifest.contracts === null ||
+    Array.isArray(manifest.contracts)
+  ) {
+    errors.push("$.contracts: must be an object keyed by contract name");
+    return errors;
+  }
+
+  const checkAddress = (at: string, value: unknown): void => {
+    if (typeof value !== "string" || !isAddress(value)) {
+      errors.push(`${at}: invalid address ${JSON.stringify(value)}`);
+    }
+  };
+
+  for (const [name, entry] of Object.entries<any>(manifest.contracts)) {
+    const at = `$.contracts.${name}`;
+    if (typeof entry !== "object" || entry === null) {
+      errors.push(`${at}: must be an object`);
+      continue;
+    }
+    for (const key of Object.keys(entry)) {
+      if (!CONTRACT_FIELDS.has(key)) errors.push(`${at}.${key}: unknown field`);
+    }
+    checkAddress(`${at}.address`, entry.address);
+    if (!CONTRACT_KINDS.includes(entry.kind)) {
+      errors.push(
+        `${at}.kind: must be one of ${CONTRACT_KINDS.join(", ")}, got ${JSON.stringify(entry.kind)}`
+      );
+    }
+    if (entry.kind === "transparentProxy" || entry.kind === "beacon") {
+      if (entry.implementation === undefined) {
+        errors.push(`${at}.implementation: required for a ${entry.kind}`);
+      }
+    }
+    if (entry.implementation !== undefined) {
+      checkAddress(`${at}.implementation`, entry.implementation);
+    }
+    if (entry.admin !== undefined) checkAddress(`${at}.admin`, entry.admin);
+    if (entry.deployer !== undefined) {
+      checkAddress(`${at}.deployer`, entry.deployer);
+    }
+    if (entry.artifact !== undefined && typeof entry.artifact !== "string") {
+      errors.push(`${at}.artifact: must be a string`);
+    }
+    if (entry.libraries !== undefined) {
+      if (typeof entry.libraries !== "object" || entry.libraries === null) {
+        errors.push(`${at}.libraries: must be an object`);
+      } else {
+        for (const [lib, addr] of Object.entries(entry.libraries)) {
+          checkAddress(`${at}.libraries.${lib}`, addr);
+        }
+      }
+    }
+    if (
+      entry.constructorArgs !== undefined &&
+      !Array.isArray(entry.constructorArgs)
+    ) {
+      errors.push(`${at}.constructorArgs: must be an array`);
+    }
+    if (
+      entry.txHash !== undefined &&
+      !/^0x[0-9a-fA-F]{64}$/.test(String(entry.txHash))
+    ) {
+      errors.push(`${at}.txHash: invalid transaction hash`);
+    }
+    if (entry.blockNumber !== undefined && !isInteger(entry.blockNumber)) {
+      errors.push(`${at}.blockNumber: must be a non-negative integer`);
+    }
+    if (entry.timestamp !== undefined && !isInteger(entry.timestamp)) {
+      errors.push(`${at}.timestamp: must be a non-negative integer (ms)`);
+    }
+    if (entry.state !== undefined) {
+      if (typeof entry.state !== "object" || entry.state === null) {
+        errors.push(`${at}.state: must be an object`);
+      } else {
+        for (const [label, value] of Object.entries(entry.state)) {
+          if (typeof value !== "string") {
+            errors.push(`${at}.state.${label}: must be a string`);
+          }
+        }
+      }
+    }
+  }
+  return errors;
+}
+
+/*//////////////////////////////////////////////////////////////
+                          LOAD AND WRITE
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Read and validate deployments/{network}/manifest.json
+ * @returns null when the network has no deployments yet
+ */
+export function readManifest(network: string): DeploymentManifest | null {
+  const manifestPath = getManifestPath(network);
+  if (!fs.existsSync(manifestPath)) {
+    if (fs.existsSync(getLegacyAddressesPath(network))) {
+      throw new Error(
+        `deployments/${network} has no manifest.json yet. Run: npx hardhat deployments:migrate --networks ${network}`
+      );
+    }
+    return null;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Unable to parse ${manifestPath}: ${(error as Error).message}`
+    );
+  }
+  const errors = validateManifest(data);
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid deployments manifest ${manifestPath}:\n  • ${errors.join("\n  • ")}`
+    );
+  }
+  return data as DeploymentManifest;
+}
+
+/**
+ * Read the manifest of a network that must already have deployments
+ */
+export function loadManifest(network: string): DeploymentManifest {
+  const manifest = readManifest(network);
+  if (!manifest) {
+    throw new Error(
+      `No deployments manifest for ${network} (${getManifestPath(network)})`
+    );
+  }
+  return manifest;
+}
+
+export const createManifest = (
+  network: string,
+  chainId: number
+): DeploymentManifest => ({
+  version: MANIFEST_VERSION,
+  network,
+  chainId,
+  updatedAt: new Date().toISOString(),
+  contracts: {},
+});
+
+/**
+ * Validate and write the manifest, then regenerate addresses.json from it
+ * (kept in the { addresses, implementations, proxyAdmin } shape for consumers
+ * outside this repo)
+ */
+export function writeManifest(manifest: DeploymentManifest): void {
+  manifest.updatedAt = new Date().toISOString();
+  const errors = validateManifest(manifest);
+  if (errors.length > 0) {
+    throw new Error(
+      `Refusing to write invalid manifest for ${manifest.network}:\n  • ${errors.join("\n  • ")}`
+    );
+  }
+  const dir = getDeploymentsDir(manifest.network);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(
+    getManifestPath(manifest.network),
+    JSON.stringify(manifest, null, 2) + "\n"
+  );
+
+  const proxyAdmin = Object.values(manifest.contracts).find(
+    (c) => c.kind === "proxyAdmin"
+  );
+  const addressesJson = {
+    networkName: manifest.network,
+    chainId: manifest.chainId,
+    addresses: getManifestAddresses(manifest),
+    implementations: getManifestImplementations(manifest),
+    proxyAdmin: proxyAdmin?.address ?? null,
+  };
+  fs.writeFileSync(
+    getLegacyAddressesPath(manifest.network),
+    JSON.stringify(addressesJson, null, 2) + "\n"
+  );
+}
+
+/**
+ * Contract name → address (ProxyAdmin and libraries excluded)
+ */
+export function getManifestAddresses(
+  manifest: DeploymentManifest
+): Record<string, string> {
+  const addresses: Record<string, string> = {};
+  for (const [name, entry] of Object.entries(manifest.contracts)) {
+    if (entry.kind === "proxyAdmin" || entry.kind === "library") continue;
+    addresses[name] = entry.address;
+  }
+  return addresses;
+}
+
+/**
+ * Transparent proxy name → current implementation
+ */
+export function getManifestImplementations(
+  manifest: DeploymentManifest
+): Record<string, string> {
+  const implementations: Record<string, string> = {};
+  for (const [name, entry] of Object.entries(manifest.contracts)) {
+    if (entry.kind === "transparentProxy" && entry.implementation) {
+      implementations[name] = entry.implementation;
+    }
+  }
+  return implementations;
+}
+
+/**
+ * Find the manifest entry deployed at `address`
+ */
+export function findManifestContract(
+  manifest: DeploymentManifest,
+  address: string
+): [string, ManifestContract] | undefined {
+  return Object.entries(manifest.contracts).find(([, entry]) =>
+    sameAddress(entry.address, address)
+  );
+}
+
+export type ManifestUpdate = Partial<ManifestContract> & { address: string };
+
+/**
+ * Merge contracts into the manifest of the current network and write it.
+ * A new address for a known name replaces the entry; otherwise fields are merged.
+ */
+export async function updateManifest(
+  hre: HardhatRuntimeEnvironment,
+  updates: Record<string, ManifestUpdate>
+): Promise<DeploymentManifest> {
+  const network = hre.network.name;
+  const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+  const manifest = readManifest(network) ?? createManifest(network, chainId);
+  if (manifest.chainId !== chainId) {
+    throw new Error(
+      `deployments/${network}/manifest.json is for chain ${manifest.chainId}, connected to ${chainId}`
+    );
+  }
+
+  for (const [name, update] of Object.entries(updates)) {
+    const current = manifest.contracts[name];
+    const base =
+      current && sameAddress(current.address, update.address)
+        ? current
+        : { kind: current?.kind ?? "contract" };
+    const merged: Record<string, any> = { ...base };
+    for (const [key, value] of Object.entries(update)) {
+      if (value !== undefined) merged[key] = value;
+    }
+    manifest.contracts[name] = merged as ManifestContract;
+  }
+
+  writeManifest(manifest);
+  return manifest;
+}
+
+/*//////////////////////////////////////////////////////////////
+                       LEGACY FOLDER MIGRATION
+//////////////////////////////////////////////////////////////*/
+
+export interface MigrationConflict {
+  contract: string;
+  field: string;
+  from: string;
+  to: string;
+  source: string;
+}
+
+export interface MigrationResult {
+  manifest: DeploymentManifest;
+  conflicts: MigrationConflict[];
+  /** Legacy files folded into the manifest that can be removed */
+  superseded: string[];
+}
+
+/** Keys of the pre-manifest leaderboard deployment files */
+const LEGACY_LEADERBOARD_KEYS: Record<string, string> = {
+  epochManager: "EpochManager",
+  nftPartnershipRegistry: "NFTPartnershipRegistry",
+  leaderboardConfig: "LeaderboardConfig",
+  votingPowerMultiplier: "VotingPowerMultiplier",
+  leaderboardKeeper: "LeaderboardKeeper",
+};
+
+const NESTED_KEYS = new Set([
+  "networkName",
+  "chainId",
+  "addresses",
+  "implementations",
+  "proxyAdmin",
+]);
+
+const readJson = (file: string): any =>
+  JSON.parse(fs.readFileSync(file, "utf8"));
+
+// Constructor args recorded in a legacy file's `parameters`, resolved through the plan sources
+const legacyConstructorArgs = (
+  name: string,
+  parameters: Record<string, any> | undefined
+): unknown[] | undefined => {
+  const entry = PLAN_ENTRIES[name];
+  if (!entry || !parameters) return undefined;
+  const args: unknown[] = [];
+  for (const param of entry.constructorParams) {
+    let value: unknown;
+    for (
+      let source: ArgSource | undefined = param.source;
+      source && value === undefined;
+      source = source.fallback
+    ) {
+      if (source.from === "config") {
+        value = source.path
+          .split(".")
+          .reduce<any>((node, key) => node?.[key], parameters);
+      } else if (source.from === "value") {
+        value = source.value;
+      }
+    }
+    if (value === undefined) return undefined;
+    args.push(value);
+  }
+  return args;
+};
+
+/**
+ * Build a manifest from a pre-manifest deployments folder. Sources are applied
+ * oldest first: per-contract files, the nested addresses.json sections, the
+ * leaderboard files, timestamped sessions, then flat addresses.json keys
+ * (written by exportDeployment after the last full deploy).
+ */
+export function migrateLegacyDeployments(network: string): MigrationResult {
+  const dir = getDeploymentsDir(network);
+  const addressesPath = getLegacyAddressesPath(network);
+  if (!fs.existsSync(addressesPath)) {
+    throw new Error(`No legacy addresses.json in ${dir}`);
+  }
+
+  const contracts: Record<string, ManifestContract> = {};
+  const conflicts: MigrationConflict[] = [];
+  const superseded: string[] = [];
+  let chainId: number | undefined;
+
+  const apply = (
+    name: string,
+    patch: Partial<ManifestContract>,
+    source: string
+  ): void => {
+    const normalized: Record<string, any> = {};
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === undefined || value === null) continue;
+      normalized[key] =
+        typeof value === "string" && isAddress(value)
+          ? getAddress(value)
+          : value;
+    }
+    const current = contracts[name];
+    if (
+      current &&
+      normalized.address &&
+      !sameAddress(current.address, normalized.address)
+    ) {
+      conflicts.push({
+        contract: name,
+        field: "address",
+        from: current.address,
+        to: normalized.address,
+        source,
+      });
+      contracts[name] = { kind: current.kind, ...normalized } as any;
+      return;
+    }
+    for (const field of ["implementation", "admin"] as const) {
+      if (
+        current?.[field] &&
+        normalized[field] &&
+        !sameAddress(current[field], normalized[field])
+      ) {
+        conflicts.push({
+          contract: name,
+          field,
+          from: current[field]!,
+          to: normalized[field],
+          source,
+        });
+      }
+    }
+    contracts[name] = {
+      ...(current ?? { kind: "contract" }),
+      ...normalized,
+    } as ManifestContract;
+  };
+
+  // 1. Per-contract files written by deploy:neverland / export:metadata
+  for (const file of fs.readdirSync(dir).sort()) {
+    if (!file.endsWith(".json")) continue;
+    if (file === "addresses.json" || file === "manifest.json") continue;
+    if (file.startsWith("leaderboard-") || file.startsWith("deploy-journal")) {
+      continue;
+    }
+    const data = readJson(path.join(dir, file));
+    if (typeof data.contract !== "string") continue;
+    chainId ??= data.chainId;
+    if (data.contract === "ProxyAdmin") {
+      apply(
+        "ProxyAdmin",
+        { address: data.proxyAdmin, kind: "proxyAdmin" },
+        file
+      );
+    } else if (data.proxy) {
+      apply(
+        data.contract,
+        {
+          address: data.proxy,
+          implementation: data.implementation,
+          admin: data.proxyAdmin,
+        },
+        file
+      );
+    } else if (data.address) {
+      apply(data.contract, { address: data.address }, file);
+    }
+  }
+
+  // 2. addresses.json: nested sections, flat keys are applied last
+  const legacy = readJson(addressesPath);
+  chainId = legacy.chainId ?? chainId;
+  for (const [name, addr] of Object.entries<string>(legacy.addresses ?? {})) {
+    apply(name, { address: addr }, "addresses.json#addresses");
+  }
+  for (const [name, impl] of Object.entries<string>(
+    legacy.implementations ?? {}
+  )) {
+    apply(
+      name,
+      {
+        address: contracts[name]?.address ?? legacy.addresses?.[name],
+        implementation: impl,
+      },
+      "addresses.json#implementations"
+    );
+  }
+  if (legacy.proxyAdmin) {
+    apply(
+      "ProxyAdmin",
+      { address: legacy.proxyAdmin, kind: "proxyAdmin" },
+      "addresses.json#proxyAdmin"
+    );
+  }
+
+  // 3. Leaderboard deployment files (leaderboard-<network>.json, leaderboard-keeper-<network>.json)
+  for (const file of fs.readdirSync(dir).sort()) {
+    if (!file.startsWith("leaderboard-") || !file.endsWith(".json")) continue;
+    const data = readJson(path.join(dir, file));
+    for (const [key, name] of Object.entries(LEGACY_LEADERBOARD_KEYS)) {
+      if (typeof data[key] !== "string") continue;
+      apply(
+        name,
+        {
+          address: data[key],
+          deployer: data.deployer,
+          timestamp: data.timestamp ? Date.parse(data.timestamp) : undefined,
+          constructorArgs: legacyConstructorArgs(name, data.parameters),
+        },
+        file
+      );
+    }
+    superseded.push(path.join(dir, file));
+  }
+
+  // 4. Timestamped session folders written by exportDeployment(s)
+  const sessions = fs
+    .readdirSync(dir)
+    .filter((entry) => /^\d+$/.test(entry))
+    .sort((a, b) => Number(a) - Number(b));
+  for (const session of sessions) {
+    const sessionDir = path.join(dir, session);
+    if (!fs.statSync(sessionDir).isDirectory()) continue;
+    for (const file of fs.readdirSync(sessionDir).sort()) {
+      if (!file.endsWith(".json")) continue;
+      const data = readJson(path.join(sessionDir, file));
+      if (typeof data.address !== "string") continue;
+      const meta = data.metadata ?? {};
+      chainId ??= meta.chainId;
+      apply(
+        file.replace(/\.json$/, ""),
+        {
+          address: data.address,
+          constructorArgs: data.constructorArgs,
+          deployer: meta.deployer,
+          timestamp: meta.timestamp ?? Number(session),
+          txHash: meta.txHash,
+          blockNumber: meta.blockNumber,
+        },
+        `${session}/${file}`
+      );
+    }
+  }
+
+  // 5. Flat keys added next to the nested sections
+  for (const [key, value] of Object.entries(legacy)) {
+    if (NESTED_KEYS.has(key) || typeof value !== "string") continue;
+    if (!isAddress(value)) continue;
+    apply(key, { address: value }, "addresses.json (flat key)");
+  }
+
+  if (!isInteger(chainId)) {
+    throw new Error(`Could not determine the chain id of ${dir}`);
+  }
+
+  // Derive kinds and artifacts
+  const proxyAdmin = contracts.ProxyAdmin?.address;
+  for (const [name, entry] of Object.entries(contracts)) {
+    if (entry.kind === "proxyAdmin") {
+      entry.artifact ??= "ProxyAdmin";
+      continue;
+    }
+    entry.artifact ??= PLAN_ENTRIES[name]?.artifact ?? name;
+    if (entry.implementation) {
+      entry.kind = "transparentProxy";
+      if (!entry.admin && proxyAdmin) entry.admin = proxyAdmin;
+    }
+    const beaconImpl = BEACON_IMPLEMENTATIONS[name];
+    if (beaconImpl && contracts[beaconImpl]) {
+      entry.kind = "beacon";
+      entry.implementation ??= contracts[beaconImpl].address;
+    }
+  }
+
+  const manifest = createManifest(network, chainId);
+  // Stable field order for readable diffs
+  for (const name of Object.keys(contracts).sort()) {
+    const { address, kind, artifact, ...rest } = contracts[name];
+    manifest.contracts[name] = { address, kind, artifact, ...rest };
+  }
+  return { manifest, conflicts, superseded };
+}
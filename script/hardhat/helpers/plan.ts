@@ -0,0 +1,1102 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Signer } from "ethers";
+import {
+  getProxyAdminFactory,
+  getTransparentUpgradeableProxyFactory,
+} from "@openzeppelin/hardhat-upgrades/dist/utils";
+import { DeterministicConfig } from "../types/config.generated";
+import { GasEntry, WiringEdge } from "../types/deploy";
+import {
+  ArgSource,
+  DeploymentPlan,
+  OwnershipHandoff,
+  PlanCall,
+  PlanEntry,
+  PlanGuard,
+  PlanParam,
+  WiringResult,
+} from "../types/plan";
+import { DeploymentJournal } from "./journal";
+import {
+  PROXY_ADMIN_SALT_NAME,
+  assertDeterministicPlan,
+  deployDeterministic,
+  deriveDeterministicSalt,
+  encodeOwnershipClaim,
+  implementationSaltName,
+} from "./deterministic";
+import { reportDeployment, reportTx } from "./gas";
+import { SafeBatchCollector } from "./safe";
+import { getEnvWallet, tryGetSigner } from "./signers";
+import { redactSecrets } from "./interpolate";
+
+export interface PlanRunOptions {
+  /** Config tree that `config` sources are resolved against */
+  config: Record<string, any>;
+  /** Entries supplied by address (options.addresses or config.addresses) instead of deployed */
+  exclude?: Set<string>;
+  /** Addresses already known before the run (e.g. existing deployments) */
+  addresses?: Record<string, string>;
+  /** Constructor arguments supplied by the caller instead of resolved from sources */
+  constructorArgs?: Record<string, any[]>;
+  /** Proxy initializer arguments supplied by the caller, likewise */
+  initializerArgs?: Record<string, any[]>;
+  journal?: DeploymentJournal;
+  gasLog: GasEntry[];
+  dryRun?: boolean;
+  /** Verify each entry on the block explorer right after it is deployed */
+  verify?: boolean;
+  /** Deploy proxy entries as bare implementations (no proxy, no initializer) */
+  implementationsOnly?: boolean;
+  /** Run post-deploy setters and ownership handoffs (default: true) */
+  setup?: boolean;
+  /**
+   * Deploy nothing: only check, or idempotently apply, the entries' wiring
+   * calls against the known addresses (reported in PlanRunResult.wiring)
+   */
+  wiringOnly?: "check" | "apply";
+  /** Limit wiringOnly to the calls with these labels */
+  wiringLabels?: string[];
+  /**
+   * Safe mode: calls that need a non-deployer signer and the acceptance side
+   * of two-step handoffs are queued here instead of sent or left as text
+   */
+  safe?: SafeBatchCollector;
+  /** Deploy every contract through CreateX at addresses derived from its name */
+  deterministic?: DeterministicConfig;
+}
+
+export interface DeployedEntry {
+  name: string;
+  address: string;
+  /** Implementation behind the proxy, when deployed as one */
+  implementation?: string;
+  constructorArgs: any[];
+  /** Arguments the proxy was initialized with */
+  initializerArgs?: any[];
+  verify?: string;
+  libraries?: Record<string, string>;
+  /** Deployment transaction (absent when reused from the journal) */
+  txHash?: string;
+  blockNumber?: number;
+}
+
+export interface PlanRunResult {
+  addresses: Record<string, string>;
+  implementations: Record<string, string>;
+  proxyAdmin?: string;
+  pendingActions: string[];
+  deployed: DeployedEntry[];
+  /** Wiring calls checked or applied in wiringOnly mode */
+  wiring: WiringResult[];
+}
+
+const isValidAddress = (value?: string): value is string =>
+  !!value && value.length === 42 && value.startsWith("0x");
+
+const getPath = (tree: Record<string, any>, dotted: string): any =>
+  dotted
+    .split(".")
+    .reduce<any>((node, key) => (node == null ? undefined : node[key]), tree);
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  String(a).toLowerCase() === String(b).toLowerCase();
+
+/**
+ * Names of other plan entries an entry needs at deploy time
+ * (contract sources among its constructor and initializer params)
+ */
+export function getPlanDependencies(entry: PlanEntry): string[] {
+  const deps = new Set<string>();
+  const params = [
+    ...entry.constructorParams,
+    ...(entry.proxy?.initializerParams ?? []),
+  ];
+  for (const param of params) {
+    for (
+      let source: ArgSource | undefined = param.source;
+      source;
+      source = source.fallback
+    ) {
+      if (source.from === "contract" && source.name !== entry.name) {
+        deps.add(source.name);
+      }
+    }
+  }
+  return Array.from(deps);
+}
+
+const contractNames = (sources: Array<ArgSource | undefined>): string[] => {
+  const names: string[] = [];
+  for (const root of sources) {
+    for (let source = root; source; source = source.fallback) {
+      if (source.from === "contract") names.push(source.name);
+      if (source.from === "read") names.push(source.target);
+    }
+  }
+  return names;
+};
+
+/**
+ * Wiring edges of an entry: its setup calls flagged `wiring`, with the
+ * contracts each one involves
+ */
+export function getWiringEdges(entry: PlanEntry): WiringEdge[] {
+  return (entry.setup ?? [])
+    .filter((call) => call.wiring)
+    .map((call) => {
+      const target = call.target ?? entry.name;
+      const involved = contractNames([
+        ...call.args,
+        call.signer,
+        ...(call.guard?.args ?? []),
+        call.guard?.equals,
+        call.guard?.notEquals,
+      ]);
+      return {
+        label: call.label,
+        target,
+        contracts: Array.from(new Set([target, ...involved])),
+      };
+    });
+}
+
+/**
+ * Send a contract for explorer verification (skipped in dry-run mode)
+ */
+export const verifyContract = async (
+  hre: HardhatRuntimeEnvironment,
+  address: string,
+  constructorArgs: any[] = [],
+  contractName?: string,
+  dryRun: boolean = false
+): Promise<void> => {
+  if (dryRun) {
+    console.log(`   🔍 Skipping verification in dry-run mode for ${address}`);
+    return;
+  }
+
+  try {
+    console.log(`   🔍 Verifying contract at ${address}...`);
+    const verifyArgs: any = {
+      address,
+      constructorArguments: constructorArgs,
+    };
+
+    if (contractName) {
+      verifyArgs.contract = contractName;
+    }
+
+    await hre.run("verify:verify", verifyArgs);
+    console.log(`   ✅ Contract verified successfully!`);
+  } catch (error: any) {
+    if (error.message?.toLowerCase().includes("already verified")) {
+      console.log(`   ✅ Contract already verified`);
+    } else {
+      console.log(`   ⚠️  Verification failed: ${error.message}`);
+    }
+  }
+};
+
+/**
+ * Execute a deployment plan: deploy (or reuse) each entry in order, link
+ * libraries, initialize proxies, verify, then run setters and ownership handoffs.
+ * Every transaction goes through the journal when one is supplied, so a
+ * re-run with the same journal skips what already landed on-chain.
+ */
+export async function executePlan(
+  hre: HardhatRuntimeEnvironment,
+  plan: DeploymentPlan,
+  options: PlanRunOptions
+): Promise<PlanRunResult> {
+  const { config, journal, gasLog } = options;
+  const exclude = options.exclude ?? new Set<string>();
+  const dryRun = !!options.dryRun;
+  const runSetup = options.setup ?? true;
+  const entryByName = new Map(plan.entries.map((e) => [e.name, e]));
+
+  if (options.deterministic && !options.implementationsOnly) {
+    assertDeterministicPlan(plan, exclude);
+  }
+
+  const [deployer] = await hre.ethers.getSigners();
+  const deployerAddress = await deployer.getAddress();
+
+  const result: PlanRunResult = {
+    addresses: { ...(options.addresses ?? {}) },
+    implementations: {},
+    pendingActions: [],
+    deployed: [],
+    wiring: [],
+  };
+
+  /*//////////////////////////////////////////////////////////////
+                          VALUE RESOLUTION
+  //////////////////////////////////////////////////////////////*/
+
+  const lookupAddress = (name: string): string | undefined => {
+    const addr = result.addresses[name] ?? config.addresses?.[name];
+    return isValidAddress(addr) ? addr : undefined;
+  };
+
+  const requireAddress = (name: string): string => {
+    const addr = lookupAddress(name);
+    if (!addr) {
+      throw new Error(
+        `Address for ${name} unavailable. Provide it under config.addresses.${name} or deploy it in this run.`
+      );
+    }
+    return addr;
+  };
+
+  const attach = async (name: string, signer?: Signer) =>
+    hre.ethers.getContractAt(
+      entryByName.get(name)?.artifact ?? name,
+      requireAddress(name),
+      signer ?? deployer
+    );
+
+  const resolveValue = async (
+    source: ArgSource,
+    item?: unknown
+  ): Promise<any> => {
+    let value: any;
+    switch (source.from) {
+      case "config":
+        value = getPath(config, source.path);
+        if (typeof value === "string" && value.trim() === "") value = undefined;
+        break;
+      case "contract":
+        value = lookupAddress(source.name);
+        break;
+      case "deployer":
+        value = deployerAddress;
+        break;
+      case "value":
+        value = source.value;
+        break;
+      case "wallet": {
+        const wallet = getEnvWallet(hre, source.env);
+        value = wallet ? await wallet.getAddress() : undefined;
+        break;
+      }
+      case "read": {
+        const target = await attach(source.target);
+        value = await (target as any)[source.method]();
+        break;
+      }
+      case "item":
+        value = item;
+        break;
+    }
+    if (value === undefined && source.fallback) {
+      return resolveValue(source.fallback, item);
+    }
+    return value;
+  };
+
+  const missingMessage = (source: ArgSource): string => {
+    let last = source;
+    while (last.fallback) last = last.fallback;
+    switch (last.from) {
+      case "config":
+        return `Missing required config value for ${last.path}`;
+      case "contract":
+        return `Address for ${last.name} unavailable. Provide it under config.addresses.${last.name} or deploy it in this run.`;
+      case "wallet":
+        return `Missing wallet: set ${last.env} in the environment`;
+      default:
+        return `Unable to resolve a ${last.from} value`;
+    }
+  };
+
+  const resolveParams = async (
+    entry: PlanEntry,
+    params: PlanParam[]
+  ): Promise<any[]> => {
+    const values: any[] = [];
+    for (const param of params) {
+      const value = await resolveValue(param.source);
+      if (value === undefined) throw new Error(missingMessage(param.source));
+      if (param.type === "address" && !hre.ethers.isAddress(value)) {
+        throw new Error(
+          `Invalid ${entry.name}.${param.name} address provided: ${value}`
+        );
+      }
+      values.push(value);
+    }
+    return values;
+  };
+
+  const resolveSigner = async (
+    source: ArgSource | undefined
+  ): Promise<Signer | null> => {
+    if (!source) return deployer;
+    for (let s: ArgSource | undefined = source; s; s = s.fallback) {
+      if (s.from === "wallet") {
+        const wallet = getEnvWallet(hre, s.env);
+        if (wallet) return wallet;
+      }
+    }
+    const address = await resolveValue(source);
+    if (!isValidAddress(address)) return null;
+    if (sameValue(address, deployerAddress)) return deployer;
+    return tryGetSigner(hre, address, { dryRun });
+  };
+
+  // Safe that executes a call in Safe mode; undefined when the deployer or an env wallet sends it
+  const resolveSafe = async (call: PlanCall): Promise<string | undefined> => {
+    if (!options.safe) return undefined;
+    if (!call.safe) {
+      if (!call.signer) return undefined;
+      for (let s: ArgSource | undefined = call.signer; s; s = s.fallback) {
+        if (s.from === "wallet" && getEnvWallet(hre, s.env)) return undefined;
+      }
+    }
+    const address = await resolveValue(call.safe ?? call.signer!);
+    if (!isValidAddress(address) || sameValue(address, deployerAddress)) {
+      return undefined;
+    }
+    return address;
+  };
+
+  /*//////////////////////////////////////////////////////////////
+                          JOURNAL HELPERS
+  //////////////////////////////////////////////////////////////*/
+
+  const addPendingAction = (step: string, action: string): void => {
+    if (!result.pendingActions.includes(action)) {
+      result.pendingActions.push(action);
+    }
+    journal?.recordPendingAction(step, action);
+  };
+
+  // Send a transaction at most once per journal; confirmed entries are skipped on resume
+  const sendTx = async (
+    step: string,
+    label: string,
+    send: () => Promise<any>
+  ): Promise<void> => {
+    if (journal && (await journal.isTxConfirmed(hre, step, label))) {
+      console.log(`   ⏭️  ${label} already confirmed (journal)`);
+      return;
+    }
+    const tx = await send();
+    journal?.recordTx(step, label, tx.hash, "sent");
+    await reportTx(hre, tx, label, gasLog);
+    journal?.recordTx(step, label, tx.hash, "confirmed");
+  };
+
+  // Reuse a contract deployed by an interrupted run of this step, if its code is on-chain
+  const findJournaled = async (
+    step: string,
+    label: string
+  ): Promise<string | undefined> => {
+    const addr = journal?.getContract(step, label);
+    if (!addr) return undefined;
+    if ((await hre.ethers.provider.getCode(addr)) === "0x") {
+      console.warn(
+        `⚠️  Journaled ${label} at ${addr} has no code; redeploying`
+      );
+      return undefined;
+    }
+    console.log(`   ♻️  Reusing ${label} at ${addr} (journal)`);
+    return addr;
+  };
+
+  const recordProxyInfo = async (
+    name: string,
+    proxyAddr: string
+  ): Promise<void> => {
+    try {
+      result.implementations[name] =
+        await hre.upgrades.erc1967.getImplementationAddress(proxyAddr);
+    } catch (e) {
+      console.warn(
+        `⚠️  Could not fetch implementation for ${name} at ${proxyAddr}`
+      );
+    }
+    try {
+      const admin = await hre.upgrades.erc1967.getAdminAddress(proxyAddr);
+      if (!result.proxyAdmin) result.proxyAdmin = admin;
+      else if (!sameValue(result.proxyAdmin, admin)) {
+        console.warn(
+          `⚠️  Multiple ProxyAdmin addresses detected: ${result.proxyAdmin} vs ${admin}`
+        );
+      }
+    } catch (e) {
+      console.warn(`⚠️  Could not fetch admin for ${name} at ${proxyAddr}`);
+    }
+  };
+
+  // Restore a completed step from the journal after re-checking on-chain state
+  const restoreStep = async (entry: PlanEntry): Promise<void> => {
+    const problems = await journal!.verifyStep(hre, entry.name);
+    if (problems.length > 0) {
+      throw new Error(
+        `Journal step ${entry.name} failed the on-chain re-check:\n  • ${problems.join(
+          "\n  • "
+        )}\nFix or delete ${journal!.path} before resuming.`
+      );
+    }
+    const step = journal!.steps.find((s) => s.name === entry.name)!;
+    const address = step.contracts[entry.name];
+    if (address) {
+      result.addresses[entry.name] = address;
+      if (step.proxied) await recordProxyInfo(entry.name, address);
+    }
+    for (const action of step.pendingActions) {
+      if (!result.pendingActions.includes(action)) {
+        result.pendingActions.push(action);
+      }
+    }
+    console.log(
+      `\n⏭️  Skipping ${entry.name} (completed in journal${address ? ` at ${address}` : ""}).`
+    );
+  };
+
+  /*//////////////////////////////////////////////////////////////
+                       SETTERS AND HANDOFFS
+  //////////////////////////////////////////////////////////////*/
+
+  const guardSatisfied = async (
+    target: any,
+    guard: PlanGuard,
+    args: any[],
+    item: unknown
+  ): Promise<boolean> => {
+    const readArgs: any[] = [];
+    for (const arg of guard.args ?? []) {
+      readArgs.push(await resolveValue(arg, item));
+    }
+    const current = await target[guard.read](...readArgs);
+    if (guard.notEquals) {
+      return !sameValue(current, await resolveValue(guard.notEquals, item));
+    }
+    const expected = guard.equals
+      ? await resolveValue(guard.equals, item)
+      : args[0];
+    return sameValue(current, expected);
+  };
+
+  // Safe-routed calls run in the "safe" phase, after the entry's ownership handoffs
+  const runCall = async (
+    entry: PlanEntry,
+    call: PlanCall,
+    phase: "direct" | "safe" = "direct"
+  ): Promise<void> => {
+    const targetName = call.target ?? entry.name;
+    if (call.skipIfTargetExcluded && exclude.has(targetName)) return;
+    const safe = await resolveSafe(call);
+    if ((phase === "safe") !== !!safe) return;
+
+    const items: unknown[] = call.forEach
+      ? (getPath(config, call.forEach) ?? [])
+      : [undefined];
+
+    for (const item of items) {
+      const label = call.forEach ? `${call.label}(${item})` : call.label;
+
+      const args: any[] = [];
+      let skipped = false;
+      for (const arg of call.args) {
+        const value = await resolveValue(arg, item);
+        if (value === undefined) {
+          if (arg.optional) {
+            skipped = true;
+            break;
+          }
+          throw new Error(missingMessage(arg));
+        }
+        args.push(value);
+      }
+      if (skipped) continue;
+
+      const target: any = await attach(targetName);
+      if (
+        call.guard &&
+        (await guardSatisfied(target, call.guard, args, item))
+      ) {
+        console.log(`✅ ${label} already applied.`);
+        continue;
+      }
+
+      if (safe) {
+        options.safe!.add(
+          safe,
+          await target.getAddress(),
+          target.interface.encodeFunctionData(call.method, args),
+          label
+        );
+        continue;
+      }
+
+      const signer = await resolveSigner(call.signer);
+      const signerAddress = call.signer
+        ? await resolveValue(call.signer)
+        : deployerAddress;
+      const manualAction = `Call ${targetName}(${await target.getAddress()}).${
+        call.method
+      }(${args.join(", ")}) from ${signerAddress}.`;
+
+      if (!signer) {
+        if (!call.deferrable) {
+          throw new Error(
+            `No signer available for ${label} (${signerAddress})`
+          );
+        }
+        addPendingAction(entry.name, manualAction);
+        continue;
+      }
+
+      console.log(`⚙️  ${label}(${redactSecrets(args).join(", ")})...`);
+      try {
+        await sendTx(entry.name, label, () =>
+          target.connect(signer)[call.method](...args)
+        );
+      } catch (err) {
+        if (!call.deferrable) throw err;
+        console.warn(
+          `⚠️  Could not send ${label} now. Deferring as a pending action.`
+        );
+        addPendingAction(entry.name, manualAction);
+        continue;
+      }
+
+      if (
+        call.guard &&
+        !(await guardSatisfied(target, call.guard, args, item))
+      ) {
+        addPendingAction(
+          entry.name,
+          `Verify ${label}: on-chain ${call.guard.read}() does not match the expected value after the call.`
+        );
+      } else {
+        console.log(`✅ ${label} done.`);
+      }
+    }
+  };
+
+  const runHandoff = async (
+    entry: PlanEntry,
+    handoff: OwnershipHandoff
+  ): Promise<void> => {
+    const to = await resolveValue(handoff.to);
+    if (to === undefined) {
+      if (handoff.to.optional) return;
+      throw new Error(missingMessage(handoff.to));
+    }
+    if (!isValidAddress(to)) {
+      throw new Error(`Invalid ${entry.name} owner address provided: ${to}`);
+    }
+    if (sameValue(to, deployerAddress)) return;
+
+    const contract: any = await attach(entry.name);
+    const current = await contract[handoff.read]();
+    if (sameValue(current, to)) {
+      console.log(`✅ ${entry.name} ${handoff.read} already set to ${to}`);
+      return;
+    }
+
+    const label = `${entry.name}.${handoff.method}`;
+    console.log(`⚙️  ${label}(${to})...`);
+    await sendTx(entry.name, label, () => contract[handoff.method](to));
+    if (handoff.accept && options.safe) {
+      console.log(`✅ ${label} proposed (requires acceptance).`);
+      options.safe.add(
+        to,
+        await contract.getAddress(),
+        contract.interface.encodeFunctionData(handoff.accept, []),
+        `${entry.name}.${handoff.accept}`
+      );
+    } else if (handoff.accept) {
+      console.log(`✅ ${label} proposed (requires acceptance).`);
+      addPendingAction(
+        entry.name,
+        `New owner must call ${entry.name}(${await contract.getAddress()}).${
+          handoff.accept
+        }() from ${to}`
+      );
+    } else {
+      console.log(`✅ ${label} done.`);
+    }
+  };
+
+  // Check a wiring call and, in apply mode, send it unless already on-chain
+  const runWiring = async (
+    entry: PlanEntry,
+    call: PlanCall,
+    edge: WiringEdge
+  ): Promise<void> => {
+    const report = (status: WiringResult["status"], detail?: string) => {
+      result.wiring.push({
+        label: call.label,
+        entry: entry.name,
+        status,
+        detail,
+      });
+    };
+
+    const unknown = edge.contracts.filter((name) => !lookupAddress(name));
+    if (unknown.length > 0) {
+      return report("unavailable", `needs ${unknown.join(", ")}`);
+    }
+    const args: any[] = [];
+    for (const arg of call.args) {
+      const value = await resolveValue(arg);
+      if (value === undefined) {
+        return report(
+          "unconfigured",
+          arg.optional ? "optional value not set" : missingMessage(arg)
+        );
+      }
+      args.push(value);
+    }
+    const target: any = await attach(edge.target);
+    const applied = async () =>
+      call.guard ? guardSatisfied(target, call.guard, args, undefined) : false;
+
+    try {
+      if (await applied()) return report("applied");
+    } catch (err: any) {
+      // e.g. the guard reads from a wallet that is not configured
+      return report(
+        "unconfigured",
+        `cannot read ${call.guard!.read}: ${err.message}`
+      );
+    }
+    if (options.wiringOnly === "check") return report("missing");
+
+    const pendingBefore = result.pendingActions.length;
+    await runCall(entry, { ...call, deferrable: true });
+    if (!call.guard) {
+      return report(
+        result.pendingActions.length > pendingBefore ? "deferred" : "wired"
+      );
+    }
+    if (await applied()) return report("wired");
+    return report(
+      "deferred",
+      result.pendingActions[result.pendingActions.length - 1]
+    );
+  };
+
+  /*//////////////////////////////////////////////////////////////
+                        DETERMINISTIC DEPLOYMENT
+  //////////////////////////////////////////////////////////////*/
+
+  // Deploy through CreateX; an address that already has code is reused as-is
+  const deployAt = async (
+    step: string,
+    saltName: string,
+    label: string,
+    initCode: string,
+    initData?: string
+  ): Promise<{ address: string; txHash?: string }> => {
+    const { mode, version } = options.deterministic!;
+    const { address, tx } = await deployDeterministic(hre, deployer, {
+      mode,
+      salt: deriveDeterministicSalt(deployerAddress, version, saltName),
+      initCode,
+      initData,
+    });
+    if (!tx) {
+      console.log(`   ♻️  Reusing ${label} at ${address} (predicted address)`);
+      return { address };
+    }
+    journal?.recordTx(step, label, tx.hash, "sent");
+    await reportTx(hre, tx, label, gasLog);
+    journal?.recordTx(step, label, tx.hash, "confirmed");
+    if ((await hre.ethers.provider.getCode(address)) === "0x") {
+      throw new Error(`${label} left no code at ${address}`);
+    }
+    return { address, txHash: tx.hash };
+  };
+
+  // Contracts owned by msg.sender are handed back by CreateX; two-step ones need accepting
+  const claimOwnership = async (
+    step: string,
+    name: string,
+    address: string
+  ): Promise<void> => {
+    const contract = new hre.ethers.Contract(
+      address,
+      ["function owner() view returns (address)", "function acceptOwnership()"],
+      deployer
+    );
+    if (sameValue(await contract.owner(), deployerAddress)) return;
+    await sendTx(step, `${name}.acceptOwnership`, () =>
+      contract.acceptOwnership()
+    );
+  };
+
+  const deployProxyAdminAt = async (step: string): Promise<string> => {
+    const factory = await getProxyAdminFactory(hre, deployer);
+    const { address, txHash } = await deployAt(
+      step,
+      PROXY_ADMIN_SALT_NAME,
+      "Deploy ProxyAdmin",
+      factory.bytecode,
+      encodeOwnershipClaim(deployerAddress)
+    );
+    if (txHash) console.log(`✅ ProxyAdmin deployed at ${address}`);
+    return address;
+  };
+
+  const deployContractAt = async (
+    entry: PlanEntry,
+    factory: any,
+    constructorArgs: any[],
+    label: string
+  ): Promise<{ address: string; txHash?: string }> => {
+    const deployed = await deployAt(
+      entry.name,
+      entry.proxy ? implementationSaltName(entry.name) : entry.name,
+      label,
+      (await factory.getDeployTransaction(...constructorArgs)).data,
+      entry.ownedBySender ? encodeOwnershipClaim(deployerAddress) : undefined
+    );
+    journal?.recordContract(entry.name, entry.name, deployed.address);
+    if (deployed.txHash && entry.ownedBySender) {
+      await claimOwnership(entry.name, entry.name, deployed.address);
+    }
+    return deployed;
+  };
+
+  /**
+   * A reused proxy must be the one this plan deploys: behind the shared
+   * ProxyAdmin and initialized with the plan's arguments. A proxy left
+   * uninitialized, or initialized by someone else, is refused.
+   */
+  const assertProxyState = async (
+    entry: PlanEntry,
+    factory: any,
+    address: string,
+    initArgs: any[]
+  ): Promise<void> => {
+    const proxy = entry.proxy!;
+    const admin = await hre.upgrades.erc1967.getAdminAddress(address);
+    if (!sameValue(admin, result.proxyAdmin)) {
+      throw new Error(
+        `${entry.name} proxy at ${address} is administered by ${admin}, not the plan's ProxyAdmin ${result.proxyAdmin}`
+      );
+    }
+    if (!proxy.initializer) return;
+
+    const contract: any = factory.attach(address);
+    try {
+      await contract[proxy.initializer].staticCall(...initArgs);
+    } catch (err: any) {
+      if (
+        !/already initialized|InvalidInitialization/.test(`${err?.message}`)
+      ) {
+        throw err;
+      }
+      for (const check of proxy.initializedState ?? []) {
+        const index = proxy.initializerParams.findIndex(
+          (param) => param.name === check.param
+        );
+        const expected = [initArgs[index]];
+        for (const handoff of entry.ownership ?? []) {
+          if (handoff.read !== check.read) continue;
+          const to = await resolveValue(handoff.to).catch(() => undefined);
+          if (to !== undefined) expected.push(to);
+        }
+        const actual = await contract[check.read]();
+        if (!expected.some((value) => sameValue(actual, value))) {
+          throw new Error(
+            `${entry.name} proxy at ${address} was initialized with ${check.read} ${actual}, expected ${expected.join(" or ")}: it may have been initialized by someone else`
+          );
+        }
+      }
+      console.log(`✅ ${entry.name} already initialized as planned.`);
+      return;
+    }
+    throw new Error(
+      `${entry.name} proxy at ${address} is not initialized: anyone can call ${proxy.initializer}; deploy it again under a new salt version`
+    );
+  };
+
+  /**
+   * Implementation, shared ProxyAdmin and a transparent proxy through
+   * CreateX, initialized by CreateX in the deploying transaction so the
+   * predicted address cannot be initialized by anyone else first. The proxy
+   * init code carries no initializer data, so the address does not depend on
+   * the initializer arguments.
+   */
+  const deployProxyAt = async (
+    entry: PlanEntry,
+    factory: any,
+    constructorArgs: any[],
+    initArgs: any[],
+    libraries: Record<string, string>,
+    label: string
+  ): Promise<{ address: string; txHash?: string }> => {
+    const step = entry.name;
+    const proxy = entry.proxy!;
+    if (proxy.kind !== "transparent") {
+      throw new Error(
+        `Deterministic mode only deploys transparent proxies (${entry.name} is ${proxy.kind})`
+      );
+    }
+    const upgradeOpts = {
+      kind: proxy.kind,
+      ...(constructorArgs.length > 0 ? { constructorArgs } : {}),
+      ...(proxy.unsafeAllow ? { unsafeAllow: proxy.unsafeAllow as any } : {}),
+      ...(Object.keys(libraries).length > 0
+        ? { unsafeAllowLinkedLibraries: true }
+        : {}),
+    };
+    await hre.upgrades.validateImplementation(factory, upgradeOpts);
+
+    const implementation = await deployAt(
+      step,
+      implementationSaltName(entry.name),
+      `Deploy ${entry.name} (implementation)`,
+      (await factory.getDeployTransaction(...constructorArgs)).data
+    );
+    result.proxyAdmin ??= await deployProxyAdminAt(step);
+    const proxyFactory = await getTransparentUpgradeableProxyFactory(
+      hre,
+      deployer
+    );
+    const deployed = await deployAt(
+      step,
+      entry.name,
+      label,
+      (
+        await proxyFactory.getDeployTransaction(
+          implementation.address,
+          result.proxyAdmin,
+          "0x"
+        )
+      ).data,
+      proxy.initializer
+        ? factory.interface.encodeFunctionData(proxy.initializer, initArgs)
+        : undefined
+    );
+    journal?.recordContract(step, entry.name, deployed.address, {
+      proxied: true,
+    });
+    if (!deployed.txHash) {
+      await assertProxyState(entry, factory, deployed.address, initArgs);
+    }
+    // Register the proxy with the upgrades plugin as deployProxy would
+    await hre.upgrades.forceImport(deployed.address, factory, upgradeOpts);
+    return deployed;
+  };
+
+  /*//////////////////////////////////////////////////////////////
+                            DEPLOYMENT
+  //////////////////////////////////////////////////////////////*/
+
+  const deployEntry = async (entry: PlanEntry): Promise<void> => {
+    const step = entry.name;
+    journal?.beginStep(step);
+
+    const asProxy = !!entry.proxy && !options.implementationsOnly;
+    const suffix = asProxy
+      ? " (proxy)"
+      : entry.proxy
+        ? " (implementation)"
+        : "";
+    const constructorArgs =
+      options.constructorArgs?.[entry.name] ??
+      (await resolveParams(entry, entry.constructorParams));
+    const initializerArgs =
+      asProxy && entry.proxy!.initializer
+        ? (options.initializerArgs?.[entry.name] ??
+          (await resolveParams(entry, entry.proxy!.initializerParams)))
+        : undefined;
+
+    let address = await findJournaled(step, entry.name);
+    const libraries: Record<string, string> = {};
+    let txHash: string | undefined;
+    let blockNumber: number | undefined;
+    if (!address) {
+      for (const lib of entry.libraries ?? []) {
+        let libAddress = await findJournaled(step, lib);
+        if (!libAddress && options.deterministic) {
+          const libFactory = await hre.ethers.getContractFactory(lib);
+          libAddress = (
+            await deployAt(
+              step,
+              lib,
+              `Deploy ${lib}`,
+              (await libFactory.getDeployTransaction()).data
+            )
+          ).address;
+          journal?.recordContract(step, lib, libAddress);
+        } else if (!libAddress) {
+          console.log(`\n⛏️  Deploying ${lib}...`);
+          const libFactory = await hre.ethers.getContractFactory(lib);
+          const library = await libFactory.deploy();
+          libAddress = await library.getAddress();
+          journal?.recordContract(step, lib, libAddress);
+          await library.waitForDeployment();
+          console.log(`✅ ${lib} deployed at ${libAddress}`);
+          await reportDeployment(hre, library, `Deploy ${lib}`, gasLog);
+        }
+        libraries[lib] = libAddress;
+      }
+
+      console.log(`\n⛏️  Deploying ${entry.name}${suffix}...`);
+      const factory = await hre.ethers.getContractFactory(entry.artifact, {
+        libraries,
+      });
+      const label = `Deploy ${entry.name}${suffix}`;
+      if (options.deterministic) {
+        ({ address, txHash } = asProxy
+          ? await deployProxyAt(
+              entry,
+              factory,
+              constructorArgs,
+              initializerArgs ?? [],
+              libraries,
+              label
+            )
+          : await deployContractAt(entry, factory, constructorArgs, label));
+        if (txHash) {
+          const receipt =
+            await hre.ethers.provider.getTransactionReceipt(txHash);
+          blockNumber = receipt?.blockNumber;
+          console.log(`✅ ${entry.name} deployed at ${address}`);
+        }
+      } else {
+        let deployed: any;
+        if (asProxy) {
+          const proxy = entry.proxy!;
+          deployed = await hre.upgrades.deployProxy(factory, initializerArgs, {
+            initializer: proxy.initializer,
+            kind: proxy.kind,
+            ...(constructorArgs.length > 0 ? { constructorArgs } : {}),
+            ...(proxy.unsafeAllow
+              ? { unsafeAllow: proxy.unsafeAllow as any }
+              : {}),
+            ...(Object.keys(libraries).length > 0
+              ? { unsafeAllowLinkedLibraries: true }
+              : {}),
+          });
+        } else {
+          deployed = await factory.deploy(...constructorArgs);
+        }
+        address = (await deployed.getAddress()) as string;
+        journal?.recordContract(step, entry.name, address, {
+          proxied: asProxy,
+        });
+        await deployed.waitForDeployment();
+        txHash = deployed.deploymentTransaction()?.hash;
+        if (txHash) {
+          const receipt =
+            await hre.ethers.provider.getTransactionReceipt(txHash);
+          blockNumber = receipt?.blockNumber;
+        }
+        console.log(`✅ ${entry.name} deployed at ${address}`);
+        await reportDeployment(hre, deployed, label, gasLog);
+      }
+    }
+    result.addresses[entry.name] = address;
+    if (asProxy) await recordProxyInfo(entry.name, address);
+
+    const implementation = result.implementations[entry.name];
+    result.deployed.push({
+      name: entry.name,
+      address,
+      implementation,
+      constructorArgs,
+      initializerArgs,
+      verify: entry.verify,
+      ...(Object.keys(libraries).length > 0 ? { libraries } : {}),
+      txHash,
+      blockNumber,
+    });
+
+    if (options.verify && entry.verify) {
+      await verifyContract(
+        hre,
+        implementation ?? address,
+        constructorArgs,
+        entry.verify,
+        dryRun
+      );
+    }
+
+    if (runSetup) {
+      for (const call of entry.setup ?? []) await runCall(entry, call);
+      for (const handoff of entry.ownership ?? []) {
+        await runHandoff(entry, handoff);
+      }
+      if (options.safe) {
+        for (const call of entry.setup ?? []) {
+          await runCall(entry, call, "safe");
+        }
+      }
+    }
+    journal?.completeStep(step);
+  };
+
+  if (options.wiringOnly) {
+    for (const entry of plan.entries) {
+      const edges = getWiringEdges(entry);
+      for (const call of entry.setup ?? []) {
+        if (!call.wiring) continue;
+        if (
+          options.wiringLabels &&
+          !options.wiringLabels.includes(call.label)
+        ) {
+          continue;
+        }
+        const edge = edges.find((e) => e.label === call.label)!;
+        await runWiring(entry, call, edge);
+      }
+    }
+    return result;
+  }
+
+  // Excluded entries must resolve to an address before anything is sent
+  for (const name of exclude) {
+    result.addresses[name] = requireAddress(name);
+  }
+
+  for (const entry of plan.entries) {
+    if (exclude.has(entry.name)) {
+      console.log(
+        `\n⏭️  Skipping ${entry.name} deployment (excluded). Using provided ${entry.name} at ${result.addresses[entry.name]}.`
+      );
+    } else if (journal?.isComplete(entry.name)) {
+      await restoreStep(entry);
+    } else {
+      await deployEntry(entry);
+    }
+  }
+
+  // Shared ProxyAdmin handoff
+  if (runSetup && plan.proxyAdminOwner && result.proxyAdmin) {
+    const desiredOwner = await resolveValue(plan.proxyAdminOwner);
+    if (journal?.isComplete("ProxyAdmin")) {
+      console.log("\n⏭️  Skipping ProxyAdmin handoff (completed in journal).");
+    } else if (desiredOwner !== undefined) {
+      journal?.beginStep("ProxyAdmin");
+      const proxyAdmin = await hre.ethers.getContractAt(
+        "ProxyAdmin",
+        result.proxyAdmin,
+        deployer
+      );
+      const currentOwner = await proxyAdmin.owner();
+      if (sameValue(desiredOwner, currentOwner)) {
+        console.log(`\n✅ ProxyAdmin owner already set to ${desiredOwner}`);
+      } else if (!sameValue(desiredOwner, deployerAddress)) {
+        console.log(
+          `\n⚙️  Transferring ProxyAdmin ownership to ${desiredOwner}...`
+        );
+        await sendTx("ProxyAdmin", "ProxyAdmin.transferOwnership", () =>
+          proxyAdmin.transferOwnership(desiredOwner)
+        );
+        console.log("✅ ProxyAdmin ownership transferred.");
+      }
+      journal?.completeStep("ProxyAdmin");
+    }
+  }
+
+  return result;
+}
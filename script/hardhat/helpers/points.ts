@@ -0,0 +1,430 @@
+import fs from "fs";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  EpochPoints,
+  LendingAction,
+  PointsConfig,
+  PointsEpoch,
+  PointsNftParams,
+  PointsRates,
+  PointsResult,
+  PointsTier,
+  TimelineEvent,
+} from "../types/points";
+import { readManifest } from "./manifest";
+
+const BPS = 10_000n;
+const DAY = 86_400n;
+/** VotingPowerMultiplier.MIN_MULTIPLIER_BPS */
+const MIN_MULTIPLIER_BPS = 10_000n;
+
+const BONUS_KEYS: Record<LendingAction, keyof PointsRates> = {
+  supply: "supplyDailyBonus",
+  borrow: "borrowDailyBonus",
+  repay: "repayDailyBonus",
+  withdraw: "withdrawDailyBonus",
+};
+
+/*//////////////////////////////////////////////////////////////
+                          MULTIPLIERS
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * VotingPowerMultiplier.getMultiplierForVotingPower: the last tier, in
+ * storage order, whose threshold the voting power reaches
+ */
+export function getVotingPowerMultiplier(
+  tiers: PointsTier[],
+  votingPower: bigint
+): bigint {
+  for (let i = tiers.length; i > 0; --i) {
+    if (votingPower >= tiers[i - 1].minVotingPower) {
+      return tiers[i - 1].multiplierBps;
+    }
+  }
+  return MIN_MULTIPLIER_BPS;
+}
+
+/**
+ * NFT multiplier for holding `count` partner collections:
+ * 1 + firstBonus * (1 - decayRatio^n) / (1 - decayRatio), summed term by term
+ * in basis points (1000/9000: n=1 → 11000, n=2 → 11900)
+ */
+export function getNftMultiplier(nft: PointsNftParams, count: bigint): bigint {
+  let multiplier = BPS;
+  let term = nft.firstBonus;
+  for (let i = 0n; i < count && term > 0n; i++) {
+    multiplier += term;
+    term = (term * nft.decayRatio) / BPS;
+  }
+  return multiplier;
+}
+
+/** NFT and voting power multipliers applied together */
+export const getCombinedMultiplier = (
+  nftMultiplierBps: bigint,
+  vpMultiplierBps: bigint
+): bigint => (nftMultiplierBps * vpMultiplierBps) / BPS;
+
+/*//////////////////////////////////////////////////////////////
+                          CALCULATOR
+//////////////////////////////////////////////////////////////*/
+
+const emptyEpoch = (epoch: PointsEpoch, endTime: number): EpochPoints => ({
+  epoch: epoch.epoch,
+  startTime: epoch.startTime,
+  endTime,
+  deposit: 0n,
+  borrow: 0n,
+  votingPower: 0n,
+  dailyBonus: 0n,
+  bonusCount: 0,
+  base: 0n,
+  multiplierBonus: 0n,
+  total: 0n,
+  multiplierBps: BPS,
+});
+
+/**
+ * Points a user earns per epoch from a timeline of lending actions,
+ * verified keeper states and configuration changes, following the formulas
+ * the subgraph applies (and the leaderboard Solidity tests document):
+ *
+ * - balances accrue `amount * rateBps / 10000` points per day, pro rata per
+ *   second: deposits at depositRateBps, borrows at borrowRateBps and voting
+ *   power at vpRateBps;
+ * - a lending action of at least minDailyBonusUsd earns its daily bonus once
+ *   per UTC day and action type, and no sooner than cooldownSeconds after
+ *   the previous bonus of that type;
+ * - everything earned is scaled by the NFT multiplier times the voting power
+ *   multiplier of the moment.
+ *
+ * Points only accrue inside epochs. Running epochs (endTime 0) end at
+ * `until`. Events apply in timestamp order from their timestamp on; each
+ * event closes an accrual segment whose points are floored on their own.
+ */
+export function calculatePoints(
+  config: PointsConfig,
+  epochs: PointsEpoch[],
+  timeline: TimelineEvent[],
+  until?: number
+): PointsResult {
+  const windows = [...epochs]
+    .sort((a, b) => a.startTime - b.startTime)
+    .map((epoch) => {
+      const endTime = epoch.endTime !== 0 ? epoch.endTime : until;
+      if (endTime === undefined) {
+        throw new Error(
+          `Epoch ${epoch.epoch} is still running: pass an end time`
+        );
+      }
+      return emptyEpoch(epoch, endTime);
+    });
+
+  const rates = { ...config.rates };
+  let tiers = config.tiers;
+  let nft = config.nft;
+  let depositUsd = 0n;
+  let borrowUsd = 0n;
+  let votingPower = 0n;
+  let multiplierVotingPower = 0n;
+  let nftCollectionCount = 0n;
+  const lastBonus: Partial<Record<LendingAction, number>> = {};
+
+  const multiplier = () =>
+    getCombinedMultiplier(
+      getNftMultiplier(nft, nftCollectionCount),
+      getVotingPowerMultiplier(tiers, multiplierVotingPower)
+    );
+
+  const accrue = (from: number, to: number) => {
+    const combined = multiplier();
+    for (const window of windows) {
+      const start = Math.max(from, window.startTime);
+      const end = Math.min(to, window.endTime);
+      if (end <= start) continue;
+      const seconds = BigInt(end - start);
+      const deposit =
+        (depositUsd * rates.depositRateBps * seconds) / (BPS * DAY);
+      const borrow = (borrowUsd * rates.borrowRateBps * seconds) / (BPS * DAY);
+      const vp = (votingPower * rates.vpRateBps * seconds) / (BPS * DAY);
+      const base = deposit + borrow + vp;
+      const total = (base * combined) / BPS;
+      window.deposit += deposit;
+      window.borrow += borrow;
+      window.votingPower += vp;
+      window.base += base;
+      window.multiplierBonus += total - base;
+      window.total += total;
+      window.multiplierBps = combined;
+    }
+  };
+
+  const awardBonus = (action: LendingAction, at: number, amountUsd: bigint) => {
+    const bonus = rates[BONUS_KEYS[action]];
+    if (bonus === 0n || amountUsd < rates.minDailyBonusUsd) return;
+    const window = windows.find((w) => at >= w.startTime && at < w.endTime);
+    if (!window) return;
+    const last = lastBonus[action];
+    if (
+      last !== undefined &&
+      (Math.floor(last / 86_400) === Math.floor(at / 86_400) ||
+        BigInt(at - last) < rates.cooldownSeconds)
+    ) {
+      return;
+    }
+    lastBonus[action] = at;
+    const total = (bonus * multiplier()) / BPS;
+    window.dailyBonus += bonus;
+    window.bonusCount++;
+    window.base += bonus;
+    window.multiplierBonus += total - bonus;
+    window.total += total;
+  };
+
+  let cursor = windows.length > 0 ? windows[0].startTime : 0;
+  const ordered = timeline
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => a.event.timestamp - b.event.timestamp || a.index - b.index)
+    .map(({ event }) => event);
+
+  for (const event of ordered) {
+    if (event.timestamp > cursor) {
+      accrue(cursor, event.timestamp);
+      cursor = event.timestamp;
+    }
+    switch (event.type) {
+      case "supply":
+        depositUsd += event.amountUsd;
+        awardBonus(event.type, event.timestamp, event.amountUsd);
+        break;
+      case "withdraw":
+        depositUsd =
+          event.amountUsd > depositUsd ? 0n : depositUsd - event.amountUsd;
+        awardBonus(event.type, event.timestamp, event.amountUsd);
+        break;
+      case "borrow":
+        borrowUsd += event.amountUsd;
+        awardBonus(event.type, event.timestamp, event.amountUsd);
+        break;
+      case "repay":
+        borrowUsd =
+          event.amountUsd > borrowUsd ? 0n : borrowUsd - event.amountUsd;
+        awardBonus(event.type, event.timestamp, event.amountUsd);
+        break;
+      case "position":
+        depositUsd = event.depositUsd;
+        borrowUsd = event.borrowUsd;
+        break;
+      case "state":
+        votingPower = event.votingPower;
+        multiplierVotingPower =
+          event.multiplierVotingPower ?? event.votingPower;
+        nftCollectionCount = event.nftCollectionCount;
+        break;
+      case "config":
+        Object.assign(rates, event.rates);
+        tiers = event.tiers ?? tiers;
+        nft = event.nft ?? nft;
+        break;
+    }
+  }
+  const lastEnd = Math.max(cursor, ...windows.map((w) => w.endTime));
+  accrue(cursor, lastEnd);
+
+  return {
+    epochs: windows,
+    total: windows.reduce((sum, w) => sum + w.total, 0n),
+  };
+}
+
+/*//////////////////////////////////////////////////////////////
+                            INPUTS
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Revive amounts written as decimal strings (timeline and golden files)
+ */
+export function parseTimelineEvent(raw: any): TimelineEvent {
+  const big = (value: any) => BigInt(value);
+  const bigs = (obj: Record<string, any>) =>
+    Object.fromEntries(Object.entries(obj).map(([k, v]) => [k, big(v)]));
+  const tiers = (list: any[]): PointsTier[] =>
+    list.map((tier) => ({
+      minVotingPower: big(tier.minVotingPower),
+      multiplierBps: big(tier.multiplierBps),
+    }));
+  const timestamp = Number(raw.timestamp);
+
+  switch (raw.type) {
+    case "supply":
+    case "borrow":
+    case "repay":
+    case "withdraw":
+      return { type: raw.type, timestamp, amountUsd: big(raw.amountUsd) };
+    case "position":
+      return {
+        type: "position",
+        timestamp,
+        depositUsd: big(raw.depositUsd),
+        borrowUsd: big(raw.borrowUsd),
+      };
+    case "state":
+      return {
+        type: "state",
+        timestamp,
+        votingPower: big(raw.votingPower),
+        multiplierVotingPower:
+          raw.multiplierVotingPower !== undefined
+            ? big(raw.multiplierVotingPower)
+            : undefined,
+        nftCollectionCount: big(raw.nftCollectionCount),
+      };
+    case "config":
+      return {
+        type: "config",
+        timestamp,
+        rates: raw.rates
+          ? (bigs(raw.rates) as Partial<PointsRates>)
+          : undefined,
+        tiers: raw.tiers ? tiers(raw.tiers) : undefined,
+        nft: raw.nft
+          ? (bigs(raw.nft) as unknown as PointsNftParams)
+          : undefined,
+      };
+    default:
+      throw new Error(`Unknown timeline event type "${raw.type}"`);
+  }
+}
+
+/** Revive a PointsConfig written with decimal strings */
+export function parsePointsConfig(raw: any): PointsConfig {
+  const event = parseTimelineEvent({ type: "config", timestamp: 0, ...raw });
+  if (event.type !== "config" || !event.rates || !event.tiers || !event.nft) {
+    throw new Error("Points config needs rates, tiers and nft");
+  }
+  return {
+    rates: event.rates as PointsRates,
+    tiers: event.tiers,
+    nft: event.nft,
+  };
+}
+
+/**
+ * Timeline file: `{ events: [...] }`, plus `config` and `epochs` when the
+ * calculation is not read from chain
+ */
+export function readTimelineFile(file: string): {
+  config?: PointsConfig;
+  epochs?: PointsEpoch[];
+  events: TimelineEvent[];
+} {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Timeline file not found at ${file}`);
+  }
+  const raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (!Array.isArray(raw.events)) {
+    throw new Error(`Timeline file ${file} has no events array`);
+  }
+  return {
+    config: raw.config ? parsePointsConfig(raw.config) : undefined,
+    epochs: raw.epochs?.map((epoch: any) => ({
+      epoch: Number(epoch.epoch),
+      startTime: Number(epoch.startTime),
+      endTime: Number(epoch.endTime ?? 0),
+    })),
+    events: raw.events.map(parseTimelineEvent),
+  };
+}
+
+/*//////////////////////////////////////////////////////////////
+                          ON-CHAIN STATE
+//////////////////////////////////////////////////////////////*/
+
+const getManifestAddress = (network: string, name: string): string => {
+  const address = readManifest(network)?.contracts[name]?.address;
+  if (!address) {
+    throw new Error(
+      `${name} not found in deployments/${network}/manifest.json`
+    );
+  }
+  return address;
+};
+
+/**
+ * Current LeaderboardConfig rates, VotingPowerMultiplier tiers and
+ * NFTPartnershipRegistry parameters of the network's deployment
+ */
+export async function readPointsConfig(
+  hre: HardhatRuntimeEnvironment
+): Promise<PointsConfig> {
+  const network = hre.network.name;
+  const leaderboardConfig = await hre.ethers.getContractAt(
+    [
+      "function getAllConfig() view returns (uint256 depositRate, uint256 borrowRate, uint256 vpRate, uint256 supplyBonus, uint256 borrowBonus, uint256 repayBonus, uint256 withdrawBonus, uint256 cooldown, uint256 minUsd)",
+    ],
+    getManifestAddress(network, "LeaderboardConfig")
+  );
+  const vpMultiplier = await hre.ethers.getContractAt(
+    [
+      "function getAllTiers() view returns ((uint256 minVotingPower, uint256 multiplierBps)[])",
+    ],
+    getManifestAddress(network, "VotingPowerMultiplier")
+  );
+  const registry = await hre.ethers.getContractAt(
+    [
+      "function firstBonus() view returns (uint256)",
+      "function decayRatio() view returns (uint256)",
+    ],
+    getManifestAddress(network, "NFTPartnershipRegistry")
+  );
+
+  const [all, tiers, firstBonus, decayRatio] = await Promise.all([
+    leaderboardConfig.getAllConfig(),
+    vpMultiplier.getAllTiers(),
+    registry.firstBonus(),
+    registry.decayRatio(),
+  ]);
+  return {
+    rates: {
+      depositRateBps: all.depositRate,
+      borrowRateBps: all.borrowRate,
+      vpRateBps: all.vpRate,
+      supplyDailyBonus: all.supplyBonus,
+      borrowDailyBonus: all.borrowBonus,
+      repayDailyBonus: all.repayBonus,
+      withdrawDailyBonus: all.withdrawBonus,
+      cooldownSeconds: all.cooldown,
+      minDailyBonusUsd: all.minUsd,
+    },
+    tiers: tiers.map((tier: any) => ({
+      minVotingPower: tier.minVotingPower,
+      multiplierBps: tier.multiplierBps,
+    })),
+    nft: { firstBonus, decayRatio },
+  };
+}
+
+/** All epochs started on the network's EpochManager */
+export async function readEpochs(
+  hre: HardhatRuntimeEnvironment
+): Promise<PointsEpoch[]> {
+  const epochManager = await hre.ethers.getContractAt(
+    [
+      "function currentEpoch() view returns (uint256)",
+      "function getEpochDetails(uint256 epochNumber) view returns (uint256 startBlock, uint256 startTime, uint256 endBlock, uint256 endTime)",
+    ],
+    getManifestAddress(hre.network.name, "EpochManager")
+  );
+  const current = Number(await epochManager.currentEpoch());
+  const epochs: PointsEpoch[] = [];
+  for (let epoch = 1; epoch <= current; epoch++) {
+    const details = await epochManager.getEpochDetails(epoch);
+    epochs.push({
+      epoch,
+      startTime: Number(details.startTime),
+      endTime: Number(details.endTime),
+    });
+  }
+  return epochs;
+}
@@ -0,0 +1,189 @@
+import fs from "fs";
+import path from "path";
+import { isAddress } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  NetworkProfile,
+  NetworkProfileFile,
+  ProfileAddressKey,
+} from "../types/profile";
+
+const BASE_PROFILE = "base";
+
+const PROFILE_KEYS: Array<keyof NetworkProfileFile> = [
+  "extends",
+  "description",
+  "chainId",
+  "addresses",
+  "defaults",
+];
+
+const ADDRESS_KEYS: ProfileAddressKey[] = [
+  "aavePoolAddressesProvider",
+  "poolAddressesProviderRegistry",
+  "monorailAggregator",
+  "usdc",
+  "dust",
+  "dustPair",
+  "pairUsdOracle",
+  "v4PoolManager",
+];
+
+/**
+ * Get the network profiles directory (script/hardhat/config/networks)
+ */
+export const getProfilesDir = (): string =>
+  path.resolve(__dirname, "..", "config", "networks");
+
+const getProfilePath = (name: string): string =>
+  path.join(getProfilesDir(), `${name}.json`);
+
+/** Names of the profiles on disk */
+export function listProfiles(): string[] {
+  const dir = getProfilesDir();
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => file.replace(/\.json$/, ""))
+    .sort();
+}
+
+/**
+ * Read a profile file and check its shape
+ * @throws Listing every problem found in the file
+ */
+function readProfileFile(name: string): NetworkProfileFile {
+  const file = getProfilePath(name);
+  if (!fs.existsSync(file)) {
+    throw new Error(`Network profile not found: ${file}`);
+  }
+  let profile: NetworkProfileFile;
+  try {
+    profile = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Unable to parse network profile ${file}: ${(error as Error).message}`
+    );
+  }
+
+  const problems: string[] = [];
+  for (const key of Object.keys(profile)) {
+    if (!PROFILE_KEYS.includes(key as keyof NetworkProfileFile)) {
+      problems.push(`unknown key "${key}"`);
+    }
+  }
+  if (profile.extends !== undefined) {
+    if (typeof profile.extends !== "string") {
+      problems.push("extends must be a profile name");
+    } else if (!fs.existsSync(getProfilePath(profile.extends))) {
+      problems.push(`extends unknown profile "${profile.extends}"`);
+    }
+  }
+  if (
+    profile.chainId !== undefined &&
+    (!Number.isInteger(profile.chainId) || profile.chainId <= 0)
+  ) {
+    problems.push("chainId must be a positive integer");
+  }
+  for (const [key, value] of Object.entries(profile.addresses ?? {})) {
+    if (!ADDRESS_KEYS.includes(key as ProfileAddressKey)) {
+      problems.push(`addresses.${key} is not a known address`);
+    } else if (typeof value !== "string" || !isAddress(value)) {
+      problems.push(`addresses.${key} is not an address: ${value}`);
+    }
+  }
+  for (const [key, value] of Object.entries(profile.defaults ?? {})) {
+    if (typeof value !== "string") {
+      problems.push(`defaults.${key} must be a string`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid network profile ${path.relative(process.cwd(), file)}:\n  • ${problems.join("\n  • ")}`
+    );
+  }
+  return profile;
+}
+
+/**
+ * Load a profile by name, merged over the profiles it extends
+ */
+export function resolveProfile(name: string): NetworkProfile {
+  const chain: Array<[string, NetworkProfileFile]> = [];
+  for (let current: string | undefined = name; current; ) {
+    if (chain.some(([seen]) => seen === current)) {
+      throw new Error(
+        `Network profile inheritance cycle: ${[...chain.map(([n]) => n), current].join(" → ")}`
+      );
+    }
+    const file = readProfileFile(current);
+    chain.push([current, file]);
+    current = file.extends;
+  }
+  chain.reverse();
+
+  const profile: NetworkProfile = {
+    name,
+    addresses: {},
+    defaults: {},
+    inherits: chain.map(([n]) => n),
+  };
+  for (const [, file] of chain) {
+    profile.chainId = file.chainId ?? profile.chainId;
+    Object.assign(profile.addresses, file.addresses);
+    Object.assign(profile.defaults, file.defaults);
+  }
+  return profile;
+}
+
+/**
+ * Profile of a network: config/networks/<network>.json, else the profile
+ * declaring the network's chain id, else the base profile
+ */
+export function loadNetworkProfile(
+  network: string,
+  chainId?: number
+): NetworkProfile {
+  const names = listProfiles();
+  if (names.includes(network)) return resolveProfile(network);
+  if (chainId !== undefined) {
+    const match = names.find(
+      (name) => readProfileFile(name).chainId === chainId
+    );
+    if (match) return resolveProfile(match);
+  }
+  return resolveProfile(BASE_PROFILE);
+}
+
+/**
+ * Profile of the network a task runs on
+ */
+export function getNetworkProfile(
+  hre: HardhatRuntimeEnvironment
+): NetworkProfile {
+  const profile = loadNetworkProfile(
+    hre.network.name,
+    hre.network.config.chainId
+  );
+  console.log(`🗺️  Network profile: ${profile.inherits.join(" → ")}`);
+  return profile;
+}
+
+/**
+ * Default for a parameter: its profile default, else the profile address
+ * under `configKey` or the parameter name
+ */
+export function getProfileDefault(
+  profile: NetworkProfile,
+  paramName: string,
+  configKey?: string
+): string | undefined {
+  const addresses = profile.addresses as Record<string, string>;
+  return (
+    profile.defaults[paramName] ??
+    (configKey ? addresses[configKey] : undefined) ??
+    addresses[paramName]
+  );
+}
@@ -0,0 +1,157 @@
+import fs from "fs";
+import path from "path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Contract } from "ethers";
+import { GasEntry } from "../types/deploy";
+import { SafeBatchFile, SafeTransaction } from "../types/safe";
+import { reportTx } from "./gas";
+import { redactSecrets } from "./interpolate";
+
+interface QueuedTransaction {
+  label: string;
+  tx: SafeTransaction;
+}
+
+/**
+ * Collects privileged calls per Safe and writes them as Safe Transaction
+ * Builder batch files (one JSON per Safe, importable in the Safe UI).
+ */
+export class SafeBatchCollector {
+  private readonly batches = new Map<string, QueuedTransaction[]>();
+
+  constructor(
+    private readonly chainId: number,
+    private readonly name: string
+  ) {}
+
+  get size(): number {
+    let count = 0;
+    for (const queued of this.batches.values()) count += queued.length;
+    return count;
+  }
+
+  /**
+   * Queue a call to be executed by `safe`
+   */
+  add(safe: string, to: string, data: string, label: string): void {
+    const key = safe.toLowerCase();
+    const queued = this.batches.get(key) ?? [];
+    queued.push({
+      label,
+      tx: {
+        to,
+        value: "0",
+        data,
+        contractMethod: null,
+        contractInputsValues: null,
+      },
+    });
+    this.batches.set(key, queued);
+    console.log(`   🧾 ${label} queued for Safe ${safe}`);
+  }
+
+  /**
+   * Rows for console.table: one per queued call
+   */
+  summary(): Array<{ safe: string; call: string; to: string }> {
+    const rows: Array<{ safe: string; call: string; to: string }> = [];
+    for (const [safe, queued] of this.batches) {
+      for (const { label, tx } of queued) {
+        rows.push({ safe, call: label, to: tx.to });
+      }
+    }
+    return rows;
+  }
+
+  /**
+   * Write one batch file per Safe into `dir`
+   * @returns Paths of the written files
+   */
+  write(dir: string): string[] {
+    if (this.batches.size === 0) return [];
+    fs.mkdirSync(dir, { recursive: true });
+    const written: string[] = [];
+    for (const [safe, queued] of this.batches) {
+      const batch: SafeBatchFile = {
+        version: "1.0",
+        chainId: this.chainId.toString(),
+        createdAt: Date.now(),
+        meta: {
+          name: this.name,
+          description: queued.map((q) => q.label).join("; "),
+          txBuilderVersion: "1.16.5",
+          createdFromSafeAddress: safe,
+          createdFromOwnerAddress: "",
+        },
+        transactions: queued.map((q) => q.tx),
+      };
+      const file = path.join(dir, `${safe}.json`);
+      fs.writeFileSync(file, JSON.stringify(redactSecrets(batch), null, 2));
+      written.push(file);
+    }
+    return written;
+  }
+}
+
+/**
+ * Folder for Safe batches of a session: deployments/{network}/{timestamp}-safe
+ * (written next to the deployment session folder)
+ */
+export function getSafeBatchDir(network: string, timestamp: number): string {
+  return path.join(
+    __dirname,
+    "../../../deployments",
+    network,
+    `${timestamp}-safe`
+  );
+}
+
+/**
+ * Call an onlyOwner function: written as a Safe batch when the owner is a
+ * contract (or `safe` is set), else sent from the configured signer, which
+ * must be the owner
+ * @returns Whether the call was sent (false when it was queued for the Safe)
+ */
+export async function callAsOwner(
+  hre: HardhatRuntimeEnvironment,
+  call: {
+    contract: Contract;
+    owner: string;
+    method: string;
+    args?: any[];
+    label: string;
+    safe?: boolean;
+  }
+): Promise<boolean> {
+  const { contract, owner, method, args = [], label } = call;
+  const ownerIsContract = (await hre.ethers.provider.getCode(owner)) !== "0x";
+  if (call.safe || ownerIsContract) {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const batch = new SafeBatchCollector(Number(chainId), label);
+    batch.add(
+      owner,
+      await contract.getAddress(),
+      contract.interface.encodeFunctionData(method, args),
+      label
+    );
+    for (const file of batch.write(
+      getSafeBatchDir(hre.network.name, Date.now())
+    )) {
+      console.log(
+        `🧾 Safe batch written: ${path.relative(process.cwd(), file)}`
+      );
+    }
+    return false;
+  }
+
+  const [signer] = await hre.ethers.getSigners();
+  const signerAddress = await signer.getAddress();
+  if (signerAddress.toLowerCase() !== owner.toLowerCase()) {
+    throw new Error(`Signer ${signerAddress} is not the owner ${owner}`);
+  }
+  const tx = await (contract.connect(signer) as any)[method](...args);
+  console.log(`⚙️  ${label}: ${tx.hash}`);
+  const gasLog: GasEntry[] = [];
+  await reportTx(hre, tx, label, gasLog);
+  return true;
+}
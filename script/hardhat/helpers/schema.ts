@@ -0,0 +1,245 @@
+import { getAddress, isAddress } from "ethers";
+import { JsonSchema, SchemaError } from "../types/schema";
+
+const MAX_UINT256 = (1n << 256n) - 1n;
+const MAX_BPS = 10_000n;
+
+/*//////////////////////////////////////////////////////////////
+                            VALIDATION
+//////////////////////////////////////////////////////////////*/
+
+/** JSON path of a property or array element below `parent` */
+export const childPath = (parent: string, key: string | number): string => {
+  if (typeof key === "number") return `${parent}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${parent}.${key}`
+    : `${parent}[${JSON.stringify(key)}]`;
+};
+
+const describe = (value: unknown): string =>
+  Array.isArray(value) ? "array" : value === null ? "null" : typeof value;
+
+const checkType = (schema: JsonSchema, value: unknown): boolean => {
+  switch (schema.type) {
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    case undefined:
+      return true;
+    default:
+      return typeof value === schema.type;
+  }
+};
+
+/** Problem with a formatted string, if any */
+function checkFormat(schema: JsonSchema, value: string): string | undefined {
+  switch (schema.format) {
+    case "address":
+      if (!isAddress(value)) return `is not an address: ${value}`;
+      if (getAddress(value) !== value) {
+        return `is not checksummed: ${value} (expected ${getAddress(value)})`;
+      }
+      return undefined;
+    case "uint256":
+    case "bps": {
+      if (!/^\d+$/.test(value)) {
+        return `must be a decimal integer string, got "${value}"`;
+      }
+      const amount = BigInt(value);
+      if (amount > MAX_UINT256) return `does not fit in a uint256: ${value}`;
+      if (schema.format === "bps" && amount > MAX_BPS) {
+        return `must be at most ${MAX_BPS} bps, got ${value}`;
+      }
+      return undefined;
+    }
+    case "bytes32":
+      return /^0x[0-9a-fA-F]{64}$/.test(value)
+        ? undefined
+        : `is not a bytes32 (0x followed by 64 hex characters): ${value}`;
+    case "uri":
+      return /^https?:\/\/\S+$/.test(value)
+        ? undefined
+        : `is not an http(s) URI: ${value}`;
+    default:
+      return undefined;
+  }
+}
+
+/** Problem with minimum/maximum, comparing uint strings as bigints */
+function checkBounds(schema: JsonSchema, value: unknown): string | undefined {
+  if (schema.minimum === undefined && schema.maximum === undefined) {
+    return undefined;
+  }
+  let amount: bigint;
+  if (typeof value === "number" && Number.isInteger(value)) {
+    amount = BigInt(value);
+  } else if (typeof value === "string" && /^\d+$/.test(value)) {
+    amount = BigInt(value);
+  } else {
+    return undefined; // Reported by the type or format check
+  }
+  if (schema.minimum !== undefined && amount < BigInt(schema.minimum)) {
+    return `must be at least ${schema.minimum}, got ${value}`;
+  }
+  if (schema.maximum !== undefined && amount > BigInt(schema.maximum)) {
+    return `must be at most ${schema.maximum}, got ${value}`;
+  }
+  return undefined;
+}
+
+/**
+ * Validate a value against a schema, collecting every error rather than
+ * stopping at the first. Empty strings count as unset, as the deploy tasks
+ * treat them: they fail `required` and skip every other check.
+ */
+export function validateSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path = "$"
+): SchemaError[] {
+  const errors: SchemaError[] = [];
+  const fail = (at: string, message: string) =>
+    errors.push({ path: at, message });
+
+  if (!checkType(schema, value)) {
+    fail(
+      path,
+      `must be ${/^[aeiou]/.test(schema.type!) ? "an" : "a"} ${schema.type}, got ${describe(value)}`
+    );
+    return errors;
+  }
+  if (schema.enum && !schema.enum.includes(value as any)) {
+    fail(
+      path,
+      `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}, got ${JSON.stringify(value)}`
+    );
+  }
+  if (typeof value === "string" && schema.format) {
+    const problem = checkFormat(schema, value);
+    if (problem) fail(path, problem);
+  }
+  const outOfBounds = checkBounds(schema, value);
+  if (outOfBounds) fail(path, outOfBounds);
+
+  if (schema.type === "object") {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined || object[key] === "") {
+        fail(childPath(path, key), "is required");
+      }
+    }
+    for (const [key, child] of Object.entries(object)) {
+      const childSchema = properties[key];
+      if (!childSchema) {
+        if (schema.additionalProperties === false) {
+          fail(childPath(path, key), "is not a known property");
+        }
+        continue;
+      }
+      if (child === undefined || child === "") continue;
+      errors.push(...validateSchema(childSchema, child, childPath(path, key)));
+    }
+  }
+
+  if (schema.type === "array") {
+    const items = value as unknown[];
+    if (schema.minItems !== undefined && items.length < schema.minItems) {
+      fail(path, `must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+      fail(path, `must have at most ${schema.maxItems} item(s)`);
+    }
+    items.forEach((item, index) => {
+      if (schema.items) {
+        errors.push(
+          ...validateSchema(schema.items, item, childPath(path, index))
+        );
+      }
+      if (schema.uniqueItems) {
+        const first = items.findIndex(
+          (other) => JSON.stringify(other) === JSON.stringify(item)
+        );
+        if (first !== index) {
+          fail(childPath(path, index), `duplicates ${childPath(path, first)}`);
+        }
+      }
+    });
+  }
+  return errors;
+}
+
+/** One line per error, for error messages and logs */
+export const formatSchemaErrors = (errors: SchemaError[]): string =>
+  errors.map((error) => `  • ${error.path} ${error.message}`).join("\n");
+
+/*//////////////////////////////////////////////////////////////
+                          TYPE GENERATION
+//////////////////////////////////////////////////////////////*/
+
+const docComment = (text: string | undefined, indent: string): string =>
+  text ? `${indent}/** ${text} */\n` : "";
+
+const propertyKey = (key: string): string =>
+  /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+
+/**
+ * TypeScript declarations for a set of schemas: one interface per titled
+ * object schema (roots and nested), other objects inlined
+ */
+export function generateTypeDeclarations(schemas: JsonSchema[]): string {
+  const queue = [...schemas];
+  const declared = new Set<string>();
+  const declarations: string[] = [];
+
+  const render = (schema: JsonSchema, indent: string): string => {
+    if (schema.type === "object" && schema.title) {
+      if (!declared.has(schema.title)) queue.push(schema);
+      return schema.title;
+    }
+    if (schema.enum) {
+      return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+    }
+    switch (schema.type) {
+      case "object":
+        return renderObject(schema, indent);
+      case "array": {
+        const item = schema.items ? render(schema.items, indent) : "unknown";
+        return item.includes("|") ? `Array<${item}>` : `${item}[]`;
+      }
+      case "integer":
+        return "number";
+      case "string":
+      case "boolean":
+        return schema.type;
+      default:
+        return "unknown";
+    }
+  };
+
+  const renderObject = (schema: JsonSchema, indent: string): string => {
+    const inner = `${indent}  `;
+    const required = new Set(schema.required ?? []);
+    const lines = Object.entries(schema.properties ?? {}).map(
+      ([key, child]) =>
+        `${docComment(child.title ? undefined : child.description, inner)}${inner}${propertyKey(key)}${required.has(key) ? "" : "?"}: ${render(child, inner)};`
+    );
+    return `{\n${lines.join("\n")}\n${indent}}`;
+  };
+
+  while (queue.length > 0) {
+    const schema = queue.shift()!;
+    if (!schema.title) throw new Error("Top-level schemas need a title");
+    if (declared.has(schema.title)) continue;
+    declared.add(schema.title);
+    declarations.push(
+      `${docComment(schema.description, "")}export interface ${schema.title} ${renderObject(schema, "")}`
+    );
+  }
+  return declarations.join("\n\n");
+}
@@ -0,0 +1,49 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Signer } from "ethers";
+import { registerSecret } from "./interpolate";
+
+/**
+ * Get a signer for an address, impersonating it when running a dry-run on a fork
+ */
+export const tryGetSigner = async (
+  hre: HardhatRuntimeEnvironment,
+  address: string,
+  opts?: { dryRun?: boolean }
+): Promise<Signer | null> => {
+  try {
+    return await hre.ethers.getSigner(address);
+  } catch {}
+  if (opts?.dryRun) {
+    try {
+      await hre.network.provider.request({
+        method: "hardhat_impersonateAccount",
+        params: [address],
+      });
+      return await hre.ethers.getSigner(address);
+    } catch (impErr) {
+      console.warn(
+        `⚠️  Unable to impersonate signer for ${address}: ${(impErr as Error).message}`
+      );
+    }
+  }
+  console.warn(`⚠️  Unable to get signer for ${address}`);
+  return null;
+};
+
+/**
+ * Build a wallet from a private key stored in an environment variable
+ */
+export const getEnvWallet = (
+  hre: HardhatRuntimeEnvironment,
+  envVar: string
+): Signer | null => {
+  const pk = process.env[envVar];
+  if (!pk || pk.trim() === "") return null;
+  registerSecret(envVar, pk);
+  try {
+    return new hre.ethers.Wallet(pk, hre.ethers.provider);
+  } catch (e) {
+    console.warn(`⚠️  Invalid private key in ${envVar}`);
+    return null;
+  }
+};
@@ -0,0 +1,227 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contract, id } from "ethers";
+import type { FunctionFragment, Provider } from "ethers";
+import { DeploymentManifest } from "../types/manifest";
+import { SimulationRead } from "../types/upgrade";
+
+/**
+ * Spread `count` token ids over 1..DustLock.tokenId(), always including the latest
+ */
+export async function sampleTokenIds(
+  hre: HardhatRuntimeEnvironment,
+  manifest: DeploymentManifest,
+  count: number
+): Promise<bigint[]> {
+  const dustLock = manifest.contracts.DustLock?.address;
+  if (!dustLock || count <= 0) return [];
+  const latest = BigInt(
+    await new hre.ethers.Contract(
+      dustLock,
+      ["function tokenId() view returns (uint256)"],
+      hre.ethers.provider
+    ).tokenId()
+  );
+  if (latest === BigInt(0)) return [];
+  const ids = new Set<bigint>();
+  for (let i = 1; i <= count; i++) {
+    const id = (latest * BigInt(i)) / BigInt(count);
+    if (id > BigInt(0)) ids.add(id);
+  }
+  return [...ids].sort((a, b) => (a < b ? -1 : 1));
+}
+
+/**
+ * The standard reads replayed around an upgrade. Time-dependent reads are
+ * pinned to `timestamp` so the blocks mined by the upgrade don't move them;
+ * reverts are recorded as values so a new revert also counts as divergence
+ */
+export async function collectUpgradeReads(
+  hre: HardhatRuntimeEnvironment,
+  manifest: DeploymentManifest,
+  opts: { timestamp: number; tokenIds: bigint[] }
+): Promise<Record<string, string>> {
+  const reads: Record<string, string> = {};
+  const read = async (
+    label: string,
+    contract: string,
+    signature: string,
+    args: unknown[] = []
+  ): Promise<unknown> => {
+    const address = manifest.contracts[contract]?.address;
+    if (!address) return undefined;
+    const instance = new hre.ethers.Contract(
+      address,
+      [signature],
+      hre.ethers.provider
+    );
+    const fragment = instance.interface.fragments[0] as FunctionFragment;
+    try {
+      const value = await instance.getFunction(fragment.name)(...args);
+      reads[label] = String(value);
+      return value;
+    } catch (error) {
+      reads[label] =
+        `revert: ${((error as any)?.shortMessage ?? (error as Error).message).split("\n")[0]}`;
+      return undefined;
+    }
+  };
+
+  const { timestamp, tokenIds } = opts;
+  await read(
+    "DustLock.supply()",
+    "DustLock",
+    "function supply() view returns (uint256)"
+  );
+  await read(
+    `DustLock.totalSupplyAt(${timestamp})`,
+    "DustLock",
+    "function totalSupplyAt(uint256) view returns (uint256)",
+    [timestamp]
+  );
+  for (const id of tokenIds) {
+    await read(
+      `DustLock.balanceOfNFTAt(${id}, ${timestamp})`,
+      "DustLock",
+      "function balanceOfNFTAt(uint256, uint256) view returns (uint256)",
+      [id, timestamp]
+    );
+  }
+
+  const rewardTokens = (await read(
+    "RevenueReward.getRewardTokens()",
+    "RevenueReward",
+    "function getRewardTokens() view returns (address[])"
+  )) as string[] | undefined;
+  for (const token of rewardTokens ?? []) {
+    for (const id of tokenIds) {
+      await read(
+        `RevenueReward.earnedRewards(${token}, ${id}, ${timestamp})`,
+        "RevenueReward",
+        "function earnedRewards(address, uint256, uint256) view returns (uint256)",
+        [token, id, timestamp]
+      );
+    }
+  }
+
+  const dust = manifest.contracts.Dust?.address;
+  if (dust) {
+    await read(
+      "DustRewardsController.getTransferStrategy(Dust)",
+      "DustRewardsController",
+      "function getTransferStrategy(address) view returns (address)",
+      [dust]
+    );
+  }
+  return reads;
+}
+
+export const diffReads = (
+  before: Record<string, string>,
+  after: Record<string, string>
+): SimulationRead[] =>
+  [...new Set([...Object.keys(before), ...Object.keys(after)])].map(
+    (check) => ({
+      check,
+      before: before[check] ?? "(not read)",
+      after: after[check] ?? "(not read)",
+      diverged: before[check] !== after[check],
+    })
+  );
+
+/*//////////////////////////////////////////////////////////////
+                          USER VAULTS
+//////////////////////////////////////////////////////////////*/
+
+const USER_VAULT_CREATED_TOPIC = id("UserVaultCreated(address,address)");
+
+const USER_VAULT_ABI = [
+  "function user() view returns (address)",
+  "function revenueReward() view returns (address)",
+  "function userVaultRegistry() view returns (address)",
+  "function poolAddressesProviderRegistry() view returns (address)",
+  "function initialize(address, address, address, address)",
+];
+
+/**
+ * Owners of the vaults created by UserVaultFactory, oldest first
+ */
+export async function findVaultUsers(
+  provider: Provider,
+  factory: string,
+  opts: { fromBlock: number; toBlock: number; chunkSize: number }
+): Promise<string[]> {
+  const users: string[] = [];
+  for (
+    let from = opts.fromBlock;
+    from <= opts.toBlock;
+    from += opts.chunkSize
+  ) {
+    const logs = await provider.getLogs({
+      address: factory,
+      topics: [USER_VAULT_CREATED_TOPIC],
+      fromBlock: from,
+      toBlock: Math.min(from + opts.chunkSize - 1, opts.toBlock),
+    });
+    for (const log of logs) {
+      users.push(`0x${log.topics[1].slice(26)}`);
+    }
+  }
+  return users;
+}
+
+/**
+ * Pick `count` items spread evenly over a list, always including the last
+ */
+export const sampleEvenly = <T>(items: T[], count: number): T[] => {
+  if (count >= items.length) return items;
+  const picked = new Set<T>();
+  for (let i = 1; i <= count; i++) {
+    picked.add(items[Math.ceil((items.length * i) / count) - 1]);
+  }
+  return [...picked];
+};
+
+/**
+ * Reads replayed on each sampled vault around a beacon upgrade: the vault
+ * lookup, the initialized references and the initializer lock
+ */
+export async function collectVaultReads(
+  provider: Provider,
+  factory: string,
+  users: string[]
+): Promise<Record<string, string>> {
+  const reads: Record<string, string> = {};
+  const record = async (label: string, call: () => Promise<unknown>) => {
+    try {
+      reads[label] = String(await call());
+    } catch (error) {
+      reads[label] =
+        `revert: ${((error as any)?.shortMessage ?? (error as Error).message).split("\n")[0]}`;
+    }
+  };
+
+  const factoryContract = new Contract(
+    factory,
+    ["function getUserVault(address) view returns (address)"],
+    provider
+  );
+  for (const user of users) {
+    const vaultAddress: string = await factoryContract.getUserVault(user);
+    reads[`UserVaultFactory.getUserVault(${user})`] = vaultAddress;
+    const vault = new Contract(vaultAddress, USER_VAULT_ABI, provider);
+    for (const getter of [
+      "user",
+      "revenueReward",
+      "userVaultRegistry",
+      "poolAddressesProviderRegistry",
+    ]) {
+      await record(`${vaultAddress}.${getter}()`, () =>
+        vault.getFunction(getter)()
+      );
+    }
+    await record(`${vaultAddress}.initialize(...)`, () =>
+      vault.initialize.staticCall(user, user, user, user, { from: factory })
+    );
+  }
+  return reads;
+}
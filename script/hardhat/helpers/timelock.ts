@@ -0,0 +1,244 @@
+import fs from "fs";
+import path from "path";
+import { AbiCoder, Interface, ZeroHash, isHexString, keccak256 } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  TimelockOperation,
+  TimelockOperationStatus,
+  TimelockQueue,
+} from "../types/timelock";
+import { getDeploymentsDir } from "./manifest";
+import { getUnderlyingChainId } from "./fork";
+
+export const TIMELOCK_ABI = [
+  "function getMinDelay() view returns (uint256)",
+  "function getTimestamp(bytes32 id) view returns (uint256)",
+  "function isOperationReady(bytes32 id) view returns (bool)",
+  "function schedule(address target, uint256 value, bytes data, bytes32 predecessor, bytes32 salt, uint256 delay)",
+  "function execute(address target, uint256 value, bytes payload, bytes32 predecessor, bytes32 salt) payable",
+];
+
+const timelockInterface = new Interface(TIMELOCK_ABI);
+const coder = AbiCoder.defaultAbiCoder();
+
+// getTimestamp() of executed operations
+const DONE_TIMESTAMP = BigInt(1);
+
+/**
+ * Get the timelock queue path for a network: deployments/{network}/timelock.json
+ */
+export const getTimelockQueuePath = (network: string): string =>
+  path.join(getDeploymentsDir(network), "timelock.json");
+
+export function readTimelockQueue(network: string): TimelockQueue | null {
+  const file = getTimelockQueuePath(network);
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+export function writeTimelockQueue(queue: TimelockQueue): void {
+  const file = getTimelockQueuePath(queue.network);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(queue, null, 2));
+}
+
+/**
+ * Salt derived from the call and its index in the queue, so the same call
+ * proposed again after it executed (e.g. a rollback) gets a new operation id
+ */
+export const deriveSalt = (
+  label: string,
+  target: string,
+  data: string,
+  index: number
+) =>
+  keccak256(
+    coder.encode(
+      ["string", "address", "bytes", "uint256"],
+      [label, target, data, index]
+    )
+  );
+
+/** Same as TimelockController.hashOperation */
+export const hashOperation = (
+  target: string,
+  value: bigint,
+  data: string,
+  predecessor: string,
+  salt: string
+): string =>
+  keccak256(
+    coder.encode(
+      ["address", "uint256", "bytes", "bytes32", "bytes32"],
+      [target, value, data, predecessor, salt]
+    )
+  );
+
+/**
+ * On-chain state of an operation; `eta` is the unix time it becomes ready
+ */
+export async function getOperationStatus(
+  hre: HardhatRuntimeEnvironment,
+  timelock: string,
+  id: string
+): Promise<{ status: TimelockOperationStatus; eta?: number }> {
+  const contract = new hre.ethers.Contract(
+    timelock,
+    TIMELOCK_ABI,
+    hre.ethers.provider
+  );
+  const timestamp = BigInt(await contract.getTimestamp(id));
+  if (timestamp === BigInt(0)) return { status: "unset" };
+  if (timestamp === DONE_TIMESTAMP) return { status: "done" };
+  return {
+    status: (await contract.isOperationReady(id)) ? "ready" : "pending",
+    eta: Number(timestamp),
+  };
+}
+
+/**
+ * Queue a call through a TimelockController: derive the salt, chain it after
+ * the latest scheduled (pending or ready) operation of the same timelock unless
+ * a predecessor is given, and record the schedule/execute calldata in
+ * deployments/<network>/timelock.json
+ */
+export async function proposeTimelockCall(
+  hre: HardhatRuntimeEnvironment,
+  opts: {
+    timelock: string;
+    target: string;
+    data: string;
+    label: string;
+    value?: bigint;
+    /** Schedule delay, defaults to getMinDelay() */
+    delay?: number;
+    upgrade?: TimelockOperation["upgrade"];
+    /** Operation id to chain after; ZeroHash for none */
+    predecessor?: string;
+  }
+): Promise<TimelockOperation> {
+  const network = hre.network.name;
+  const queue: TimelockQueue = readTimelockQueue(network) ?? {
+    version: 1,
+    network,
+    chainId: await getUnderlyingChainId(hre),
+    operations: [],
+  };
+  const value = opts.value ?? BigInt(0);
+
+  // The same call queued and not executed yet is returned as is
+  const matches = queue.operations.filter(
+    (op) =>
+      op.timelock.toLowerCase() === opts.timelock.toLowerCase() &&
+      op.label === opts.label &&
+      op.target.toLowerCase() === opts.target.toLowerCase() &&
+      op.data === opts.data &&
+      op.value === value.toString()
+  );
+  for (const existing of matches) {
+    const { status } = await getOperationStatus(
+      hre,
+      opts.timelock,
+      existing.id
+    );
+    if (status !== "done") {
+      console.log(`ℹ️  ${opts.label} is already queued as ${existing.id}`);
+      return existing;
+    }
+  }
+  const salt = deriveSalt(
+    opts.label,
+    opts.target,
+    opts.data,
+    queue.operations.length
+  );
+
+  let predecessor = ZeroHash;
+  if (opts.predecessor !== undefined) {
+    if (!isHexString(opts.predecessor, 32)) {
+      throw new Error(
+        `Predecessor ${opts.predecessor} is not an operation id (bytes32)`
+      );
+    }
+    predecessor = opts.predecessor;
+    if (predecessor !== ZeroHash) {
+      const { status } = await getOperationStatus(
+        hre,
+        opts.timelock,
+        predecessor
+      );
+      if (status === "unset") {
+        console.warn(
+          `⚠️  Predecessor ${predecessor} is not scheduled: ${opts.label} cannot execute until it is`
+        );
+      }
+    }
+  } else {
+    // Unscheduled operations may never run and executed ones need no chaining
+    const previous = queue.operations
+      .filter((op) => op.timelock.toLowerCase() === opts.timelock.toLowerCase())
+      .reverse();
+    for (const op of previous) {
+      const { status } = await getOperationStatus(hre, opts.timelock, op.id);
+      if (status === "pending" || status === "ready") {
+        predecessor = op.id;
+        break;
+      }
+    }
+  }
+
+  const timelock = new hre.ethers.Contract(
+    opts.timelock,
+    TIMELOCK_ABI,
+    hre.ethers.provider
+  );
+  const minDelay = Number(await timelock.getMinDelay());
+  const delay = opts.delay ?? minDelay;
+  if (delay < minDelay) {
+    throw new Error(
+      `Delay ${delay}s is below the timelock minimum ${minDelay}s`
+    );
+  }
+
+  const operation: TimelockOperation = {
+    id: hashOperation(opts.target, value, opts.data, predecessor, salt),
+    label: opts.label,
+    timelock: opts.timelock,
+    target: opts.target,
+    value: value.toString(),
+    data: opts.data,
+    predecessor,
+    salt,
+    delay,
+    schedule: timelockInterface.encodeFunctionData("schedule", [
+      opts.target,
+      value,
+      opts.data,
+      predecessor,
+      salt,
+      delay,
+    ]),
+    execute: timelockInterface.encodeFunctionData("execute", [
+      opts.target,
+      value,
+      opts.data,
+      predecessor,
+      salt,
+    ]),
+    createdAt: new Date().toISOString(),
+    upgrade: opts.upgrade,
+  };
+  queue.operations.push(operation);
+  writeTimelockQueue(queue);
+
+  console.log(`⏳ ${opts.label} queued for timelock ${opts.timelock}`);
+  console.log(`   id:          ${operation.id}`);
+  console.log(`   predecessor: ${predecessor}`);
+  console.log(`   delay:       ${delay}s`);
+  console.log(`   schedule:    ${operation.schedule}`);
+  console.log(`   execute:     ${operation.execute}`);
+  console.log(
+    `📄 Calldata recorded in ${path.relative(process.cwd(), getTimelockQueuePath(network))}`
+  );
+  return operation;
+}
@@ -0,0 +1,190 @@
+import path from "path";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Signer } from "ethers";
+import { KeeperArgs, KeeperOptions, KeeperRunSummary } from "./types";
+import {
+  DEFAULT_TOLERANCE_BPS,
+  LeaderboardKeeperBot,
+  readUserList,
+} from "./helpers/keeper";
+import { getEnvWallet, tryGetSigner } from "./helpers/signers";
+import { readManifest } from "./helpers/manifest";
+
+/*//////////////////////////////////////////////////////////////
+                        CONFIGURATION
+//////////////////////////////////////////////////////////////*/
+
+/** Environment variable holding the keeper bot's private key */
+const KEEPER_KEY_ENV = "KEEPER_PRIVATE_KEY";
+
+const DEFAULT_INTERVAL_SECONDS = 3600;
+const DEFAULT_MAX_RETRIES = 3;
+const RETRY_DELAY_MS = 5_000;
+const LOG_CHUNK_SIZE = 5_000;
+
+/*//////////////////////////////////////////////////////////////
+                            HELPERS
+//////////////////////////////////////////////////////////////*/
+
+const resolvePath = (maybePath: string): string =>
+  path.isAbsolute(maybePath) ? maybePath : path.join(process.cwd(), maybePath);
+
+const parseCount = (
+  name: string,
+  value: string | undefined,
+  fallback: number
+) => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative integer, got ${value}`);
+  }
+  return parsed;
+};
+
+/**
+ * Signer for keeper runs: KEEPER_PRIVATE_KEY, else the configured account.
+ * Dry runs on a fork impersonate the on-chain keeper instead.
+ */
+const getKeeperSigner = async (
+  hre: HardhatRuntimeEnvironment,
+  dryRun: boolean
+): Promise<Signer> => {
+  if (dryRun) {
+    const keeperAddress = readManifest(hre.network.name)?.contracts
+      .LeaderboardKeeper?.address;
+    if (keeperAddress) {
+      const keeper = await hre.ethers.getContractAt(
+        ["function keeper() view returns (address)"],
+        keeperAddress
+      );
+      const signer = await tryGetSigner(hre, await keeper.keeper(), {
+        dryRun,
+      });
+      if (signer) return signer;
+    }
+  }
+  const wallet = getEnvWallet(hre, KEEPER_KEY_ENV);
+  if (wallet) return wallet;
+  const [signer] = await hre.ethers.getSigners();
+  if (!signer) {
+    throw new Error(`No signer: set ${KEEPER_KEY_ENV} or configure an account`);
+  }
+  return signer;
+};
+
+const printSummary = (summary: KeeperRunSummary): void => {
+  console.log("\n📊 Keeper run:");
+  console.table(summary);
+};
+
+/*//////////////////////////////////////////////////////////////
+                          TASK: KEEPER
+//////////////////////////////////////////////////////////////*/
+
+task(
+  "keeper:run",
+  "Discover leaderboard users and settle them through LeaderboardKeeper"
+)
+  .addFlag("loop", "Keep running, settling every --interval seconds")
+  .addOptionalParam(
+    "interval",
+    `Seconds between runs in --loop mode (default ${DEFAULT_INTERVAL_SECONDS})`
+  )
+  .addFlag("dryRun", "Simulate batches without sending or saving state")
+  .addOptionalParam(
+    "users",
+    "File of extra user addresses (JSON array or one per line)"
+  )
+  .addOptionalParam(
+    "fromBlock",
+    "First block to scan when there is no keeper state file"
+  )
+  .addOptionalParam(
+    "toleranceBps",
+    `Voting power drift settled without a correction (default ${DEFAULT_TOLERANCE_BPS})`
+  )
+  .addOptionalParam(
+    "maxRetries",
+    `Attempts per batch before giving up (default ${DEFAULT_MAX_RETRIES})`
+  )
+  .setAction(async (taskArgs: KeeperArgs, hre: HardhatRuntimeEnvironment) => {
+    try {
+      const dryRun = taskArgs.dryRun ?? false;
+      const options: KeeperOptions = {
+        dryRun,
+        toleranceBps: parseCount(
+          "tolerance-bps",
+          taskArgs.toleranceBps,
+          DEFAULT_TOLERANCE_BPS
+        ),
+        maxRetries: Math.max(
+          1,
+          parseCount("max-retries", taskArgs.maxRetries, DEFAULT_MAX_RETRIES)
+        ),
+        retryDelayMs: RETRY_DELAY_MS,
+        logChunkSize: LOG_CHUNK_SIZE,
+        fromBlock:
+          taskArgs.fromBlock !== undefined
+            ? parseCount("from-block", taskArgs.fromBlock, 0)
+            : undefined,
+        users: taskArgs.users
+          ? readUserList(resolvePath(taskArgs.users))
+          : undefined,
+      };
+      const interval = parseCount(
+        "interval",
+        taskArgs.interval,
+        DEFAULT_INTERVAL_SECONDS
+      );
+
+      const signer = await getKeeperSigner(hre, dryRun);
+      console.log(`🤖 Keeper signer: ${await signer.getAddress()}`);
+      if (dryRun) console.log("🧪 Dry run: batches are only simulated");
+
+      const bot = await LeaderboardKeeperBot.open(hre, signer, options);
+
+      if (!taskArgs.loop) {
+        const summary = await bot.runOnce();
+        printSummary(summary);
+        if (summary.failedBatches > 0) {
+          throw new Error(`${summary.failedBatches} batch(es) failed`);
+        }
+        return;
+      }
+
+      let stopping = false;
+      let wake: (() => void) | undefined;
+      const stop = () => {
+        console.log("\n🛑 Stopping after the current run...");
+        stopping = true;
+        wake?.();
+      };
+      process.once("SIGINT", stop);
+      process.once("SIGTERM", stop);
+
+      console.log(`🔁 Running every ${interval}s (Ctrl+C to stop)`);
+      while (!stopping) {
+        console.log(`\n🕐 ${new Date().toISOString()}`);
+        try {
+          printSummary(await bot.runOnce());
+        } catch (error) {
+          // A failed run (RPC outage, reverted read) must not end the loop
+          console.error("❌ Keeper run failed:", (error as Error).message);
+        }
+        if (stopping) break;
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, interval * 1000);
+          wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+      }
+      console.log("👋 Keeper stopped");
+    } catch (error) {
+      console.error("\n❌ Keeper failed:", error);
+      throw error;
+    }
+  });
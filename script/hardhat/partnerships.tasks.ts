@@ -0,0 +1,466 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contract, getAddress, isAddress } from "ethers";
+import {
+  MultiplierArgs,
+  PartnershipAddArgs,
+  PartnershipInfo,
+  PartnershipRemoveArgs,
+  PartnershipStatus,
+  PartnershipUpdateArgs,
+} from "./types";
+import { readManifest } from "./helpers/manifest";
+import { callAsOwner } from "./helpers/safe";
+import { getNftMultiplier } from "./helpers/points";
+
+/*//////////////////////////////////////////////////////////////
+                        CONFIGURATION
+//////////////////////////////////////////////////////////////*/
+
+const REGISTRY_ABI = [
+  "function owner() view returns (address)",
+  "function firstBonus() view returns (uint256)",
+  "function decayRatio() view returns (uint256)",
+  "function MAX_FIRST_BONUS() view returns (uint256)",
+  "function MAX_DECAY_RATIO() view returns (uint256)",
+  "function getPartnershipCount() view returns (uint256)",
+  "function allPartnerships(uint256 index) view returns (address)",
+  "function getPartnership(address collection) view returns ((address collection, bool active, uint256 startTimestamp, uint256 endTimestamp, string name))",
+  "function addPartnership(address collection, string name, uint256 startTimestamp, uint256 endTimestamp)",
+  "function updatePartnership(address collection, bool active)",
+  "function removePartnership(address collection)",
+  "function setMultiplierParams(uint256 newFirstBonus, uint256 newDecayRatio)",
+];
+
+const ERC165_ABI = [
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+];
+
+const ERC721_INTERFACE_ID = "0x80ac58cd";
+/** ERC-165 requires supportsInterface(0xffffffff) to be false */
+const INVALID_INTERFACE_ID = "0xffffffff";
+
+const DEFAULT_CURVE_LENGTH = 10;
+
+/*//////////////////////////////////////////////////////////////
+                            HELPERS
+//////////////////////////////////////////////////////////////*/
+
+const getRegistry = (hre: HardhatRuntimeEnvironment): Contract => {
+  const network = hre.network.name;
+  const address =
+    readManifest(network)?.contracts.NFTPartnershipRegistry?.address;
+  if (!address) {
+    throw new Error(
+      `NFTPartnershipRegistry not found in deployments/${network}/manifest.json`
+    );
+  }
+  return new Contract(address, REGISTRY_ABI, hre.ethers.provider);
+};
+
+const parseCollection = (value: string): string => {
+  if (!isAddress(value)) throw new Error(`Invalid collection address ${value}`);
+  return getAddress(value);
+};
+
+/** Unix seconds or an ISO date */
+const parseTimestamp = (value: string, name: string): number => {
+  const seconds = /^\d+$/.test(value)
+    ? Number(value)
+    : Math.floor(Date.parse(value) / 1000);
+  if (!Number.isFinite(seconds)) {
+    throw new Error(`--${name} must be unix seconds or an ISO date: ${value}`);
+  }
+  return seconds;
+};
+
+const formatTime = (timestamp: number): string =>
+  timestamp === 0 ? "-" : new Date(timestamp * 1000).toISOString();
+
+const formatMultiplier = (bps: bigint): string =>
+  `${(Number(bps) / 10_000).toFixed(4)}x`;
+
+const latestTimestamp = async (hre: HardhatRuntimeEnvironment) =>
+  (await hre.ethers.provider.getBlock("latest"))!.timestamp;
+
+/**
+ * Partnership status at `now`. The registry stores the time window but does
+ * not enforce it, so an expired partnership stays `active` on-chain.
+ */
+const getStatus = (
+  partnership: Omit<PartnershipInfo, "status">,
+  now: number
+): PartnershipStatus => {
+  if (!partnership.active) return "inactive";
+  if (now < partnership.startTimestamp) return "scheduled";
+  if (partnership.endTimestamp !== 0 && now >= partnership.endTimestamp) {
+    return "expired";
+  }
+  return "active";
+};
+
+const readPartnerships = async (
+  registry: Contract,
+  now: number
+): Promise<PartnershipInfo[]> => {
+  const count = Number(await registry.getPartnershipCount());
+  const partnerships: PartnershipInfo[] = [];
+  for (let i = 0; i < count; i++) {
+    const p = await registry.getPartnership(await registry.allPartnerships(i));
+    const info = {
+      collection: p.collection,
+      name: p.name,
+      active: p.active,
+      startTimestamp: Number(p.startTimestamp),
+      endTimestamp: Number(p.endTimestamp),
+    };
+    partnerships.push({ ...info, status: getStatus(info, now) });
+  }
+  return partnerships;
+};
+
+const findPartnership = async (
+  registry: Contract,
+  collection: string
+): Promise<any | null> => {
+  try {
+    return await registry.getPartnership(collection);
+  } catch {
+    // PartnershipNotFound
+    return null;
+  }
+};
+
+/*//////////////////////////////////////////////////////////////
+                      TASK: LIST PARTNERSHIPS
+//////////////////////////////////////////////////////////////*/
+
+task(
+  "partnerships:list",
+  "List NFT partnerships with their status and the multiplier parameters"
+).setAction(async (_, hre: HardhatRuntimeEnvironment) => {
+  try {
+    const registry = getRegistry(hre);
+    const now = await latestTimestamp(hre);
+    const [partnerships, firstBonus, decayRatio] = await Promise.all([
+      readPartnerships(registry, now),
+      registry.firstBonus(),
+      registry.decayRatio(),
+    ]);
+
+    console.log(
+      `\n🤝 NFTPartnershipRegistry ${await registry.getAddress()} (firstBonus ${firstBonus} bps, decayRatio ${decayRatio} bps)`
+    );
+    if (partnerships.length === 0) {
+      console.log("   No partnerships registered");
+      return;
+    }
+    console.table(
+      partnerships.map((p) => ({
+        name: p.name,
+        collection: p.collection,
+        start: formatTime(p.startTimestamp),
+        end: p.endTimestamp === 0 ? "open-ended" : formatTime(p.endTimestamp),
+        status: p.status,
+      }))
+    );
+
+    const counts: Record<PartnershipStatus, number> = {
+      active: 0,
+      scheduled: 0,
+      expired: 0,
+      inactive: 0,
+    };
+    for (const p of partnerships) counts[p.status]++;
+    console.log(
+      `📊 ${partnerships.length} total: ${counts.active} active, ${counts.scheduled} scheduled, ${counts.expired} expired, ${counts.inactive} inactive`
+    );
+    if (counts.expired > 0) {
+      console.log(
+        "💡 Expired partnerships are still flagged active on-chain: partnerships:update --active false to retire them"
+      );
+    }
+  } catch (error) {
+    console.error("\n❌ Listing partnerships failed:", error);
+    throw error;
+  }
+});
+
+/*//////////////////////////////////////////////////////////////
+                      TASK: ADD PARTNERSHIP
+//////////////////////////////////////////////////////////////*/
+
+task("partnerships:add", "Register an ERC-721 collection as a partnership")
+  .addParam("collection", "ERC-721 collection address")
+  .addParam("name", "Partnership name")
+  .addOptionalParam(
+    "start",
+    "Start, unix seconds or ISO date (default: latest block)"
+  )
+  .addOptionalParam(
+    "end",
+    "End, unix seconds or ISO date (default: open-ended)"
+  )
+  .addFlag(
+    "safe",
+    "Write a Safe Transaction Builder batch for the owner instead of sending"
+  )
+  .setAction(
+    async (taskArgs: PartnershipAddArgs, hre: HardhatRuntimeEnvironment) => {
+      try {
+        const registry = getRegistry(hre);
+        const collection = parseCollection(taskArgs.collection);
+        const now = await latestTimestamp(hre);
+        const start = taskArgs.start
+          ? parseTimestamp(taskArgs.start, "start")
+          : now;
+        const end = taskArgs.end ? parseTimestamp(taskArgs.end, "end") : 0;
+
+        // Same window rules as addPartnership, plus no window already over
+        if (start === 0) throw new Error("Start must be non-zero");
+        if (end !== 0 && end <= start) {
+          throw new Error(
+            `End ${formatTime(end)} must be after start ${formatTime(start)}`
+          );
+        }
+        if (end !== 0 && end <= now) {
+          throw new Error(`End ${formatTime(end)} is already in the past`);
+        }
+        if (taskArgs.name.trim() === "") throw new Error("Name is empty");
+
+        if (await findPartnership(registry, collection)) {
+          throw new Error(`${collection} is already a partnership`);
+        }
+
+        // ERC-165 detection of ERC-721
+        if ((await hre.ethers.provider.getCode(collection)) === "0x") {
+          throw new Error(`${collection} has no code`);
+        }
+        const erc165 = new Contract(
+          collection,
+          ERC165_ABI,
+          hre.ethers.provider
+        );
+        let isErc721 = false;
+        try {
+          isErc721 =
+            (await erc165.supportsInterface(ERC721_INTERFACE_ID)) &&
+            !(await erc165.supportsInterface(INVALID_INTERFACE_ID));
+        } catch {
+          // No ERC-165 support
+        }
+        if (!isErc721) {
+          throw new Error(
+            `${collection} does not report ERC-721 support via supportsInterface(${ERC721_INTERFACE_ID})`
+          );
+        }
+        console.log(`✅ ${collection} is an ERC-721`);
+
+        console.log(`\n🤝 Adding "${taskArgs.name}"`);
+        console.log(`   Collection: ${collection}`);
+        console.log(`   Start: ${formatTime(start)}`);
+        console.log(`   End: ${end === 0 ? "open-ended" : formatTime(end)}`);
+        if (start < now) {
+          console.warn(
+            "⚠️  Start is in the past: the partnership counts from it"
+          );
+        }
+
+        await callAsOwner(hre, {
+          contract: registry,
+          owner: await registry.owner(),
+          method: "addPartnership",
+          args: [collection, taskArgs.name, start, end],
+          label: `NFTPartnershipRegistry.addPartnership(${collection}, "${taskArgs.name}")`,
+          safe: taskArgs.safe,
+        });
+      } catch (error) {
+        console.error("\n❌ Adding partnership failed:", error);
+        throw error;
+      }
+    }
+  );
+
+/*//////////////////////////////////////////////////////////////
+                  TASK: UPDATE / REMOVE PARTNERSHIP
+//////////////////////////////////////////////////////////////*/
+
+task("partnerships:update", "Activate or deactivate a partnership")
+  .addParam("collection", "Collection address")
+  .addParam("active", "true or false")
+  .addFlag(
+    "safe",
+    "Write a Safe Transaction Builder batch for the owner instead of sending"
+  )
+  .setAction(
+    async (taskArgs: PartnershipUpdateArgs, hre: HardhatRuntimeEnvironment) => {
+      try {
+        const registry = getRegistry(hre);
+        const collection = parseCollection(taskArgs.collection);
+        if (taskArgs.active !== "true" && taskArgs.active !== "false") {
+          throw new Error(`--active must be true or false: ${taskArgs.active}`);
+        }
+        const active = taskArgs.active === "true";
+        const partnership = await findPartnership(registry, collection);
+        if (!partnership) throw new Error(`${collection} is not a partnership`);
+        if (partnership.active === active) {
+          console.log(
+            `✅ "${partnership.name}" is already ${active ? "active" : "inactive"}`
+          );
+          return;
+        }
+
+        await callAsOwner(hre, {
+          contract: registry,
+          owner: await registry.owner(),
+          method: "updatePartnership",
+          args: [collection, active],
+          label: `NFTPartnershipRegistry.updatePartnership(${collection}, ${active})`,
+          safe: taskArgs.safe,
+        });
+      } catch (error) {
+        console.error("\n❌ Updating partnership failed:", error);
+        throw error;
+      }
+    }
+  );
+
+task("partnerships:remove", "Remove a partnership from the registry")
+  .addParam("collection", "Collection address")
+  .addFlag(
+    "safe",
+    "Write a Safe Transaction Builder batch for the owner instead of sending"
+  )
+  .setAction(
+    async (taskArgs: PartnershipRemoveArgs, hre: HardhatRuntimeEnvironment) => {
+      try {
+        const registry = getRegistry(hre);
+        const collection = parseCollection(taskArgs.collection);
+        const partnership = await findPartnership(registry, collection);
+        if (!partnership) throw new Error(`${collection} is not a partnership`);
+
+        await callAsOwner(hre, {
+          contract: registry,
+          owner: await registry.owner(),
+          method: "removePartnership",
+          args: [collection],
+          label: `NFTPartnershipRegistry.removePartnership(${collection}) "${partnership.name}"`,
+          safe: taskArgs.safe,
+        });
+      } catch (error) {
+        console.error("\n❌ Removing partnership failed:", error);
+        throw error;
+      }
+    }
+  );
+
+/*//////////////////////////////////////////////////////////////
+                    TASK: MULTIPLIER PARAMETERS
+//////////////////////////////////////////////////////////////*/
+
+task(
+  "partnerships:multiplier",
+  "Preview the NFT multiplier curve for new firstBonus/decayRatio values, and apply them"
+)
+  .addOptionalParam("firstBonus", "New first bonus in bps (default: current)")
+  .addOptionalParam("decayRatio", "New decay ratio in bps (default: current)")
+  .addOptionalParam(
+    "max",
+    `Largest number of NFTs to preview (default: active partnerships, at least ${DEFAULT_CURVE_LENGTH})`
+  )
+  .addFlag("apply", "Call setMultiplierParams after the preview")
+  .addFlag(
+    "safe",
+    "Write a Safe Transaction Builder batch for the owner instead of sending"
+  )
+  .setAction(
+    async (taskArgs: MultiplierArgs, hre: HardhatRuntimeEnvironment) => {
+      try {
+        const registry = getRegistry(hre);
+        const now = await latestTimestamp(hre);
+        const [firstBonus, decayRatio, maxFirstBonus, maxDecayRatio] =
+          (await Promise.all([
+            registry.firstBonus(),
+            registry.decayRatio(),
+            registry.MAX_FIRST_BONUS(),
+            registry.MAX_DECAY_RATIO(),
+          ])) as bigint[];
+        const current = { firstBonus, decayRatio };
+        const proposed = {
+          firstBonus:
+            taskArgs.firstBonus !== undefined
+              ? BigInt(taskArgs.firstBonus)
+              : firstBonus,
+          decayRatio:
+            taskArgs.decayRatio !== undefined
+              ? BigInt(taskArgs.decayRatio)
+              : decayRatio,
+        };
+        if (proposed.firstBonus < 0n || proposed.firstBonus > maxFirstBonus) {
+          throw new Error(
+            `firstBonus must be within 0..${maxFirstBonus} bps: ${proposed.firstBonus}`
+          );
+        }
+        if (proposed.decayRatio < 0n || proposed.decayRatio > maxDecayRatio) {
+          throw new Error(
+            `decayRatio must be within 0..${maxDecayRatio} bps: ${proposed.decayRatio}`
+          );
+        }
+
+        const activeCount = (await readPartnerships(registry, now)).filter(
+          (p) => p.status === "active"
+        ).length;
+        const max = taskArgs.max
+          ? Number(taskArgs.max)
+          : Math.max(activeCount, DEFAULT_CURVE_LENGTH);
+        if (!Number.isInteger(max) || max < 1) {
+          throw new Error(`--max must be a positive integer: ${taskArgs.max}`);
+        }
+
+        console.log(
+          `\n📈 NFT multiplier curve: firstBonus ${current.firstBonus} → ${proposed.firstBonus}, decayRatio ${current.decayRatio} → ${proposed.decayRatio}`
+        );
+        console.table(
+          Array.from({ length: max }, (_, i) => {
+            const count = BigInt(i + 1);
+            const before = getNftMultiplier(current, count);
+            const after = getNftMultiplier(proposed, count);
+            return {
+              nfts: i + 1,
+              current: formatMultiplier(before),
+              proposed: formatMultiplier(after),
+              change: `${after >= before ? "+" : ""}${((Number(after - before) / Number(before)) * 100).toFixed(2)}%`,
+            };
+          })
+        );
+        const cap = (bonus: bigint, decay: bigint) =>
+          formatMultiplier(10_000n + (bonus * 10_000n) / (10_000n - decay));
+        console.log(
+          `   Limit as NFTs → ∞: ${cap(current.firstBonus, current.decayRatio)} → ${cap(proposed.firstBonus, proposed.decayRatio)} (${activeCount} active partnership(s))`
+        );
+
+        if (!taskArgs.apply) {
+          console.log("\n💡 Re-run with --apply to call setMultiplierParams");
+          return;
+        }
+        if (
+          proposed.firstBonus === current.firstBonus &&
+          proposed.decayRatio === current.decayRatio
+        ) {
+          console.log("✅ Parameters unchanged: nothing to apply");
+          return;
+        }
+        await callAsOwner(hre, {
+          contract: registry,
+          owner: await registry.owner(),
+          method: "setMultiplierParams",
+          args: [proposed.firstBonus, proposed.decayRatio],
+          label: `NFTPartnershipRegistry.setMultiplierParams(${proposed.firstBonus}, ${proposed.decayRatio})`,
+          safe: taskArgs.safe,
+        });
+      } catch (error) {
+        console.error("\n❌ Multiplier update failed:", error);
+        throw error;
+      }
+    }
+  );
@@ -0,0 +1,316 @@
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contract, Interface, formatEther } from "ethers";
+import {
+  AwardArgs,
+  AwardBatch,
+  AwardReceipt,
+  AwardReceiptRow,
+  PointsArgs,
+  PointsResult,
+} from "./types";
+import {
+  calculatePoints,
+  readEpochs,
+  readPointsConfig,
+  readTimelineFile,
+} from "./helpers/points";
+import {
+  LEADERBOARD_CONFIG_AWARDS_ABI,
+  dedupeAwards,
+  encodeAwardBatch,
+  getAwardReceiptPath,
+  matchAwardEvents,
+  planAwardBatches,
+  readAwardsCsv,
+} from "./helpers/awards";
+import { impersonate, withFork } from "./helpers/fork";
+import { readManifest } from "./helpers/manifest";
+import { SafeBatchCollector, getSafeBatchDir } from "./helpers/safe";
+
+/*//////////////////////////////////////////////////////////////
+                            HELPERS
+//////////////////////////////////////////////////////////////*/
+
+const resolvePath = (maybePath: string): string =>
+  path.isAbsolute(maybePath) ? maybePath : path.join(process.cwd(), maybePath);
+
+const formatPoints = (points: bigint): string =>
+  Number(formatEther(points)).toLocaleString(undefined, {
+    maximumFractionDigits: 2,
+  });
+
+const printResult = (result: PointsResult): void => {
+  console.log("\n📊 Points per epoch:");
+  console.table(
+    result.epochs.map((epoch) => ({
+      epoch: epoch.epoch,
+      from: new Date(epoch.startTime * 1000).toISOString(),
+      to: new Date(epoch.endTime * 1000).toISOString(),
+      deposit: formatPoints(epoch.deposit),
+      borrow: formatPoints(epoch.borrow),
+      votingPower: formatPoints(epoch.votingPower),
+      dailyBonus: `${formatPoints(epoch.dailyBonus)} (${epoch.bonusCount})`,
+      multiplier: `${Number(epoch.multiplierBps) / 10_000}x`,
+      multiplierBonus: formatPoints(epoch.multiplierBonus),
+      total: formatPoints(epoch.total),
+    }))
+  );
+  console.log(`🏁 Total: ${formatPoints(result.total)} points`);
+};
+
+/*//////////////////////////////////////////////////////////////
+                      TASK: POINTS CALCULATOR
+//////////////////////////////////////////////////////////////*/
+
+task(
+  "points:calculate",
+  "Compute a user's expected leaderboard points per epoch from an activity timeline"
+)
+  .addParam(
+    "timeline",
+    "Timeline JSON ({ events, config?, epochs? }, amounts as 18-decimal strings)"
+  )
+  .addOptionalParam(
+    "until",
+    "End of still-running epochs, unix seconds (default: latest block)"
+  )
+  .addFlag(
+    "live",
+    "Use the deployed LeaderboardConfig, multipliers and epochs even if the timeline has its own"
+  )
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async (taskArgs: PointsArgs, hre: HardhatRuntimeEnvironment) => {
+    try {
+      const timeline = readTimelineFile(resolvePath(taskArgs.timeline));
+
+      let config = taskArgs.live ? undefined : timeline.config;
+      if (!config) {
+        console.log(`📡 Reading leaderboard config from ${hre.network.name}`);
+        config = await readPointsConfig(hre);
+      }
+      let epochs = taskArgs.live ? undefined : timeline.epochs;
+      if (!epochs) {
+        console.log(`📡 Reading epochs from ${hre.network.name}`);
+        epochs = await readEpochs(hre);
+      }
+
+      let until = taskArgs.until ? Number(taskArgs.until) : undefined;
+      if (until === undefined && epochs.some((e) => e.endTime === 0)) {
+        until = (await hre.ethers.provider.getBlock("latest"))!.timestamp;
+      }
+
+      const result = calculatePoints(config, epochs, timeline.events, until);
+      if (taskArgs.json) {
+        console.log(
+          JSON.stringify(
+            result,
+            (_, value) =>
+              typeof value === "bigint" ? value.toString() : value,
+            2
+          )
+        );
+      } else {
+        printResult(result);
+      }
+    } catch (error) {
+      console.error("\n❌ Points calculation failed:", error);
+      throw error;
+    }
+  });
+
+/*//////////////////////////////////////////////////////////////
+                    TASK: CSV POINTS AWARDS
+//////////////////////////////////////////////////////////////*/
+
+const DEFAULT_MAX_GAS = 10_000_000n;
+
+const batchLabel = (batch: AwardBatch): string =>
+  `${batch.kind === "award" ? "batchAwardPoints" : "batchRemovePoints"}(${batch.rows.length}) "${batch.reason}"`;
+
+task(
+  "points:batch",
+  "Award or remove leaderboard points from an address,points,reason CSV"
+)
+  .addParam(
+    "file",
+    "CSV of address,points,reason (decimal points; negative removes)"
+  )
+  .addOptionalParam(
+    "maxGas",
+    `Gas limit per batch call (default ${DEFAULT_MAX_GAS})`
+  )
+  .addFlag("dryRun", "Only simulate the batches on a fork")
+  .addFlag(
+    "safe",
+    "Write a Safe Transaction Builder batch for the owner instead of sending"
+  )
+  .setAction(async (taskArgs: AwardArgs, hre: HardhatRuntimeEnvironment) => {
+    try {
+      const source = resolvePath(taskArgs.file);
+      const maxGas = taskArgs.maxGas
+        ? BigInt(taskArgs.maxGas)
+        : DEFAULT_MAX_GAS;
+      const network = hre.network.name;
+      const configAddress =
+        readManifest(network)?.contracts.LeaderboardConfig?.address;
+      if (!configAddress) {
+        throw new Error(
+          `LeaderboardConfig not found in deployments/${network}/manifest.json`
+        );
+      }
+      const iface = new Interface(LEADERBOARD_CONFIG_AWARDS_ABI);
+      const config = new Contract(configAddress, iface, hre.ethers.provider);
+      const owner: string = await config.owner();
+
+      // 1. Validate and dedupe
+      const parsed = readAwardsCsv(source);
+      const { rows, duplicates } = dedupeAwards(parsed);
+      for (const row of duplicates) {
+        console.warn(
+          `⚠️  Line ${row.line} repeats an earlier row for ${row.address}: skipped`
+        );
+      }
+      if (rows.length === 0) throw new Error(`No rows in ${source}`);
+      console.log(
+        `📄 ${rows.length} row(s) from ${path.relative(process.cwd(), source)}`
+      );
+
+      // 2. Gas-bounded batches
+      const batches = await planAwardBatches(
+        hre.ethers.provider,
+        configAddress,
+        owner,
+        rows,
+        maxGas
+      );
+      console.log(`\n📦 ${batches.length} batch(es) (max gas ${maxGas}):`);
+      console.table(
+        batches.map((batch, i) => ({
+          batch: i + 1,
+          call: batchLabel(batch),
+          points: formatPoints(
+            batch.rows.reduce((sum, row) => sum + row.points, 0n)
+          ),
+          gasEstimate: batch.gasEstimate.toString(),
+        }))
+      );
+
+      // 3. Dry run on a fork, as the owner
+      await withFork(hre, async (provider) => {
+        const signer = await impersonate(provider, owner);
+        const forked = new Contract(configAddress, iface, signer);
+        for (const batch of batches) {
+          const { method } = encodeAwardBatch(iface, batch);
+          const tx = await forked[method](
+            batch.rows.map((row) => row.address),
+            batch.rows.map((row) => row.points),
+            batch.reason
+          );
+          const receipt = await tx.wait();
+          matchAwardEvents(iface, receipt, batch);
+          if (receipt.gasUsed > maxGas) {
+            throw new Error(
+              `${batchLabel(batch)} used ${receipt.gasUsed} gas on the fork, over ${maxGas}`
+            );
+          }
+        }
+      });
+      console.log("✅ All batches succeeded on a fork");
+      if (taskArgs.dryRun) return;
+
+      const receiptRows: AwardReceiptRow[] = batches.flatMap((batch, i) =>
+        batch.rows.map((row) => ({
+          line: row.line,
+          kind: row.kind,
+          address: row.address,
+          points: row.points.toString(),
+          reason: row.reason,
+          batch: i + 1,
+          status: "pending" as const,
+        }))
+      );
+      const { chainId } = await hre.ethers.provider.getNetwork();
+      const receipt: AwardReceipt = {
+        network,
+        chainId: Number(chainId),
+        leaderboardConfig: configAddress,
+        source: path.relative(process.cwd(), source),
+        createdAt: new Date().toISOString(),
+        rows: receiptRows,
+      };
+      const receiptPath = getAwardReceiptPath(network, source, Date.now());
+      const writeReceipt = () => {
+        fs.mkdirSync(path.dirname(receiptPath), { recursive: true });
+        fs.writeFileSync(receiptPath, JSON.stringify(receipt, null, 2) + "\n");
+        console.log(
+          `🧾 Receipt written: ${path.relative(process.cwd(), receiptPath)}`
+        );
+      };
+
+      // 4a. Safe batch when the owner is a multisig
+      const ownerIsContract =
+        (await hre.ethers.provider.getCode(owner)) !== "0x";
+      if (taskArgs.safe || ownerIsContract) {
+        const collector = new SafeBatchCollector(
+          Number(chainId),
+          `Leaderboard points ${path.basename(source)}`
+        );
+        for (const batch of batches) {
+          collector.add(
+            owner,
+            configAddress,
+            encodeAwardBatch(iface, batch).data,
+            batchLabel(batch)
+          );
+        }
+        const [file] = collector.write(getSafeBatchDir(network, Date.now()));
+        console.log(
+          `🧾 Safe batch written: ${path.relative(process.cwd(), file)}`
+        );
+        receipt.safeBatch = path.relative(process.cwd(), file);
+        for (const row of receiptRows) row.status = "queued";
+        writeReceipt();
+        return;
+      }
+
+      // 4b. Send from the owner
+      const [signer] = await hre.ethers.getSigners();
+      const signerAddress = await signer.getAddress();
+      if (signerAddress.toLowerCase() !== owner.toLowerCase()) {
+        throw new Error(
+          `Signer ${signerAddress} is not the LeaderboardConfig owner ${owner}`
+        );
+      }
+      const live = new Contract(configAddress, iface, signer);
+      try {
+        for (const [i, batch] of batches.entries()) {
+          const { method } = encodeAwardBatch(iface, batch);
+          const tx = await live[method](
+            batch.rows.map((row) => row.address),
+            batch.rows.map((row) => row.points),
+            batch.reason
+          );
+          console.log(`⚙️  ${batchLabel(batch)}: ${tx.hash}`);
+          const mined = await tx.wait();
+          const events = matchAwardEvents(iface, mined, batch);
+          receiptRows
+            .filter((row) => row.batch === i + 1)
+            .forEach((row, j) => {
+              row.status = "sent";
+              row.txHash = mined.hash;
+              row.event = events[j];
+            });
+          console.log(`✅ Batch ${i + 1}/${batches.length} mined`);
+        }
+      } finally {
+        // Keep track of what went out even when a batch fails
+        writeReceipt();
+      }
+    } catch (error) {
+      console.error("\n❌ Points batch failed:", error);
+      throw error;
+    }
+  });
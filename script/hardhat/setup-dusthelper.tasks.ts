@@ -1,23 +1,12 @@
 import { task } from "hardhat/config";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
-import Enquirer from "enquirer";
+import { getAddress } from "ethers";
 import chalk from "chalk";
-import fs from "fs";
-import path from "path";
-
-const enquirer = new Enquirer();
-
-interface SetupConfig {
-  helperAddress?: string;
-  dustPair?: string;
-  pairOracle?: string;
-  v4Pool?: {
-    poolManager: string;
-    poolId: string;
-    isDustToken0: boolean;
-  };
-  removeV4?: boolean;
-}
+import { WizardSession } from "./helpers/answers";
+import { loadDeploymentAddresses } from "./helpers/export";
+import { loadNetworkProfile } from "./helpers/profile";
+import { assertConfig } from "./helpers/config";
+import { DustHelperSetupConfig, NetworkProfile, WizardArgs } from "./types";
 
 /**
  * Interactive task to setup NeverlandDustHelper oracle configuration
@@ -25,54 +14,72 @@ interface SetupConfig {
  * - Direct DUST/USD oracle (only dustPair needed)
  * - Two-step conversion: DUST/<PAIR> + <PAIR>/USD
  * - Uniswap V2/V3/V4 pools with oracle
+ *
+ * Prompts can be pre-filled with --answers/--set (keys: helperSource,
+ * helperAddress, setupType, dustPair, pairOracle, v4.poolManager, v4.poolId,
+ * v4.isDustToken0, custom.setDustPair, custom.setPairOracle, confirm)
  */
-task(
-  "setup:dusthelper",
-  "Configure NeverlandDustHelper oracle settings"
-).setAction(async (_, hre: HardhatRuntimeEnvironment) => {
-  console.log(chalk.blue("\n🔧 NeverlandDustHelper Setup\n"));
-
-  const network = hre.network.name;
-  const deploymentsDir = path.join(__dirname, "../../deployments", network);
-  const addressesFile = path.join(deploymentsDir, "addresses.json");
-
-  let existingAddresses: Record<string, string> = {};
-  if (fs.existsSync(addressesFile)) {
-    existingAddresses = JSON.parse(fs.readFileSync(addressesFile, "utf-8"));
-  }
-
-  const config = await promptSetupConfig(existingAddresses);
+task("setup:dusthelper", "Configure NeverlandDustHelper oracle settings")
+  .addOptionalParam("answers", "Answers file pre-filling the prompts")
+  .addOptionalParam(
+    "set",
+    'Pre-filled answers overriding the answers file ("key=value;key=value")'
+  )
+  .addOptionalParam(
+    "recordAnswers",
+    "Save the answers of this session to a file for replay"
+  )
+  .addFlag(
+    "nonInteractive",
+    "Fail on any prompt without a pre-filled answer (implied without a TTY)"
+  )
+  .setAction(async (taskArgs: WizardArgs, hre: HardhatRuntimeEnvironment) => {
+    console.log(chalk.blue("\n🔧 NeverlandDustHelper Setup\n"));
+
+    const session = WizardSession.open(hre, "setup:dusthelper", taskArgs);
+    // A replay on a fork keeps the manifest and profile it was recorded on
+    const { name, chainId } = session.sourceNetwork;
+    const existingAddresses = loadDeploymentAddresses(name);
+    const profile = loadNetworkProfile(name, chainId);
+    console.log(`🗺️  Network profile: ${profile.inherits.join(" → ")}`);
+
+    const config = await promptSetupConfig(
+      session,
+      existingAddresses,
+      profile.addresses
+    );
 
-  // Display summary
-  displaySetupSummary(config);
+    // Display summary
+    displaySetupSummary(config);
 
-  const confirm: any = await enquirer.prompt({
-    type: "confirm",
-    name: "confirm",
-    message: "Proceed with this configuration?",
-    initial: true,
-  });
+    const confirmed = await session.ask<boolean>("confirm", {
+      type: "confirm",
+      message: "Proceed with this configuration?",
+      initial: true,
+    });
+    session.save();
 
-  if (!confirm.confirm) {
-    console.log(chalk.yellow("Setup cancelled."));
-    return;
-  }
+    if (!confirmed) {
+      console.log(chalk.yellow("Setup cancelled."));
+      return;
+    }
 
-  // Execute setup
-  await executeSetup(hre, config);
+    // Execute setup
+    await executeSetup(hre, config);
 
-  console.log(chalk.green("\n✅ Setup complete!\n"));
-});
+    console.log(chalk.green("\n✅ Setup complete!\n"));
+  });
 
 async function promptSetupConfig(
-  existingAddresses: Record<string, string>
-): Promise<SetupConfig> {
-  const config: SetupConfig = {};
+  session: WizardSession,
+  existingAddresses: Record<string, string>,
+  known: NetworkProfile["addresses"] = {}
+): Promise<DustHelperSetupConfig> {
+  const config: Partial<DustHelperSetupConfig> = {};
 
   // Step 1: Get NeverlandDustHelper address
-  const helperSource: any = await enquirer.prompt({
+  const helperSource = await session.ask<string>("helperSource", {
     type: "select",
-    name: "helperSource",
     message: "NeverlandDustHelper address:",
     choices: [
       {
@@ -89,12 +96,11 @@ async function promptSetupConfig(
     ],
   });
 
-  if (helperSource.helperSource === "deployed") {
+  if (helperSource === "deployed") {
     config.helperAddress = existingAddresses.NeverlandDustHelper;
   } else {
-    const address: any = await enquirer.prompt({
+    const address = await session.ask<string>("helperAddress", {
       type: "input",
-      name: "address",
       message: "NeverlandDustHelper address:",
       validate: (input: string) => {
         if (!input.match(/^0x[a-fA-F0-9]{40}$/)) {
@@ -103,7 +109,7 @@ async function promptSetupConfig(
         return true;
       },
     });
-    config.helperAddress = address.address;
+    config.helperAddress = address;
   }
 
   console.log(
@@ -111,9 +117,8 @@ async function promptSetupConfig(
   );
 
   // Step 2: Determine setup type
-  const setupType: any = await enquirer.prompt({
+  const setupType = await session.ask<string>("setupType", {
     type: "select",
-    name: "setupType",
     message: "What type of price setup do you want?",
     choices: [
       {
@@ -155,7 +160,7 @@ async function promptSetupConfig(
   });
 
   // Step 3: Get addresses based on setup type
-  if (setupType.setupType === "direct") {
+  if (setupType === "direct") {
     console.log(
       chalk.cyan(
         "\n💡 Direct DUST/USD oracle setup - only dustPair (setPair) is needed"
@@ -167,9 +172,8 @@ async function promptSetupConfig(
       )
     );
 
-    const dustPair: any = await enquirer.prompt({
+    const dustPair = await session.ask<string>("dustPair", {
       type: "input",
-      name: "dustPair",
       message: "DUST/USD oracle address:",
       validate: (input: string) => {
         if (!input.match(/^0x[a-fA-F0-9]{40}$/)) {
@@ -178,9 +182,9 @@ async function promptSetupConfig(
         return true;
       },
     });
-    config.dustPair = dustPair.dustPair;
+    config.dustPair = dustPair;
     config.pairOracle = undefined; // Explicitly not setting pairOracle
-  } else if (setupType.setupType === "two-step-oracle") {
+  } else if (setupType === "two-step-oracle") {
     console.log(
       chalk.cyan(
         "\n💡 Two-step oracle setup - DUST/<PAIR> oracle + <PAIR>/USD oracle"
@@ -190,9 +194,8 @@ async function promptSetupConfig(
       chalk.gray("   Example: DUST/MON oracle (or MON/DUST) + MON/USD oracle\n")
     );
 
-    const dustPair: any = await enquirer.prompt({
+    const dustPair = await session.ask<string>("dustPair", {
       type: "input",
-      name: "dustPair",
       message:
         "DUST/<PAIR> oracle address (can be UniV3 TWAP oracle or Chainlink):",
       validate: (input: string) => {
@@ -202,10 +205,10 @@ async function promptSetupConfig(
         return true;
       },
     });
-    const pairOracle: any = await enquirer.prompt({
+    const pairOracle = await session.ask<string>("pairOracle", {
       type: "input",
-      name: "pairOracle",
       message: "<PAIR>/USD Chainlink oracle address:",
+      initial: known.pairUsdOracle,
       validate: (input: string) => {
         if (!input.match(/^0x[a-fA-F0-9]{40}$/)) {
           return "Invalid Ethereum address";
@@ -213,9 +216,9 @@ async function promptSetupConfig(
         return true;
       },
     });
-    config.dustPair = dustPair.dustPair;
-    config.pairOracle = pairOracle.pairOracle;
-  } else if (setupType.setupType === "two-step-v3") {
+    config.dustPair = dustPair;
+    config.pairOracle = pairOracle;
+  } else if (setupType === "two-step-v3") {
     console.log(chalk.cyan("\n💡 Uniswap V3 pool + oracle setup"));
     console.log(
       chalk.gray(
@@ -223,10 +226,10 @@ async function promptSetupConfig(
       )
     );
 
-    const dustPair: any = await enquirer.prompt({
+    const dustPair = await session.ask<string>("dustPair", {
       type: "input",
-      name: "dustPair",
       message: "Uniswap V3 pool address (DUST/<PAIR> or <PAIR>/DUST):",
+      initial: known.dustPair,
       validate: (input: string) => {
         if (!input.match(/^0x[a-fA-F0-9]{40}$/)) {
           return "Invalid Ethereum address";
@@ -234,10 +237,10 @@ async function promptSetupConfig(
         return true;
       },
     });
-    const pairOracle: any = await enquirer.prompt({
+    const pairOracle = await session.ask<string>("pairOracle", {
       type: "input",
-      name: "pairOracle",
       message: "<PAIR>/USD Chainlink oracle address:",
+      initial: known.pairUsdOracle,
       validate: (input: string) => {
         if (!input.match(/^0x[a-fA-F0-9]{40}$/)) {
           return "Invalid Ethereum address";
@@ -245,9 +248,9 @@ async function promptSetupConfig(
         return true;
       },
     });
-    config.dustPair = dustPair.dustPair;
-    config.pairOracle = pairOracle.pairOracle;
-  } else if (setupType.setupType === "two-step-v2") {
+    config.dustPair = dustPair;
+    config.pairOracle = pairOracle;
+  } else if (setupType === "two-step-v2") {
     console.log(chalk.cyan("\n💡 Uniswap V2 pool + oracle setup"));
     console.log(
       chalk.gray(
@@ -255,10 +258,10 @@ async function promptSetupConfig(
       )
     );
 
-    const dustPair: any = await enquirer.prompt({
+    const dustPair = await session.ask<string>("dustPair", {
       type: "input",
-      name: "dustPair",
       message: "Uniswap V2 pool address (DUST/<PAIR> or <PAIR>/DUST):",
+      initial: known.dustPair,
       validate: (input: string) => {
         if (!input.match(/^0x[a-fA-F0-9]{40}$/)) {
           return "Invalid Ethereum address";
@@ -266,10 +269,10 @@ async function promptSetupConfig(
         return true;
       },
     });
-    const pairOracle: any = await enquirer.prompt({
+    const pairOracle = await session.ask<string>("pairOracle", {
       type: "input",
-      name: "pairOracle",
       message: "<PAIR>/USD Chainlink oracle address:",
+      initial: known.pairUsdOracle,
       validate: (input: string) => {
         if (!input.match(/^0x[a-fA-F0-9]{40}$/)) {
           return "Invalid Ethereum address";
@@ -277,9 +280,9 @@ async function promptSetupConfig(
         return true;
       },
     });
-    config.dustPair = dustPair.dustPair;
-    config.pairOracle = pairOracle.pairOracle;
-  } else if (setupType.setupType === "v4-pool") {
+    config.dustPair = dustPair;
+    config.pairOracle = pairOracle;
+  } else if (setupType === "v4-pool") {
     console.log(chalk.cyan("\n💡 Uniswap V4 pool setup"));
     console.log(
       chalk.gray(
@@ -287,10 +290,10 @@ async function promptSetupConfig(
       )
     );
 
-    const poolManager: any = await enquirer.prompt({
+    const poolManager = await session.ask<string>("v4.poolManager", {
       type: "input",
-      name: "poolManager",
       message: "V4 PoolManager address:",
+      initial: known.v4PoolManager,
       validate: (input: string) => {
         if (!input.match(/^0x[a-fA-F0-9]{40}$/)) {
           return "Invalid Ethereum address";
@@ -299,9 +302,8 @@ async function promptSetupConfig(
       },
     });
 
-    const poolId: any = await enquirer.prompt({
+    const poolId = await session.ask<string>("v4.poolId", {
       type: "input",
-      name: "poolId",
       message: "Pool ID (bytes32 from explorer):",
       validate: (input: string) => {
         if (!input.match(/^0x[a-fA-F0-9]{64}$/)) {
@@ -311,17 +313,16 @@ async function promptSetupConfig(
       },
     });
 
-    const isDustToken0: any = await enquirer.prompt({
+    const isDustToken0 = await session.ask<boolean>("v4.isDustToken0", {
       type: "confirm",
-      name: "isDustToken0",
       message: "Is DUST currency0 (token0) in the pool?",
       initial: false,
     });
 
     config.v4Pool = {
-      poolManager: poolManager.poolManager,
-      poolId: poolId.poolId,
-      isDustToken0: isDustToken0.isDustToken0,
+      poolManager: poolManager,
+      poolId: poolId,
+      isDustToken0: isDustToken0,
     };
 
     // V4 gives us DUST/<PAIR> price, we need <PAIR>/USD oracle for complete conversion
@@ -334,10 +335,10 @@ async function promptSetupConfig(
       chalk.gray("   Example: V4 gives DUST/WMON, oracle gives WMON/USD\n")
     );
 
-    const pairOracle: any = await enquirer.prompt({
+    const pairOracle = await session.ask<string>("pairOracle", {
       type: "input",
-      name: "pairOracle",
       message: "<PAIR>/USD oracle address (e.g., WMON/USD):",
+      initial: known.pairUsdOracle,
       validate: (input: string) => {
         if (!input.match(/^0x[a-fA-F0-9]{40}$/)) {
           return "Invalid Ethereum address";
@@ -345,8 +346,8 @@ async function promptSetupConfig(
         return true;
       },
     });
-    config.pairOracle = pairOracle.pairOracle;
-  } else if (setupType.setupType === "remove-v4") {
+    config.pairOracle = pairOracle;
+  } else if (setupType === "remove-v4") {
     console.log(chalk.cyan("\n🗑️  Remove V4 pool configuration"));
     console.log(
       chalk.gray(
@@ -358,17 +359,15 @@ async function promptSetupConfig(
     // custom
     console.log(chalk.cyan("\n💡 Custom setup"));
 
-    const setDustPair: any = await enquirer.prompt({
+    const setDustPair = await session.ask<boolean>("custom.setDustPair", {
       type: "confirm",
-      name: "setDustPair",
       message: "Set dustPair (setPair)?",
       initial: true,
     });
 
-    if (setDustPair.setDustPair) {
-      const dustPair: any = await enquirer.prompt({
+    if (setDustPair) {
+      const dustPair = await session.ask<string>("dustPair", {
         type: "input",
-        name: "dustPair",
         message: "dustPair address (pool or oracle):",
         validate: (input: string) => {
           if (!input.match(/^0x[a-fA-F0-9]{40}$/)) {
@@ -377,21 +376,20 @@ async function promptSetupConfig(
           return true;
         },
       });
-      config.dustPair = dustPair.dustPair;
+      config.dustPair = dustPair;
     }
 
-    const setPairOracle: any = await enquirer.prompt({
+    const setPairOracle = await session.ask<boolean>("custom.setPairOracle", {
       type: "confirm",
-      name: "setPairOracle",
       message: "Set pairOracle (setPairOracle)?",
       initial: !!config.dustPair, // Default yes if dustPair is set
     });
 
-    if (setPairOracle.setPairOracle) {
-      const pairOracle: any = await enquirer.prompt({
+    if (setPairOracle) {
+      const pairOracle = await session.ask<string>("pairOracle", {
         type: "input",
-        name: "pairOracle",
         message: "<PAIR>/USD oracle address:",
+        initial: known.pairUsdOracle,
         validate: (input: string) => {
           if (!input.match(/^0x[a-fA-F0-9]{40}$/)) {
             return "Invalid Ethereum address";
@@ -399,14 +397,22 @@ async function promptSetupConfig(
           return true;
         },
       });
-      config.pairOracle = pairOracle.pairOracle;
+      config.pairOracle = pairOracle;
     }
   }
 
+  // Prompts accept any hex casing; the schema wants checksummed addresses
+  for (const key of ["helperAddress", "dustPair", "pairOracle"] as const) {
+    if (config[key]) config[key] = getAddress(config[key]!);
+  }
+  if (config.v4Pool) {
+    config.v4Pool.poolManager = getAddress(config.v4Pool.poolManager);
+  }
+  assertConfig("setup-dusthelper", config, "NeverlandDustHelper setup");
   return config;
 }
 
-function displaySetupSummary(config: SetupConfig) {
+function displaySetupSummary(config: DustHelperSetupConfig) {
   console.log(chalk.blue("\n📋 Setup Summary:\n"));
   console.log(chalk.gray(`NeverlandDustHelper: ${config.helperAddress}`));
 
@@ -486,7 +492,7 @@ function displaySetupSummary(config: SetupConfig) {
 
 async function executeSetup(
   hre: HardhatRuntimeEnvironment,
-  config: SetupConfig
+  config: DustHelperSetupConfig
 ) {
   const [signer] = await hre.ethers.getSigners();
   console.log(chalk.gray(`Using account: ${signer.address}\n`));
@@ -494,7 +500,7 @@ async function executeSetup(
   // Get contract instance
   const helper = await hre.ethers.getContractAt(
     "NeverlandDustHelper",
-    config.helperAddress!,
+    config.helperAddress,
     signer
   );
 
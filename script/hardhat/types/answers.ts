@@ -0,0 +1,35 @@
+// Wizard answers (answers files, --set and --record-answers)
+
+export type AnswerValue = string | boolean | string[];
+
+/** Answers of a wizard session, keyed by prompt (e.g. "params.DustLock.team") */
+export interface AnswersFile {
+  /** Task the answers belong to (deploy, setup:dusthelper) */
+  task: string;
+  /** Network the answers were recorded on; replays read its manifest and profile */
+  network: string;
+  chainId?: number;
+  recordedAt: string;
+  answers: Record<string, AnswerValue>;
+}
+
+export interface WizardArgs {
+  answers?: string;
+  set?: string;
+  recordAnswers?: string;
+  nonInteractive?: boolean;
+}
+
+/** Subset of an Enquirer prompt the wizards use */
+export interface WizardQuestion {
+  type: "input" | "confirm" | "select" | "multiselect";
+  message: string;
+  choices?: Array<{
+    name: string;
+    message?: string;
+    value?: string;
+    disabled?: boolean | string;
+  }>;
+  initial?: unknown;
+  validate?: (input: string) => boolean | string;
+}
@@ -0,0 +1,62 @@
+// Manual points award/removal type definitions
+
+export type AwardKind = "award" | "remove";
+
+/** A validated CSV row; points are 18-decimal like on-chain */
+export interface AwardRow {
+  /** 1-based line in the CSV */
+  line: number;
+  kind: AwardKind;
+  address: string;
+  points: bigint;
+  reason: string;
+}
+
+/** One batchAwardPoints/batchRemovePoints call */
+export interface AwardBatch {
+  kind: AwardKind;
+  reason: string;
+  rows: AwardRow[];
+  /** Estimated gas of the call */
+  gasEstimate: bigint;
+}
+
+/** PointsAwarded/PointsRemoved event matched to a row */
+export interface AwardReceiptEvent {
+  name: "PointsAwarded" | "PointsRemoved";
+  logIndex: number;
+  user: string;
+  points: string;
+  reason: string;
+  timestamp: string;
+}
+
+export interface AwardReceiptRow {
+  line: number;
+  kind: AwardKind;
+  address: string;
+  points: string;
+  reason: string;
+  batch: number;
+  /** sent: mined; queued: in a Safe batch; pending: not sent (failed run) */
+  status: "sent" | "queued" | "pending";
+  txHash?: string;
+  event?: AwardReceiptEvent;
+}
+
+export interface AwardReceipt {
+  network: string;
+  chainId: number;
+  leaderboardConfig: string;
+  source: string;
+  createdAt: string;
+  safeBatch?: string;
+  rows: AwardReceiptRow[];
+}
+
+export interface AwardArgs {
+  file: string;
+  maxGas?: string;
+  dryRun?: boolean;
+  safe?: boolean;
+}
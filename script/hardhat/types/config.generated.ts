@@ -0,0 +1,148 @@
+// Generated by `npx hardhat config:types` from config/schemas/*.schema.json.
+// Do not edit: change the schema and regenerate.
+
+/** Core protocol deployment config (config/deploy*.json) */
+export interface DeployConfig {
+  /** Already deployed contracts; empty means deploy it */
+  addresses?: {
+    Dust?: string;
+    DustLock?: string;
+    RevenueReward?: string;
+    DustRewardsController?: string;
+    DustLockTransferStrategy?: string;
+    NeverlandDustHelper?: string;
+    NeverlandUiProvider?: string;
+    UserVaultRegistry?: string;
+    UserVaultImplementation?: string;
+    UserVaultBeacon?: string;
+    UserVaultFactory?: string;
+  };
+  deterministic?: DeterministicConfig;
+  dust?: {
+    initialOwner?: string;
+    /** Initial DUST supply */
+    totalSupply?: string;
+  };
+  dustLock?: {
+    forwarder?: string;
+    baseURI?: string;
+    team?: string;
+    earlyWithdrawTreasury?: string;
+    minLockAmount?: string;
+  };
+  dustRewardsController?: {
+    emissionManager?: string;
+  };
+  revenueReward?: {
+    forwarder?: string;
+    distributor?: string;
+  };
+  transferStrategy?: {
+    incentivesControllerOverride?: string;
+    rewardsAdmin?: string;
+    dustVault?: string;
+  };
+  dustHelper?: {
+    forwarder?: string;
+    owner?: string;
+    uniswapPair?: string;
+  };
+  uiProvider?: {
+    forwarder?: string;
+    aaveLendingPoolAddressProvider?: string;
+  };
+  selfRepaying?: {
+    registry?: {
+      owner?: string;
+      executor?: string;
+      maxSwapSlippageBps?: string;
+      supportedAggregators?: string[];
+    };
+    beaconOwner?: string;
+    poolAddressesProviderRegistry?: string;
+  };
+  proxyAdmin?: {
+    owner?: string;
+  };
+}
+
+/** Leaderboard deployment config (config/deploy-leaderboard.json); unset values fall back to the network profile */
+export interface LeaderboardConfig {
+  addresses?: {
+    dustLock?: string;
+  };
+  leaderboard?: {
+    initialOwner?: string;
+    depositRateBps?: string;
+    borrowRateBps?: string;
+    vpRateBps?: string;
+    supplyDailyBonus?: string;
+    borrowDailyBonus?: string;
+    repayDailyBonus?: string;
+    withdrawDailyBonus?: string;
+    cooldownSeconds?: string;
+    minDailyBonusUsd?: string;
+  };
+  epochManager?: {
+    initialOwner?: string;
+  };
+  nftRegistry?: {
+    initialOwner?: string;
+    firstBonus?: string;
+    decayRatio?: string;
+  };
+  votingPowerMultiplier?: {
+    initialOwner?: string;
+    /** Tiers by ascending minVotingPower */
+    tiers?: VotingPowerTier[];
+  };
+  verify?: boolean;
+}
+
+/** LeaderboardKeeper deployment config (config/deploy-leaderboard-keeper.json) */
+export interface LeaderboardKeeperConfig {
+  keeper: {
+    initialOwner: string;
+    keeperAddress: string;
+    /** Seconds; falls back to the network profile */
+    minSettlementInterval?: string;
+    dustLock: string;
+    nftRegistry: string;
+  };
+  verify?: boolean;
+}
+
+/** NeverlandDustHelper oracle settings applied by setup:dusthelper */
+export interface DustHelperSetupConfig {
+  helperAddress: string;
+  /** DUST/USD or DUST/<PAIR> oracle, or a Uniswap V2/V3 pool */
+  dustPair?: string;
+  /** <PAIR>/USD oracle for two-step conversions */
+  pairOracle?: string;
+  v4Pool?: {
+    poolManager: string;
+    poolId: string;
+    isDustToken0: boolean;
+  };
+  removeV4?: boolean;
+}
+
+/** Opt-in CREATE2/CREATE3 deployment through the CreateX factory */
+export interface DeterministicConfig {
+  mode: "create2" | "create3";
+  /** Salt namespace; bump it to deploy a fresh set of addresses */
+  version: string;
+}
+
+export interface VotingPowerTier {
+  minVotingPower: string;
+  multiplierBps: string;
+}
+
+/** Config type validated by each schema, by schema name */
+export interface ConfigSchemaTypes {
+  deploy: DeployConfig;
+  "deploy-leaderboard": LeaderboardConfig;
+  "deploy-leaderboard-keeper": LeaderboardKeeperConfig;
+  "setup-dusthelper": DustHelperSetupConfig;
+}
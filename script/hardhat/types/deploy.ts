@@ -1,5 +1,8 @@
 // Deployment-related type definitions
 
+import { DeterministicConfig } from "./config.generated";
+import { NetworkProfile } from "./profile";
+
 export type DeployableContract =
   | "Dust"
   | "DustLock"
@@ -19,57 +22,44 @@ export interface TaskArgs {
   configFile?: string;
   exclude?: string;
   dryRun?: boolean;
+  resume?: boolean;
+  safe?: boolean;
+}
+
+export interface DeployPredictArgs extends TaskArgs {
+  mode?: string;
+  saltVersion?: string;
+  deployer?: string;
+}
+
+export type GasEntry = {
+  label: string;
+  from: string;
+  gasUsed: bigint;
+  gasPrice: bigint;
+  costWei: bigint;
+};
+
+/** Gas log of a deployment session (deployments/<network>/<timestamp>/gas.json) */
+export interface GasReport {
+  network: string;
+  chainId: number;
+  session: number;
+  task: string;
+  /** Amounts as decimal strings */
+  entries: Array<Record<keyof GasEntry, string>>;
+  totalGas: string;
+  totalCostWei: string;
 }
 
-export interface DeployConfig {
-  addresses?: Partial<Record<DeployableContract, string>>;
-  dust?: {
-    initialOwner?: string;
-    totalSupply?: string;
-  };
-  dustLock?: {
-    forwarder?: string;
-    baseURI?: string;
-    team?: string;
-    earlyWithdrawTreasury?: string;
-    minLockAmount?: string;
-  };
-  dustRewardsController?: {
-    emissionManager?: string;
-  };
-  revenueReward?: {
-    forwarder?: string;
-    distributor?: string;
-  };
-  transferStrategy?: {
-    incentivesControllerOverride?: string;
-    rewardsAdmin?: string;
-    dustVault?: string;
-  };
-  dustHelper?: {
-    forwarder?: string;
-    owner?: string;
-    uniswapPair?: string;
-  };
-  uiProvider?: {
-    forwarder?: string;
-    aaveLendingPoolAddressProvider?: string;
-  };
-  selfRepaying?: {
-    registry?: {
-      owner?: string;
-      executor?: string;
-      maxSwapSlippageBps?: string;
-      supportedAggregators?: string[];
-    };
-    beaconOwner?: string;
-    poolAddressesProviderRegistry?: string;
-  };
-  proxyAdmin?: {
-    owner?: string;
-  };
+export interface GasComparisonRow {
+  step: string;
+  baseGas?: bigint;
+  targetGas?: bigint;
 }
 
+export type DeterministicMode = DeterministicConfig["mode"];
+
 export interface DeployNeverlandArgs {
   forwarder: string;
   dustlock?: string;
@@ -118,22 +108,49 @@ export interface ContractParam {
   configKey?: string; // Key to lookup in deployment config
 }
 
+export type ProxyKind = "transparent" | "uups";
+
+export interface ContractProxy {
+  kind: ProxyKind;
+  /** Initializer function name; false leaves the proxy uninitialized */
+  initializer: string | false;
+  initializerParams: ContractParam[];
+}
+
+/** A post-deploy call linking a contract to others (e.g. DustLock.setRevenueReward) */
+export interface WiringEdge {
+  label: string;
+  /** Contract the call is sent to */
+  target: string;
+  /** Every contract the call involves, target included */
+  contracts: string[];
+}
+
 export interface ContractConfig {
   name: string;
   displayName: string;
   description: string;
   constructorParams: ContractParam[];
+  /** Deployed behind a proxy; constructor params go to the implementation */
+  proxy?: ContractProxy;
   dependencies?: string[]; // Other contracts that must be deployed first
+  wiring?: WiringEdge[]; // Calls that wire the contract up once deployed
 }
 
 export interface NetworkConfig {
   networkName?: string;
   chainId?: number;
   addresses?: Record<string, string>;
+  profile?: NetworkProfile;
 }
 
 export interface DeploymentResult {
   name: string;
   address: string;
   params: string[];
+  contract?: string; // Fully qualified name for verification
+  /** Implementation and ProxyAdmin, for proxies */
+  implementation?: string;
+  admin?: string;
+  initializerArgs?: string[];
 }
@@ -0,0 +1,24 @@
+// EpochManager task type definitions
+
+/** EpochManager.getEpochDetails of one epoch; end fields are 0 while it runs */
+export interface EpochDetails {
+  epoch: number;
+  startBlock: number;
+  startTime: number;
+  endBlock: number;
+  endTime: number;
+}
+
+export interface EpochStatus {
+  currentEpoch: number;
+  hasStarted: boolean;
+  isInGapPeriod: boolean;
+  owner: string;
+  /** Details of the current (or last ended) epoch, if any */
+  current?: EpochDetails;
+}
+
+export interface EpochTxArgs {
+  safe?: boolean;
+  force?: boolean;
+}
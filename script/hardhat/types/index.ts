@@ -2,6 +2,22 @@
 
 // Re-export all types
 export * from "./deploy";
+export * from "./plan";
+export * from "./safe";
+export * from "./manifest";
+export * from "./verify";
+export * from "./layout";
+export * from "./upgrade";
+export * from "./timelock";
+export * from "./profile";
+export * from "./schema";
+export * from "./config.generated";
+export * from "./answers";
+export * from "./keeper";
+export * from "./points";
+export * from "./epoch";
+export * from "./awards";
+export * from "./partnerships";
 
 // Monorail Pathfinder API types
 
@@ -0,0 +1,89 @@
+// Leaderboard keeper bot type definitions
+
+/** State the keeper verifies for a user (ILeaderboardKeeper.UserState) */
+export interface KeeperUserState {
+  votingPower: bigint;
+  nftCollectionCount: bigint;
+}
+
+/** Last verified state of a user, as decimal strings */
+export interface KeeperVerifiedState {
+  votingPower: string;
+  nftCollectionCount: string;
+}
+
+/**
+ * Keeper progress between runs (deployments/<network>/keeper-state.json)
+ */
+export interface KeeperStateFile {
+  version: 1;
+  network: string;
+  keeper: string;
+  /** Next block to scan for veNFT transfers and StateVerified events */
+  nextBlock: number;
+  /** Known users; null until their state is first verified on-chain */
+  users: Record<string, KeeperVerifiedState | null>;
+}
+
+export interface KeeperOptions {
+  /** Simulate batches with staticCall; nothing is sent or saved */
+  dryRun?: boolean;
+  /** Voting power drift (bps of the verified value) settled without a correction */
+  toleranceBps: number;
+  /** Attempts per batch before it is reported as failed */
+  maxRetries: number;
+  /** Delay before the first retry, doubled on each further one */
+  retryDelayMs: number;
+  /** Blocks per eth_getLogs request while discovering users */
+  logChunkSize: number;
+  /** First block to scan when there is no state file (default: DustLock deployment) */
+  fromBlock?: number;
+  /** Users to consider on top of the discovered ones */
+  users?: string[];
+}
+
+/** A user's last settlement and current on-chain state */
+export interface KeeperUserReading {
+  user: string;
+  /** LeaderboardKeeper.lastSettlement (0 if never settled) */
+  last: bigint;
+  state: KeeperUserState;
+}
+
+/** Active users of one run, sorted by what their settlement needs */
+export interface KeeperRunPlan {
+  users: number;
+  active: number;
+  tooSoon: number;
+  /** Due users whose verified state drifted (batchVerifyAndSettle) */
+  corrections: Array<{ user: string; state: KeeperUserState }>;
+  /** Due users whose verified state still holds (batchSettleAccurate) */
+  accurate: string[];
+  /** Latest block timestamp */
+  now: bigint;
+}
+
+export interface KeeperRunSummary {
+  /** Users known to the keeper */
+  users: number;
+  /** Users with voting power, partner NFTs or a verified state to clear */
+  active: number;
+  /** Active users settled less than minSettlementInterval ago */
+  tooSoon: number;
+  /** Users sent to batchVerifyAndSettle */
+  corrections: number;
+  /** Users sent to batchSettleAccurate */
+  settled: number;
+  batches: number;
+  failedBatches: number;
+}
+
+export interface KeeperArgs {
+  loop?: boolean;
+  interval?: string;
+  dryRun?: boolean;
+  users?: string;
+  fromBlock?: string;
+  toleranceBps?: string;
+  maxRetries?: string;
+}
@@ -0,0 +1,44 @@
+// Storage layout compatibility (pre-upgrade gate)
+
+/** Storage layout in the shape solc and .openzeppelin/<network>.json share */
+export interface StorageLayout {
+  storage: Array<{
+    label: string;
+    slot: string;
+    offset: number;
+    type: string;
+    contract: string;
+  }>;
+  types: Record<
+    string,
+    {
+      label: string;
+      numberOfBytes: string;
+      members?: Array<{
+        label: string;
+        type: string;
+        slot: string;
+        offset: number;
+      }>;
+    }
+  >;
+}
+
+export type LayoutChangeKind =
+  | "unchanged"
+  | "added"
+  | "gap-resized" // Gap shrunk to make room for new variables
+  | "renamed"
+  | "moved" // Variable now lives at another slot/offset
+  | "removed"
+  | "retyped";
+
+export interface LayoutChange {
+  kind: LayoutChangeKind;
+  slot: string;
+  offset: number;
+  before?: string;
+  after?: string;
+  /** Breaks existing storage */
+  breaking: boolean;
+}
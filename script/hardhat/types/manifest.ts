@@ -0,0 +1,68 @@
+// Deployments manifest (deployments/<network>/manifest.json)
+
+export type ManifestContractKind =
+  | "contract"
+  | "transparentProxy"
+  | "beacon"
+  | "proxyAdmin"
+  | "library";
+
+export interface ManifestContract {
+  /** Address callers interact with (the proxy for proxied contracts) */
+  address: string;
+  kind: ManifestContractKind;
+  /** Artifact the contract (or its implementation) was built from */
+  artifact?: string;
+  /** Current implementation behind a transparent proxy or beacon */
+  implementation?: string;
+  /** ProxyAdmin of a transparent proxy */
+  admin?: string;
+  /** Linked library addresses by library name */
+  libraries?: Record<string, string>;
+  constructorArgs?: unknown[];
+  txHash?: string;
+  blockNumber?: number;
+  deployer?: string;
+  /** Deployment time (ms since epoch) */
+  timestamp?: number;
+  /** Last recorded values of the tracked getters (config/drift.ts), by label */
+  state?: Record<string, string>;
+}
+
+export interface DeploymentManifest {
+  version: 1;
+  network: string;
+  chainId: number;
+  /** Last write (ISO 8601) */
+  updatedAt: string;
+  contracts: Record<string, ManifestContract>;
+}
+
+// Drift detection (deployments:diff)
+
+export interface TrackedRead {
+  label: string;
+  /** Human-readable ABI fragment, e.g. "function owner() view returns (address)" */
+  signature: string;
+  /** Call arguments: names of manifest contracts whose addresses are passed */
+  args?: string[];
+}
+
+export type DriftStatus = "ok" | "drift" | "unrecorded" | "error";
+
+export interface DriftRow {
+  contract: string;
+  check: string;
+  expected: string;
+  actual: string;
+  status: DriftStatus;
+}
+
+export interface DriftReport {
+  network: string;
+  chainId: number;
+  blockNumber: number;
+  generatedAt: string;
+  drift: boolean;
+  rows: DriftRow[];
+}
@@ -0,0 +1,42 @@
+// NFT partnership task type definitions
+
+export type PartnershipStatus = "active" | "scheduled" | "expired" | "inactive";
+
+/** INFTPartnershipRegistry.Partnership with its status at a timestamp */
+export interface PartnershipInfo {
+  collection: string;
+  name: string;
+  active: boolean;
+  startTimestamp: number;
+  /** 0 for open-ended partnerships */
+  endTimestamp: number;
+  status: PartnershipStatus;
+}
+
+export interface PartnershipAddArgs {
+  collection: string;
+  name: string;
+  start?: string;
+  end?: string;
+  safe?: boolean;
+}
+
+export interface PartnershipUpdateArgs {
+  collection: string;
+  /** "true" or "false" */
+  active: string;
+  safe?: boolean;
+}
+
+export interface PartnershipRemoveArgs {
+  collection: string;
+  safe?: boolean;
+}
+
+export interface MultiplierArgs {
+  firstBonus?: string;
+  decayRatio?: string;
+  max?: string;
+  apply?: boolean;
+  safe?: boolean;
+}
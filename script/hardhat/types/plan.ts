@@ -0,0 +1,136 @@
+// Declarative deployment plan types
+
+import { ContractConfig, ContractParam, ContractProxy } from "./deploy";
+
+/**
+ * Where a plan value comes from, resolved when the plan runs.
+ * A missing value falls through to `fallback`; if it is still missing the
+ * engine throws, unless `optional` is set, in which case the call using it is skipped.
+ */
+export type ArgSource = (
+  | { from: "config"; path: string } // Dotted path into the deploy config
+  | { from: "contract"; name: string } // Address of a plan entry (or config.addresses)
+  | { from: "deployer" }
+  | { from: "value"; value: string | boolean }
+  | { from: "wallet"; env: string } // Address of a private-key wallet from env
+  | { from: "read"; target: string; method: string } // View call on a plan entry
+  | { from: "item" } // Current element of a `forEach` call
+) & {
+  fallback?: ArgSource;
+  optional?: boolean;
+};
+
+export interface PlanParam extends ContractParam {
+  source: ArgSource;
+}
+
+export interface PlanProxy extends ContractProxy {
+  initializerParams: PlanParam[];
+  unsafeAllow?: string[];
+  /**
+   * Views the initializer sets to msg.sender; deterministic deploys refuse
+   * the entry, as CreateX sends the initializer
+   */
+  senderRoles?: string[];
+  /**
+   * Views matched against initializer params (by name) when a deterministic
+   * proxy is found already initialized
+   */
+  initializedState?: Array<{ read: string; param: string }>;
+}
+
+/**
+ * Idempotency check for a call: the call is skipped when `read(args)`
+ * equals `equals` (defaults to the call's first argument) or differs from `notEquals`.
+ */
+export interface PlanGuard {
+  read: string;
+  args?: ArgSource[];
+  equals?: ArgSource;
+  notEquals?: ArgSource;
+}
+
+export interface PlanCall {
+  /** Label used in logs, the gas report and the journal */
+  label: string;
+  /** Plan entry to call; defaults to the entry being deployed */
+  target?: string;
+  method: string;
+  args: ArgSource[];
+  /** Sender; defaults to the deployer */
+  signer?: ArgSource;
+  guard?: PlanGuard;
+  /** Config path of an array; the call runs once per element ({ from: "item" }) */
+  forEach?: string;
+  /** Skip the call when the target was supplied instead of deployed in this run */
+  skipIfTargetExcluded?: boolean;
+  /** Record a pending action instead of failing when the call cannot be sent */
+  deferrable?: boolean;
+  /** Cross-contract wiring, also applied and audited by the interactive deployer */
+  wiring?: boolean;
+  /**
+   * Owner that executes the call in Safe mode (after the entry's ownership
+   * handoffs); other calls go to a Safe batch when their signer is not the deployer
+   */
+  safe?: ArgSource;
+}
+
+export interface OwnershipHandoff {
+  method: string;
+  /** View returning the current owner */
+  read: string;
+  to: ArgSource;
+  /** For two-step handoffs, the method the new owner must call */
+  accept?: string;
+}
+
+export interface PlanEntry extends ContractConfig {
+  /** Artifact name passed to getContractFactory */
+  artifact: string;
+  constructorParams: PlanParam[];
+  /** Libraries deployed alongside the entry and linked into its bytecode */
+  libraries?: string[];
+  proxy?: PlanProxy;
+  /** Post-deploy setter calls, in order */
+  setup?: PlanCall[];
+  ownership?: OwnershipHandoff[];
+  /** Fully qualified name used for explorer verification (implementation for proxies) */
+  verify?: string;
+  /**
+   * The constructor makes msg.sender the owner; deterministic deploys hand
+   * ownership from the factory back to the deployer
+   */
+  ownedBySender?: boolean;
+}
+
+/**
+ * State of a wiring call:
+ * - applied: already on-chain
+ * - wired: sent in this run
+ * - missing: not on-chain yet
+ * - deferred: could not be sent; recorded as a pending action
+ * - unavailable: a contract it involves is neither deployed nor known
+ * - unconfigured: an argument has no value (optional arguments skip the call)
+ */
+export type WiringStatus =
+  | "applied"
+  | "wired"
+  | "missing"
+  | "deferred"
+  | "unavailable"
+  | "unconfigured";
+
+export interface WiringResult {
+  label: string;
+  /** Plan entry declaring the call */
+  entry: string;
+  status: WiringStatus;
+  detail?: string;
+}
+
+export interface DeploymentPlan {
+  name: string;
+  entries: PlanEntry[];
+  /** Shared ProxyAdmin ownership handoff, applied after all entries */
+  proxyAdminOwner?: ArgSource;
+}
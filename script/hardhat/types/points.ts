@@ -0,0 +1,122 @@
+// Leaderboard points calculator type definitions
+//
+// Amounts (USD values, voting power, bonuses, points) are 18-decimal
+// fixed point, like on-chain; rates and multipliers are basis points.
+
+/** LeaderboardConfig.getAllConfig() */
+export interface PointsRates {
+  depositRateBps: bigint;
+  borrowRateBps: bigint;
+  /** Points per day per 1e18 voting power, in basis points */
+  vpRateBps: bigint;
+  supplyDailyBonus: bigint;
+  borrowDailyBonus: bigint;
+  repayDailyBonus: bigint;
+  withdrawDailyBonus: bigint;
+  cooldownSeconds: bigint;
+  minDailyBonusUsd: bigint;
+}
+
+/** VotingPowerMultiplier tier (getAllTiers() order is significant) */
+export interface PointsTier {
+  minVotingPower: bigint;
+  multiplierBps: bigint;
+}
+
+/** NFTPartnershipRegistry multiplier parameters */
+export interface PointsNftParams {
+  firstBonus: bigint;
+  decayRatio: bigint;
+}
+
+export interface PointsConfig {
+  rates: PointsRates;
+  tiers: PointsTier[];
+  nft: PointsNftParams;
+}
+
+/** An EpochManager epoch; endTime 0 while it is still running */
+export interface PointsEpoch {
+  epoch: number;
+  startTime: number;
+  endTime: number;
+}
+
+export type LendingAction = "supply" | "borrow" | "repay" | "withdraw";
+
+/** Lending action; amountUsd moves the deposit or borrow balance */
+export interface ActionEvent {
+  type: LendingAction;
+  timestamp: number;
+  amountUsd: bigint;
+}
+
+/** Revalued deposit and borrow balances (e.g. after a price move) */
+export interface PositionEvent {
+  type: "position";
+  timestamp: number;
+  depositUsd: bigint;
+  borrowUsd: bigint;
+}
+
+/** Verified keeper state (LeaderboardKeeper StateVerified) */
+export interface StateEvent {
+  type: "state";
+  timestamp: number;
+  /** Summed veNFT voting power, accruing vpRateBps */
+  votingPower: bigint;
+  /** Voting power of the user's strongest veNFT, which picks the tier (default: votingPower) */
+  multiplierVotingPower?: bigint;
+  nftCollectionCount: bigint;
+}
+
+/** Configuration change, applied from its timestamp on */
+export interface ConfigEvent {
+  type: "config";
+  timestamp: number;
+  rates?: Partial<PointsRates>;
+  tiers?: PointsTier[];
+  nft?: PointsNftParams;
+}
+
+export type TimelineEvent =
+  | ActionEvent
+  | PositionEvent
+  | StateEvent
+  | ConfigEvent;
+
+/** Points earned in one epoch */
+export interface EpochPoints {
+  epoch: number;
+  startTime: number;
+  endTime: number;
+  /** Base points from the deposit balance, before multipliers */
+  deposit: bigint;
+  /** Base points from the borrow balance, before multipliers */
+  borrow: bigint;
+  /** Base points from voting power, before multipliers */
+  votingPower: bigint;
+  /** Daily bonuses, before multipliers */
+  dailyBonus: bigint;
+  /** Daily bonuses awarded */
+  bonusCount: number;
+  /** deposit + borrow + votingPower + dailyBonus */
+  base: bigint;
+  /** Points added by the VP and NFT multipliers */
+  multiplierBonus: bigint;
+  total: bigint;
+  /** Combined multiplier at the end of the epoch */
+  multiplierBps: bigint;
+}
+
+export interface PointsResult {
+  epochs: EpochPoints[];
+  total: bigint;
+}
+
+export interface PointsArgs {
+  timeline: string;
+  until?: string;
+  live?: boolean;
+  json?: boolean;
+}
@@ -0,0 +1,34 @@
+// Network profile types (config/networks/<network>.json)
+
+/** External contracts a profile can pin, by well-known name */
+export type ProfileAddressKey =
+  | "aavePoolAddressesProvider"
+  | "poolAddressesProviderRegistry"
+  | "monorailAggregator"
+  | "usdc"
+  | "dust"
+  | "dustPair"
+  | "pairUsdOracle"
+  | "v4PoolManager";
+
+/** A profile file as written on disk */
+export interface NetworkProfileFile {
+  /** Profile this one inherits from (file name without .json) */
+  extends?: string;
+  description?: string;
+  /** Chain id, used to match networks without a profile of their own (e.g. anvil-fork) */
+  chainId?: number;
+  addresses?: Partial<Record<ProfileAddressKey, string>>;
+  /** Parameter defaults by parameter name (decimal strings for numbers) */
+  defaults?: Record<string, string>;
+}
+
+/** A profile merged with everything it inherits from */
+export interface NetworkProfile {
+  name: string;
+  chainId?: number;
+  addresses: Partial<Record<ProfileAddressKey, string>>;
+  defaults: Record<string, string>;
+  /** Profiles applied, base first */
+  inherits: string[];
+}
@@ -0,0 +1,54 @@
+// Config schema and interpolation type definitions
+
+import { DeploymentManifest } from "./manifest";
+import { NetworkProfile } from "./profile";
+
+/**
+ * String formats on top of JSON Schema:
+ * - address: EIP-55 checksummed address
+ * - uint256: decimal integer string below 2^256
+ * - bps: uint256 of at most 10000
+ * - bytes32: 0x-prefixed 32 byte hex string
+ * - uri: absolute http(s) URI
+ */
+export type SchemaFormat = "address" | "uint256" | "bps" | "bytes32" | "uri";
+
+/**
+ * The JSON Schema (draft-07) subset the config schemas use. `minimum` and
+ * `maximum` also bound uint256/bps strings, given as decimal strings.
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  /** Name of the generated type; untitled objects are inlined */
+  title?: string;
+  description?: string;
+  type?: "object" | "array" | "string" | "boolean" | "integer";
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  enum?: Array<string | number | boolean>;
+  format?: SchemaFormat;
+  minimum?: number | string;
+  maximum?: number | string;
+}
+
+/** A validation failure at a JSON path (e.g. `$.keeper.dustLock`) */
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+/** Where a `${...}` reference in a config file resolves, in lookup order */
+export type InterpolationSource = "env" | "manifest" | "profile";
+
+export interface InterpolationSources {
+  env: NodeJS.ProcessEnv;
+  /** Manifest of the target network; null before its first deployment */
+  manifest: DeploymentManifest | null;
+  profile: NetworkProfile;
+}
@@ -0,0 +1,38 @@
+// TimelockController proposals (deployments/<network>/timelock.json)
+
+export type TimelockOperationStatus = "unset" | "pending" | "ready" | "done";
+
+export interface TimelockOperation {
+  /** hashOperation(target, value, data, predecessor, salt) */
+  id: string;
+  label: string;
+  timelock: string;
+  target: string;
+  value: string;
+  data: string;
+  /** Operation that must be executed first (zero for none) */
+  predecessor: string;
+  salt: string;
+  /** Delay the operation is scheduled with, in seconds */
+  delay: number;
+  /** Calldata for TimelockController.schedule(...) */
+  schedule: string;
+  /** Calldata for TimelockController.execute(...) */
+  execute: string;
+  createdAt: string;
+  /** Set for upgrades, to update the manifest and ledger on execution */
+  upgrade?: {
+    proxy: string;
+    implementation: string;
+    artifact?: string;
+    beacon?: boolean;
+  };
+  executedTx?: string;
+}
+
+export interface TimelockQueue {
+  version: 1;
+  network: string;
+  chainId: number;
+  operations: TimelockOperation[];
+}
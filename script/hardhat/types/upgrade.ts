@@ -0,0 +1,68 @@
+// Upgrade simulation (upgrade:simulate)
+
+export interface SimulationRead {
+  check: string;
+  before: string;
+  after: string;
+  diverged: boolean;
+}
+
+export interface SimulationReport {
+  network: string;
+  forkBlock: number;
+  /** Timestamp time-dependent reads are pinned to */
+  timestamp: number;
+  upgrade: string;
+  params: Record<string, unknown>;
+  tokenIds: string[];
+  passed: boolean;
+  reads: SimulationRead[];
+}
+
+// Upgrade ledger (deployments/<network>/upgrades.json)
+
+export type UpgradeLedgerEventKind = "upgrade" | "adminChange";
+
+export interface UpgradeLedgerEntry {
+  /** Manifest name of the proxy or beacon (its address when unknown) */
+  contract: string;
+  proxy: string;
+  kind: UpgradeLedgerEventKind;
+  previousImplementation?: string;
+  implementation?: string;
+  previousAdmin?: string;
+  /** ProxyAdmin after the event */
+  admin?: string;
+  txHash: string;
+  blockNumber: number;
+  /** Block timestamp (seconds) */
+  timestamp: number;
+  /** Sender of the transaction */
+  operator: string;
+  /** Hardhat build-info id the implementation was compiled from */
+  buildInfo?: string;
+  /** "task" when appended by an upgrade task, "chain" when rebuilt from events */
+  source: "task" | "chain";
+}
+
+export interface UpgradeLedger {
+  version: 1;
+  network: string;
+  chainId: number;
+  entries: UpgradeLedgerEntry[];
+}
+
+export type LedgerCheckStatus =
+  | "matched"
+  | "mismatch"
+  | "chain only" // Missing from the local ledger (backfill with --write)
+  | "local only"; // Recorded locally but not found on chain
+
+export interface LedgerCheckRow {
+  contract: string;
+  kind: UpgradeLedgerEventKind;
+  txHash: string;
+  blockNumber: number;
+  status: LedgerCheckStatus;
+  details?: string;
+}
@@ -0,0 +1,82 @@
+// Deployment invariant checks (verify:deployment)
+
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeploymentManifest } from "./manifest";
+
+export type CheckStatus =
+  | "pass"
+  | "fail"
+  | "pending" // Two-step handoff or setup not completed yet
+  | "warn" // Manual action required, does not fail the run
+  | "info"
+  | "skip" // Nothing configured to compare against
+  | "error"; // The check itself could not read the chain
+
+/**
+ * Where an expected value comes from
+ */
+export type ExpectedSource =
+  | { from: "config"; path: string; config?: string } // Dotted path into a loaded config (defaults to "deploy")
+  | { from: "contract"; name: string } // Address of a manifest contract
+  | { from: "value"; value: string };
+
+export interface CheckContext {
+  hre: HardhatRuntimeEnvironment;
+  manifest: DeploymentManifest;
+  /** Loaded config files by name ("deploy", "leaderboard", "keeper", ...) */
+  configs: Record<string, Record<string, any>>;
+}
+
+export interface CheckOutcome {
+  status: CheckStatus;
+  expected?: string;
+  actual?: string;
+  details?: string;
+}
+
+export interface Invariant {
+  /** Manifest contract the check is about; skipped when it is not deployed */
+  contract: string;
+  name: string;
+  run: (ctx: CheckContext) => Promise<CheckOutcome>;
+}
+
+export interface CheckResult extends CheckOutcome {
+  contract: string;
+  name: string;
+  durationMs: number;
+}
+
+export interface VerifyReport {
+  network: string;
+  chainId: number;
+  blockNumber: number;
+  generatedAt: string;
+  passed: boolean;
+  results: CheckResult[];
+}
+
+// Bytecode equivalence (verify:bytecode)
+
+export type BytecodeStatus =
+  | "match" // Same code as the current artifact
+  | "stale" // Matches an older local build, not the current sources
+  | "recorded" // Differs from local builds but is the implementation recorded with its metadata
+  | "unknown" // No local build or recorded metadata explains the code
+  | "missing" // No code at the address
+  | "skipped";
+
+export interface BytecodeComparison {
+  contract: string;
+  artifact?: string;
+  /** Address whose code was compared (the implementation for proxies) */
+  address: string;
+  status: BytecodeStatus;
+  /** Build info id the code matched */
+  buildId?: string;
+  /** Linked library addresses found in the code, by library name */
+  libraries: Record<string, string>;
+  /** Immutable values found in the code, by variable name */
+  immutables: Record<string, string>;
+  details?: string;
+}
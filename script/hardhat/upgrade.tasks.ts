@@ -3,6 +3,47 @@ import type { ContractFactory } from "ethers";
 import type { HardhatRuntimeEnvironment } from "hardhat/types";
 import fs from "fs";
 import path from "path";
+import { SafeBatchCollector, getSafeBatchDir } from "./helpers/safe";
+import {
+  TIMELOCK_ABI,
+  getOperationStatus,
+  proposeTimelockCall,
+  readTimelockQueue,
+  writeTimelockQueue,
+} from "./helpers/timelock";
+import { assertStorageCompatible } from "./helpers/layout";
+import { loadDeploymentAddresses } from "./helpers/export";
+import { loadConfigFile } from "./helpers/config";
+import {
+  findManifestContract,
+  loadManifest,
+  readManifest,
+  updateManifest,
+} from "./helpers/manifest";
+import { compareBytecode } from "./helpers/bytecode";
+import {
+  forkNetwork,
+  impersonate,
+  takeOwnership,
+  withFork,
+} from "./helpers/fork";
+import {
+  crossCheckLedger,
+  fetchUpgradeHistory,
+  mergeLedgerEntries,
+  readLedger,
+  recordUpgrade,
+  writeLedger,
+} from "./helpers/ledger";
+import {
+  collectUpgradeReads,
+  collectVaultReads,
+  diffReads,
+  findVaultUsers,
+  sampleEvenly,
+  sampleTokenIds,
+} from "./helpers/simulate";
+import { SimulationReport, UpgradeLedgerEntry } from "./types/upgrade";
 
 /*//////////////////////////////////////////////////////////////
                         VERIFICATION HELPER
@@ -39,6 +80,90 @@ const verifyContract = async (
   }
 };
 
+/*//////////////////////////////////////////////////////////////
+                        SAFE BATCH EXPORT
+//////////////////////////////////////////////////////////////*/
+/**
+ * Write ProxyAdmin.upgrade(proxy, impl) as a Safe Transaction Builder batch
+ * for the ProxyAdmin owner (deployments/<network>/<timestamp>-safe/)
+ */
+const writeUpgradeBatch = async (
+  hre: HardhatRuntimeEnvironment,
+  proxyAdmin: string,
+  proxy: string,
+  impl: string,
+  label: string
+): Promise<void> => {
+  const admin = await hre.ethers.getContractAt("ProxyAdmin", proxyAdmin);
+  const owner = await admin.owner();
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const batch = new SafeBatchCollector(Number(chainId), `Upgrade ${label}`);
+  batch.add(
+    owner,
+    proxyAdmin,
+    admin.interface.encodeFunctionData("upgrade", [proxy, impl]),
+    `ProxyAdmin.upgrade(${label} -> ${impl})`
+  );
+  for (const file of batch.write(
+    getSafeBatchDir(hre.network.name, Date.now())
+  )) {
+    console.log(`🧾 Safe batch written: ${path.relative(process.cwd(), file)}`);
+  }
+};
+
+/**
+ * Queue ProxyAdmin.upgrade(proxy, impl) as a TimelockController operation
+ * (schedule/execute calldata in deployments/<network>/timelock.json)
+ */
+const proposeProxyAdminUpgrade = async (
+  hre: HardhatRuntimeEnvironment,
+  timelock: string,
+  proxyAdmin: string,
+  proxy: string,
+  impl: string,
+  label: string,
+  artifact?: string,
+  predecessor?: string
+): Promise<void> => {
+  const admin = await hre.ethers.getContractAt("ProxyAdmin", proxyAdmin);
+  const owner = await admin.owner();
+  if (owner.toLowerCase() !== timelock.toLowerCase()) {
+    console.warn(
+      `⚠️  ProxyAdmin ${proxyAdmin} is owned by ${owner}, not the timelock ${timelock}`
+    );
+  }
+  await proposeTimelockCall(hre, {
+    timelock,
+    target: proxyAdmin,
+    data: admin.interface.encodeFunctionData("upgrade", [proxy, impl]),
+    label: `ProxyAdmin.upgrade(${label} -> ${impl})`,
+    upgrade: { proxy, implementation: impl, artifact },
+    predecessor,
+  });
+};
+
+/**
+ * Point the manifest entry of an upgraded proxy at its new implementation
+ */
+const recordImplementation = async (
+  hre: HardhatRuntimeEnvironment,
+  proxy: string,
+  impl: string
+): Promise<void> => {
+  const manifest = readManifest(hre.network.name);
+  const found = manifest && findManifestContract(manifest, proxy);
+  if (!found) {
+    console.warn(
+      `⚠️  ${proxy} is not in deployments/${hre.network.name}/manifest.json; implementation not recorded`
+    );
+    return;
+  }
+  await updateManifest(hre, {
+    [found[0]]: { address: proxy, implementation: impl },
+  });
+  console.log(`📓 Recorded ${found[0]} implementation ${impl} in the manifest`);
+};
+
 /*//////////////////////////////////////////////////////////////
                    IMPLEMENTATION DEPLOY HELPERS
 //////////////////////////////////////////////////////////////*/
@@ -97,22 +222,89 @@ task("upgrade:proxy", "Upgrade a TransparentUpgradeableProxy via ProxyAdmin")
   .addParam("proxyadmin", "ProxyAdmin address")
   .addParam("proxy", "Proxy address to upgrade")
   .addParam("impl", "New implementation address")
+  .addOptionalParam(
+    "contract",
+    "Artifact of the new implementation, for the storage layout check (defaults to the manifest artifact)"
+  )
+  .addFlag(
+    "safe",
+    "Write a Safe Transaction Builder batch for the ProxyAdmin owner instead of sending"
+  )
+  .addFlag("skipLayoutCheck", "Upgrade without the storage layout check")
+  .addOptionalParam(
+    "timelock",
+    "TimelockController owning the ProxyAdmin: queue schedule/execute calldata instead of upgrading"
+  )
+  .addOptionalParam(
+    "predecessor",
+    "With --timelock: operation id to chain after (0x00…00 for none; defaults to the latest scheduled operation)"
+  )
   .setAction(async (args, hre) => {
-    const { proxyadmin, proxy, impl } = args as {
+    const {
+      proxyadmin,
+      proxy,
+      impl,
+      contract,
+      safe,
+      skipLayoutCheck,
+      timelock,
+      predecessor,
+    } = args as {
       proxyadmin: string;
       proxy: string;
       impl: string;
+      contract?: string;
+      safe: boolean;
+      skipLayoutCheck: boolean;
+      timelock?: string;
+      predecessor?: string;
     };
+    const manifest = readManifest(hre.network.name);
+    const found = manifest && findManifestContract(manifest, proxy);
+    if (!skipLayoutCheck) {
+      await assertStorageCompatible(hre, {
+        label: found?.[0] ?? proxy,
+        proxy,
+        implementation: impl,
+        contractName: contract ?? found?.[1].artifact,
+      });
+    }
+    if (timelock) {
+      await proposeProxyAdminUpgrade(
+        hre,
+        timelock,
+        proxyadmin,
+        proxy,
+        impl,
+        found?.[0] ?? proxy,
+        contract ?? found?.[1].artifact,
+        predecessor
+      );
+      return;
+    }
+    if (safe) {
+      await writeUpgradeBatch(hre, proxyadmin, proxy, impl, proxy);
+      return;
+    }
     const signer = (await hre.ethers.getSigners())[0];
     const admin = await hre.ethers.getContractAt(
       "ProxyAdmin",
       proxyadmin,
       signer
     );
+    const previous = await hre.upgrades.erc1967.getImplementationAddress(proxy);
     const tx = await admin.upgrade(proxy, impl);
     console.log("Upgrade tx:", tx.hash);
     await tx.wait();
     console.log("Upgraded", proxy, "->", impl);
+    await recordImplementation(hre, proxy, impl);
+    await recordUpgrade(hre, {
+      proxy,
+      previousImplementation: previous,
+      implementation: impl,
+      txHash: tx.hash,
+      artifact: contract ?? found?.[1].artifact,
+    });
   });
 
 /*//////////////////////////////////////////////////////////////
@@ -122,10 +314,6 @@ const DEFAULT_CONFIG_PATH = path.resolve(
   __dirname,
   "../hardhat/config/deploy.json"
 );
-function loadConfig(p: string): any {
-  if (!fs.existsSync(p)) throw new Error(`Config not found: ${p}`);
-  return JSON.parse(fs.readFileSync(p, "utf8"));
-}
 
 async function showImplChange(
   hre: HardhatRuntimeEnvironment,
@@ -143,6 +331,75 @@ async function showImplChange(
   }
 }
 
+/**
+ * Upgrade a proxy through the plugin, or with `safe` / `timelock` deploy the
+ * new implementation only and export the ProxyAdmin.upgrade call as a Safe
+ * batch or a timelock operation.
+ * Either way the storage layout check runs first unless skipped
+ */
+async function applyUpgrade(
+  hre: HardhatRuntimeEnvironment,
+  proxyAddr: string,
+  factory: ContractFactory,
+  opts: Parameters<HardhatRuntimeEnvironment["upgrades"]["upgradeProxy"]>[2],
+  label: string,
+  safe: boolean,
+  skipLayoutCheck: boolean,
+  timelock?: string,
+  predecessor?: string
+): Promise<void> {
+  if (!skipLayoutCheck) {
+    await assertStorageCompatible(hre, {
+      label,
+      proxy: proxyAddr,
+      contractName: label,
+    });
+  }
+  await showImplChange(hre, proxyAddr, `${label} (pre)`);
+  if (safe || timelock) {
+    const impl = (await hre.upgrades.prepareUpgrade(
+      proxyAddr,
+      factory,
+      opts
+    )) as string;
+    console.log(`• ${label} new impl:    ${impl}`);
+    const proxyAdmin = await hre.upgrades.erc1967.getAdminAddress(proxyAddr);
+    if (timelock) {
+      await proposeProxyAdminUpgrade(
+        hre,
+        timelock,
+        proxyAdmin,
+        proxyAddr,
+        impl,
+        label,
+        label,
+        predecessor
+      );
+    } else {
+      await writeUpgradeBatch(hre, proxyAdmin, proxyAddr, impl, label);
+    }
+    return;
+  }
+  const previous =
+    await hre.upgrades.erc1967.getImplementationAddress(proxyAddr);
+  const upgraded = await hre.upgrades.upgradeProxy(proxyAddr, factory, opts);
+  await upgraded.waitForDeployment();
+  await showImplChange(hre, proxyAddr, `${label} (post)`);
+  const impl = await hre.upgrades.erc1967.getImplementationAddress(proxyAddr);
+  await recordImplementation(hre, proxyAddr, impl);
+  // The plugin attaches the upgrade transaction to the returned instance
+  const txHash: string | undefined = (upgraded as any).deployTransaction?.hash;
+  if (txHash) {
+    await recordUpgrade(hre, {
+      proxy: proxyAddr,
+      previousImplementation: previous,
+      implementation: impl,
+      txHash,
+      artifact: label,
+    });
+  }
+}
+
 /*//////////////////////////////////////////////////////////////
                         UPGRADE: DUST
 //////////////////////////////////////////////////////////////*/
@@ -156,22 +413,57 @@ task("upgrade:dust", "Upgrade Dust proxy using a fresh implementation")
     "Path to deployment config JSON file",
     DEFAULT_CONFIG_PATH
   )
-  .setAction(async (args: { proxy?: string; configFile: string }, hre) => {
-    const config = loadConfig(args.configFile);
-    const proxy = args.proxy || config.addresses?.Dust;
-    if (!proxy)
-      throw new Error(
-        "Missing Dust proxy address (pass --proxy or set config.addresses.Dust)"
+  .addFlag(
+    "safe",
+    "Deploy the implementation only and write the ProxyAdmin upgrade as a Safe batch"
+  )
+  .addFlag("skipLayoutCheck", "Upgrade without the storage layout check")
+  .addOptionalParam(
+    "timelock",
+    "TimelockController owning the ProxyAdmin: queue schedule/execute calldata instead of upgrading"
+  )
+  .addOptionalParam(
+    "predecessor",
+    "With --timelock: operation id to chain after (0x00…00 for none; defaults to the latest scheduled operation)"
+  )
+  .setAction(
+    async (
+      args: {
+        proxy?: string;
+        configFile: string;
+        safe?: boolean;
+        skipLayoutCheck?: boolean;
+        timelock?: string;
+        predecessor?: string;
+      },
+      hre
+    ) => {
+      const config = loadConfigFile(hre, "deploy", args.configFile);
+      const proxy =
+        args.proxy ||
+        config.addresses?.Dust ||
+        loadDeploymentAddresses(hre.network.name).Dust;
+      if (!proxy)
+        throw new Error(
+          "Missing Dust proxy address (pass --proxy, set config.addresses.Dust or record it in the deployments manifest)"
+        );
+      console.log(`Upgrading Dust at ${proxy}...`);
+      const F = await hre.ethers.getContractFactory("Dust");
+      await applyUpgrade(
+        hre,
+        proxy,
+        F,
+        {
+          redeployImplementation: "onchange",
+        },
+        "Dust",
+        !!args.safe,
+        !!args.skipLayoutCheck,
+        args.timelock,
+        args.predecessor
       );
-    console.log(`Upgrading Dust at ${proxy}...`);
-    const F = await hre.ethers.getContractFactory("Dust");
-    await showImplChange(hre, proxy, "Dust (pre)");
-    const upgraded = await hre.upgrades.upgradeProxy(proxy, F, {
-      redeployImplementation: "onchange",
-    });
-    await upgraded.waitForDeployment();
-    await showImplChange(hre, proxy, "Dust (post)");
-  });
+    }
+  );
 
 /*//////////////////////////////////////////////////////////////
                       UPGRADE: DUSTLOCK
@@ -191,6 +483,19 @@ task(
     "Path to deployment config JSON file",
     DEFAULT_CONFIG_PATH
   )
+  .addFlag(
+    "safe",
+    "Deploy the implementation only and write the ProxyAdmin upgrade as a Safe batch"
+  )
+  .addFlag("skipLayoutCheck", "Upgrade without the storage layout check")
+  .addOptionalParam(
+    "timelock",
+    "TimelockController owning the ProxyAdmin: queue schedule/execute calldata instead of upgrading"
+  )
+  .addOptionalParam(
+    "predecessor",
+    "With --timelock: operation id to chain after (0x00…00 for none; defaults to the latest scheduled operation)"
+  )
   .setAction(
     async (
       args: {
@@ -198,28 +503,42 @@ task(
         forwarder: string;
         balancelib: string;
         configFile: string;
+        safe?: boolean;
+        skipLayoutCheck?: boolean;
+        timelock?: string;
+        predecessor?: string;
       },
       hre
     ) => {
-      const config = loadConfig(args.configFile);
-      const proxy = args.proxy || config.addresses?.DustLock;
+      const config = loadConfigFile(hre, "deploy", args.configFile);
+      const proxy =
+        args.proxy ||
+        config.addresses?.DustLock ||
+        loadDeploymentAddresses(hre.network.name).DustLock;
       if (!proxy)
         throw new Error(
-          "Missing DustLock proxy address (pass --proxy or set config.addresses.DustLock)"
+          "Missing DustLock proxy address (pass --proxy, set config.addresses.DustLock or record it in the deployments manifest)"
         );
       console.log(`Upgrading DustLock at ${proxy}...`);
       const F = await hre.ethers.getContractFactory("DustLock", {
         libraries: { BalanceLogicLibrary: args.balancelib },
       });
-      await showImplChange(hre, proxy, "DustLock (pre)");
-      const upgraded = await hre.upgrades.upgradeProxy(proxy, F, {
-        constructorArgs: [args.forwarder],
-        unsafeAllow: ["constructor", "external-library-linking"],
-        unsafeAllowLinkedLibraries: true,
-        redeployImplementation: "onchange",
-      });
-      await upgraded.waitForDeployment();
-      await showImplChange(hre, proxy, "DustLock (post)");
+      await applyUpgrade(
+        hre,
+        proxy,
+        F,
+        {
+          constructorArgs: [args.forwarder],
+          unsafeAllow: ["constructor", "external-library-linking"],
+          unsafeAllowLinkedLibraries: true,
+          redeployImplementation: "onchange",
+        },
+        "DustLock",
+        !!args.safe,
+        !!args.skipLayoutCheck,
+        args.timelock,
+        args.predecessor
+      );
     }
   );
 
@@ -240,27 +559,58 @@ task(
     "Path to deployment config JSON file",
     DEFAULT_CONFIG_PATH
   )
+  .addFlag(
+    "safe",
+    "Deploy the implementation only and write the ProxyAdmin upgrade as a Safe batch"
+  )
+  .addFlag("skipLayoutCheck", "Upgrade without the storage layout check")
+  .addOptionalParam(
+    "timelock",
+    "TimelockController owning the ProxyAdmin: queue schedule/execute calldata instead of upgrading"
+  )
+  .addOptionalParam(
+    "predecessor",
+    "With --timelock: operation id to chain after (0x00…00 for none; defaults to the latest scheduled operation)"
+  )
   .setAction(
     async (
-      args: { proxy?: string; forwarder: string; configFile: string },
+      args: {
+        proxy?: string;
+        forwarder: string;
+        configFile: string;
+        safe?: boolean;
+        skipLayoutCheck?: boolean;
+        timelock?: string;
+        predecessor?: string;
+      },
       hre
     ) => {
-      const config = loadConfig(args.configFile);
-      const proxy = args.proxy || config.addresses?.RevenueReward;
+      const config = loadConfigFile(hre, "deploy", args.configFile);
+      const proxy =
+        args.proxy ||
+        config.addresses?.RevenueReward ||
+        loadDeploymentAddresses(hre.network.name).RevenueReward;
       if (!proxy)
         throw new Error(
-          "Missing RevenueReward proxy address (pass --proxy or set config.addresses.RevenueReward)"
+          "Missing RevenueReward proxy address (pass --proxy, set config.addresses.RevenueReward or record it in the deployments manifest)"
         );
       console.log(`Upgrading RevenueReward at ${proxy}...`);
       const F = await hre.ethers.getContractFactory("RevenueReward");
-      await showImplChange(hre, proxy, "RevenueReward (pre)");
-      const upgraded = await hre.upgrades.upgradeProxy(proxy, F, {
-        constructorArgs: [args.forwarder],
-        unsafeAllow: ["constructor"],
-        redeployImplementation: "onchange",
-      });
-      await upgraded.waitForDeployment();
-      await showImplChange(hre, proxy, "RevenueReward (post)");
+      await applyUpgrade(
+        hre,
+        proxy,
+        F,
+        {
+          constructorArgs: [args.forwarder],
+          unsafeAllow: ["constructor"],
+          redeployImplementation: "onchange",
+        },
+        "RevenueReward",
+        !!args.safe,
+        !!args.skipLayoutCheck,
+        args.timelock,
+        args.predecessor
+      );
     }
   );
 
@@ -281,32 +631,63 @@ task(
     "Path to deployment config JSON file",
     DEFAULT_CONFIG_PATH
   )
+  .addFlag(
+    "safe",
+    "Deploy the implementation only and write the ProxyAdmin upgrade as a Safe batch"
+  )
+  .addFlag("skipLayoutCheck", "Upgrade without the storage layout check")
+  .addOptionalParam(
+    "timelock",
+    "TimelockController owning the ProxyAdmin: queue schedule/execute calldata instead of upgrading"
+  )
+  .addOptionalParam(
+    "predecessor",
+    "With --timelock: operation id to chain after (0x00…00 for none; defaults to the latest scheduled operation)"
+  )
   .setAction(
     async (
-      args: { proxy?: string; emissionmanager: string; configFile: string },
+      args: {
+        proxy?: string;
+        emissionmanager: string;
+        configFile: string;
+        safe?: boolean;
+        skipLayoutCheck?: boolean;
+        timelock?: string;
+        predecessor?: string;
+      },
       hre
     ) => {
-      const config = loadConfig(args.configFile);
-      const proxy = args.proxy || config.addresses?.DustRewardsController;
+      const config = loadConfigFile(hre, "deploy", args.configFile);
+      const proxy =
+        args.proxy ||
+        config.addresses?.DustRewardsController ||
+        loadDeploymentAddresses(hre.network.name).DustRewardsController;
       if (!proxy)
         throw new Error(
-          "Missing DustRewardsController proxy address (pass --proxy or set config.addresses.DustRewardsController)"
+          "Missing DustRewardsController proxy address (pass --proxy, set config.addresses.DustRewardsController or record it in the deployments manifest)"
         );
       console.log(`Upgrading DustRewardsController at ${proxy}...`);
       const F = await hre.ethers.getContractFactory("DustRewardsController");
-      await showImplChange(hre, proxy, "DustRewardsController (pre)");
-      const upgraded = await hre.upgrades.upgradeProxy(proxy, F, {
-        constructorArgs: [args.emissionmanager],
-        unsafeAllow: [
-          "constructor",
-          "state-variable-immutable",
-          "state-variable-assignment",
-          "missing-initializer",
-        ],
-        redeployImplementation: "onchange",
-      });
-      await upgraded.waitForDeployment();
-      await showImplChange(hre, proxy, "DustRewardsController (post)");
+      await applyUpgrade(
+        hre,
+        proxy,
+        F,
+        {
+          constructorArgs: [args.emissionmanager],
+          unsafeAllow: [
+            "constructor",
+            "state-variable-immutable",
+            "state-variable-assignment",
+            "missing-initializer",
+          ],
+          redeployImplementation: "onchange",
+        },
+        "DustRewardsController",
+        !!args.safe,
+        !!args.skipLayoutCheck,
+        args.timelock,
+        args.predecessor
+      );
     }
   );
 
@@ -323,19 +704,705 @@ task("upgrade:uservaultfactory", "Upgrade UserVaultFactory proxy")
     "Path to deployment config JSON file",
     DEFAULT_CONFIG_PATH
   )
-  .setAction(async (args: { proxy?: string; configFile: string }, hre) => {
-    const config = loadConfig(args.configFile);
-    const proxy = args.proxy || config.addresses?.UserVaultFactory;
-    if (!proxy)
-      throw new Error(
-        "Missing UserVaultFactory proxy address (pass --proxy or set config.addresses.UserVaultFactory)"
+  .addFlag(
+    "safe",
+    "Deploy the implementation only and write the ProxyAdmin upgrade as a Safe batch"
+  )
+  .addFlag("skipLayoutCheck", "Upgrade without the storage layout check")
+  .addOptionalParam(
+    "timelock",
+    "TimelockController owning the ProxyAdmin: queue schedule/execute calldata instead of upgrading"
+  )
+  .addOptionalParam(
+    "predecessor",
+    "With --timelock: operation id to chain after (0x00…00 for none; defaults to the latest scheduled operation)"
+  )
+  .setAction(
+    async (
+      args: {
+        proxy?: string;
+        configFile: string;
+        safe?: boolean;
+        skipLayoutCheck?: boolean;
+        timelock?: string;
+        predecessor?: string;
+      },
+      hre
+    ) => {
+      const config = loadConfigFile(hre, "deploy", args.configFile);
+      const proxy =
+        args.proxy ||
+        config.addresses?.UserVaultFactory ||
+        loadDeploymentAddresses(hre.network.name).UserVaultFactory;
+      if (!proxy)
+        throw new Error(
+          "Missing UserVaultFactory proxy address (pass --proxy, set config.addresses.UserVaultFactory or record it in the deployments manifest)"
+        );
+      console.log(`Upgrading UserVaultFactory at ${proxy}...`);
+      const F = await hre.ethers.getContractFactory("UserVaultFactory");
+      await applyUpgrade(
+        hre,
+        proxy,
+        F,
+        {
+          redeployImplementation: "onchange",
+        },
+        "UserVaultFactory",
+        !!args.safe,
+        !!args.skipLayoutCheck,
+        args.timelock,
+        args.predecessor
       );
-    console.log(`Upgrading UserVaultFactory at ${proxy}...`);
-    const F = await hre.ethers.getContractFactory("UserVaultFactory");
-    await showImplChange(hre, proxy, "UserVaultFactory (pre)");
-    const upgraded = await hre.upgrades.upgradeProxy(proxy, F, {
-      redeployImplementation: "onchange",
-    });
-    await upgraded.waitForDeployment();
-    await showImplChange(hre, proxy, "UserVaultFactory (post)");
-  });
+    }
+  );
+
+/*//////////////////////////////////////////////////////////////
+                    UPGRADE: USER VAULT BEACON
+//////////////////////////////////////////////////////////////*/
+task(
+  "upgrade:uservault-beacon",
+  "Deploy a new UserVault implementation, fork-test existing vaults and upgrade the UserVaultBeacon"
+)
+  .addOptionalParam(
+    "beacon",
+    "UserVaultBeacon address (defaults to the deployments manifest)"
+  )
+  .addOptionalParam(
+    "impl",
+    "Use an already deployed UserVault implementation instead of deploying one"
+  )
+  .addOptionalParam(
+    "users",
+    "Comma-separated vault owners to fork-test (defaults to --samples from UserVaultCreated events)"
+  )
+  .addOptionalParam("samples", "Number of vaults to fork-test", 5, types.int)
+  .addOptionalParam(
+    "fromBlock",
+    "First block to scan for UserVaultCreated (defaults to the factory deployment block)",
+    undefined,
+    types.int
+  )
+  .addOptionalParam("chunk", "Blocks per eth_getLogs call", 10000, types.int)
+  .addFlag(
+    "safe",
+    "Write upgradeTo as a Safe batch even when the beacon owner is not a contract"
+  )
+  .addFlag("skipLayoutCheck", "Upgrade without the storage layout check")
+  .addOptionalParam(
+    "timelock",
+    "TimelockController owning the beacon: queue schedule/execute calldata instead of upgrading"
+  )
+  .addOptionalParam(
+    "predecessor",
+    "With --timelock: operation id to chain after (0x00…00 for none; defaults to the latest scheduled operation)"
+  )
+  .addFlag("skipForkTest", "Upgrade without fork-testing existing vaults")
+  .addFlag("dryrun", "Skip verification of the new implementation")
+  .setAction(
+    async (
+      args: {
+        beacon?: string;
+        impl?: string;
+        users?: string;
+        samples: number;
+        fromBlock?: number;
+        chunk: number;
+        safe: boolean;
+        skipLayoutCheck: boolean;
+        timelock?: string;
+        predecessor?: string;
+        skipForkTest: boolean;
+        dryrun: boolean;
+      },
+      hre
+    ) => {
+      const manifest = loadManifest(hre.network.name);
+      const beaconAddress =
+        args.beacon ?? manifest.contracts.UserVaultBeacon?.address;
+      const factory = manifest.contracts.UserVaultFactory;
+      if (!beaconAddress)
+        throw new Error(
+          "Missing UserVaultBeacon address (pass --beacon or record it in the deployments manifest)"
+        );
+      const beacon = await hre.ethers.getContractAt(
+        "UpgradeableBeacon",
+        beaconAddress
+      );
+      const current = await beacon.implementation();
+      const owner = await beacon.owner();
+      console.log(`• UserVaultBeacon ${beaconAddress}`);
+      console.log(`• Current implementation: ${current}`);
+      console.log(`• Beacon owner:           ${owner}`);
+      // Fail before deploying anything: the timelock could never execute it
+      if (
+        args.timelock &&
+        owner.toLowerCase() !== args.timelock.toLowerCase()
+      ) {
+        throw new Error(
+          `UserVaultBeacon is owned by ${owner}, not the timelock ${args.timelock}`
+        );
+      }
+
+      if (!args.skipLayoutCheck) {
+        const recorded = manifest.contracts.UserVaultImplementation;
+        const comparison =
+          recorded && recorded.address.toLowerCase() === current.toLowerCase()
+            ? await compareBytecode(hre, manifest, "UserVaultImplementation")
+            : undefined;
+        await assertStorageCompatible(hre, {
+          label: "UserVault",
+          proxy: beaconAddress,
+          current,
+          currentBuildId:
+            comparison?.status === "match" || comparison?.status === "stale"
+              ? comparison.buildId
+              : undefined,
+          implementation: args.impl,
+          contractName: "UserVault",
+        });
+      }
+
+      let impl = args.impl;
+      if (!impl) {
+        const F = await hre.ethers.getContractFactory("UserVault");
+        const deployed = await F.deploy();
+        await deployed.waitForDeployment();
+        impl = await deployed.getAddress();
+        console.log(`• New implementation:     ${impl}`);
+        await verifyContract(
+          hre,
+          impl,
+          [],
+          "src/self-repaying-loans/UserVault.sol:UserVault",
+          args.dryrun
+        );
+      }
+      if (impl.toLowerCase() === current.toLowerCase()) {
+        throw new Error(`UserVaultBeacon already points at ${impl}`);
+      }
+
+      if (!args.skipForkTest) {
+        if (!factory) {
+          throw new Error(
+            "UserVaultFactory is not in the manifest; pass --skipForkTest to upgrade without the vault checks"
+          );
+        }
+        const users = args.users
+          ? args.users.split(",").map((user) => user.trim())
+          : sampleEvenly(
+              await findVaultUsers(hre.ethers.provider, factory.address, {
+                fromBlock: args.fromBlock ?? factory.blockNumber ?? 0,
+                toBlock: await hre.ethers.provider.getBlockNumber(),
+                chunkSize: args.chunk,
+              }),
+              args.samples
+            );
+        if (users.length === 0) {
+          console.warn("⚠️  No user vaults found to fork-test");
+        } else {
+          const newImpl = impl;
+          const reads = await withFork(hre, async (provider) => {
+            const before = await collectVaultReads(
+              provider,
+              factory.address,
+              users
+            );
+            const signer = await impersonate(provider, owner);
+            const forkBeacon = await hre.ethers.getContractAt(
+              "UpgradeableBeacon",
+              beaconAddress,
+              signer
+            );
+            const tx = await forkBeacon.upgradeTo(newImpl);
+            await tx.wait();
+            const after = await collectVaultReads(
+              provider,
+              factory.address,
+              users
+            );
+            return diffReads(before, after);
+          });
+          const diverged = reads.filter((r) => r.diverged);
+          console.table(
+            reads.map((r) => ({
+              Status: r.diverged ? "❌" : "✅",
+              Check: r.check,
+              Before: r.before,
+              After: r.diverged ? r.after : "",
+            }))
+          );
+          if (diverged.length > 0) {
+            throw new Error(
+              `${diverged.length} vault read(s) changed on the fork; the implementation ${impl} was deployed but the beacon was not upgraded`
+            );
+          }
+          console.log(`✅ ${users.length} vault(s) unchanged on the fork`);
+        }
+      }
+
+      if (args.timelock) {
+        await proposeTimelockCall(hre, {
+          timelock: args.timelock,
+          target: beaconAddress,
+          data: beacon.interface.encodeFunctionData("upgradeTo", [impl]),
+          label: `UserVaultBeacon.upgradeTo(${impl})`,
+          upgrade: {
+            proxy: beaconAddress,
+            implementation: impl,
+            artifact: "UserVault",
+            beacon: true,
+          },
+          predecessor: args.predecessor,
+        });
+        return;
+      }
+
+      const ownerIsContract =
+        (await hre.ethers.provider.getCode(owner)) !== "0x";
+      if (args.safe || ownerIsContract) {
+        const { chainId } = await hre.ethers.provider.getNetwork();
+        const batch = new SafeBatchCollector(
+          Number(chainId),
+          "Upgrade UserVaultBeacon"
+        );
+        batch.add(
+          owner,
+          beaconAddress,
+          beacon.interface.encodeFunctionData("upgradeTo", [impl]),
+          `UserVaultBeacon.upgradeTo(${impl})`
+        );
+        for (const file of batch.write(
+          getSafeBatchDir(hre.network.name, Date.now())
+        )) {
+          console.log(
+            `🧾 Safe batch written: ${path.relative(process.cwd(), file)}`
+          );
+        }
+        return;
+      }
+
+      const [signer] = await hre.ethers.getSigners();
+      if ((await signer.getAddress()).toLowerCase() !== owner.toLowerCase()) {
+        throw new Error(
+          `Signer ${await signer.getAddress()} is not the beacon owner ${owner}`
+        );
+      }
+      const ownerBeacon = await hre.ethers.getContractAt(
+        "UpgradeableBeacon",
+        beaconAddress,
+        signer
+      );
+      const tx = await ownerBeacon.upgradeTo(impl);
+      console.log("Upgrade tx:", tx.hash);
+      await tx.wait();
+      console.log("Upgraded UserVaultBeacon ->", impl);
+      await updateManifest(hre, {
+        UserVaultBeacon: { address: beaconAddress, implementation: impl },
+        UserVaultImplementation: { address: impl, artifact: "UserVault" },
+      });
+      await recordUpgrade(hre, {
+        proxy: beaconAddress,
+        previousImplementation: current,
+        implementation: impl,
+        txHash: tx.hash,
+        artifact: "UserVault",
+        admin: owner,
+      });
+    }
+  );
+
+/*//////////////////////////////////////////////////////////////
+                    SIMULATE UPGRADE ON A FORK
+//////////////////////////////////////////////////////////////*/
+const UPGRADE_TASK_CONTRACTS: Record<string, string> = {
+  "upgrade:dust": "Dust",
+  "upgrade:dustlock": "DustLock",
+  "upgrade:revenuereward": "RevenueReward",
+  "upgrade:dustrewardscontroller": "DustRewardsController",
+  "upgrade:uservaultfactory": "UserVaultFactory",
+};
+
+task(
+  "upgrade:simulate",
+  "Run an upgrade task on an in-process fork and compare standard state reads before and after (run with --network hardhat)"
+)
+  .addParam("upgrade", "Upgrade task to run, e.g. upgrade:dustlock")
+  .addParam("fork", "Network to fork, e.g. monad-mainnet")
+  .addOptionalParam(
+    "params",
+    "Upgrade task params as JSON (proxy defaults to the forked manifest)",
+    "{}"
+  )
+  .addOptionalParam("block", "Fork block number", undefined, types.int)
+  .addOptionalParam(
+    "tokenIds",
+    "Comma-separated veDUST token ids to sample (defaults to --samples spread over all ids)"
+  )
+  .addOptionalParam("samples", "Number of token ids to sample", 5, types.int)
+  .addOptionalParam("out", "Write the simulation report as JSON to this path")
+  .setAction(
+    async (
+      args: {
+        upgrade: string;
+        fork: string;
+        params: string;
+        block?: number;
+        tokenIds?: string;
+        samples: number;
+        out?: string;
+      },
+      hre
+    ) => {
+      if (
+        !args.upgrade.startsWith("upgrade:") ||
+        args.upgrade === "upgrade:simulate"
+      ) {
+        throw new Error(`Not an upgrade task: ${args.upgrade}`);
+      }
+      const params: Record<string, unknown> = JSON.parse(args.params);
+      if (params.safe || params.timelock) {
+        throw new Error(
+          "Simulations send the upgrade; drop safe/timelock from --params"
+        );
+      }
+
+      const manifest = loadManifest(args.fork);
+      const forkBlock = await forkNetwork(hre, args.fork, args.block);
+      const { timestamp } = (await hre.ethers.provider.getBlock(forkBlock))!;
+
+      const contractName = UPGRADE_TASK_CONTRACTS[args.upgrade];
+      if (contractName && !params.proxy) {
+        params.proxy = manifest.contracts[contractName]?.address;
+      }
+      const proxy = params.proxy as string | undefined;
+      const proxyAdmin =
+        (params.proxyadmin as string | undefined) ??
+        manifest.contracts.ProxyAdmin?.address ??
+        (proxy && (await hre.upgrades.erc1967.getAdminAddress(proxy)));
+      const [deployer] = await hre.ethers.getSigners();
+      if (proxyAdmin) {
+        await takeOwnership(hre, proxyAdmin, await deployer.getAddress());
+      }
+
+      const tokenIds = args.tokenIds
+        ? args.tokenIds.split(",").map((id) => BigInt(id.trim()))
+        : await sampleTokenIds(hre, manifest, args.samples);
+      const readOpts = { timestamp, tokenIds };
+
+      console.log(`\n📸 Reading state before ${args.upgrade}...`);
+      const before = await collectUpgradeReads(hre, manifest, readOpts);
+
+      console.log(`\n🚀 Running ${args.upgrade} on the fork...`);
+      await hre.run(args.upgrade, params);
+
+      console.log(`\n📸 Reading state after ${args.upgrade}...`);
+      const after = await collectUpgradeReads(hre, manifest, readOpts);
+
+      const reads = diffReads(before, after);
+      const diverged = reads.filter((r) => r.diverged);
+      console.table(
+        reads.map((r) => ({
+          Status: r.diverged ? "❌" : "✅",
+          Check: r.check,
+          Before: r.before,
+          After: r.diverged ? r.after : "",
+        }))
+      );
+
+      const report: SimulationReport = {
+        network: args.fork,
+        forkBlock,
+        timestamp,
+        upgrade: args.upgrade,
+        params,
+        tokenIds: tokenIds.map(String),
+        passed: diverged.length === 0,
+        reads,
+      };
+      if (args.out) {
+        const out = path.resolve(process.cwd(), args.out);
+        fs.mkdirSync(path.dirname(out), { recursive: true });
+        fs.writeFileSync(out, JSON.stringify(report, null, 2));
+        console.log(`📄 Report: ${path.relative(process.cwd(), out)}`);
+      }
+
+      if (diverged.length > 0) {
+        throw new Error(
+          `Upgrade simulation diverged on ${diverged.length} read(s):\n${diverged
+            .map((r) => `  ${r.check}: ${r.before} -> ${r.after}`)
+            .join("\n")}`
+        );
+      }
+      console.log(`\n✅ ${reads.length} reads unchanged after ${args.upgrade}`);
+    }
+  );
+
+/*//////////////////////////////////////////////////////////////
+                        TIMELOCK QUEUE
+//////////////////////////////////////////////////////////////*/
+task(
+  "timelock:pending",
+  "List queued TimelockController operations with their ETA and optionally execute the ready ones"
+)
+  .addOptionalParam("timelock", "Only operations of this TimelockController")
+  .addFlag("all", "Include executed operations")
+  .addFlag("execute", "Execute every ready operation, in queue order")
+  .setAction(
+    async (
+      args: { timelock?: string; all: boolean; execute: boolean },
+      hre
+    ) => {
+      const queue = readTimelockQueue(hre.network.name);
+      const operations = (queue?.operations ?? []).filter(
+        (op) =>
+          !args.timelock ||
+          op.timelock.toLowerCase() === args.timelock.toLowerCase()
+      );
+      if (!queue || operations.length === 0) {
+        console.log(
+          `ℹ️  No timelock operations queued in deployments/${hre.network.name}/timelock.json`
+        );
+        return;
+      }
+
+      // Readiness is judged by block time, as isOperationReady does
+      const [states, block] = await Promise.all([
+        Promise.all(
+          operations.map((op) => getOperationStatus(hre, op.timelock, op.id))
+        ),
+        hre.ethers.provider.getBlock("latest"),
+      ]);
+      const icons = { unset: "📝", pending: "⏳", ready: "🟢", done: "✅" };
+      const now = block!.timestamp;
+      console.table(
+        operations
+          .map((op, i) => ({ op, ...states[i] }))
+          .filter(({ status }) => args.all || status !== "done")
+          .map(({ op, status, eta }) => ({
+            Status: `${icons[status]} ${status === "unset" ? "not scheduled" : status}`,
+            Operation: op.label,
+            ETA: eta ? new Date(eta * 1000).toISOString() : "",
+            "In (h)": eta && eta > now ? ((eta - now) / 3600).toFixed(1) : "",
+            Id: op.id,
+          }))
+      );
+      if (!args.execute) return;
+
+      const [signer] = await hre.ethers.getSigners();
+      let executed = 0;
+      for (const [i, op] of operations.entries()) {
+        if (states[i].status !== "ready") continue;
+        const timelock = new hre.ethers.Contract(
+          op.timelock,
+          TIMELOCK_ABI,
+          signer
+        );
+        const previous = op.upgrade
+          ? op.upgrade.beacon
+            ? await hre.ethers
+                .getContractAt("UpgradeableBeacon", op.upgrade.proxy)
+                .then((beacon) => beacon.implementation())
+            : await hre.upgrades.erc1967.getImplementationAddress(
+                op.upgrade.proxy
+              )
+          : undefined;
+
+        console.log(`🚀 Executing ${op.label}...`);
+        const tx = await timelock.execute(
+          op.target,
+          op.value,
+          op.data,
+          op.predecessor,
+          op.salt,
+          { value: op.value }
+        );
+        console.log("   tx:", tx.hash);
+        await tx.wait();
+        op.executedTx = tx.hash;
+        writeTimelockQueue(queue);
+        executed++;
+
+        if (op.upgrade && previous) {
+          await recordImplementation(
+            hre,
+            op.upgrade.proxy,
+            op.upgrade.implementation
+          );
+          await recordUpgrade(hre, {
+            proxy: op.upgrade.proxy,
+            previousImplementation: previous,
+            implementation: op.upgrade.implementation,
+            txHash: tx.hash,
+            artifact: op.upgrade.artifact,
+            admin: op.upgrade.beacon ? op.timelock : undefined,
+          });
+        }
+      }
+      console.log(`\n✅ Executed ${executed} operation(s)`);
+    }
+  );
+
+/*//////////////////////////////////////////////////////////////
+                        UPGRADE HISTORY
+//////////////////////////////////////////////////////////////*/
+task(
+  "upgrade:history",
+  "Rebuild the upgrade ledger from Upgraded/AdminChanged events and cross-check deployments/<network>/upgrades.json"
+)
+  .addOptionalParam(
+    "contracts",
+    "Comma-separated manifest names (defaults to every proxy and beacon)"
+  )
+  .addOptionalParam(
+    "fromBlock",
+    "First block to scan (defaults to the earliest manifest deployment block)",
+    undefined,
+    types.int
+  )
+  .addOptionalParam("toBlock", "Last block to scan", undefined, types.int)
+  .addOptionalParam("chunk", "Blocks per eth_getLogs call", 10000, types.int)
+  .addOptionalParam(
+    "at",
+    "Also print the implementation of each proxy at this date (ISO 8601)"
+  )
+  .addFlag("write", "Merge the chain history into the ledger file")
+  .setAction(
+    async (
+      args: {
+        contracts?: string;
+        fromBlock?: number;
+        toBlock?: number;
+        chunk: number;
+        at?: string;
+        write: boolean;
+      },
+      hre
+    ) => {
+      const manifest = loadManifest(hre.network.name);
+      const names = args.contracts
+        ? args.contracts.split(",").map((name) => name.trim())
+        : Object.entries(manifest.contracts)
+            .filter(
+              ([, entry]) =>
+                entry.kind === "transparentProxy" || entry.kind === "beacon"
+            )
+            .map(([name]) => name);
+      const targets: Record<string, string> = {};
+      for (const name of names) {
+        const entry = manifest.contracts[name];
+        if (!entry) throw new Error(`${name} is not in the manifest`);
+        targets[name] = entry.address;
+      }
+      if (names.length === 0) {
+        console.log("ℹ️  No proxies or beacons in the manifest");
+        return;
+      }
+
+      const blocks = names
+        .map((name) => manifest.contracts[name].blockNumber)
+        .filter((block): block is number => block !== undefined);
+      const fromBlock =
+        args.fromBlock ?? (blocks.length > 0 ? Math.min(...blocks) : 0);
+      const toBlock =
+        args.toBlock ?? (await hre.ethers.provider.getBlockNumber());
+      console.log(
+        `🔎 Scanning ${names.length} contract(s) from block ${fromBlock} to ${toBlock}...`
+      );
+      const chain = await fetchUpgradeHistory(hre, targets, {
+        fromBlock,
+        toBlock,
+        chunkSize: args.chunk,
+      });
+
+      console.table(
+        chain.map((entry) => ({
+          Contract: entry.contract,
+          Event: entry.kind,
+          Block: entry.blockNumber,
+          Date: new Date(entry.timestamp * 1000).toISOString(),
+          From:
+            entry.kind === "upgrade"
+              ? (entry.previousImplementation ?? "(unknown)")
+              : entry.previousAdmin,
+          To: entry.kind === "upgrade" ? entry.implementation : entry.admin,
+          Operator: entry.operator,
+        }))
+      );
+
+      if (args.at) {
+        const at = Math.floor(new Date(args.at).getTime() / 1000);
+        if (Number.isNaN(at)) throw new Error(`Invalid date: ${args.at}`);
+        console.log(`\n🕰️  Implementations at ${args.at}:`);
+        console.table(
+          names.map((name) => {
+            const last = chain
+              .filter(
+                (e) =>
+                  e.contract === name &&
+                  e.kind === "upgrade" &&
+                  e.timestamp <= at
+              )
+              .pop();
+            return {
+              Contract: name,
+              Implementation: last?.implementation ?? "(none in range)",
+              Since: last ? new Date(last.timestamp * 1000).toISOString() : "",
+            };
+          })
+        );
+      }
+
+      const ledger = readLedger(hre.network.name);
+      const inRange = (entry: UpgradeLedgerEntry) =>
+        entry.blockNumber >= fromBlock &&
+        entry.blockNumber <= toBlock &&
+        names.includes(entry.contract);
+      const rows = crossCheckLedger(
+        (ledger?.entries ?? []).filter(inRange),
+        chain
+      );
+      const icons: Record<string, string> = {
+        matched: "✅",
+        mismatch: "❌",
+        "chain only": "➕",
+        "local only": "❓",
+      };
+      if (rows.length > 0) {
+        console.log("\n📒 Ledger cross-check:");
+        console.table(
+          rows.map((row) => ({
+            Status: `${icons[row.status]} ${row.status}`,
+            Contract: row.contract,
+            Event: row.kind,
+            Block: row.blockNumber,
+            Tx: row.txHash,
+            Details: row.details ?? "",
+          }))
+        );
+      }
+
+      if (args.write) {
+        const updated = ledger ?? {
+          version: 1 as const,
+          network: hre.network.name,
+          chainId: manifest.chainId,
+          entries: [],
+        };
+        const added = mergeLedgerEntries(updated, chain);
+        writeLedger(updated);
+        console.log(
+          `📝 Ledger updated: ${added} new entr${added === 1 ? "y" : "ies"}`
+        );
+      }
+
+      const problems = rows.filter(
+        (row) => row.status === "mismatch" || row.status === "local only"
+      );
+      if (problems.length > 0) {
+        console.error(
+          `\n❌ ${problems.length} ledger entr${problems.length === 1 ? "y disagrees" : "ies disagree"} with the chain`
+        );
+        process.exitCode = 1;
+      }
+    }
+  );
@@ -5,16 +5,34 @@ import { task } from "hardhat/config";
 import type { HardhatRuntimeEnvironment } from "hardhat/types";
 import fs from "fs";
 import path from "path";
+import {
+  getManifestAddresses,
+  getManifestImplementations,
+  loadManifest,
+} from "./helpers/manifest";
+import { loadConfigFile } from "./helpers/config";
+import {
+  STATUS_ICONS,
+  describeResult,
+  getInvariants,
+  isFailure,
+  runInvariants,
+  toJUnit,
+  writeReport,
+} from "./helpers/checks";
+import { compareBytecode } from "./helpers/bytecode";
+import {
+  BytecodeComparison,
+  BytecodeStatus,
+  VerifyReport,
+} from "./types/verify";
+import "./config/invariants";
 
 /*//////////////////////////////////////////////////////////////
                            HELPERS
 //////////////////////////////////////////////////////////////*/
 const DEPLOYMENTS_ROOT = path.resolve(process.cwd(), "deployments");
 
-function readJson(p: string): any {
-  return JSON.parse(fs.readFileSync(p, "utf8"));
-}
-
 async function verify(
   hre: HardhatRuntimeEnvironment,
   address: string,
@@ -66,7 +84,7 @@ async function getHardhatMetadata(
 //////////////////////////////////////////////////////////////*/
 task(
   "verify:all",
-  "Verify all deployed contracts using deployments/<network>/addresses.json"
+  "Verify all deployed contracts using deployments/<network>/manifest.json"
 )
   .addOptionalParam(
     "networkName",
@@ -79,10 +97,6 @@ task(
       hre: HardhatRuntimeEnvironment
     ) => {
       const networkName = args.networkName || hre.network.name;
-      const folder = path.join(args.deploymentsDir, networkName);
-      const addressesFile = path.join(folder, "addresses.json");
-      if (!fs.existsSync(addressesFile))
-        throw new Error(`addresses.json not found: ${addressesFile}`);
       const cfgFile = path.resolve(
         process.cwd(),
         "script",
@@ -93,10 +107,11 @@ task(
       if (!fs.existsSync(cfgFile))
         throw new Error(`deploy.json not found: ${cfgFile}`);
 
-      const summary = readJson(addressesFile);
-      const deployCfg = readJson(cfgFile);
-      const A = summary.addresses || {};
-      const I = summary.implementations || {};
+      const manifest = loadManifest(networkName);
+      const deployCfg = loadConfigFile(hre, "deploy", cfgFile);
+      const A = getManifestAddresses(manifest);
+      const I = getManifestImplementations(manifest);
+      const proxyAdmin = manifest.contracts.ProxyAdmin?.address;
 
       const results: Array<{
         contract: string;
@@ -207,10 +222,8 @@ task(
       }
 
       // ProxyAdmin (no args)
-      if (summary.proxyAdmin) {
-        await wrap("ProxyAdmin", summary.proxyAdmin, () =>
-          verify(hre, summary.proxyAdmin)
-        );
+      if (proxyAdmin) {
+        await wrap("ProxyAdmin", proxyAdmin, () => verify(hre, proxyAdmin));
       }
 
       console.log("\nVerification results:");
@@ -244,12 +257,10 @@ task(
     ) => {
       const networkName = args.networkName || hre.network.name;
       const folder = path.join(args.deploymentsDir, networkName);
-      const addressesFile = path.join(folder, "addresses.json");
-      if (!fs.existsSync(addressesFile))
-        throw new Error(`addresses.json not found: ${addressesFile}`);
-      const summary = readJson(addressesFile);
-      const A = summary.addresses || {};
-      const I = summary.implementations || {};
+      const manifest = loadManifest(networkName);
+      const A = getManifestAddresses(manifest);
+      const I = getManifestImplementations(manifest);
+      const proxyAdmin = manifest.contracts.ProxyAdmin?.address;
 
       const ensureDir = (p: string) => fs.mkdirSync(p, { recursive: true });
       ensureDir(folder);
@@ -266,19 +277,22 @@ task(
         });
       };
 
-      // Write entries for every address in addresses.json
+      // Write entries for every address in the manifest
       for (const [name, addr] of Object.entries(A) as Array<[string, string]>) {
-        const meta = await getHardhatMetadata(hre, name);
+        const meta = await getHardhatMetadata(
+          hre,
+          manifest.contracts[name].artifact ?? name
+        );
         const isProxied = I[name] !== undefined;
         const content: any = {
           networkName,
-          chainId: summary.chainId,
+          chainId: manifest.chainId,
           contract: name,
         };
         if (isProxied) {
           content.proxy = addr;
           content.implementation = I[name];
-          if (summary.proxyAdmin) content.proxyAdmin = summary.proxyAdmin;
+          if (proxyAdmin) content.proxyAdmin = proxyAdmin;
         } else {
           content.address = addr;
         }
@@ -287,7 +301,7 @@ task(
       }
 
       // Also output ProxyAdmin.json if present, with metadata
-      if (summary.proxyAdmin) {
+      if (proxyAdmin) {
         let adminMeta: any = null;
         try {
           const biDir = path.resolve(process.cwd(), "artifacts", "build-info");
@@ -308,9 +322,9 @@ task(
         } catch (_) {}
         const content: any = {
           networkName,
-          chainId: summary.chainId,
+          chainId: manifest.chainId,
           contract: "ProxyAdmin",
-          proxyAdmin: summary.proxyAdmin,
+          proxyAdmin,
         };
         if (adminMeta) content.metadata = adminMeta;
         write("ProxyAdmin", content);
@@ -325,3 +339,219 @@ task(
       );
     }
   );
+
+/*//////////////////////////////////////////////////////////////
+                   TASK: VERIFY DEPLOYMENT INVARIANTS
+//////////////////////////////////////////////////////////////*/
+task(
+  "verify:deployment",
+  "Check ownership, roles, wiring, bounds and bytecode of a deployment against its configs"
+)
+  .addOptionalParam(
+    "deployConfig",
+    "Core deploy config",
+    "script/hardhat/config/deploy.mainnet.json"
+  )
+  .addOptionalParam(
+    "leaderboardConfig",
+    "Leaderboard deploy config",
+    "script/hardhat/config/deploy-leaderboard.json"
+  )
+  .addOptionalParam(
+    "keeperConfig",
+    "Leaderboard keeper deploy config",
+    "script/hardhat/config/deploy-leaderboard-keeper.json"
+  )
+  .addOptionalParam("contracts", "Comma-separated contracts to check")
+  .addOptionalParam("json", "Write the results as JSON to this path")
+  .addOptionalParam("junit", "Write the results as JUnit XML to this path")
+  .addFlag("strict", "Fail on pending actions and warnings too")
+  .setAction(
+    async (
+      args: {
+        deployConfig: string;
+        leaderboardConfig: string;
+        keeperConfig: string;
+        contracts?: string;
+        json?: string;
+        junit?: string;
+        strict: boolean;
+      },
+      hre: HardhatRuntimeEnvironment
+    ) => {
+      console.log("\n🔍 ============= DEPLOYMENT VERIFICATION =============\n");
+      console.log(`📍 Network: ${hre.network.name}`);
+
+      const manifest = loadManifest(hre.network.name);
+      const configs: Record<string, Record<string, any>> = {};
+      const configFiles = {
+        deploy: ["deploy", args.deployConfig],
+        leaderboard: ["deploy-leaderboard", args.leaderboardConfig],
+        keeper: ["deploy-leaderboard-keeper", args.keeperConfig],
+      } as const;
+      for (const [name, [schema, file]] of Object.entries(configFiles)) {
+        const configPath = path.resolve(process.cwd(), file);
+        if (!fs.existsSync(configPath)) {
+          if (name === "deploy") {
+            throw new Error(`Config not found: ${configPath}`);
+          }
+          console.log(`⏭️  No ${name} config at ${file}`);
+          continue;
+        }
+        configs[name] = loadConfigFile(hre, schema, configPath);
+        console.log(`📄 ${name}: ${file}`);
+      }
+
+      const only = args.contracts
+        ?.split(",")
+        .map((c) => c.trim())
+        .filter(Boolean);
+      const invariants = getInvariants().filter(
+        (i) => !only || only.includes(i.contract)
+      );
+      console.log(`\n🧪 Running ${invariants.length} checks...`);
+
+      const results = await runInvariants(
+        { hre, manifest, configs },
+        invariants
+      );
+      const report: VerifyReport = {
+        network: manifest.network,
+        chainId: manifest.chainId,
+        blockNumber: await hre.ethers.provider.getBlockNumber(),
+        generatedAt: new Date().toISOString(),
+        passed: !results.some((r) => isFailure(r, args.strict)),
+        results,
+      };
+
+      console.log("\n📊 ============= VERIFICATION RESULTS =============\n");
+      console.table(
+        results.map((r) => ({
+          Status: STATUS_ICONS[r.status],
+          Contract: r.contract,
+          Check: r.name,
+          Details: describeResult(r),
+        }))
+      );
+
+      const pending = results.filter((r) => r.status === "pending");
+      if (pending.length > 0) {
+        console.log("\n⏳ ============= PENDING ACTIONS =============\n");
+        console.table(
+          pending.map((r) => ({
+            Action: `${r.contract} ${r.name}`,
+            Status: describeResult(r),
+          }))
+        );
+      }
+      const warnings = results.filter((r) => r.status === "warn");
+      if (warnings.length > 0) {
+        console.log("\n⚠️  ============= WARNINGS =============\n");
+        warnings.forEach((r, i) =>
+          console.log(
+            `${i + 1}. ${r.contract} ${r.name}: ${describeResult(r)}\n`
+          )
+        );
+      }
+
+      if (args.json) {
+        const file = writeReport(args.json, JSON.stringify(report, null, 2));
+        console.log(`📄 JSON: ${path.relative(process.cwd(), file)}`);
+      }
+      if (args.junit) {
+        const file = writeReport(args.junit, toJUnit(report, args.strict));
+        console.log(`📄 JUnit: ${path.relative(process.cwd(), file)}`);
+      }
+
+      const failed = results.filter((r) => isFailure(r, args.strict));
+      if (failed.length > 0) {
+        console.log(`\n❌ ${failed.length} checks FAILED\n`);
+        process.exitCode = 1;
+        return;
+      }
+      console.log("\n✅ All checks passed!\n");
+    }
+  );
+
+/*//////////////////////////////////////////////////////////////
+                 TASK: VERIFY BYTECODE VS ARTIFACTS
+//////////////////////////////////////////////////////////////*/
+const BYTECODE_ICONS: Record<BytecodeStatus, string> = {
+  match: "✅",
+  stale: "🕰️ ",
+  recorded: "📼",
+  unknown: "❓",
+  missing: "❌",
+  skipped: "⏭️ ",
+};
+
+task(
+  "verify:bytecode",
+  "Compare on-chain runtime bytecode of every manifest contract with the local artifacts (libraries and immutables masked)"
+)
+  .addOptionalParam("contracts", "Comma-separated contracts to compare")
+  .addOptionalParam("json", "Write the comparison as JSON to this path")
+  .setAction(
+    async (
+      args: { contracts?: string; json?: string },
+      hre: HardhatRuntimeEnvironment
+    ) => {
+      await hre.run("compile", { quiet: true });
+      const manifest = loadManifest(hre.network.name);
+      const only = args.contracts
+        ?.split(",")
+        .map((c) => c.trim())
+        .filter(Boolean);
+      const names = Object.keys(manifest.contracts).filter(
+        (name) => !only || only.includes(name)
+      );
+
+      console.log(
+        `\n🧬 Comparing bytecode of ${names.length} contracts on ${manifest.network}...\n`
+      );
+      const results: BytecodeComparison[] = [];
+      for (const name of names) {
+        results.push(await compareBytecode(hre, manifest, name));
+      }
+
+      const format = (values: Record<string, string>) =>
+        Object.entries(values)
+          .map(([key, value]) => `${key}=${value}`)
+          .join(" ");
+      console.table(
+        results.map((r) => ({
+          Status: `${BYTECODE_ICONS[r.status]} ${r.status}`,
+          Contract: r.contract,
+          Address: r.address,
+          Libraries: format(r.libraries),
+          Immutables: format(r.immutables),
+          Details: r.details ?? "",
+        }))
+      );
+
+      if (args.json) {
+        const file = writeReport(args.json, JSON.stringify(results, null, 2));
+        console.log(`📄 JSON: ${path.relative(process.cwd(), file)}`);
+      }
+
+      const unknown = results.filter((r) => r.status === "unknown");
+      if (unknown.length > 0) {
+        console.log(
+          `\n❓ Deployed from an unknown build: ${unknown
+            .map((r) => `${r.contract} (${r.address})`)
+            .join(", ")}`
+        );
+      }
+      const failed = results.filter(
+        (r) => r.status !== "match" && r.status !== "skipped"
+      );
+      if (failed.length > 0) {
+        console.log(
+          `\n❌ ${failed.length} contracts do not match the current build\n`
+        );
+        process.exitCode = 1;
+        return;
+      }
+      console.log("\n✅ All deployed bytecode matches the local build\n");
+    }
+  );
@@ -0,0 +1,167 @@
+import { expect } from "chai";
+import {
+  interpolateConfig,
+  isSecretName,
+  redactSecrets,
+  registerSecret,
+  resolveReference,
+} from "../../script/hardhat/helpers/interpolate";
+import { createManifest } from "../../script/hardhat/helpers/manifest";
+import { InterpolationSources } from "../../script/hardhat/types/schema";
+
+const DUST = "0xAD96C3dffCD6374294e2573A7fBBA96097CC8d7c";
+const DUST_IMPL = "0x4522144959Afee1CAe8aa553b6a5cB81E111A4DA";
+const USDC = "0xf817257fed379853cDe0fa4F97AB987181B1E5Ea";
+const OWNER = "0x0000B06460777398083CB501793a4d6393900000";
+const KEEPER_KEY = `0x${"5e".repeat(32)}`;
+
+const sources = (env: NodeJS.ProcessEnv = {}): InterpolationSources => ({
+  env,
+  manifest: {
+    ...createManifest("monad-testnet", 10143),
+    contracts: {
+      Dust: {
+        address: DUST,
+        kind: "transparentProxy",
+        implementation: DUST_IMPL,
+      },
+    },
+  },
+  profile: {
+    name: "monad-testnet",
+    chainId: 10143,
+    addresses: { usdc: USDC },
+    defaults: { cooldownSeconds: "3600" },
+    inherits: ["monad-testnet"],
+  },
+});
+
+describe("Config interpolation", function () {
+  describe("resolveReference", function () {
+    it("looks up env, then the manifest, then the profile", function () {
+      expect(resolveReference("OWNER", sources({ OWNER }))).to.deep.equal({
+        value: OWNER,
+        source: "env",
+      });
+      expect(resolveReference("addresses.Dust", sources())).to.deep.equal({
+        value: DUST,
+        source: "manifest",
+      });
+      expect(
+        resolveReference("implementations.Dust", sources())!.value
+      ).to.equal(DUST_IMPL);
+      expect(
+        resolveReference("contracts.Dust.kind", sources())!.value
+      ).to.equal("transparentProxy");
+      expect(resolveReference("chainId", sources())).to.deep.equal({
+        value: "10143",
+        source: "manifest",
+      });
+      expect(resolveReference("addresses.usdc", sources())).to.deep.equal({
+        value: USDC,
+        source: "profile",
+      });
+      expect(
+        resolveReference("defaults.cooldownSeconds", sources())!.value
+      ).to.equal("3600");
+    });
+
+    it("skips empty env values and unknown paths", function () {
+      expect(
+        resolveReference("addresses.Dust", sources({ "addresses.Dust": " " }))!
+          .source
+      ).to.equal("manifest");
+      expect(resolveReference("addresses.DustLock", sources())).to.equal(
+        undefined
+      );
+      expect(
+        resolveReference("addresses.usdc", {
+          ...sources(),
+          manifest: null,
+        })!.source
+      ).to.equal("profile");
+    });
+  });
+
+  describe("interpolateConfig", function () {
+    it("replaces references in nested strings and keeps other values", function () {
+      const { config, errors } = interpolateConfig(
+        {
+          dust: { initialOwner: "${OWNER}", proxy: "${addresses.Dust}" },
+          tiers: [{ label: "Dust at ${addresses.Dust}", bps: 10_000 }],
+          literal: "$${OWNER}",
+          verify: true,
+        },
+        sources({ OWNER })
+      );
+      expect(errors).to.deep.equal([]);
+      expect(config).to.deep.equal({
+        dust: { initialOwner: OWNER, proxy: DUST },
+        tiers: [{ label: `Dust at ${DUST}`, bps: 10_000 }],
+        literal: "${OWNER}",
+        verify: true,
+      });
+    });
+
+    it("reports every unresolved reference with its path", function () {
+      const { config, errors } = interpolateConfig(
+        { addresses: { DustLock: "${addresses.DustLock}" }, team: ["${}"] },
+        sources()
+      );
+      expect(config).to.deep.equal({
+        addresses: { DustLock: "${addresses.DustLock}" },
+        team: ["${}"],
+      });
+      expect(errors.map((e) => e.path)).to.deep.equal([
+        "$.addresses.DustLock",
+        "$.team[0]",
+      ]);
+      expect(errors[0].message).to.equal(
+        "references ${addresses.DustLock}, which is not set in the environment, the monad-testnet deployments manifest or the monad-testnet network profile"
+      );
+    });
+  });
+
+  describe("secrets", function () {
+    it("recognizes secret-looking env names", function () {
+      for (const name of [
+        "PRIVATE_KEY",
+        "KEEPER_PRIVATE_KEY",
+        "MNEMONIC",
+        "ETHERSCAN_API_KEY",
+        "GITHUB_TOKEN",
+      ]) {
+        expect(isSecretName(name), name).to.equal(true);
+      }
+      expect(isSecretName("OWNER")).to.equal(false);
+    });
+
+    it("redacts secret env values resolved into a config", function () {
+      const { config } = interpolateConfig(
+        { keeper: { key: "${KEEPER_PRIVATE_KEY}", owner: "${OWNER}" } },
+        sources({ KEEPER_PRIVATE_KEY: KEEPER_KEY, OWNER })
+      );
+      expect(config.keeper.key).to.equal(KEEPER_KEY);
+
+      // Non-secret values stay readable; nested strings are masked in place
+      expect(
+        redactSecrets({
+          config,
+          log: [`signing with ${KEEPER_KEY}`],
+          at: new Date(0),
+        })
+      ).to.deep.equal({
+        config: {
+          keeper: { key: "[redacted KEEPER_PRIVATE_KEY]", owner: OWNER },
+        },
+        log: ["signing with [redacted KEEPER_PRIVATE_KEY]"],
+        at: new Date(0),
+      });
+    });
+
+    it("ignores blank secrets", function () {
+      registerSecret("EMPTY_SECRET", " ");
+      expect(redactSecrets("a b")).to.equal("a b");
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import fs from "fs";
+import path from "path";
+import { expect } from "chai";
+import {
+  assertConfig,
+  getSchemasDir,
+  readConfigFile,
+  schemaNameForFile,
+  validateConfig,
+} from "../../script/hardhat/helpers/config";
+import {
+  formatSchemaErrors,
+  validateSchema,
+} from "../../script/hardhat/helpers/schema";
+import { JsonSchema } from "../../script/hardhat/types/schema";
+
+const CONFIG_DIR = path.join(getSchemasDir(), "..");
+const OWNER = "0x0000B06460777398083CB501793a4d6393900000";
+const DUST_LOCK = "0xBB4738D05AD1b3Da57a4881baE62Ce9bb1eEeD6C";
+const REGISTRY = "0xd936A70bD854A88c4b0D7fb21091EBc6209b13e2";
+
+const SCHEMA: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  required: ["owner", "rates"],
+  properties: {
+    owner: { type: "string", format: "address" },
+    mode: { type: "string", enum: ["create2", "create3"] },
+    salt: { type: "string", format: "bytes32" },
+    uri: { type: "string", format: "uri" },
+    rates: {
+      type: "array",
+      minItems: 1,
+      uniqueItems: true,
+      items: { type: "string", format: "bps" },
+    },
+    multiplier: {
+      type: "string",
+      format: "uint256",
+      minimum: "10000",
+      maximum: "50000",
+    },
+    retries: { type: "integer" },
+  },
+};
+
+const messages = (schema: JsonSchema, value: unknown) =>
+  validateSchema(schema, value).map((e) => `${e.path} ${e.message}`);
+
+describe("Config schemas", function () {
+  describe("validateSchema", function () {
+    it("accepts a matching value", function () {
+      expect(
+        messages(SCHEMA, { owner: OWNER, rates: ["100"], multiplier: "10000" })
+      ).to.deep.equal([]);
+    });
+
+    it("collects every error with its JSON path", function () {
+      expect(
+        messages(SCHEMA, {
+          owner: OWNER.toLowerCase(),
+          mode: "create1",
+          salt: "0x1234",
+          uri: "ipfs://dust",
+          rates: ["100", "10001", "100"],
+          multiplier: "9999",
+          retries: 1.5,
+          "extra-key": true,
+        })
+      ).to.deep.equal([
+        `$.owner is not checksummed: ${OWNER.toLowerCase()} (expected ${OWNER})`,
+        '$.mode must be one of "create2", "create3", got "create1"',
+        "$.salt is not a bytes32 (0x followed by 64 hex characters): 0x1234",
+        "$.uri is not an http(s) URI: ipfs://dust",
+        "$.rates[1] must be at most 10000 bps, got 10001",
+        "$.rates[2] duplicates $.rates[0]",
+        "$.multiplier must be at least 10000, got 9999",
+        "$.retries must be an integer, got number",
+        '$["extra-key"] is not a known property',
+      ]);
+    });
+
+    it("treats empty strings as unset", function () {
+      expect(messages(SCHEMA, { owner: "", rates: [] })).to.deep.equal([
+        "$.owner is required",
+        "$.rates must have at least 1 item(s)",
+      ]);
+    });
+
+    it("stops at a wrong type", function () {
+      expect(messages(SCHEMA, [])).to.deep.equal([
+        "$ must be an object, got array",
+      ]);
+      expect(
+        messages(SCHEMA, { owner: OWNER, rates: "100", multiplier: "1e18" })
+      ).to.deep.equal([
+        "$.rates must be an array, got string",
+        '$.multiplier must be a decimal integer string, got "1e18"',
+      ]);
+    });
+  });
+
+  describe("validateConfig", function () {
+    const keeper = {
+      keeper: {
+        initialOwner: OWNER,
+        keeperAddress: OWNER,
+        dustLock: DUST_LOCK,
+        nftRegistry: REGISTRY,
+      },
+    };
+
+    it("validates the checked-in config files", function () {
+      const files = fs
+        .readdirSync(CONFIG_DIR)
+        .filter((file) => file.endsWith(".json"));
+      expect(files).to.not.be.empty;
+      for (const file of files) {
+        const name = schemaNameForFile(file);
+        expect(name, file).to.not.equal(undefined);
+        const config = readConfigFile(path.join(CONFIG_DIR, file));
+        expect(validateConfig(name!, config), file).to.deep.equal([]);
+      }
+    });
+
+    it("runs cross-field rules once the schema passes", function () {
+      expect(
+        validateConfig("deploy-leaderboard-keeper", {
+          keeper: { ...keeper.keeper, nftRegistry: DUST_LOCK },
+        })
+      ).to.deep.equal([
+        {
+          path: "$.keeper.nftRegistry",
+          message: "must differ from $.keeper.dustLock",
+        },
+      ]);
+      expect(
+        validateConfig("deploy-leaderboard", {
+          votingPowerMultiplier: {
+            tiers: [
+              { minVotingPower: "1000", multiplierBps: "10000" },
+              { minVotingPower: "1000", multiplierBps: "11000" },
+            ],
+          },
+        })
+      ).to.deep.equal([
+        {
+          path: "$.votingPowerMultiplier.tiers[1].minVotingPower",
+          message:
+            "must be above the previous tier's (1000): tiers ascend by minVotingPower",
+        },
+      ]);
+    });
+
+    it("skips cross-field rules while the schema fails", function () {
+      const errors = validateConfig("deploy-leaderboard-keeper", {
+        keeper: { ...keeper.keeper, nftRegistry: DUST_LOCK, verify: true },
+      });
+      expect(errors).to.deep.equal([
+        { path: "$.keeper.verify", message: "is not a known property" },
+      ]);
+    });
+
+    it("lists every error when asserting", function () {
+      expect(() =>
+        assertConfig("deploy-leaderboard-keeper", { keeper: {} }, "keeper.json")
+      ).to.throw(
+        `Invalid keeper.json:\n${formatSchemaErrors([
+          { path: "$.keeper.initialOwner", message: "is required" },
+          { path: "$.keeper.keeperAddress", message: "is required" },
+          { path: "$.keeper.dustLock", message: "is required" },
+          { path: "$.keeper.nftRegistry", message: "is required" },
+        ])}`
+      );
+      expect(() =>
+        assertConfig("deploy-leaderboard-keeper", keeper)
+      ).to.not.throw();
+    });
+  });
+
+  describe("files", function () {
+    it("picks the schema from the file name", function () {
+      expect(schemaNameForFile("config/deploy.mainnet.json")).to.equal(
+        "deploy"
+      );
+      expect(schemaNameForFile("deploy-leaderboard.json")).to.equal(
+        "deploy-leaderboard"
+      );
+      expect(schemaNameForFile("leaderboard.json")).to.equal(undefined);
+    });
+
+    it("reports missing and unparsable files", function () {
+      expect(() => readConfigFile("/nonexistent/deploy.json")).to.throw(
+        "Config file not found"
+      );
+      expect(() => readConfigFile(__filename)).to.throw(
+        "Unable to parse config JSON"
+      );
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import fs from "fs";
+import path from "path";
+import { expect } from "chai";
+import {
+  DeploymentJournal,
+  getJournalPath,
+} from "../../script/hardhat/helpers/journal";
+
+const NETWORK = `journal-test-${process.pid}`;
+const INIT = {
+  chainId: 31337,
+  deployer: "0x1111111111111111111111111111111111111111",
+  configPath: "script/hardhat/config/deploy.mainnet.json",
+};
+const LIBRARY = "0x2222222222222222222222222222222222222222";
+const DUST_LOCK = "0x3333333333333333333333333333333333333333";
+const TX_HASH = `0x${"ab".repeat(32)}`;
+
+// Only the provider calls the journal makes
+const fakeHre = (
+  receipts: Record<string, { status: number } | null>,
+  code: Record<string, string> = {}
+) =>
+  ({
+    ethers: {
+      provider: {
+        getTransactionReceipt: async (hash: string) => receipts[hash] ?? null,
+        getCode: async (address: string) => code[address] ?? "0x",
+      },
+    },
+  }) as any;
+
+describe("Deployment journal", function () {
+  const dir = path.dirname(getJournalPath(NETWORK));
+
+  beforeEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("refuses to resume without a journal", function () {
+    expect(() =>
+      DeploymentJournal.open(NETWORK, INIT, { resume: true })
+    ).to.throw("No deployment journal found");
+  });
+
+  it("resumes completed steps and keeps partial ones", function () {
+    const first = DeploymentJournal.open(NETWORK, INIT);
+    first.beginStep("BalanceLogicLibrary");
+    first.recordContract("BalanceLogicLibrary", "BalanceLogicLibrary", LIBRARY);
+    first.completeStep("BalanceLogicLibrary");
+    first.beginStep("DustLock");
+    first.recordContract("DustLock", "DustLock", DUST_LOCK, { proxied: true });
+
+    const resumed = DeploymentJournal.open(NETWORK, INIT, { resume: true });
+    expect(resumed.isComplete("BalanceLogicLibrary")).to.equal(true);
+    expect(resumed.isComplete("DustLock")).to.equal(false);
+    expect(resumed.isComplete("Dust")).to.equal(false);
+
+    // Restarting the partial step must not drop what it already deployed
+    resumed.beginStep("DustLock");
+    expect(resumed.getContract("DustLock", "DustLock")).to.equal(DUST_LOCK);
+    expect(resumed.steps.find((s) => s.name === "DustLock")!.proxied).to.equal(
+      true
+    );
+  });
+
+  it("refuses to resume on another chain", function () {
+    DeploymentJournal.open(NETWORK, INIT);
+    expect(() =>
+      DeploymentJournal.open(
+        NETWORK,
+        { ...INIT, chainId: 143 },
+        { resume: true }
+      )
+    ).to.throw("chainId 31337");
+  });
+
+  it("archives the previous journal when starting over", function () {
+    const first = DeploymentJournal.open(NETWORK, INIT);
+    first.beginStep("Dust");
+    first.completeStep("Dust");
+
+    const fresh = DeploymentJournal.open(NETWORK, INIT);
+    expect(fresh.isComplete("Dust")).to.equal(false);
+    const archived = fs
+      .readdirSync(dir)
+      .filter((f) => /^deploy-journal\.\d+\.json$/.test(f));
+    expect(archived).to.have.length(1);
+  });
+
+  it("keeps ephemeral journals off disk", function () {
+    const journal = DeploymentJournal.open(NETWORK, INIT, { ephemeral: true });
+    journal.beginStep("Dust");
+    expect(fs.existsSync(journal.path)).to.equal(false);
+  });
+
+  it("skips only transactions with a successful receipt", async function () {
+    const journal = DeploymentJournal.open(NETWORK, INIT);
+    journal.beginStep("DustLock");
+    expect(
+      await journal.isTxConfirmed(fakeHre({}), "DustLock", "setTeam")
+    ).to.equal(false);
+
+    journal.recordTx("DustLock", "setTeam", TX_HASH, "sent");
+    expect(
+      await journal.isTxConfirmed(fakeHre({}), "DustLock", "setTeam")
+    ).to.equal(false);
+    expect(
+      await journal.isTxConfirmed(
+        fakeHre({ [TX_HASH]: { status: 0 } }),
+        "DustLock",
+        "setTeam"
+      )
+    ).to.equal(false);
+    expect(
+      await journal.isTxConfirmed(
+        fakeHre({ [TX_HASH]: { status: 1 } }),
+        "DustLock",
+        "setTeam"
+      )
+    ).to.equal(true);
+
+    // The upgrade to "confirmed" is persisted for the next resume
+    const resumed = DeploymentJournal.open(NETWORK, INIT, { resume: true });
+    expect(resumed.getTx("DustLock", "setTeam")!.status).to.equal("confirmed");
+  });
+
+  it("reports contracts without code and unconfirmed transactions", async function () {
+    const journal = DeploymentJournal.open(NETWORK, INIT);
+    journal.beginStep("DustLock");
+    journal.recordContract("DustLock", "DustLock", DUST_LOCK);
+    journal.recordTx("DustLock", "setTeam", TX_HASH, "sent");
+    journal.completeStep("DustLock");
+
+    expect(await journal.verifyStep(fakeHre({}), "DustLock")).to.deep.equal([
+      `DustLock has no code at ${DUST_LOCK}`,
+      `setTeam (${TX_HASH}) has no successful receipt`,
+    ]);
+    expect(
+      await journal.verifyStep(
+        fakeHre({ [TX_HASH]: { status: 1 } }, { [DUST_LOCK]: "0x6080" }),
+        "DustLock"
+      )
+    ).to.deep.equal([]);
+  });
+});
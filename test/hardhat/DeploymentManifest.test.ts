@@ -0,0 +1,215 @@
+import fs from "fs";
+import path from "path";
+import { expect } from "chai";
+import {
+  createManifest,
+  getDeploymentsDir,
+  migrateLegacyDeployments,
+  readManifest,
+  validateManifest,
+} from "../../script/hardhat/helpers/manifest";
+
+const NETWORK = `manifest-test-${process.pid}`;
+
+const DUST = "0xAD96C3dffCD6374294e2573A7fBBA96097CC8d7c";
+const DUST_IMPL = "0x4522144959Afee1CAe8aa553b6a5cB81E111A4DA";
+const PROXY_ADMIN = "0x6400650cED1eD7179143D40b4431c3cC8c068D90";
+const VAULT_IMPL = "0x49f745b5265b6CA695E60e89dc50FD36edD252AB";
+const VAULT_BEACON = "0xc9Fe3Db9b14A538FaB2eeBa33a8FeaB6ED7DdCeb";
+const HELPER_OLD = "0xc91BA13910b358E0De6510D4e2F3AFDaf6395538";
+const HELPER_NEW = "0x5c6559e7484e45efB16F477743996be2d488d7db";
+const EPOCH_MANAGER = "0x84040686C902acfFF583EFDAE00F4d0a1fC9fd16";
+const DEPLOYER = "0x0000B06460777398083CB501793a4d6393900000";
+
+// Shape of deployments/monad-mainnet/addresses.json before the manifest:
+// nested sections plus flat keys added by later partial deploys
+const LEGACY_MAINNET = {
+  networkName: "monadMainnet",
+  chainId: 143,
+  addresses: {
+    Dust: DUST,
+    UserVaultImplementation: VAULT_IMPL,
+    UserVaultBeacon: VAULT_BEACON,
+    NeverlandDustHelper: HELPER_OLD,
+  },
+  implementations: { Dust: DUST_IMPL },
+  proxyAdmin: PROXY_ADMIN,
+  NeverlandDustHelper: HELPER_NEW,
+  EpochManager: EPOCH_MANAGER,
+};
+
+const validManifest = () => ({
+  ...createManifest(NETWORK, 143),
+  contracts: {
+    Dust: {
+      address: DUST,
+      kind: "transparentProxy",
+      artifact: "Dust",
+      implementation: DUST_IMPL,
+      admin: PROXY_ADMIN,
+      txHash: `0x${"ab".repeat(32)}`,
+      blockNumber: 1,
+    },
+  },
+});
+
+describe("Deployments manifest", function () {
+  const dir = getDeploymentsDir(NETWORK);
+  const write = (file: string, data: unknown) => {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), JSON.stringify(data));
+  };
+
+  beforeEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("validateManifest", function () {
+    it("accepts a well-formed manifest", function () {
+      expect(validateManifest(validManifest())).to.deep.equal([]);
+    });
+
+    it("rejects non-objects", function () {
+      expect(validateManifest([])).to.deep.equal([
+        "$: manifest must be an object",
+      ]);
+    });
+
+    it("reports every invalid field with its path", function () {
+      const manifest: any = validManifest();
+      manifest.version = 2;
+      manifest.contracts.Dust.implementation = undefined;
+      manifest.contracts.Dust.admin = "0x1234";
+      manifest.contracts.Dust.txHash = "0xabc";
+      manifest.contracts.Dust.proxy = DUST;
+      manifest.contracts.Dust.kind = "proxy";
+      manifest.contracts.Dust.blockNumber = -1;
+
+      expect(validateManifest(manifest)).to.have.members([
+        "$.version: expected 1, got 2",
+        "$.contracts.Dust.proxy: unknown field",
+        '$.contracts.Dust.kind: must be one of contract, transparentProxy, beacon, proxyAdmin, library, got "proxy"',
+        '$.contracts.Dust.admin: invalid address "0x1234"',
+        "$.contracts.Dust.txHash: invalid transaction hash",
+        "$.contracts.Dust.blockNumber: must be a non-negative integer",
+      ]);
+
+      manifest.contracts.Dust.kind = "transparentProxy";
+      expect(validateManifest(manifest)).to.include(
+        "$.contracts.Dust.implementation: required for a transparentProxy"
+      );
+    });
+  });
+
+  describe("readManifest", function () {
+    it("returns null for a network without deployments", function () {
+      expect(readManifest(NETWORK)).to.equal(null);
+    });
+
+    it("asks for a migration when only addresses.json exists", function () {
+      write("addresses.json", LEGACY_MAINNET);
+      expect(() => readManifest(NETWORK)).to.throw(
+        `deployments:migrate --networks ${NETWORK}`
+      );
+    });
+
+    it("refuses an invalid manifest", function () {
+      write("manifest.json", { ...validManifest(), chainId: 0 });
+      expect(() => readManifest(NETWORK)).to.throw(
+        "$.chainId: must be a positive integer"
+      );
+    });
+  });
+
+  describe("migrateLegacyDeployments", function () {
+    it("requires a legacy addresses.json", function () {
+      fs.mkdirSync(dir, { recursive: true });
+      expect(() => migrateLegacyDeployments(NETWORK)).to.throw(
+        "No legacy addresses.json"
+      );
+    });
+
+    it("migrates the legacy mainnet shape into a valid manifest", function () {
+      write("addresses.json", LEGACY_MAINNET);
+      const { manifest, conflicts } = migrateLegacyDeployments(NETWORK);
+
+      expect(validateManifest(manifest)).to.deep.equal([]);
+      expect(manifest.network).to.equal(NETWORK);
+      expect(manifest.chainId).to.equal(143);
+      expect(manifest.contracts.Dust).to.include({
+        address: DUST,
+        kind: "transparentProxy",
+        implementation: DUST_IMPL,
+        admin: PROXY_ADMIN,
+      });
+      expect(manifest.contracts.ProxyAdmin).to.include({
+        address: PROXY_ADMIN,
+        kind: "proxyAdmin",
+      });
+      expect(manifest.contracts.UserVaultBeacon).to.include({
+        kind: "beacon",
+        implementation: VAULT_IMPL,
+      });
+      expect(manifest.contracts.EpochManager.address).to.equal(EPOCH_MANAGER);
+
+      // Flat keys were written after the nested sections and win
+      expect(manifest.contracts.NeverlandDustHelper.address).to.equal(
+        HELPER_NEW
+      );
+      expect(conflicts).to.deep.equal([
+        {
+          contract: "NeverlandDustHelper",
+          field: "address",
+          from: HELPER_OLD,
+          to: HELPER_NEW,
+          source: "addresses.json (flat key)",
+        },
+      ]);
+    });
+
+    it("folds in per-contract, leaderboard and session files", function () {
+      write("addresses.json", { chainId: 143, addresses: {} });
+      write("Dust.json", {
+        chainId: 143,
+        contract: "Dust",
+        proxy: DUST,
+        implementation: DUST_IMPL,
+        proxyAdmin: PROXY_ADMIN,
+      });
+      write(`leaderboard-${NETWORK}.json`, {
+        epochManager: EPOCH_MANAGER,
+        deployer: DEPLOYER,
+        timestamp: "2025-11-15T13:23:27.225Z",
+      });
+      write("1763604927564/NeverlandDustHelper.json", {
+        address: HELPER_NEW,
+        constructorArgs: [],
+        metadata: { deployer: DEPLOYER, timestamp: 1763604927564 },
+      });
+
+      const { manifest, superseded } = migrateLegacyDeployments(NETWORK);
+      expect(validateManifest(manifest)).to.deep.equal([]);
+      expect(manifest.contracts.Dust).to.include({
+        kind: "transparentProxy",
+        implementation: DUST_IMPL,
+        admin: PROXY_ADMIN,
+      });
+      expect(manifest.contracts.EpochManager).to.include({
+        address: EPOCH_MANAGER,
+        deployer: DEPLOYER,
+        timestamp: Date.parse("2025-11-15T13:23:27.225Z"),
+      });
+      expect(manifest.contracts.NeverlandDustHelper).to.include({
+        address: HELPER_NEW,
+        timestamp: 1763604927564,
+      });
+      expect(superseded).to.deep.equal([
+        path.join(dir, `leaderboard-${NETWORK}.json`),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { expect } from "chai";
+import { concat, dataSlice, getAddress, keccak256, toUtf8Bytes } from "ethers";
+import {
+  CREATEX_ADDRESS,
+  assertDeterministicConfig,
+  assertDeterministicPlan,
+  deriveDeterministicSalt,
+  predictDeterministicAddress,
+  predictPlanAddresses,
+} from "../../script/hardhat/helpers/deterministic";
+import { PLAN_ENTRIES } from "../../script/hardhat/config/plan";
+
+const DEPLOYER = "0x0000B06460777398083CB501793a4d6393900000";
+const OTHER = "0x532D4c80b14C7f50095E8E8FD69d9658b5F00371";
+const INIT_CODE = "0x6080604052348015600f57600080fd5b50";
+
+// Address formulas written out byte by byte, independent of the helper
+const create2 = (from: string, salt: string, initCodeHash: string) =>
+  getAddress(
+    dataSlice(keccak256(concat(["0xff", from, salt, initCodeHash])), 12)
+  );
+// rlp([from, 1]) for a 20-byte address and nonce 1
+const createNonce1 = (from: string) =>
+  getAddress(dataSlice(keccak256(concat(["0xd694", from, "0x01"])), 12));
+// CreateX _guard for a permissioned, cross-chain salt
+const guarded = (salt: string) =>
+  keccak256(concat([`0x${"00".repeat(12)}`, DEPLOYER, salt]));
+
+describe("Deterministic deployments", function () {
+  describe("salts", function () {
+    it("derives a permissioned cross-chain CreateX salt", function () {
+      const salt = deriveDeterministicSalt(DEPLOYER, "v1", "DustLock");
+      expect(dataSlice(salt, 0, 20)).to.equal(DEPLOYER.toLowerCase());
+      expect(dataSlice(salt, 20, 21)).to.equal("0x00");
+      expect(dataSlice(salt, 21)).to.equal(
+        dataSlice(keccak256(toUtf8Bytes("v1:DustLock")), 0, 11)
+      );
+    });
+
+    it("changes with the version, the name and the deployer", function () {
+      const salt = deriveDeterministicSalt(DEPLOYER, "v1", "DustLock");
+      expect(deriveDeterministicSalt(DEPLOYER, "v2", "DustLock")).to.not.equal(
+        salt
+      );
+      expect(deriveDeterministicSalt(DEPLOYER, "v1", "Dust")).to.not.equal(
+        salt
+      );
+      expect(deriveDeterministicSalt(OTHER, "v1", "DustLock")).to.not.equal(
+        salt
+      );
+    });
+  });
+
+  describe("address prediction", function () {
+    const salt = deriveDeterministicSalt(DEPLOYER, "v1", "DustLock");
+
+    it("predicts CREATE2 addresses from the guarded salt and init code", function () {
+      expect(
+        predictDeterministicAddress("create2", DEPLOYER, salt, INIT_CODE)
+      ).to.equal(create2(CREATEX_ADDRESS, guarded(salt), keccak256(INIT_CODE)));
+      expect(() =>
+        predictDeterministicAddress("create2", DEPLOYER, salt)
+      ).to.throw("need the init code");
+    });
+
+    it("predicts CREATE3 addresses from the guarded salt only", function () {
+      const proxy = create2(
+        CREATEX_ADDRESS,
+        guarded(salt),
+        keccak256("0x67363d3d37363d34f03d5260086018f3")
+      );
+      const expected = createNonce1(proxy);
+      expect(predictDeterministicAddress("create3", DEPLOYER, salt)).to.equal(
+        expected
+      );
+      expect(
+        predictDeterministicAddress("create3", DEPLOYER, salt, INIT_CODE)
+      ).to.equal(expected);
+    });
+  });
+
+  describe("assertDeterministicConfig", function () {
+    it("rejects unknown modes and missing versions", function () {
+      expect(() => assertDeterministicConfig({})).to.throw(
+        'Invalid deterministic mode "undefined"'
+      );
+      expect(() =>
+        assertDeterministicConfig({ mode: "create1" as any, version: "v1" })
+      ).to.throw("expected create2 or create3");
+      expect(() =>
+        assertDeterministicConfig({ mode: "create3", version: " " })
+      ).to.throw("needs a salt version");
+      expect(() =>
+        assertDeterministicConfig({ mode: "create3", version: "v1" })
+      ).to.not.throw();
+    });
+  });
+
+  describe("assertDeterministicPlan", function () {
+    it("refuses proxies whose initializer hands roles to msg.sender", function () {
+      const plan = {
+        name: "test",
+        entries: [PLAN_ENTRIES.Dust, PLAN_ENTRIES.DustLock],
+      };
+      expect(() => assertDeterministicPlan(plan)).to.throw(
+        "DustLock.initialize makes msg.sender its team and earlyWithdrawTreasury"
+      );
+      expect(() =>
+        assertDeterministicPlan(plan, new Set(["DustLock"]))
+      ).to.not.throw();
+    });
+  });
+
+  describe("predictPlanAddresses", function () {
+    it("predicts libraries, implementations, the ProxyAdmin and proxies with CREATE3", async function () {
+      const at = (name: string) =>
+        predictDeterministicAddress(
+          "create3",
+          DEPLOYER,
+          deriveDeterministicSalt(DEPLOYER, "v1", name)
+        );
+      const deployed = at("Dust.implementation");
+      const hre = {
+        ethers: {
+          provider: {
+            getCode: async (address: string) =>
+              address === deployed ? "0x6080" : "0x",
+          },
+        },
+      } as any;
+
+      const predictions = await predictPlanAddresses(
+        hre,
+        {
+          name: "test",
+          entries: [
+            PLAN_ENTRIES.Dust,
+            PLAN_ENTRIES.DustLock,
+            PLAN_ENTRIES.NeverlandUiProvider,
+          ],
+        },
+        {
+          config: {},
+          deterministic: { mode: "create3", version: "v1" },
+          deployer: DEPLOYER,
+          exclude: new Set(["NeverlandUiProvider"]),
+        }
+      );
+
+      expect(predictions).to.deep.equal([
+        {
+          contract: "Dust",
+          kind: "implementation",
+          address: deployed,
+          deployed: true,
+        },
+        {
+          contract: "ProxyAdmin",
+          kind: "proxyAdmin",
+          address: at("ProxyAdmin"),
+          deployed: false,
+        },
+        {
+          contract: "Dust",
+          kind: "proxy",
+          address: at("Dust"),
+          deployed: false,
+        },
+        {
+          contract: "BalanceLogicLibrary",
+          kind: "library",
+          address: at("BalanceLogicLibrary"),
+          deployed: false,
+        },
+        {
+          contract: "DustLock",
+          kind: "implementation",
+          address: at("DustLock.implementation"),
+          deployed: false,
+        },
+        {
+          contract: "DustLock",
+          kind: "proxy",
+          address: at("DustLock"),
+          deployed: false,
+        },
+      ]);
+    });
+  });
+});
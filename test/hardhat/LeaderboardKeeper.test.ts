@@ -0,0 +1,157 @@
+import fs from "fs";
+import { expect } from "chai";
+import { Interface, getAddress } from "ethers";
+import {
+  DEFAULT_TOLERANCE_BPS,
+  LeaderboardKeeperBot,
+  getKeeperStatePath,
+} from "../../script/hardhat/helpers/keeper";
+import {
+  createManifest,
+  getDeploymentsDir,
+  writeManifest,
+} from "../../script/hardhat/helpers/manifest";
+
+const NETWORK = `keeper-test-${process.pid}`;
+const KEEPER = "0x1111111111111111111111111111111111111111";
+const DUST_LOCK = "0x2222222222222222222222222222222222222222";
+const REGISTRY = "0x3333333333333333333333333333333333333333";
+const DECAYING = getAddress("0x000000000000000000000000000000000000a001");
+const STALE = getAddress("0x000000000000000000000000000000000000a002");
+const IDLE = getAddress("0x000000000000000000000000000000000000a003");
+
+const EPOCH_START = 1_700_006_400n;
+const YEAR = 365n * 86_400n;
+const e18 = 10n ** 18n;
+
+// Every view the bot reads, answered by the fake provider below
+const iface = new Interface([
+  "function dustLock() view returns (address)",
+  "function nftRegistry() view returns (address)",
+  "function lastSettlement(address user) view returns (uint256)",
+  "function getActivePartnerships() view returns (address[])",
+  "function balanceOf(address owner) view returns (uint256)",
+  "function ownerToNFTokenIdList(address owner, uint256 index) view returns (uint256)",
+  "function balanceOfNFT(uint256 tokenId) view returns (uint256)",
+]);
+
+/**
+ * Chain with one year-long veNFT per locking user; voting power decays
+ * linearly from the epoch start as `clock.now` moves
+ */
+const fakeChain = (clock: { now: bigint }) => {
+  const locks: Record<string, { tokenId: bigint; amount: bigint }> = {
+    [DECAYING]: { tokenId: 1n, amount: 2_000n * e18 },
+    [STALE]: { tokenId: 2n, amount: 5_000n * e18 },
+  };
+  const settled: Record<string, bigint> = {
+    [DECAYING]: EPOCH_START + 3_600n,
+    [STALE]: EPOCH_START - 3_600n,
+  };
+  const answer = (method: string, args: any[]): any[] => {
+    switch (method) {
+      case "dustLock":
+        return [DUST_LOCK];
+      case "nftRegistry":
+        return [REGISTRY];
+      case "lastSettlement":
+        return [settled[args[0]] ?? 0n];
+      case "getActivePartnerships":
+        return [[]];
+      case "balanceOf":
+        return [locks[args[0]] ? 1n : 0n];
+      case "ownerToNFTokenIdList":
+        return [locks[args[0]].tokenId];
+      case "balanceOfNFT": {
+        const lock = Object.values(locks).find((l) => l.tokenId === args[0])!;
+        const elapsed = clock.now - EPOCH_START;
+        return [lock.amount - (lock.amount * elapsed) / YEAR];
+      }
+    }
+    throw new Error(`Unexpected call to ${method}`);
+  };
+  return {
+    call: async (tx: { data: string }) => {
+      const parsed = iface.parseTransaction({ data: tx.data })!;
+      return iface.encodeFunctionResult(
+        parsed.fragment,
+        answer(parsed.name, [...parsed.args])
+      );
+    },
+  };
+};
+
+describe("Leaderboard keeper bot", function () {
+  const dir = getDeploymentsDir(NETWORK);
+  const clock = { now: EPOCH_START };
+  const hre = {
+    network: { name: NETWORK },
+    ethers: { provider: fakeChain(clock) },
+  } as any;
+
+  before(function () {
+    writeManifest({
+      ...createManifest(NETWORK, 31337),
+      contracts: { LeaderboardKeeper: { address: KEEPER, kind: "contract" } },
+    });
+    fs.writeFileSync(
+      getKeeperStatePath(NETWORK),
+      JSON.stringify({
+        version: 1,
+        network: NETWORK,
+        keeper: KEEPER,
+        nextBlock: 100,
+        users: {
+          [DECAYING]: {
+            votingPower: (2_000n * e18).toString(),
+            nftCollectionCount: "0",
+          },
+          [STALE]: {
+            votingPower: (5_000n * e18).toString(),
+            nftCollectionCount: "0",
+          },
+          [IDLE]: null,
+        },
+      })
+    );
+  });
+
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("unsettledSince", function () {
+    it("judges users by their last settlement, not their decayed voting power", async function () {
+      const bot = await LeaderboardKeeperBot.open(hre, null, {
+        dryRun: true,
+        toleranceBps: DEFAULT_TOLERANCE_BPS,
+        maxRetries: 1,
+        retryDelayMs: 0,
+        logChunkSize: 5_000,
+      });
+
+      // A day of decay drifts from the verified state
+      clock.now = EPOCH_START + 86_400n;
+      expect(await bot.unsettledSince(EPOCH_START)).to.deep.equal([STALE]);
+
+      // A month of decay (8%) is far past the keeper's tolerance
+      clock.now = EPOCH_START + 30n * 86_400n;
+      expect(await bot.unsettledSince(EPOCH_START)).to.deep.equal([STALE]);
+    });
+
+    it("uses the cached user list without scanning for new users", async function () {
+      const bot = await LeaderboardKeeperBot.open(hre, null, {
+        dryRun: true,
+        toleranceBps: DEFAULT_TOLERANCE_BPS,
+        maxRetries: 1,
+        retryDelayMs: 0,
+        logChunkSize: 5_000,
+      });
+      // The fake chain has no getBlockNumber or logs: a scan would throw
+      expect(await bot.unsettledSince(EPOCH_START + 7_200n)).to.deep.equal([
+        DECAYING,
+        STALE,
+      ]);
+    });
+  });
+});
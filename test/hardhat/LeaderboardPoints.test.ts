@@ -0,0 +1,129 @@
+import fs from "fs";
+import path from "path";
+import { expect } from "chai";
+import {
+  calculatePoints,
+  getCombinedMultiplier,
+  getNftMultiplier,
+  getVotingPowerMultiplier,
+  parsePointsConfig,
+  parseTimelineEvent,
+} from "../../script/hardhat/helpers/points";
+
+const GOLDEN_FILE = path.join(__dirname, "golden", "leaderboard-points.json");
+
+// Golden results hold amounts as decimal strings
+const toJson = (value: unknown) =>
+  JSON.parse(
+    JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v))
+  );
+
+// Golden cases only pin the fields their Solidity source asserts
+const pick = (value: Record<string, unknown>, like: Record<string, unknown>) =>
+  Object.fromEntries(Object.keys(like).map((key) => [key, value[key]]));
+
+describe("Leaderboard points calculator", function () {
+  describe("multipliers", function () {
+    const nft = { firstBonus: 1000n, decayRatio: 9000n };
+    const tiers = [
+      { minVotingPower: 0n, multiplierBps: 10_000n },
+      { minVotingPower: 1_000n * 10n ** 18n, multiplierBps: 11_000n },
+      { minVotingPower: 5_000n * 10n ** 18n, multiplierBps: 12_000n },
+    ];
+
+    it("stacks partner NFTs with firstBonus and decayRatio", function () {
+      // NFTPartnershipRegistry.t.sol: n=0 → 1.0x, n=1 → 1.1x, n=2 → 1.19x,
+      // n=3 → 1.271x
+      expect(getNftMultiplier(nft, 0n)).to.equal(10_000n);
+      expect(getNftMultiplier(nft, 1n)).to.equal(11_000n);
+      expect(getNftMultiplier(nft, 2n)).to.equal(11_900n);
+      expect(getNftMultiplier(nft, 3n)).to.equal(12_710n);
+      expect(
+        getNftMultiplier({ firstBonus: 2000n, decayRatio: 8500n }, 2n)
+      ).to.equal(13_700n);
+      expect(
+        getNftMultiplier({ firstBonus: 1000n, decayRatio: 0n }, 5n)
+      ).to.equal(11_000n);
+    });
+
+    it("picks the voting power tier like getMultiplierForVotingPower", function () {
+      // VotingPowerMultiplier.t.sol testGetMultiplierForVotingPower
+      const e18 = 10n ** 18n;
+      const solidityTiers = [
+        ...tiers,
+        { minVotingPower: 10_000n * e18, multiplierBps: 13_000n },
+      ];
+      for (const [vp, bps] of [
+        [0n, 10_000n],
+        [999n * e18, 10_000n],
+        [1_000n * e18, 11_000n],
+        [4_999n * e18, 11_000n],
+        [5_000n * e18, 12_000n],
+        [9_999n * e18, 12_000n],
+        [10_000n * e18, 13_000n],
+        [100_000n * e18, 13_000n],
+      ]) {
+        expect(getVotingPowerMultiplier(solidityTiers, vp)).to.equal(bps);
+      }
+
+      expect(getVotingPowerMultiplier(tiers, 0n)).to.equal(10_000n);
+      expect(getVotingPowerMultiplier(tiers, 3_000n * 10n ** 18n)).to.equal(
+        11_000n
+      );
+      expect(getVotingPowerMultiplier(tiers, 7_000n * 10n ** 18n)).to.equal(
+        12_000n
+      );
+      // removeTier swaps the last tier in: the scan runs in storage order
+      const swapped = [tiers[0], tiers[2], tiers[1]];
+      expect(getVotingPowerMultiplier(swapped, 7_000n * 10n ** 18n)).to.equal(
+        11_000n
+      );
+    });
+
+    it("combines NFT and voting power multipliers", function () {
+      // LeaderboardIntegration.t.sol: 1.1 * 1.1 and 1.19 * 1.2
+      expect(getCombinedMultiplier(11_000n, 11_000n)).to.equal(12_100n);
+      expect(getCombinedMultiplier(11_900n, 12_000n)).to.equal(14_280n);
+    });
+  });
+
+  describe("golden timelines", function () {
+    const { cases } = JSON.parse(fs.readFileSync(GOLDEN_FILE, "utf8"));
+
+    for (const golden of cases) {
+      it(golden.name, function () {
+        const result = toJson(
+          calculatePoints(
+            parsePointsConfig(golden.config),
+            golden.epochs,
+            golden.events.map(parseTimelineEvent)
+          )
+        );
+        const { epochs, ...totals } = golden.expected;
+        expect(
+          result.epochs.map((epoch: any, i: number) => pick(epoch, epochs[i])),
+          golden.source
+        ).to.deep.equal(epochs);
+        expect(pick(result, totals), golden.source).to.deep.equal(totals);
+      });
+    }
+
+    it("runs open epochs until the given time", function () {
+      // The 30-day case of testDeterministicPointCalculation, still running
+      const [golden] = cases;
+      const running = [{ ...golden.epochs[0], endTime: 0 }];
+      const events = golden.events.map(parseTimelineEvent);
+      const config = parsePointsConfig(golden.config);
+      expect(() => calculatePoints(config, running, events)).to.throw(
+        "still running"
+      );
+      const result = calculatePoints(
+        config,
+        running,
+        events,
+        golden.epochs[0].endTime
+      );
+      expect(result.total.toString()).to.equal(golden.expected.total);
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { expect } from "chai";
+import { Interface, getAddress, parseUnits } from "ethers";
+import {
+  LEADERBOARD_CONFIG_AWARDS_ABI,
+  dedupeAwards,
+  planAwardBatches,
+  readAwardsCsv,
+} from "../../script/hardhat/helpers/awards";
+import { AwardRow } from "../../script/hardhat/types/awards";
+
+const CONFIG = "0xdB11C48d7C4329B2939cAcD853e16e7eC626c32f";
+const OWNER = "0x0000B06460777398083CB501793a4d6393900000";
+const iface = new Interface(LEADERBOARD_CONFIG_AWARDS_ABI);
+
+const user = (i: number) =>
+  getAddress(`0x${(i + 1).toString(16).padStart(40, "0")}`);
+
+const row = (
+  i: number,
+  reason = "Galxe quest",
+  points = 10n ** 18n
+): AwardRow => ({
+  line: i + 1,
+  kind: "award",
+  address: user(i),
+  points,
+  reason,
+});
+
+/** Provider estimating `gas(rows in the call)` for batch calls */
+const fakeProvider = (gas: (rows: number) => bigint) =>
+  ({
+    estimateGas: async (tx: { from: string; to: string; data: string }) => {
+      expect(tx.from).to.equal(OWNER);
+      expect(tx.to).to.equal(CONFIG);
+      const { args } = iface.parseTransaction({ data: tx.data })!;
+      return gas(args.users.length);
+    },
+  }) as any;
+
+describe("Points awards", function () {
+  let dir: string;
+  const csv = (content: string) => {
+    const file = path.join(dir, "awards.csv");
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  before(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "awards-"));
+  });
+
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("readAwardsCsv", function () {
+    it("parses awards, removals and quoted reasons", function () {
+      const file = csv(
+        [
+          "address,points,reason",
+          `${user(0).toLowerCase()},1.5,Galxe quest`,
+          "",
+          `${user(1)},-20,"Sybil cleanup, wave ""2"""`,
+          `${user(2)},3,Bug bounty, critical`,
+        ].join("\r\n")
+      );
+      expect(readAwardsCsv(file)).to.deep.equal([
+        {
+          line: 2,
+          kind: "award",
+          address: user(0),
+          points: parseUnits("1.5", 18),
+          reason: "Galxe quest",
+        },
+        {
+          line: 4,
+          kind: "remove",
+          address: user(1),
+          points: parseUnits("20", 18),
+          reason: 'Sybil cleanup, wave "2"',
+        },
+        {
+          line: 5,
+          kind: "award",
+          address: user(2),
+          points: parseUnits("3", 18),
+          reason: "Bug bounty, critical",
+        },
+      ]);
+    });
+
+    it("lists every invalid line", function () {
+      const file = csv(
+        [
+          "0x1234,1,Quest",
+          "0x0000000000000000000000000000000000000000,1,Quest",
+          `${user(0)},ten,Quest`,
+          `${user(0)},0,Quest`,
+          `${user(0)},1,`,
+          `${user(0)},1.0000000000000000001,Quest`,
+        ].join("\n")
+      );
+      expect(() => readAwardsCsv(file)).to.throw(
+        [
+          `Invalid rows in ${file}:`,
+          '  line 1: invalid address "0x1234"',
+          '  line 2: invalid address "0x0000000000000000000000000000000000000000"',
+          '  line 3: invalid points "ten"',
+          "  line 4: zero points",
+          "  line 5: missing reason",
+          '  line 6: invalid points "1.0000000000000000001"',
+        ].join("\n")
+      );
+    });
+
+    it("requires the file", function () {
+      expect(() => readAwardsCsv(path.join(dir, "missing.csv"))).to.throw(
+        "CSV file not found"
+      );
+    });
+  });
+
+  describe("dedupeAwards", function () {
+    it("drops exact repeats", function () {
+      const rows = [row(0), row(1), { ...row(0), line: 3 }, row(0, "Other")];
+      expect(dedupeAwards(rows)).to.deep.equal({
+        rows: [row(0), row(1), row(0, "Other")],
+        duplicates: [{ ...row(0), line: 3 }],
+      });
+    });
+
+    it("keeps an award and a removal for the same reason apart", function () {
+      const removal: AwardRow = { ...row(0), line: 2, kind: "remove" };
+      expect(dedupeAwards([row(0), removal]).rows).to.have.length(2);
+    });
+
+    it("refuses conflicting amounts", function () {
+      expect(() =>
+        dedupeAwards([row(0), { ...row(0), line: 7, points: 2n }])
+      ).to.throw(`line 7 (${user(0)}, "Galxe quest") conflicts with line 1`);
+    });
+  });
+
+  describe("planAwardBatches", function () {
+    const sizes = (batches: Array<{ rows: AwardRow[] }>) =>
+      batches.map((b) => b.rows.length);
+
+    it("groups by kind and reason and sizes calls under the gas limit", async function () {
+      // 30k base + 25k per row; 90% of 200k leaves room for 6 rows
+      const gas = (n: number) => 30_000n + 25_000n * BigInt(n);
+      const rows = [
+        ...Array.from({ length: 14 }, (_, i) => row(i)),
+        row(20, "Bug bounty"),
+        { ...row(21), kind: "remove" as const },
+      ];
+      const batches = await planAwardBatches(
+        fakeProvider(gas),
+        CONFIG,
+        OWNER,
+        rows,
+        200_000n
+      );
+      expect(
+        batches.map((b) => [b.kind, b.reason, b.rows.length, b.gasEstimate])
+      ).to.deep.equal([
+        ["award", "Galxe quest", 6, gas(6)],
+        ["award", "Galxe quest", 6, gas(6)],
+        ["award", "Galxe quest", 2, gas(2)],
+        ["award", "Bug bounty", 1, gas(1)],
+        ["remove", "Galxe quest", 1, gas(1)],
+      ]);
+      expect(batches.flatMap((b) => b.rows)).to.deep.equal(rows);
+    });
+
+    it("halves calls the linear estimate got wrong", async function () {
+      // Per-row cost grows with the batch: 4 rows fit on paper, not on-chain
+      const gas = (n: number) =>
+        30_000n + 25_000n * BigInt(n) + 5_000n * BigInt(n * n);
+      const rows = Array.from({ length: 4 }, (_, i) => row(i));
+      const batches = await planAwardBatches(
+        fakeProvider(gas),
+        CONFIG,
+        OWNER,
+        rows,
+        200_000n
+      );
+      expect(sizes(batches)).to.deep.equal([2, 2]);
+      expect(batches.every((b) => b.gasEstimate <= 180_000n)).to.equal(true);
+    });
+
+    it("fails when a single row does not fit", async function () {
+      let error: Error | undefined;
+      try {
+        await planAwardBatches(
+          fakeProvider(() => 190_000n),
+          CONFIG,
+          OWNER,
+          [row(0)],
+          200_000n
+        );
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.equal(
+        'A single batchAwardPoints row for "Galxe quest" needs ~190000 gas, over the 200000 limit'
+      );
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { expect } from "chai";
+import {
+  compareLayouts,
+  formatLayoutReport,
+} from "../../script/hardhat/helpers/layout";
+import { StorageLayout } from "../../script/hardhat/types/layout";
+
+const TYPES: StorageLayout["types"] = {
+  t_uint256: { label: "uint256", numberOfBytes: "32" },
+  t_address: { label: "address", numberOfBytes: "20" },
+  t_bool: { label: "bool", numberOfBytes: "1" },
+  "t_array(t_uint256)50_storage": {
+    label: "uint256[50]",
+    numberOfBytes: "1600",
+  },
+  "t_array(t_uint256)49_storage": {
+    label: "uint256[49]",
+    numberOfBytes: "1568",
+  },
+};
+
+/** One variable per [label, type, slot, offset?] in contract DustLock */
+const layout = (
+  ...vars: Array<[string, string, number, number?]>
+): StorageLayout => ({
+  storage: vars.map(([label, type, slot, offset]) => ({
+    label,
+    type,
+    slot: slot.toString(),
+    offset: offset ?? 0,
+    contract: "DustLock",
+  })),
+  types: TYPES,
+});
+
+const toVar = (
+  item: StorageLayout["storage"][number]
+): [string, string, number, number] => [
+  item.label,
+  item.type,
+  Number(item.slot),
+  item.offset,
+];
+
+const BASE = layout(
+  ["team", "t_address", 0],
+  ["paused", "t_bool", 0, 20],
+  ["supply", "t_uint256", 1],
+  ["epoch", "t_uint256", 2]
+);
+
+const summary = (before: StorageLayout, after: StorageLayout) =>
+  compareLayouts(before, after).map(
+    (c) => `${c.kind}@${c.slot}.${c.offset}${c.breaking ? "!" : ""}`
+  );
+
+describe("Storage layout comparison", function () {
+  it("accepts an identical layout", function () {
+    expect(summary(BASE, BASE)).to.deep.equal([
+      "unchanged@0.0",
+      "unchanged@0.20",
+      "unchanged@1.0",
+      "unchanged@2.0",
+    ]);
+  });
+
+  it("accepts appended variables", function () {
+    const after = layout(...BASE.storage.map(toVar), [
+      "minLock",
+      "t_uint256",
+      3,
+    ]);
+    expect(summary(BASE, after)).to.include("added@3.0");
+    expect(compareLayouts(BASE, after).some((c) => c.breaking)).to.equal(false);
+  });
+
+  it("flags reordered variables", function () {
+    const after = layout(
+      ["team", "t_address", 0],
+      ["paused", "t_bool", 0, 20],
+      ["epoch", "t_uint256", 1],
+      ["supply", "t_uint256", 2]
+    );
+    expect(summary(BASE, after)).to.deep.equal([
+      "unchanged@0.0",
+      "unchanged@0.20",
+      "moved@1.0!",
+      "moved@2.0!",
+    ]);
+  });
+
+  it("flags retyped variables", function () {
+    const after = layout(
+      ["team", "t_address", 0],
+      ["paused", "t_bool", 0, 20],
+      ["supply", "t_address", 1],
+      ["epoch", "t_uint256", 2]
+    );
+    const retyped = compareLayouts(BASE, after).find(
+      (c) => c.kind === "retyped"
+    );
+    expect(retyped).to.deep.equal({
+      kind: "retyped",
+      slot: "1",
+      offset: 0,
+      before: "DustLock.supply: uint256",
+      after: "DustLock.supply: address",
+      breaking: true,
+    });
+  });
+
+  it("flags deleted variables", function () {
+    // Deleting the last variable leaves its slot unclaimed
+    const truncated = layout(...BASE.storage.slice(0, 3).map(toVar));
+    expect(summary(BASE, truncated)).to.include("removed@2.0!");
+
+    // Deleting one in the middle shifts every later variable up a slot
+    const shifted = layout(
+      ["team", "t_address", 0],
+      ["paused", "t_bool", 0, 20],
+      ["epoch", "t_uint256", 1]
+    );
+    expect(summary(BASE, shifted)).to.include("moved@2.0!");
+  });
+
+  it("accepts renamed variables of the same type", function () {
+    const after = layout(
+      ["team", "t_address", 0],
+      ["paused", "t_bool", 0, 20],
+      ["totalSupply", "t_uint256", 1],
+      ["epoch", "t_uint256", 2]
+    );
+    expect(summary(BASE, after)).to.include("renamed@1.0");
+  });
+
+  it("accepts variables carved out of the front of a __gap", function () {
+    const before = layout(...BASE.storage.map(toVar), [
+      "__gap",
+      "t_array(t_uint256)50_storage",
+      3,
+    ]);
+    const after = layout(
+      ...BASE.storage.map(toVar),
+      ["minLock", "t_uint256", 3],
+      ["__gap", "t_array(t_uint256)49_storage", 4]
+    );
+    expect(summary(before, after)).to.include.members([
+      "gap-resized@3.0",
+      "added@3.0",
+    ]);
+
+    // Forgetting to shrink the gap pushes it past its old end
+    const unshrunk = layout(
+      ...BASE.storage.map(toVar),
+      ["minLock", "t_uint256", 3],
+      ["__gap", "t_array(t_uint256)50_storage", 4]
+    );
+    expect(summary(before, unshrunk)).to.include("moved@3.0!");
+  });
+
+  it("summarizes breaking changes in the report", function () {
+    const after = layout(...BASE.storage.slice(0, 3).map(toVar));
+    const report = formatLayoutReport(
+      "DustLock",
+      "old",
+      "new",
+      compareLayouts(BASE, after)
+    );
+    expect(report).to.contain("❌ 1 breaking change(s)");
+    expect(report).to.contain(
+      "| 2 | 0 | DustLock.epoch: uint256 |  | ❌ removed |"
+    );
+    expect(
+      formatLayoutReport("DustLock", "old", "new", compareLayouts(BASE, BASE))
+    ).to.contain("✅ compatible");
+  });
+});
@@ -0,0 +1,135 @@
+import fs from "fs";
+import { expect } from "chai";
+import { Contract, Interface, ZeroHash } from "ethers";
+import {
+  TIMELOCK_ABI,
+  proposeTimelockCall,
+  readTimelockQueue,
+} from "../../script/hardhat/helpers/timelock";
+import { getDeploymentsDir } from "../../script/hardhat/helpers/manifest";
+
+const NETWORK = `timelock-test-${process.pid}`;
+const TIMELOCK = "0x1111111111111111111111111111111111111111";
+const TARGET = "0x2222222222222222222222222222222222222222";
+
+const iface = new Interface(TIMELOCK_ABI);
+
+/**
+ * TimelockController answering getTimestamp from `timestamps` (0 unset,
+ * 1 done, anything else an ETA); operations at or before `now` are ready
+ */
+const fakeTimelock = (timestamps: Record<string, bigint>, now: bigint) => ({
+  getNetwork: async () => ({ chainId: BigInt(31337) }),
+  call: async (tx: { data: string }) => {
+    const parsed = iface.parseTransaction({ data: tx.data })!;
+    const timestamp = (id: string) => timestamps[id] ?? BigInt(0);
+    let result: any;
+    if (parsed.name === "getMinDelay") result = BigInt(86_400);
+    else if (parsed.name === "getTimestamp") result = timestamp(parsed.args[0]);
+    else if (parsed.name === "isOperationReady") {
+      const ts = timestamp(parsed.args[0]);
+      result = ts > BigInt(1) && ts <= now;
+    } else throw new Error(`Unexpected call to ${parsed.name}`);
+    return iface.encodeFunctionResult(parsed.fragment, [result]);
+  },
+});
+
+describe("Timelock queue", function () {
+  const dir = getDeploymentsDir(NETWORK);
+  const now = BigInt(1_700_000_000);
+  let timestamps: Record<string, bigint>;
+  const hre = () =>
+    ({
+      network: {
+        name: NETWORK,
+        provider: {
+          send: async () => {
+            throw new Error("not hardhat");
+          },
+        },
+      },
+      ethers: { Contract, provider: fakeTimelock(timestamps, now) },
+    }) as any;
+  const propose = (data: string, predecessor?: string) =>
+    proposeTimelockCall(hre(), {
+      timelock: TIMELOCK,
+      target: TARGET,
+      data,
+      label: `call ${data}`,
+      predecessor,
+    });
+
+  beforeEach(function () {
+    timestamps = {};
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("predecessor", function () {
+    it("does not chain onto operations that were never scheduled", async function () {
+      await propose("0x01");
+      const second = await propose("0x02");
+      expect(second.predecessor).to.equal(ZeroHash);
+    });
+
+    it("chains onto the latest pending or ready operation", async function () {
+      const first = await propose("0x01");
+      const second = await propose("0x02");
+      timestamps[first.id] = now - BigInt(60);
+      const third = await propose("0x03");
+      expect(third.predecessor).to.equal(first.id);
+
+      timestamps[second.id] = now + BigInt(3_600);
+      const fourth = await propose("0x04");
+      expect(fourth.predecessor).to.equal(second.id);
+    });
+
+    it("does not chain onto executed operations", async function () {
+      const first = await propose("0x01");
+      timestamps[first.id] = BigInt(1);
+      expect((await propose("0x02")).predecessor).to.equal(ZeroHash);
+    });
+
+    it("takes an explicit predecessor over the queue", async function () {
+      const first = await propose("0x01");
+      timestamps[first.id] = now + BigInt(3_600);
+      expect((await propose("0x02", ZeroHash)).predecessor).to.equal(ZeroHash);
+      expect(readTimelockQueue(NETWORK)!.operations).to.have.length(2);
+    });
+
+    it("rejects a predecessor that is not an operation id", async function () {
+      let error: Error | undefined;
+      try {
+        await propose("0x01", "0x1234");
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.match(/is not an operation id/);
+    });
+  });
+
+  describe("re-proposing a call", function () {
+    it("returns the queued operation while it is not executed", async function () {
+      const first = await propose("0x01");
+      expect((await propose("0x01")).id).to.equal(first.id);
+      timestamps[first.id] = now + BigInt(3_600);
+      expect((await propose("0x01")).id).to.equal(first.id);
+      expect(readTimelockQueue(NETWORK)!.operations).to.have.length(1);
+    });
+
+    it("queues a new operation once the previous one executed", async function () {
+      const upgrade = await propose("0x01");
+      timestamps[upgrade.id] = BigInt(1);
+      const rollback = await propose("0x02");
+      timestamps[rollback.id] = BigInt(1);
+
+      const again = await propose("0x01");
+      expect(again.id).to.not.equal(upgrade.id);
+      expect(again.salt).to.not.equal(upgrade.salt);
+      expect(readTimelockQueue(NETWORK)!.operations).to.have.length(3);
+    });
+  });
+});
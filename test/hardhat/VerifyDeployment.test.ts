@@ -0,0 +1,85 @@
+import fs from "fs";
+import path from "path";
+import { expect } from "chai";
+import { HardhatContext } from "hardhat/internal/context";
+import {
+  createManifest,
+  getDeploymentsDir,
+  writeManifest,
+} from "../../script/hardhat/helpers/manifest";
+import {
+  custom,
+  registerInvariants,
+} from "../../script/hardhat/helpers/checks";
+
+const NETWORK = `verify-test-${process.pid}`;
+const PROBE = "0x1111111111111111111111111111111111111111";
+const DUST = "0xAD96C3dffCD6374294e2573A7fBBA96097CC8d7c";
+const OWNER = "0x0000B06460777398083CB501793a4d6393900000";
+
+// Tasks register against the Hardhat context; create one outside the CLI
+const context = HardhatContext.isCreated()
+  ? HardhatContext.getHardhatContext()
+  : HardhatContext.createHardhatContext();
+require("../../script/hardhat/verify.tasks");
+
+describe("verify:deployment", function () {
+  const dir = getDeploymentsDir(NETWORK);
+  const configPath = path.join(dir, "deploy.json");
+  const hre = {
+    network: { name: NETWORK, config: { chainId: 31337 } },
+    ethers: { provider: { getBlockNumber: async () => 1 } },
+  } as any;
+  let seen: Record<string, any> | undefined;
+
+  before(function () {
+    writeManifest({
+      ...createManifest(NETWORK, 31337),
+      contracts: {
+        Dust: { address: DUST, kind: "contract" },
+        Probe: { address: PROBE, kind: "contract" },
+      },
+    });
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        addresses: { Dust: "${addresses.Dust}" },
+        dust: { initialOwner: "${VERIFY_TEST_OWNER}" },
+      })
+    );
+    process.env.VERIFY_TEST_OWNER = OWNER;
+    registerInvariants(
+      custom("Probe", "sees the deploy config", async ({ configs }) => {
+        seen = configs.deploy;
+        return { status: "pass" };
+      })
+    );
+  });
+
+  after(function () {
+    delete process.env.VERIFY_TEST_OWNER;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("hands the checks a config with its references resolved", async function () {
+    const action = context.tasksDSL.getTaskDefinition(
+      undefined,
+      "verify:deployment"
+    )!.action;
+    await action(
+      {
+        deployConfig: configPath,
+        leaderboardConfig: path.join(dir, "missing.json"),
+        keeperConfig: path.join(dir, "missing.json"),
+        contracts: "Probe",
+        strict: false,
+      },
+      hre,
+      undefined as any
+    );
+    expect(seen).to.deep.equal({
+      addresses: { Dust: DUST },
+      dust: { initialOwner: OWNER },
+    });
+  });
+});